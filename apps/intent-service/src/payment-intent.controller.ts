@@ -27,6 +27,7 @@ export class PaymentIntentController {
       originalAmount: intent.originalAmount.toString(),
       discountAmount: intent.discountAmount.toString(),
       discountCode: intent.discountCode,
+      discountCampaignId: intent.discountCampaignId,
       provider: intent.provider,
       providerRef: intent.providerRef,
       currency: intent.currency,
@@ -1,25 +1,62 @@
 /**
  * Payment Intent Service Tests
  * 
- * Tests for invariant enforcement
+ * Tests for invariant enforcement, and discount codes checked and
+ * computed against their campaign, then reserved through settlement-service
  */
 
 import { PaymentIntentService } from './payment-intent.service';
 import { BadRequestException } from '@nestjs/common';
+import { DiscountCampaignStatus, DiscountKind, Prisma } from '@syntherium/db';
 
 describe('PaymentIntentService Invariants', () => {
   // Mock Prisma service
-  const mockPrisma = {
+  const mockPrisma: any = {
+    $transaction: jest.fn((callback) => callback(mockPrisma)),
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
     paymentIntent: {
       findUnique: jest.fn(),
       create: jest.fn(),
+      count: jest.fn(),
+    },
+    discountCampaign: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    order: {
+      findUnique: jest.fn(),
     },
   };
+  const fetchMock = jest.fn();
 
   let service: PaymentIntentService;
+  let campaign: any;
 
   beforeEach(() => {
     jest.clearAllMocks();
+    campaign = {
+      id: 'dc_1',
+      code: 'PROMO2024',
+      kind: DiscountKind.FIXED,
+      value: new Prisma.Decimal('2000'),
+      maxDiscount: null,
+      minOrderAmount: null,
+      currency: 'NGN',
+      perCustomerLimit: null,
+      usageLimit: null,
+      startsAt: new Date('2024-01-01T00:00:00Z'),
+      endsAt: null,
+      walletAccountId: 'CAMPAIGN_PROMO2024',
+      status: DiscountCampaignStatus.ACTIVE,
+    };
+    mockPrisma.discountCampaign.findUnique.mockImplementation(async () => campaign);
+    mockPrisma.discountCampaign.findUniqueOrThrow.mockImplementation(async () => campaign);
+    mockPrisma.paymentIntent.count.mockResolvedValue(0);
+    mockPrisma.order.findUnique.mockResolvedValue({ id: 'test-order', customerId: 'cust_1' });
+    fetchMock.mockResolvedValue({ ok: true, status: 200, json: async () => ({ holdId: 'hold_1' }) });
+    global.fetch = fetchMock as any;
+    mockPrisma.paymentIntent.create.mockImplementation(async ({ data }: any) => ({ id: 'pi_new', ...data }));
     service = new PaymentIntentService(mockPrisma as any);
   });
 
@@ -76,7 +113,156 @@ describe('PaymentIntentService Invariants', () => {
       });
 
       expect(result.id).toBe('pi_123');
-      expect(mockPrisma.paymentIntent.create).toHaveBeenCalled();
+      expect(mockPrisma.paymentIntent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          discountCode: 'PROMO2024',
+          discountCampaignId: 'dc_1',
+          discountAmount: new Prisma.Decimal('2000'),
+        }),
+      });
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:3003/v1/discount-campaigns/dc_1/reservations',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ reference: 'PAYMENT_test-order', amount: '2000' }),
+        }),
+      );
+    });
+
+    it('should leave something to pay when a discount would cover the whole order', async () => {
+      mockPrisma.paymentIntent.findUnique.mockResolvedValue(null);
+
+      const fixed = await service.create({
+        orderId: 'test-order',
+        originalAmount: '1500.0000',
+        discountCode: 'PROMO2024',
+        provider: 'flutterwave' as any,
+      });
+
+      expect(fixed.amount.toString()).toBe('0.01');
+      expect(fixed.discountAmount.toString()).toBe('1499.99');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).amount).toBe('1499.99');
+
+      Object.assign(campaign, { kind: DiscountKind.PERCENTAGE, value: new Prisma.Decimal('100') });
+      const percentage = await service.create({
+        orderId: 'test-order',
+        originalAmount: '5000.0000',
+        discountCode: 'PROMO2024',
+        provider: 'flutterwave' as any,
+      });
+
+      expect(percentage.amount.toString()).toBe('0.01');
+
+      await expect(
+        service.create({
+          orderId: 'test-order',
+          amount: '0',
+          originalAmount: '5000.0000',
+          discountCode: 'PROMO2024',
+          provider: 'flutterwave' as any,
+        })
+      ).rejects.toMatchObject({ response: expect.objectContaining({ code: 'DISCOUNT_AMOUNT_MISMATCH' }) });
+    });
+
+    it('should compute a percentage discount when amount is omitted', async () => {
+      mockPrisma.paymentIntent.findUnique.mockResolvedValue(null);
+      Object.assign(campaign, {
+        kind: DiscountKind.PERCENTAGE,
+        value: new Prisma.Decimal('15'),
+        maxDiscount: new Prisma.Decimal('1000'),
+      });
+
+      const result = await service.create({
+        orderId: 'test-order',
+        originalAmount: '5000.0000',
+        discountCode: 'promo2024',
+        provider: 'flutterwave' as any,
+      });
+
+      expect(result.amount.toString()).toBe('4250');
+      expect(result.discountAmount.toString()).toBe('750');
+
+      await service.create({
+        orderId: 'test-order',
+        originalAmount: '10000.0000',
+        discountCode: 'PROMO2024',
+        provider: 'flutterwave' as any,
+      });
+      expect(mockPrisma.paymentIntent.create.mock.calls[1][0].data.discountAmount.toString()).toBe('1000');
+    });
+
+    it('should reject an amount that does not match the campaign discount', async () => {
+      mockPrisma.paymentIntent.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          orderId: 'test-order',
+          amount: '5000.0000', // Campaign gives 2000 off, not 5000
+          originalAmount: '10000.0000',
+          discountCode: 'PROMO2024',
+          provider: 'flutterwave' as any,
+        })
+      ).rejects.toMatchObject({ response: expect.objectContaining({ code: 'DISCOUNT_AMOUNT_MISMATCH' }) });
+      expect(mockPrisma.paymentIntent.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject codes outside their window or below the minimum order', async () => {
+      mockPrisma.paymentIntent.findUnique.mockResolvedValue(null);
+      const withCode = { orderId: 'test-order', originalAmount: '10000.0000', discountCode: 'PROMO2024', provider: 'flutterwave' as any };
+
+      campaign.endsAt = new Date('2024-02-01T00:00:00Z');
+      await expect(service.create(withCode))
+        .rejects.toMatchObject({ response: expect.objectContaining({ code: 'DISCOUNT_CODE_NOT_ACTIVE' }) });
+
+      campaign.endsAt = null;
+      campaign.minOrderAmount = new Prisma.Decimal('20000');
+      await expect(service.create(withCode))
+        .rejects.toMatchObject({ response: expect.objectContaining({ code: 'DISCOUNT_MIN_ORDER_NOT_MET' }) });
+    });
+
+    it('should enforce per-customer limits and reserve no more than the remaining budget', async () => {
+      mockPrisma.paymentIntent.findUnique.mockResolvedValue(null);
+      const withCode = { orderId: 'test-order', originalAmount: '10000.0000', discountCode: 'PROMO2024', provider: 'flutterwave' as any };
+
+      campaign.perCustomerLimit = 1;
+      mockPrisma.paymentIntent.count.mockResolvedValue(1);
+      await expect(service.create(withCode))
+        .rejects.toMatchObject({ response: expect.objectContaining({ code: 'DISCOUNT_CUSTOMER_LIMIT_REACHED' }) });
+      expect(mockPrisma.paymentIntent.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ discountCampaignId: 'dc_1', order: { customerId: 'cust_1' } }),
+      });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      mockPrisma.paymentIntent.count.mockResolvedValue(0);
+      fetchMock.mockResolvedValue({
+        ok: false,
+        status: 409,
+        json: async () => ({
+          code: 'CAMPAIGN_BUDGET_EXHAUSTED',
+          message: 'The budget for discount code PROMO2024 cannot cover this discount',
+          details: { discountAmount: '2000', availableBalance: '1500' },
+        }),
+      });
+      await expect(service.create(withCode)).rejects.toMatchObject({
+        status: 409,
+        response: expect.objectContaining({
+          code: 'CAMPAIGN_BUDGET_EXHAUSTED',
+          details: expect.objectContaining({ discountAmount: '2000', availableBalance: '1500' }),
+        }),
+      });
+    });
+
+    it('should refuse the intent when settlement-service cannot reserve the discount', async () => {
+      mockPrisma.paymentIntent.findUnique.mockResolvedValue(null);
+      fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+      await expect(
+        service.create({ orderId: 'test-order', originalAmount: '10000.0000', discountCode: 'PROMO2024', provider: 'flutterwave' as any })
+      ).rejects.toMatchObject({
+        status: 503,
+        response: expect.objectContaining({ code: 'DISCOUNT_RESERVATION_UNAVAILABLE' }),
+      });
     });
 
     it('should accept valid intent without discount', async () => {
@@ -104,6 +290,7 @@ describe('PaymentIntentService Invariants', () => {
       });
 
       expect(result.id).toBe('pi_124');
+      expect(fetchMock).not.toHaveBeenCalled();
     });
 
     it('should reject zero amount', async () => {
@@ -3,19 +3,47 @@
  * 
  * CRITICAL: This service only creates/reads intents.
  * It does NOT write ledger entries.
+ *
+ * Discounts are computed here from the code's campaign, never taken from
+ * the client. Each discount is reserved on the campaign's budget wallet
+ * through settlement-service when the intent is created; settlement
+ * captures the reservation, and an unsettled intent's lapses.
  */
 
-import { Injectable, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
 import { PrismaService } from './prisma.service';
-import { PaymentProvider, PaymentIntentStatus, Prisma } from '@syntherium/db';
+import {
+  DiscountCampaign,
+  DiscountCampaignStatus,
+  DiscountKind,
+  PaymentProvider,
+  PaymentIntentStatus,
+  Prisma,
+} from '@syntherium/db';
 import { generatePaymentReference } from '@syntherium/idempotency';
 import { createLogger } from '@syntherium/observability';
 
 const logger = createLogger('payment-intent-service');
 
+/** A discount leaves at least this much to pay: providers cannot charge nothing */
+const MIN_PAYABLE_AMOUNT = new Prisma.Decimal('0.01');
+
+/** Payments that no longer hold a redemption of their code */
+const RELEASED_INTENT_STATUSES: PaymentIntentStatus[] = [
+  PaymentIntentStatus.FAILED,
+  PaymentIntentStatus.EXPIRED,
+];
+
 export interface CreatePaymentIntentDto {
   orderId: string;
-  amount: string;
+  /** What the customer pays; computed from originalAmount and discountCode when omitted */
+  amount?: string;
   originalAmount: string;
   discountCode?: string;
   provider: PaymentProvider;
@@ -23,6 +51,11 @@ export interface CreatePaymentIntentDto {
   metadata?: Record<string, unknown>;
 }
 
+interface AppliedDiscount {
+  campaign: DiscountCampaign | null;
+  discountAmount: Prisma.Decimal;
+}
+
 @Injectable()
 export class PaymentIntentService {
   constructor(private prisma: PrismaService) {}
@@ -34,14 +67,20 @@ export class PaymentIntentService {
    * - originalAmount >= amount
    * - discountAmount = originalAmount - amount
    * - If discountAmount > 0, discountCode is required
+   * - A discount code's discount is its campaign's, and the code passes
+   *   the campaign's rules (window, currency, minimum order, usage limits,
+   *   remaining budget)
    */
   async create(dto: CreatePaymentIntentDto) {
-    const amount = new Prisma.Decimal(dto.amount);
     const originalAmount = new Prisma.Decimal(dto.originalAmount);
-    const discountAmount = originalAmount.sub(amount);
+    const discountCode = dto.discountCode?.trim().toUpperCase() || undefined;
+    const currency = this.normalizeCurrency(dto.currency);
 
-    // Validate invariants
-    this.validateInvariants(amount, originalAmount, discountAmount, dto.discountCode);
+    // Without a code nothing is discounted; validate before any lookups
+    if (!discountCode) {
+      const amount = new Prisma.Decimal(dto.amount ?? dto.originalAmount);
+      this.validateInvariants(amount, originalAmount, originalAmount.sub(amount), discountCode);
+    }
 
     // Generate deterministic reference
     const reference = generatePaymentReference(dto.orderId);
@@ -59,28 +98,66 @@ export class PaymentIntentService {
       return existing;
     }
 
-    // Create new intent
-    const intent = await this.prisma.paymentIntent.create({
-      data: {
-        reference,
-        orderId: dto.orderId,
-        amount,
-        originalAmount,
-        discountAmount,
-        discountCode: dto.discountCode,
-        provider: dto.provider,
-        currency: dto.currency || 'NGN',
-        status: PaymentIntentStatus.PENDING,
-        metadata: dto.metadata as Prisma.JsonObject,
-      },
+    // The campaign is locked while its limits are checked, its budget
+    // reserved and the intent created, so concurrent intents cannot both
+    // take its last use
+    const intent = await this.prisma.$transaction(async (tx) => {
+      const { campaign, discountAmount }: AppliedDiscount = discountCode
+        ? await this.applyDiscountCode(tx, discountCode, dto.orderId, originalAmount, currency)
+        : { campaign: null, discountAmount: originalAmount.sub(dto.amount ?? dto.originalAmount) };
+      const amount = originalAmount.sub(discountAmount);
+
+      if (dto.amount !== undefined && !amount.equals(new Prisma.Decimal(dto.amount))) {
+        throw new BadRequestException({
+          code: 'DISCOUNT_AMOUNT_MISMATCH',
+          message: `Discount code ${discountCode} gives ${discountAmount.toString()} off, not what amount implies`,
+          details: {
+            amount: dto.amount,
+            expectedAmount: amount.toString(),
+            discountAmount: discountAmount.toString(),
+            discountCode,
+          },
+        });
+      }
+
+      this.validateInvariants(amount, originalAmount, discountAmount, discountCode);
+
+      const created = await tx.paymentIntent.create({
+        data: {
+          reference,
+          orderId: dto.orderId,
+          amount,
+          originalAmount,
+          discountAmount,
+          discountCode,
+          discountCampaignId: campaign?.id,
+          provider: dto.provider,
+          currency,
+          status: PaymentIntentStatus.PENDING,
+          metadata: dto.metadata as Prisma.JsonObject,
+        },
+      });
+
+      // Reserved last, so an intent refused above reserves nothing. If
+      // this transaction still fails, retrying the intent finds the same
+      // reservation (it is keyed by the reference) or it lapses.
+      if (campaign && discountAmount.greaterThan(0)) {
+        await this.reserveDiscount(campaign, reference, discountAmount);
+      }
+
+      return created;
+    }, {
+      timeout: 10000,
     });
 
     logger.info('Payment intent created', {
       id: intent.id,
       reference,
       orderId: dto.orderId,
-      amount: amount.toString(),
-      discountAmount: discountAmount.toString(),
+      amount: intent.amount.toString(),
+      currency,
+      discountAmount: intent.discountAmount.toString(),
+      discountCode,
     });
 
     return intent;
@@ -124,6 +201,208 @@ export class PaymentIntentService {
     return this.findByReference(reference);
   }
 
+  /**
+   * Checks a discount code against its campaign's rules and computes the
+   * discount on originalAmount. MUST be called within a transaction.
+   *
+   * @throws BadRequestException if the code does not apply to this order
+   * @throws ConflictException if the campaign's usage limits are spent
+   */
+  private async applyDiscountCode(
+    tx: Prisma.TransactionClient,
+    code: string,
+    orderId: string,
+    originalAmount: Prisma.Decimal,
+    currency: string,
+  ): Promise<AppliedDiscount> {
+    const found = await tx.discountCampaign.findUnique({ where: { code } });
+    if (!found) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CODE',
+        message: `Unknown discount code: ${code}`,
+        details: { discountCode: code },
+      });
+    }
+
+    await tx.$queryRaw`SELECT id FROM discount_campaigns WHERE id = ${found.id} FOR UPDATE`;
+    const campaign = await tx.discountCampaign.findUniqueOrThrow({ where: { id: found.id } });
+
+    const now = new Date();
+    if (
+      campaign.status !== DiscountCampaignStatus.ACTIVE ||
+      now < campaign.startsAt ||
+      (campaign.endsAt && now >= campaign.endsAt)
+    ) {
+      throw new BadRequestException({
+        code: 'DISCOUNT_CODE_NOT_ACTIVE',
+        message: `Discount code ${code} is not active`,
+        details: {
+          discountCode: code,
+          status: campaign.status,
+          startsAt: campaign.startsAt.toISOString(),
+          endsAt: campaign.endsAt?.toISOString() ?? null,
+        },
+      });
+    }
+
+    if (campaign.currency !== currency) {
+      throw new BadRequestException({
+        code: 'DISCOUNT_CURRENCY_MISMATCH',
+        message: `Discount code ${code} applies to ${campaign.currency} orders only`,
+        details: { discountCode: code, campaignCurrency: campaign.currency, currency },
+      });
+    }
+
+    if (campaign.minOrderAmount && originalAmount.lessThan(campaign.minOrderAmount)) {
+      throw new BadRequestException({
+        code: 'DISCOUNT_MIN_ORDER_NOT_MET',
+        message: `Discount code ${code} needs an order of at least ${campaign.minOrderAmount.toString()}`,
+        details: {
+          discountCode: code,
+          minOrderAmount: campaign.minOrderAmount.toString(),
+          originalAmount: originalAmount.toString(),
+        },
+      });
+    }
+
+    const redeemed = { discountCampaignId: campaign.id, status: { notIn: RELEASED_INTENT_STATUSES } };
+
+    if (campaign.usageLimit !== null) {
+      const used = await tx.paymentIntent.count({ where: redeemed });
+      if (used >= campaign.usageLimit) {
+        throw new ConflictException({
+          code: 'DISCOUNT_USAGE_LIMIT_REACHED',
+          message: `Discount code ${code} has been used up`,
+          details: { discountCode: code, usageLimit: campaign.usageLimit },
+        });
+      }
+    }
+
+    if (campaign.perCustomerLimit !== null) {
+      const order = await tx.order.findUnique({ where: { id: orderId } });
+      if (!order) {
+        throw new NotFoundException({
+          code: 'ORDER_NOT_FOUND',
+          message: `Order not found: ${orderId}`,
+        });
+      }
+
+      const used = await tx.paymentIntent.count({
+        where: { ...redeemed, order: { customerId: order.customerId } },
+      });
+      if (used >= campaign.perCustomerLimit) {
+        throw new ConflictException({
+          code: 'DISCOUNT_CUSTOMER_LIMIT_REACHED',
+          message: `Discount code ${code} has been used the maximum number of times by this customer`,
+          details: { discountCode: code, perCustomerLimit: campaign.perCustomerLimit },
+        });
+      }
+    }
+
+    return { campaign, discountAmount: this.computeDiscount(campaign, originalAmount) };
+  }
+
+  /**
+   * Reserves the discount on the campaign's budget wallet through
+   * settlement-service, which alone writes to the ledger. Refusals come
+   * back as the same error they were refused with.
+   *
+   * @throws ConflictException CAMPAIGN_BUDGET_EXHAUSTED if the budget's
+   *   available balance cannot cover the discount
+   * @throws ServiceUnavailableException if settlement-service cannot be reached
+   */
+  private async reserveDiscount(
+    campaign: DiscountCampaign,
+    reference: string,
+    discountAmount: Prisma.Decimal,
+  ): Promise<void> {
+    const baseUrl = process.env.SETTLEMENT_SERVICE_URL || 'http://localhost:3003/v1';
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/discount-campaigns/${encodeURIComponent(campaign.id)}/reservations`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': process.env.SETTLEMENT_SERVICE_API_KEY || '',
+        },
+        body: JSON.stringify({ reference, amount: discountAmount.toString() }),
+      });
+    } catch (error) {
+      logger.error('Discount reservation request failed', error instanceof Error ? error : undefined, {
+        reference,
+        discountCode: campaign.code,
+      });
+      throw this.reservationUnavailable(campaign, reference);
+    }
+
+    if (response.ok) {
+      return;
+    }
+
+    const body = (await response.json().catch(() => null)) as
+      { code?: string; message?: string; details?: Record<string, unknown> } | null;
+    const error = { code: body?.code, message: body?.message, details: body?.details };
+    if (response.status === 409) {
+      throw new ConflictException(error);
+    }
+    if (response.status === 400) {
+      throw new BadRequestException(error);
+    }
+
+    logger.warn('Discount reservation rejected', {
+      reference,
+      discountCode: campaign.code,
+      status: response.status,
+      code: body?.code,
+      message: body?.message,
+    });
+    throw this.reservationUnavailable(campaign, reference);
+  }
+
+  private reservationUnavailable(campaign: DiscountCampaign, reference: string): ServiceUnavailableException {
+    return new ServiceUnavailableException({
+      code: 'DISCOUNT_RESERVATION_UNAVAILABLE',
+      message: `Could not reserve the discount for code ${campaign.code}; try again`,
+      details: { discountCode: campaign.code, reference },
+    });
+  }
+
+  /**
+   * PERCENTAGE: originalAmount * value / 100, capped at maxDiscount.
+   * FIXED: value. Amounts round half-even to 4 places, like fees. Either
+   * way the discount leaves MIN_PAYABLE_AMOUNT to pay, so every intent
+   * is charged and settles.
+   */
+  private computeDiscount(campaign: DiscountCampaign, originalAmount: Prisma.Decimal): Prisma.Decimal {
+    let discount = campaign.kind === DiscountKind.FIXED
+      ? campaign.value
+      : originalAmount.mul(campaign.value).div(100).toDecimalPlaces(4, Prisma.Decimal.ROUND_HALF_EVEN);
+    if (campaign.kind === DiscountKind.PERCENTAGE && campaign.maxDiscount && discount.greaterThan(campaign.maxDiscount)) {
+      discount = campaign.maxDiscount;
+    }
+
+    return Prisma.Decimal.max(Prisma.Decimal.min(discount, originalAmount.sub(MIN_PAYABLE_AMOUNT)), 0);
+  }
+
+  /**
+   * Normalizes an ISO 4217 currency code (default NGN).
+   * Non-NGN payments are converted into NGN escrow at settlement.
+   */
+  private normalizeCurrency(currency?: string): string {
+    const code = (currency || 'NGN').toUpperCase();
+
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new BadRequestException({
+        code: 'INVALID_CURRENCY',
+        message: 'currency must be a three-letter ISO 4217 code',
+        details: { currency },
+      });
+    }
+
+    return code;
+  }
+
   /**
    * Validates payment intent invariants.
    * 
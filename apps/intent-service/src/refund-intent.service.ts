@@ -2,12 +2,20 @@
  * Refund Intent Service
  * 
  * CRITICAL: This service only creates/reads refund intents.
- * It does NOT write ledger entries.
+ * It does NOT write ledger entries; settlement-service pays refunds
+ * and moves them to SETTLED.
  */
 
 import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
-import { RefundIntentStatus, RefundReason, PaymentIntentStatus, Prisma } from '@syntherium/db';
+import {
+  RefundIntentStatus,
+  RefundReason,
+  PaymentIntentStatus,
+  AccountStatus,
+  SystemAccounts,
+  Prisma,
+} from '@syntherium/db';
 import { generateRefundReference } from '@syntherium/idempotency';
 import { createLogger } from '@syntherium/observability';
 
@@ -47,8 +55,11 @@ export class RefundIntentService {
       throw new NotFoundException(`Payment intent not found: ${dto.paymentIntentId}`);
     }
 
-    // Can only refund settled payments
-    if (paymentIntent.status !== PaymentIntentStatus.SETTLED) {
+    // Can only refund settled payments (including partially refunded ones)
+    if (
+      paymentIntent.status !== PaymentIntentStatus.SETTLED &&
+      paymentIntent.status !== PaymentIntentStatus.PARTIALLY_REFUNDED
+    ) {
       throw new BadRequestException({
         code: 'PAYMENT_NOT_SETTLED',
         message: 'Can only refund settled payments',
@@ -84,6 +95,20 @@ export class RefundIntentService {
       });
     }
 
+    // Refunds are paid out of escrow; don't accept new ones while it is
+    // frozen or closed (settlement would refuse the debit anyway)
+    const escrow = await this.prisma.ledgerAccount.findUnique({
+      where: { accountId: SystemAccounts.PLATFORM_ESCROW },
+    });
+
+    if (escrow && escrow.status !== AccountStatus.ACTIVE) {
+      throw new BadRequestException({
+        code: escrow.status === AccountStatus.CLOSED ? 'ACCOUNT_CLOSED' : 'ACCOUNT_FROZEN',
+        message: 'Refunds are suspended while the escrow account is not active',
+        details: { accountId: escrow.accountId, status: escrow.status, reason: escrow.statusReason },
+      });
+    }
+
     // Generate reference
     const sequence = existingRefunds.length + 1;
     const reference = generateRefundReference(dto.paymentIntentId, sequence);
@@ -2,10 +2,11 @@ import { Module } from '@nestjs/common';
 import { HealthController } from './health.controller';
 import { LedgerController } from './ledger.controller';
 import { LedgerQueryService } from './ledger-query.service';
+import { LedgerReportService } from './ledger-report.service';
 import { PrismaService } from './prisma.service';
 
 @Module({
   controllers: [HealthController, LedgerController],
-  providers: [PrismaService, LedgerQueryService],
+  providers: [PrismaService, LedgerQueryService, LedgerReportService],
 })
 export class AppModule {}
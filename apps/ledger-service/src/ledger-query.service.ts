@@ -5,16 +5,32 @@
  * This service does NOT write entries.
  */
 
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
-import { verifyChain, VerifyChainResult } from '@syntherium/ledger-core';
-import { LedgerEntryType, Prisma } from '@syntherium/db';
+import {
+  verifyChain,
+  getBalance,
+  getBalanceAsOf,
+  getBalanceAtSeq,
+  getBalanceSeries,
+  getCheckpoint,
+  buildInclusionProof,
+  LedgerError,
+  VerifyChainResult,
+  InclusionProof,
+  HistoricalBalance,
+  BalanceInterval,
+} from '@syntherium/ledger-core';
+import { LedgerEntryType, Prisma, WalletHoldStatus } from '@syntherium/db';
 
 export interface LedgerEntryQuery {
   accountId?: string;
   reference?: string;
   orderId?: string;
+  journalId?: string;
   entryType?: LedgerEntryType;
+  /** true: only entries a reversal has undone; false: only effective ones */
+  reversed?: boolean;
   fromDate?: Date;
   toDate?: Date;
   page?: number;
@@ -27,15 +43,20 @@ export class LedgerQueryService {
 
   /**
    * Queries ledger entries with filtering and pagination.
+   *
+   * Each entry carries its reversal links both ways: reversesEntryId on a
+   * reversal, reversedByEntryId on the entry it undid.
    */
   async getEntries(query: LedgerEntryQuery) {
-    const { accountId, reference, orderId, entryType, fromDate, toDate, page = 1, limit = 20 } = query;
+    const { accountId, reference, orderId, journalId, entryType, reversed, fromDate, toDate, page = 1, limit = 20 } = query;
 
     const where: Prisma.LedgerEntryWhereInput = {
       ...(accountId && { accountId }),
       ...(reference && { reference: { contains: reference } }),
       ...(orderId && { orderId }),
+      ...(journalId && { journalId }),
       ...(entryType && { entryType }),
+      ...(reversed !== undefined && { reversedBy: reversed ? { isNot: null } : { is: null } }),
       ...(fromDate || toDate) && {
         createdAt: {
           ...(fromDate && { gte: fromDate }),
@@ -50,6 +71,7 @@ export class LedgerQueryService {
         orderBy: { createdAt: 'desc' },
         skip: (page - 1) * limit,
         take: limit,
+        include: { reversedBy: { select: { id: true } } },
       }),
       this.prisma.ledgerEntry.count({ where }),
     ]);
@@ -67,22 +89,130 @@ export class LedgerQueryService {
 
   /**
    * Gets wallet balance from cache.
+   *
+   * balance is the ledger balance (sum of posted entries); availableBalance
+   * is what debits can spend after subtracting active holds.
    */
   async getWalletBalance(accountId: string) {
-    const balance = await this.prisma.walletBalanceCache.findUnique({
-      where: { accountId },
-    });
+    const balance = await getBalance(this.prisma, accountId);
 
     if (!balance) {
       throw new NotFoundException(`Wallet not found: ${accountId}`);
     }
 
     return {
-      accountId: balance.accountId,
+      accountId,
       balance: balance.balance.toString(),
+      heldAmount: balance.heldAmount.toString(),
+      availableBalance: balance.availableBalance.toString(),
       currency: balance.currency,
       lastEntrySeq: balance.lastEntrySeq,
       lastUpdatedAt: balance.lastUpdatedAt.toISOString(),
+      status: balance.status,
+      // Why nothing can be spent right now (frozen or closed), if so
+      unavailable: balance.unavailable && {
+        code: balance.unavailable.code,
+        message: balance.unavailable.message,
+        reason: balance.unavailable.details.reason,
+        since: balance.unavailable.details.since,
+      },
+    };
+  }
+
+  /**
+   * Gets a wallet's balance at a past timestamp or right after a given
+   * walletSeq, built from the nearest daily snapshot.
+   */
+  async getHistoricalBalance(accountId: string, query: { asOf?: Date; walletSeq?: number }) {
+    const { asOf, walletSeq } = query;
+
+    if ((asOf === undefined) === (walletSeq === undefined)) {
+      throw new BadRequestException({
+        code: 'INVALID_QUERY',
+        message: 'Provide exactly one of asOf or walletSeq',
+      });
+    }
+
+    const balance = await this.mapLedgerErrors(() =>
+      asOf !== undefined
+        ? getBalanceAsOf(this.prisma, accountId, asOf)
+        : getBalanceAtSeq(this.prisma, accountId, walletSeq!)
+    );
+
+    return {
+      ...this.formatHistoricalBalance(balance),
+      asOf: asOf?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Gets closing balances per day or week between two dates.
+   */
+  async getBalanceSeries(accountId: string, query: { from: Date; to: Date; interval: BalanceInterval }) {
+    const series = await this.mapLedgerErrors(() => getBalanceSeries(this.prisma, accountId, query));
+
+    return {
+      accountId: series.accountId,
+      currency: series.currency,
+      interval: series.interval,
+      points: series.points.map((p) => ({
+        periodStart: p.periodStart.toISOString(),
+        periodEnd: p.periodEnd.toISOString(),
+        openingBalance: p.openingBalance.toString(),
+        closingBalance: p.closingBalance.toString(),
+      })),
+    };
+  }
+
+  /**
+   * Lists holds placed on a wallet, newest first.
+   */
+  async getWalletHolds(accountId: string, status?: WalletHoldStatus, page = 1, limit = 20) {
+    const wallet = await this.prisma.walletBalanceCache.findUnique({
+      where: { accountId },
+      select: { accountId: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException(`Wallet not found: ${accountId}`);
+    }
+
+    const where: Prisma.WalletHoldWhereInput = {
+      accountId,
+      ...(status && { status }),
+    };
+
+    const [holds, total] = await Promise.all([
+      this.prisma.walletHold.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.walletHold.count({ where }),
+    ]);
+
+    return {
+      data: holds.map((h) => ({
+        id: h.id,
+        accountId: h.accountId,
+        reference: h.reference,
+        amount: h.amount.toString(),
+        currency: h.currency,
+        reason: h.reason,
+        status: h.status,
+        expiresAt: h.expiresAt?.toISOString() ?? null,
+        capturedAmount: h.capturedAmount?.toString() ?? null,
+        capturedJournalId: h.capturedJournalId,
+        resolvedAt: h.resolvedAt?.toISOString() ?? null,
+        createdAt: h.createdAt.toISOString(),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore: page * limit < total,
+      },
     };
   }
 
@@ -93,6 +223,76 @@ export class LedgerQueryService {
     return verifyChain(this.prisma, accountId, fromSeq, toSeq);
   }
 
+  /**
+   * Gets a signed checkpoint (latest when no ID is given) with its
+   * account heads and the public key needed to verify it offline.
+   */
+  async getCheckpoint(checkpointId?: string) {
+    const checkpoint = await getCheckpoint(this.prisma, checkpointId);
+
+    if (!checkpoint) {
+      throw new NotFoundException(
+        checkpointId ? `Checkpoint not found: ${checkpointId}` : 'No checkpoints have been taken yet'
+      );
+    }
+
+    return {
+      ...checkpoint,
+      publicKey: this.getCheckpointPublicKey(),
+    };
+  }
+
+  /**
+   * Builds a Merkle inclusion proof for one entry against a checkpoint
+   * (latest by default). The proof verifies offline with
+   * verifyInclusionProof and the platform's checkpoint public key, which
+   * verifiers configure themselves; it is deliberately not part of the
+   * proof, or a forged proof could carry its own key.
+   */
+  async getEntryProof(entryId: string, checkpointId?: string): Promise<InclusionProof> {
+    try {
+      return await buildInclusionProof(this.prisma, entryId, checkpointId);
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        const body = { code: error.code, message: error.message, details: error.details };
+        if (error.code === 'ENTRY_NOT_FOUND' || error.code === 'CHECKPOINT_NOT_FOUND') {
+          throw new NotFoundException(body);
+        }
+        throw new ConflictException(body);
+      }
+      throw error;
+    }
+  }
+
+  private async mapLedgerErrors<T>(query: () => Promise<T>): Promise<T> {
+    try {
+      return await query();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        const body = { code: error.code, message: error.message, details: error.details };
+        if (error.code === 'WALLET_NOT_FOUND') {
+          throw new NotFoundException(body);
+        }
+        throw new BadRequestException(body);
+      }
+      throw error;
+    }
+  }
+
+  private formatHistoricalBalance(balance: HistoricalBalance) {
+    return {
+      accountId: balance.accountId,
+      balance: balance.balance.toString(),
+      currency: balance.currency,
+      lastEntrySeq: balance.lastEntrySeq,
+      snapshotAt: balance.snapshotAt?.toISOString() ?? null,
+    };
+  }
+
+  private getCheckpointPublicKey(): string | null {
+    return process.env.LEDGER_CHECKPOINT_PUBLIC_KEY?.replace(/\\n/g, '\n') ?? null;
+  }
+
   private formatEntry(entry: any) {
     return {
       id: entry.id,
@@ -100,9 +300,13 @@ export class LedgerQueryService {
       walletSeq: entry.walletSeq,
       reference: entry.reference,
       orderId: entry.orderId,
+      journalId: entry.journalId,
       entryType: entry.entryType,
       amount: entry.amount.toString(),
+      currency: entry.currency,
       description: entry.description,
+      reversesEntryId: entry.reversesEntryId,
+      reversedByEntryId: entry.reversedBy?.id ?? null,
       prevHash: entry.prevHash,
       entryHash: entry.entryHash,
       createdAt: entry.createdAt.toISOString(),
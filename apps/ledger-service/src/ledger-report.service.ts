@@ -0,0 +1,173 @@
+/**
+ * Ledger Report Service
+ *
+ * Trial balance, general ledger and escrow roll-forward reports for
+ * finance, as JSON or CSV. Read-only, like every ledger-service query.
+ */
+
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import {
+  getTrialBalance,
+  getGeneralLedger,
+  getEscrowRollForward,
+  LedgerError,
+  ReportPeriod,
+} from '@syntherium/ledger-core';
+
+export type ReportFormat = 'json' | 'csv';
+
+@Injectable()
+export class LedgerReportService {
+  constructor(private prisma: PrismaService) {}
+
+  async getTrialBalance(period: ReportPeriod, currency?: string) {
+    const report = await this.mapLedgerErrors(() => getTrialBalance(this.prisma, { ...period, currency }));
+
+    return {
+      from: report.from.toISOString(),
+      to: report.to.toISOString(),
+      balanced: report.balanced,
+      rows: report.rows.map((row) => ({
+        accountId: row.accountId,
+        description: row.description,
+        group: row.group,
+        currency: row.currency,
+        openingBalance: row.openingBalance.toFixed(4),
+        debits: row.debits.toFixed(4),
+        credits: row.credits.toFixed(4),
+        closingBalance: row.closingBalance.toFixed(4),
+        debitBalance: row.closingBalance.isNegative() ? row.closingBalance.negated().toFixed(4) : '0.0000',
+        creditBalance: row.closingBalance.isNegative() ? '0.0000' : row.closingBalance.toFixed(4),
+      })),
+      groups: report.groups.map((group) => ({
+        group: group.group,
+        currency: group.currency,
+        openingBalance: group.openingBalance.toFixed(4),
+        debits: group.debits.toFixed(4),
+        credits: group.credits.toFixed(4),
+        closingBalance: group.closingBalance.toFixed(4),
+      })),
+      totals: report.totals.map((total) => ({
+        currency: total.currency,
+        debits: total.debits.toFixed(4),
+        credits: total.credits.toFixed(4),
+        debitBalances: total.debitBalances.toFixed(4),
+        creditBalances: total.creditBalances.toFixed(4),
+        balanced: total.balanced,
+      })),
+    };
+  }
+
+  async getGeneralLedger(accountId: string, period: ReportPeriod) {
+    const report = await this.mapLedgerErrors(() => getGeneralLedger(this.prisma, accountId, period));
+
+    return {
+      accountId: report.accountId,
+      description: report.description,
+      group: report.group,
+      currency: report.currency,
+      from: report.from.toISOString(),
+      to: report.to.toISOString(),
+      openingBalance: report.openingBalance.toFixed(4),
+      debits: report.debits.toFixed(4),
+      credits: report.credits.toFixed(4),
+      closingBalance: report.closingBalance.toFixed(4),
+      lines: report.lines.map((line) => ({
+        entryId: line.entryId,
+        walletSeq: line.walletSeq,
+        createdAt: line.createdAt.toISOString(),
+        reference: line.reference,
+        journalId: line.journalId,
+        description: line.description,
+        entryType: line.entryType,
+        amount: line.amount.toFixed(4),
+        reversesEntryId: line.reversesEntryId,
+        balance: line.balance.toFixed(4),
+      })),
+    };
+  }
+
+  async getEscrowRollForward(period: ReportPeriod, accountId?: string) {
+    const report = await this.mapLedgerErrors(() => getEscrowRollForward(this.prisma, { ...period, accountId }));
+
+    return {
+      accountId: report.accountId,
+      currency: report.currency,
+      from: report.from.toISOString(),
+      to: report.to.toISOString(),
+      openingBalance: report.openingBalance.toFixed(4),
+      receipts: report.receipts.toFixed(4),
+      releases: report.releases.toFixed(4),
+      refunds: report.refunds.toFixed(4),
+      adjustments: report.adjustments.toFixed(4),
+      closingBalance: report.closingBalance.toFixed(4),
+      reconciles: report.reconciles,
+    };
+  }
+
+  trialBalanceCsv(report: Awaited<ReturnType<LedgerReportService['getTrialBalance']>>): string {
+    const rows: unknown[][] = [
+      ['group', 'accountId', 'description', 'currency', 'openingBalance', 'debits', 'credits', 'closingBalance', 'debitBalance', 'creditBalance'],
+      ...report.rows.map((r) => [
+        r.group, r.accountId, r.description, r.currency, r.openingBalance,
+        r.debits, r.credits, r.closingBalance, r.debitBalance, r.creditBalance,
+      ]),
+      ...report.totals.map((t) => [
+        'TOTAL', '', t.balanced ? 'Balanced' : 'OUT OF BALANCE', t.currency, '',
+        t.debits, t.credits, '', t.debitBalances, t.creditBalances,
+      ]),
+    ];
+    return toCsv(rows);
+  }
+
+  generalLedgerCsv(report: Awaited<ReturnType<LedgerReportService['getGeneralLedger']>>): string {
+    const rows: unknown[][] = [
+      ['walletSeq', 'createdAt', 'reference', 'journalId', 'description', 'debit', 'credit', 'balance', 'reversesEntryId'],
+      ['', report.from, '', '', 'Opening balance', '', '', report.openingBalance, ''],
+      ...report.lines.map((l) => [
+        l.walletSeq, l.createdAt, l.reference, l.journalId, l.description,
+        l.entryType === 'DEBIT' ? l.amount : '', l.entryType === 'CREDIT' ? l.amount : '',
+        l.balance, l.reversesEntryId,
+      ]),
+      ['', report.to, '', '', 'Closing balance', report.debits, report.credits, report.closingBalance, ''],
+    ];
+    return toCsv(rows);
+  }
+
+  escrowRollForwardCsv(report: Awaited<ReturnType<LedgerReportService['getEscrowRollForward']>>): string {
+    return toCsv([
+      ['line', 'amount', 'currency'],
+      ['Opening balance', report.openingBalance, report.currency],
+      ['Receipts', report.receipts, report.currency],
+      ['Releases', report.releases, report.currency],
+      ['Refunds', report.refunds, report.currency],
+      ['Adjustments', report.adjustments, report.currency],
+      ['Closing balance', report.closingBalance, report.currency],
+    ]);
+  }
+
+  private async mapLedgerErrors<T>(query: () => Promise<T>): Promise<T> {
+    try {
+      return await query();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        const body = { code: error.code, message: error.message, details: error.details };
+        if (error.code === 'ACCOUNT_NOT_FOUND') {
+          throw new NotFoundException(body);
+        }
+        throw new BadRequestException(body);
+      }
+      throw error;
+    }
+  }
+}
+
+function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
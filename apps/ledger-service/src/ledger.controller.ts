@@ -1,17 +1,24 @@
-import { Controller, Get, Post, Param, Query, Body } from '@nestjs/common';
+import { Controller, Get, Post, Param, Query, Body, BadRequestException, StreamableFile } from '@nestjs/common';
 import { LedgerQueryService, LedgerEntryQuery } from './ledger-query.service';
-import { LedgerEntryType } from '@syntherium/db';
+import { LedgerReportService, ReportFormat } from './ledger-report.service';
+import { LedgerEntryType, WalletHoldStatus } from '@syntherium/db';
+import { ReportPeriod } from '@syntherium/ledger-core';
 
 @Controller()
 export class LedgerController {
-  constructor(private readonly ledgerQueryService: LedgerQueryService) {}
+  constructor(
+    private readonly ledgerQueryService: LedgerQueryService,
+    private readonly ledgerReportService: LedgerReportService,
+  ) {}
 
   @Get('ledger/entries')
   async getEntries(
     @Query('accountId') accountId?: string,
     @Query('reference') reference?: string,
     @Query('orderId') orderId?: string,
+    @Query('journalId') journalId?: string,
     @Query('entryType') entryType?: LedgerEntryType,
+    @Query('reversed') reversed?: string,
     @Query('fromDate') fromDate?: string,
     @Query('toDate') toDate?: string,
     @Query('page') page?: string,
@@ -21,7 +28,9 @@ export class LedgerController {
       accountId,
       reference,
       orderId,
+      journalId,
       entryType,
+      reversed: reversed === undefined ? undefined : reversed === 'true',
       fromDate: fromDate ? new Date(fromDate) : undefined,
       toDate: toDate ? new Date(toDate) : undefined,
       page: page ? parseInt(page, 10) : 1,
@@ -31,13 +40,149 @@ export class LedgerController {
     return this.ledgerQueryService.getEntries(query);
   }
 
+  @Get('ledger/entries/:entryId/proof')
+  async getEntryProof(
+    @Param('entryId') entryId: string,
+    @Query('checkpointId') checkpointId?: string,
+  ) {
+    return this.ledgerQueryService.getEntryProof(entryId, checkpointId);
+  }
+
   @Get('wallets/:accountId/balance')
   async getWalletBalance(@Param('accountId') accountId: string) {
     return this.ledgerQueryService.getWalletBalance(accountId);
   }
 
+  @Get('wallets/:accountId/balance/as-of')
+  async getHistoricalBalance(
+    @Param('accountId') accountId: string,
+    @Query('asOf') asOf?: string,
+    @Query('walletSeq') walletSeq?: string,
+  ) {
+    return this.ledgerQueryService.getHistoricalBalance(accountId, {
+      asOf: asOf ? parseDate('asOf', asOf) : undefined,
+      walletSeq: walletSeq !== undefined ? parseInt(walletSeq, 10) : undefined,
+    });
+  }
+
+  @Get('wallets/:accountId/balance/series')
+  async getBalanceSeries(
+    @Param('accountId') accountId: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('interval') interval?: string,
+  ) {
+    if (interval && interval !== 'day' && interval !== 'week') {
+      throw new BadRequestException({ code: 'INVALID_INTERVAL', message: 'interval must be day or week' });
+    }
+
+    const toDate = to ? parseDate('to', to) : new Date();
+    const fromDate = from ? parseDate('from', from) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    return this.ledgerQueryService.getBalanceSeries(accountId, {
+      from: fromDate,
+      to: toDate,
+      interval: interval === 'week' ? 'week' : 'day',
+    });
+  }
+
+  @Get('wallets/:accountId/holds')
+  async getWalletHolds(
+    @Param('accountId') accountId: string,
+    @Query('status') status?: WalletHoldStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.ledgerQueryService.getWalletHolds(
+      accountId,
+      status,
+      page ? parseInt(page, 10) : 1,
+      limit ? parseInt(limit, 10) : 20,
+    );
+  }
+
   @Post('ledger/verify-chain')
   async verifyChain(@Body() body: { accountId: string; fromSeq?: number; toSeq?: number }) {
     return this.ledgerQueryService.verifyChainIntegrity(body.accountId, body.fromSeq, body.toSeq);
   }
+
+  @Get('ledger/checkpoints/latest')
+  async getLatestCheckpoint() {
+    return this.ledgerQueryService.getCheckpoint();
+  }
+
+  @Get('ledger/checkpoints/:checkpointId')
+  async getCheckpoint(@Param('checkpointId') checkpointId: string) {
+    return this.ledgerQueryService.getCheckpoint(checkpointId);
+  }
+
+  @Get('ledger/reports/trial-balance')
+  async getTrialBalance(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('currency') currency?: string,
+    @Query('format') format?: string,
+  ) {
+    const report = await this.ledgerReportService.getTrialBalance(parsePeriod(from, to), currency);
+    return parseFormat(format) === 'csv'
+      ? csvFile(this.ledgerReportService.trialBalanceCsv(report), 'trial-balance.csv')
+      : report;
+  }
+
+  @Get('ledger/reports/general-ledger/:accountId')
+  async getGeneralLedger(
+    @Param('accountId') accountId: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('format') format?: string,
+  ) {
+    const report = await this.ledgerReportService.getGeneralLedger(accountId, parsePeriod(from, to));
+    return parseFormat(format) === 'csv'
+      ? csvFile(this.ledgerReportService.generalLedgerCsv(report), `general-ledger-${accountId}.csv`)
+      : report;
+  }
+
+  @Get('ledger/reports/escrow-roll-forward')
+  async getEscrowRollForward(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('accountId') accountId?: string,
+    @Query('format') format?: string,
+  ) {
+    const report = await this.ledgerReportService.getEscrowRollForward(parsePeriod(from, to), accountId);
+    return parseFormat(format) === 'csv'
+      ? csvFile(this.ledgerReportService.escrowRollForwardCsv(report), 'escrow-roll-forward.csv')
+      : report;
+  }
+}
+
+/**
+ * Report period; defaults to the 30 days before now.
+ */
+function parsePeriod(from?: string, to?: string): ReportPeriod {
+  const toDate = to ? parseDate('to', to) : new Date();
+  const fromDate = from ? parseDate('from', from) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+  return { from: fromDate, to: toDate };
+}
+
+function parseFormat(format?: string): ReportFormat {
+  if (format && format !== 'json' && format !== 'csv') {
+    throw new BadRequestException({ code: 'INVALID_FORMAT', message: 'format must be json or csv' });
+  }
+  return format === 'csv' ? 'csv' : 'json';
+}
+
+function csvFile(csv: string, filename: string): StreamableFile {
+  return new StreamableFile(Buffer.from(csv), {
+    type: 'text/csv; charset=utf-8',
+    disposition: `attachment; filename="${filename}"`,
+  });
+}
+
+function parseDate(name: string, value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestException({ code: 'INVALID_DATE', message: `${name} must be an ISO 8601 timestamp` });
+  }
+  return date;
 }
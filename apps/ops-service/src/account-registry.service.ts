@@ -0,0 +1,242 @@
+/**
+ * Account Registry Service
+ *
+ * Lists, opens, freezes and closes ledger accounts in the chart of
+ * accounts. An account's status decides what can be posted to it, so
+ * every change is admin-only and audited.
+ */
+
+import { Injectable, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import {
+  AccountType,
+  AccountOwnerType,
+  AccountStatus,
+  OverdraftPolicy,
+  LedgerAccount,
+  Prisma,
+} from '@syntherium/db';
+import { openAccount, setAccountStatus, runLedgerTransaction, LedgerError } from '@syntherium/ledger-core';
+import { logAuditEvent } from '@syntherium/observability';
+
+export interface OpenAccountRequest {
+  accountId?: string;
+  description?: string;
+  type?: string;
+  ownerType?: string;
+  ownerId?: string;
+  currency?: string;
+  overdraftPolicy?: string;
+  overdraftLimit?: string;
+}
+
+/** What a freeze stops: debits only, or every posting */
+export type FreezeScope = 'DEBITS' | 'ALL';
+
+@Injectable()
+export class AccountRegistryService {
+  constructor(private prisma: PrismaService) {}
+
+  async listAccounts(query: {
+    type?: string;
+    ownerType?: string;
+    ownerId?: string;
+    status?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { ownerId, page = 1, limit = 20 } = query;
+    const type = this.parseEnum(AccountType, 'type', query.type);
+    const ownerType = this.parseEnum(AccountOwnerType, 'ownerType', query.ownerType);
+    const status = this.parseEnum(AccountStatus, 'status', query.status);
+
+    const where: Prisma.LedgerAccountWhereInput = {
+      ...(type && { type }),
+      ...(ownerType && { ownerType }),
+      ...(ownerId && { ownerId }),
+      ...(status && { status }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.ledgerAccount.findMany({
+        where,
+        orderBy: { accountId: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.ledgerAccount.count({ where }),
+    ]);
+
+    return {
+      data: data.map((account) => this.formatAccount(account)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  async getAccount(accountId: string) {
+    const account = await this.prisma.ledgerAccount.findUnique({ where: { accountId } });
+    if (!account) {
+      throw new NotFoundException(`Ledger account not found: ${accountId}`);
+    }
+    return this.formatAccount(account);
+  }
+
+  async openAccount(body: OpenAccountRequest, actorId: string) {
+    const type = this.parseEnum(AccountType, 'type', body.type);
+    const ownerType = this.parseEnum(AccountOwnerType, 'ownerType', body.ownerType);
+    const overdraftPolicy = this.parseEnum(OverdraftPolicy, 'overdraftPolicy', body.overdraftPolicy) ?? OverdraftPolicy.NONE;
+
+    if (!body.accountId || !type || !ownerType) {
+      throw new BadRequestException({
+        code: 'INVALID_ACCOUNT',
+        message: 'accountId, type and ownerType are required',
+      });
+    }
+
+    const account = await this.mapLedgerErrors(() =>
+      openAccount(this.prisma, {
+        accountId: body.accountId!,
+        description: body.description,
+        type,
+        ownerType,
+        ownerId: body.ownerId,
+        currency: (body.currency || 'NGN').toUpperCase(),
+        overdraftPolicy,
+        overdraftLimit: body.overdraftLimit,
+      })
+    );
+
+    logAuditEvent({
+      action: 'LEDGER_ACCOUNT_OPENED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'LedgerAccount', id: account.accountId },
+      outcome: 'success',
+      details: {
+        type: account.type,
+        ownerType: account.ownerType,
+        ownerId: account.ownerId,
+        currency: account.currency,
+        overdraftPolicy: account.overdraftPolicy,
+      },
+    });
+
+    return this.formatAccount(account);
+  }
+
+  /**
+   * Freezes an account for debits (and so holds and payouts) or for
+   * every posting, e.g. while it is under investigation.
+   */
+  async freezeAccount(accountId: string, body: { scope?: string; reason?: string }, actorId: string) {
+    const scope = (body.scope || 'ALL') as FreezeScope;
+    if (scope !== 'DEBITS' && scope !== 'ALL') {
+      throw new BadRequestException({
+        code: 'INVALID_FREEZE_SCOPE',
+        message: 'scope must be DEBITS or ALL',
+        details: { scope: body.scope },
+      });
+    }
+
+    const status = scope === 'DEBITS' ? AccountStatus.DEBIT_FROZEN : AccountStatus.FROZEN;
+    return this.changeStatus(accountId, status, body.reason, actorId, 'LEDGER_ACCOUNT_FROZEN');
+  }
+
+  async unfreezeAccount(accountId: string, reason: string | undefined, actorId: string) {
+    return this.changeStatus(accountId, AccountStatus.ACTIVE, reason, actorId, 'LEDGER_ACCOUNT_UNFROZEN');
+  }
+
+  /**
+   * Closes an account with a zero balance and no active holds.
+   */
+  async closeAccount(accountId: string, reason: string | undefined, actorId: string) {
+    return this.changeStatus(accountId, AccountStatus.CLOSED, reason, actorId, 'LEDGER_ACCOUNT_CLOSED');
+  }
+
+  private async changeStatus(
+    accountId: string,
+    status: AccountStatus,
+    reason: string | undefined,
+    actorId: string,
+    action: string,
+  ) {
+    if (!reason) {
+      throw new BadRequestException({
+        code: 'REASON_REQUIRED',
+        message: 'A reason is required to change a ledger account status',
+      });
+    }
+
+    const before = await this.prisma.ledgerAccount.findUnique({ where: { accountId } });
+    const account = await this.mapLedgerErrors(() =>
+      runLedgerTransaction(this.prisma, (tx) =>
+        setAccountStatus(tx, { accountId, status, reason, changedBy: actorId })
+      )
+    );
+
+    logAuditEvent({
+      action,
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'LedgerAccount', id: accountId },
+      outcome: 'success',
+      details: { reason, previousStatus: before?.status, status: account.status },
+    });
+
+    return this.formatAccount(account);
+  }
+
+  private parseEnum<T extends Record<string, string>>(
+    values: T,
+    field: string,
+    value: string | undefined,
+  ): T[keyof T] | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!Object.values(values).includes(value)) {
+      throw new BadRequestException({
+        code: 'INVALID_ACCOUNT',
+        message: `${field} must be one of ${Object.values(values).join(', ')}`,
+        details: { [field]: value },
+      });
+    }
+    return value as T[keyof T];
+  }
+
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof LedgerError)) {
+        throw error;
+      }
+      const body = { code: error.code, message: error.message, details: error.details };
+      if (error.code === 'ACCOUNT_NOT_FOUND') {
+        throw new NotFoundException(body);
+      }
+      if (error.code === 'ACCOUNT_CONFLICT') {
+        throw new ConflictException(body);
+      }
+      throw new BadRequestException(body);
+    }
+  }
+
+  private formatAccount(account: LedgerAccount) {
+    return {
+      accountId: account.accountId,
+      description: account.description,
+      type: account.type,
+      normalBalance: account.normalBalance,
+      ownerType: account.ownerType,
+      ownerId: account.ownerId,
+      currency: account.currency,
+      overdraftPolicy: account.overdraftPolicy,
+      overdraftLimit: account.overdraftLimit?.toString() ?? null,
+      status: account.status,
+      statusReason: account.statusReason,
+      statusChangedAt: account.statusChangedAt?.toISOString() ?? null,
+      statusChangedBy: account.statusChangedBy,
+      closedAt: account.closedAt?.toISOString() ?? null,
+      createdAt: account.createdAt.toISOString(),
+    };
+  }
+}
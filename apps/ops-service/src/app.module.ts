@@ -3,6 +3,19 @@ import { APP_GUARD } from '@nestjs/core';
 import { HealthController } from './health.controller';
 import { OpsController } from './ops.controller';
 import { OpsService } from './ops.service';
+import { CheckpointService } from './checkpoint.service';
+import { BalanceSnapshotService } from './balance-snapshot.service';
+import { ChainVerificationService } from './chain-verification.service';
+import { BalanceDriftService } from './balance-drift.service';
+import { AccountRegistryService } from './account-registry.service';
+import { FeeRuleService } from './fee-rule.service';
+import { DiscountCampaignService } from './discount-campaign.service';
+import { VendorBankAccountService } from './vendor-bank-account.service';
+import { DisputeService } from './dispute.service';
+import { OutboxService } from './outbox.service';
+import { SettlementDeadLetterService } from './settlement-dead-letter.service';
+import { PaymentMismatchService } from './payment-mismatch.service';
+import { UnallocatedReceiptService } from './unallocated-receipt.service';
 import { PrismaService } from './prisma.service';
 import { RolesGuard } from '@syntherium/security';
 
@@ -11,6 +24,19 @@ import { RolesGuard } from '@syntherium/security';
   providers: [
     PrismaService,
     OpsService,
+    CheckpointService,
+    BalanceSnapshotService,
+    ChainVerificationService,
+    BalanceDriftService,
+    AccountRegistryService,
+    FeeRuleService,
+    DiscountCampaignService,
+    VendorBankAccountService,
+    DisputeService,
+    OutboxService,
+    SettlementDeadLetterService,
+    PaymentMismatchService,
+    UnallocatedReceiptService,
     {
       provide: APP_GUARD,
       useClass: RolesGuard,
@@ -0,0 +1,218 @@
+/**
+ * Balance Drift Service
+ *
+ * Compares every WalletBalanceCache row with the ledger entries and
+ * holds it summarizes, on a schedule (BALANCE_DRIFT_CHECK_INTERVAL_MS)
+ * and on demand, and records each run. Admins can rebuild drifted cache
+ * rows from the ledger; ledger rows themselves are never written.
+ */
+
+import { Injectable, OnModuleInit, OnModuleDestroy, BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import {
+  scanBalanceCaches,
+  rebuildBalanceCache,
+  runLedgerTransaction,
+  LedgerError,
+  BalanceCacheCheck,
+} from '@syntherium/ledger-core';
+import { BalanceDriftRun, Prisma } from '@syntherium/db';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('ops-service');
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Drifted wallets stored on a run; driftCount is always exact */
+const MAX_RECORDED_DRIFTS = 1000;
+
+/** Wallets rebuilt per request when they are listed explicitly */
+const MAX_REBUILD_ACCOUNTS = 500;
+
+@Injectable()
+export class BalanceDriftService implements OnModuleInit, OnModuleDestroy {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private prisma: PrismaService) {}
+
+  onModuleInit() {
+    const intervalMs = parseInt(
+      process.env.BALANCE_DRIFT_CHECK_INTERVAL_MS ?? String(DEFAULT_INTERVAL_MS),
+      10
+    );
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.runCheck('scheduler').catch((error) => logger.error('Scheduled balance drift check failed', error));
+      }, intervalMs);
+      logger.info('Balance drift check schedule enabled', { intervalMs });
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Checks every wallet and records the run.
+   *
+   * @param trigger - "scheduler" or the requesting user's ID
+   */
+  async runCheck(trigger: string) {
+    // Skip overlapping runs when a check takes longer than the interval
+    if (this.running) {
+      if (trigger === 'scheduler') {
+        return null;
+      }
+      throw new BadRequestException({
+        code: 'DRIFT_CHECK_IN_PROGRESS',
+        message: 'A balance drift check is already running',
+      });
+    }
+
+    this.running = true;
+    let run: BalanceDriftRun | undefined;
+
+    try {
+      run = await this.prisma.balanceDriftRun.create({ data: { trigger } });
+      const { accountsChecked, drifts } = await scanBalanceCaches(this.prisma);
+
+      const completed = await this.prisma.balanceDriftRun.update({
+        where: { id: run.id },
+        data: {
+          accountsChecked,
+          driftCount: drifts.length,
+          drifts: drifts.slice(0, MAX_RECORDED_DRIFTS) as unknown as Prisma.InputJsonValue,
+          completedAt: new Date(),
+        },
+      });
+
+      if (drifts.length > 0) {
+        logger.warn('Balance cache drift detected', {
+          runId: run.id,
+          driftCount: drifts.length,
+          accountIds: drifts.slice(0, 20).map((d) => d.accountId),
+        });
+
+        logAuditEvent({
+          action: 'BALANCE_DRIFT_DETECTED',
+          actor: { id: trigger, type: trigger === 'scheduler' ? 'system' : 'user' },
+          resource: { type: 'BalanceDriftRun', id: run.id },
+          outcome: 'failure',
+          details: { accountsChecked, driftCount: drifts.length },
+        });
+      }
+
+      return this.formatRun(completed);
+    } catch (error) {
+      if (run) {
+        await this.prisma.balanceDriftRun.update({
+          where: { id: run.id },
+          data: { error: error instanceof Error ? error.message : String(error), completedAt: new Date() },
+        });
+      }
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async listRuns(page = 1, limit = 20) {
+    const [runs, total] = await Promise.all([
+      this.prisma.balanceDriftRun.findMany({
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.balanceDriftRun.count(),
+    ]);
+
+    return {
+      runs: runs.map((run) => this.formatRun(run)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  async getRun(runId: string) {
+    const run = await this.prisma.balanceDriftRun.findUnique({ where: { id: runId } });
+    if (!run) {
+      throw new NotFoundException(`Drift run not found: ${runId}`);
+    }
+    return this.formatRun(run);
+  }
+
+  /**
+   * Rebuilds cache rows from the ledger, one locked transaction per
+   * wallet. With allDrifted, wallets are taken from a fresh scan.
+   */
+  async rebuild(params: { accountIds?: string[]; allDrifted?: boolean; reason?: string }, actorId: string) {
+    const { allDrifted, reason } = params;
+
+    if (!reason) {
+      throw new BadRequestException({
+        code: 'REASON_REQUIRED',
+        message: 'A reason is required to rebuild balance caches',
+      });
+    }
+
+    let accountIds = [...new Set(params.accountIds ?? [])];
+    if (allDrifted) {
+      const { drifts } = await scanBalanceCaches(this.prisma);
+      accountIds = drifts.map((d) => d.accountId);
+    } else if (accountIds.length === 0 || accountIds.length > MAX_REBUILD_ACCOUNTS) {
+      throw new BadRequestException({
+        code: 'INVALID_ACCOUNTS',
+        message: `Provide between 1 and ${MAX_REBUILD_ACCOUNTS} accountIds, or set allDrifted`,
+      });
+    }
+
+    const results: { accountId: string; rebuilt: boolean; before?: BalanceCacheCheck; error?: string }[] = [];
+
+    for (const accountId of accountIds) {
+      try {
+        const { before, rebuilt } = await runLedgerTransaction(this.prisma, (tx) =>
+          rebuildBalanceCache(tx, accountId)
+        );
+        results.push({ accountId, rebuilt, before });
+
+        if (rebuilt) {
+          logAuditEvent({
+            action: 'BALANCE_CACHE_REBUILT',
+            actor: { id: actorId, type: 'user' },
+            resource: { type: 'WalletBalanceCache', id: accountId },
+            outcome: 'success',
+            details: { reason, mismatches: before.mismatches, cached: before.cached, rebuiltTo: before.expected },
+          });
+        }
+      } catch (error) {
+        if (!(error instanceof LedgerError)) {
+          throw error;
+        }
+        results.push({ accountId, rebuilt: false, error: error.message });
+      }
+    }
+
+    return {
+      results,
+      summary: {
+        accountsRequested: accountIds.length,
+        accountsRebuilt: results.filter((r) => r.rebuilt).length,
+      },
+    };
+  }
+
+  private formatRun(run: BalanceDriftRun) {
+    return {
+      id: run.id,
+      trigger: run.trigger,
+      accountsChecked: run.accountsChecked,
+      driftCount: run.driftCount,
+      drifts: run.drifts,
+      error: run.error,
+      startedAt: run.startedAt.toISOString(),
+      completedAt: run.completedAt?.toISOString() ?? null,
+    };
+  }
+}
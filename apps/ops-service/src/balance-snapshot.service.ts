@@ -0,0 +1,142 @@
+/**
+ * Balance Snapshot Service
+ *
+ * Takes daily wallet balance snapshots used by historical balance
+ * queries. The schedule (LEDGER_SNAPSHOT_INTERVAL_MS, hourly by default)
+ * snapshots the latest closed day; repeated runs are no-ops. Admins can
+ * backfill a range of days after deploying or rebuilding snapshots.
+ */
+
+import { Injectable, OnModuleInit, OnModuleDestroy, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import {
+  takeBalanceSnapshots,
+  latestSnapshotTime,
+  startOfUtcDay,
+  LedgerError,
+  MAX_SERIES_BUCKETS,
+} from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('ops-service');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class BalanceSnapshotService implements OnModuleInit, OnModuleDestroy {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private prisma: PrismaService) {}
+
+  onModuleInit() {
+    const intervalMs = parseInt(
+      process.env.LEDGER_SNAPSHOT_INTERVAL_MS ?? String(DEFAULT_INTERVAL_MS),
+      10
+    );
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.snapshotLatestDay().catch((error) =>
+          logger.error('Scheduled balance snapshot failed', error)
+        );
+      }, intervalMs);
+      logger.info('Balance snapshot schedule enabled', { intervalMs });
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async snapshotLatestDay() {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const result = await takeBalanceSnapshots(this.prisma);
+      if (result.accountsSnapshotted > 0) {
+        logger.info('Balance snapshots taken', {
+          snapshotAt: result.snapshotAt.toISOString(),
+          accountsSnapshotted: result.accountsSnapshotted,
+        });
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Takes snapshots for every UTC midnight from `from` to `to`
+   * (inclusive, oldest first), defaulting to the latest closed day.
+   */
+  async backfill(params: { from?: string; to?: string }, actorId: string) {
+    const latest = latestSnapshotTime();
+    const to = params.to ? startOfUtcDay(parseDate('to', params.to)) : latest;
+    const from = params.from ? startOfUtcDay(parseDate('from', params.from)) : to;
+
+    if (from > to || to > latest) {
+      throw new BadRequestException({
+        code: 'INVALID_RANGE',
+        message: `Snapshot range must be ordered and end no later than ${latest.toISOString()}`,
+      });
+    }
+
+    const days = (to.getTime() - from.getTime()) / DAY_MS + 1;
+    if (days > MAX_SERIES_BUCKETS) {
+      throw new BadRequestException({
+        code: 'INVALID_RANGE',
+        message: `At most ${MAX_SERIES_BUCKETS} days can be backfilled at once`,
+      });
+    }
+
+    if (this.running) {
+      throw new BadRequestException({
+        code: 'SNAPSHOT_IN_PROGRESS',
+        message: 'A snapshot run is already in progress',
+      });
+    }
+
+    this.running = true;
+    const snapshots: { snapshotAt: string; accountsSnapshotted: number }[] = [];
+    try {
+      for (let time = from.getTime(); time <= to.getTime(); time += DAY_MS) {
+        const result = await takeBalanceSnapshots(this.prisma, new Date(time));
+        snapshots.push({
+          snapshotAt: result.snapshotAt.toISOString(),
+          accountsSnapshotted: result.accountsSnapshotted,
+        });
+      }
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({ code: error.code, message: error.message, details: error.details });
+      }
+      throw error;
+    } finally {
+      this.running = false;
+    }
+
+    logAuditEvent({
+      action: 'BALANCE_SNAPSHOTS_BACKFILLED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'WalletBalanceSnapshot', id: `${from.toISOString()}..${to.toISOString()}` },
+      outcome: 'success',
+      details: { days, snapshotsCreated: snapshots.reduce((sum, s) => sum + s.accountsSnapshotted, 0) },
+    });
+
+    return { snapshots };
+  }
+}
+
+function parseDate(name: string, value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestException({ code: 'INVALID_DATE', message: `${name} must be an ISO 8601 date` });
+  }
+  return date;
+}
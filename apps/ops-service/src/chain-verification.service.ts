@@ -0,0 +1,391 @@
+/**
+ * Chain Verification Service
+ *
+ * Runs ops chain verification as persisted jobs. Accounts are verified
+ * in accountId order with the streaming verifier, and the job cursor is
+ * saved after every page of entries. A worker polls for pending jobs and
+ * for running jobs whose heartbeat has gone stale (the instance running
+ * them died), and resumes those from their cursor.
+ */
+
+import { Injectable, OnModuleInit, OnModuleDestroy, BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { CheckpointService } from './checkpoint.service';
+import {
+  streamVerifyChain,
+  verifyCheckpoint,
+  getCheckpoint,
+  ChainAnchor,
+  ChainVerifyPosition,
+  VerifyChainResult,
+} from '@syntherium/ledger-core';
+import { ChainVerificationJob, VerificationJobStatus, Prisma } from '@syntherium/db';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('ops-service');
+
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+
+/** A running job whose heartbeat is older than this is taken over */
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+/** Jobs that error this many times are marked FAILED instead of retried */
+const MAX_ATTEMPTS = 3;
+
+const ACCOUNT_PAGE_SIZE = 500;
+
+/** Invalid results kept on the job; the count is always exact */
+const MAX_RECORDED_FAILURES = 100;
+
+@Injectable()
+export class ChainVerificationService implements OnModuleInit, OnModuleDestroy {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private checkpoints: CheckpointService,
+  ) {}
+
+  onModuleInit() {
+    const intervalMs = parseInt(
+      process.env.CHAIN_VERIFY_POLL_INTERVAL_MS ?? String(DEFAULT_POLL_INTERVAL_MS),
+      10
+    );
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.processJobs().catch((error) => logger.error('Chain verification worker failed', error));
+      }, intervalMs);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Records a verification job and starts it in the background.
+   */
+  async startJob(
+    params: { accountIds: string[]; verifyAll: boolean; fromCheckpoint: boolean },
+    actorId: string
+  ) {
+    const { verifyAll, fromCheckpoint } = params;
+    const accountIds = verifyAll ? [] : [...new Set(params.accountIds)].sort();
+
+    if (!verifyAll && accountIds.length === 0) {
+      throw new BadRequestException({
+        code: 'NO_ACCOUNTS',
+        message: 'Provide accountIds or set verifyAll',
+      });
+    }
+
+    const checkpointId = fromCheckpoint ? await this.findTrustedCheckpointId() : null;
+    const accountsTotal = verifyAll ? await this.prisma.walletBalanceCache.count() : accountIds.length;
+
+    const job = await this.prisma.chainVerificationJob.create({
+      data: { requestedBy: actorId, verifyAll, accountIds, checkpointId, accountsTotal },
+    });
+
+    logAuditEvent({
+      action: 'CHAIN_VERIFICATION_STARTED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'ChainVerificationJob', id: job.id },
+      outcome: 'success',
+      details: { verifyAll, accountCount: accountsTotal, checkpointId },
+    });
+
+    // Start right away; if this instance dies the poller resumes the job
+    this.processJobs().catch((error) => logger.error('Chain verification worker failed', error));
+
+    return this.formatJob(job);
+  }
+
+  async getJob(jobId: string) {
+    const job = await this.prisma.chainVerificationJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new NotFoundException(`Verification job not found: ${jobId}`);
+    }
+    return this.formatJob(job);
+  }
+
+  async listJobs(page = 1, limit = 20) {
+    const [jobs, total] = await Promise.all([
+      this.prisma.chainVerificationJob.findMany({
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.chainVerificationJob.count(),
+    ]);
+
+    return {
+      jobs: jobs.map((job) => this.formatJob(job)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  /**
+   * Runs claimable jobs one at a time until none are left.
+   */
+  async processJobs(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      for (let job = await this.claimNextJob(); job; job = await this.claimNextJob()) {
+        await this.runJob(job);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async claimNextJob(): Promise<ChainVerificationJob | null> {
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+    const candidate = await this.prisma.chainVerificationJob.findFirst({
+      where: {
+        OR: [
+          { status: VerificationJobStatus.PENDING },
+          { status: VerificationJobStatus.RUNNING, heartbeatAt: { lt: staleBefore } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!candidate) {
+      return null;
+    }
+
+    // Compare-and-set on the heartbeat so only one worker takes the job
+    const claimed = await this.prisma.chainVerificationJob.updateMany({
+      where: { id: candidate.id, status: candidate.status, heartbeatAt: candidate.heartbeatAt },
+      data: {
+        status: VerificationJobStatus.RUNNING,
+        heartbeatAt: new Date(),
+        startedAt: candidate.startedAt ?? new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    if (candidate.status === VerificationJobStatus.RUNNING) {
+      logger.warn('Resuming stale chain verification job', {
+        jobId: candidate.id,
+        currentAccountId: candidate.currentAccountId,
+        currentSeq: candidate.currentSeq,
+      });
+    }
+
+    return this.prisma.chainVerificationJob.findUniqueOrThrow({ where: { id: candidate.id } });
+  }
+
+  private async runJob(job: ChainVerificationJob): Promise<void> {
+    const failures = job.failures as unknown as VerifyChainResult[];
+    let accountsInvalid = job.accountsInvalid;
+
+    try {
+      const anchors = job.checkpointId ? await this.loadAnchors(job.checkpointId) : new Map<string, ChainAnchor>();
+
+      const verify = async (accountId: string, resumeFrom?: ChainVerifyPosition) => {
+        const result = await this.verifyAccount(job.id, accountId, anchors.get(accountId), resumeFrom);
+        if (!result.valid) {
+          accountsInvalid++;
+          if (failures.length < MAX_RECORDED_FAILURES) {
+            failures.push(result);
+          }
+        }
+
+        await this.prisma.chainVerificationJob.update({
+          where: { id: job.id },
+          data: {
+            lastAccountId: accountId,
+            currentAccountId: null,
+            currentSeq: null,
+            currentHash: null,
+            currentEntries: null,
+            accountsProcessed: { increment: 1 },
+            accountsInvalid,
+            failures: failures as unknown as Prisma.InputJsonValue,
+            heartbeatAt: new Date(),
+          },
+        });
+      };
+
+      // Finish the account that was in progress when the job stopped
+      if (job.currentAccountId) {
+        await verify(
+          job.currentAccountId,
+          job.currentSeq !== null && job.currentHash !== null
+            ? { walletSeq: job.currentSeq, entryHash: job.currentHash, entriesVerified: job.currentEntries ?? 0 }
+            : undefined
+        );
+      }
+
+      let after = job.currentAccountId ?? job.lastAccountId;
+      for (;;) {
+        const accounts = await this.nextAccounts(job, after);
+        if (accounts.length === 0) {
+          break;
+        }
+
+        for (const accountId of accounts) {
+          await verify(accountId);
+        }
+        after = accounts[accounts.length - 1];
+      }
+
+      const completed = await this.prisma.chainVerificationJob.update({
+        where: { id: job.id },
+        data: { status: VerificationJobStatus.COMPLETED, completedAt: new Date(), error: null },
+      });
+
+      logAuditEvent({
+        action: 'CHAIN_VERIFICATION_COMPLETED',
+        actor: { id: 'chain-verification', type: 'system' },
+        resource: { type: 'ChainVerificationJob', id: job.id },
+        outcome: accountsInvalid === 0 ? 'success' : 'failure',
+        details: {
+          accountsProcessed: completed.accountsProcessed,
+          accountsInvalid,
+          entriesVerified: completed.entriesVerified,
+        },
+      });
+    } catch (error) {
+      logger.error('Chain verification job failed', error as Error, { jobId: job.id });
+
+      // Leave the cursor in place so a retry continues where this one stopped
+      await this.prisma.chainVerificationJob.update({
+        where: { id: job.id },
+        data: {
+          status: job.attempts >= MAX_ATTEMPTS ? VerificationJobStatus.FAILED : VerificationJobStatus.PENDING,
+          heartbeatAt: null,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  private async verifyAccount(
+    jobId: string,
+    accountId: string,
+    anchor: ChainAnchor | undefined,
+    resumeFrom: ChainVerifyPosition | undefined
+  ): Promise<VerifyChainResult> {
+    let counted = resumeFrom?.entriesVerified ?? 0;
+
+    const { lastVerified, ...result } = await streamVerifyChain(this.prisma, accountId, {
+      anchor,
+      resumeFrom,
+      onProgress: async (position) => {
+        await this.prisma.chainVerificationJob.update({
+          where: { id: jobId },
+          data: {
+            currentAccountId: accountId,
+            currentSeq: position.walletSeq,
+            currentHash: position.entryHash,
+            currentEntries: position.entriesVerified,
+            entriesVerified: { increment: position.entriesVerified - counted },
+            heartbeatAt: new Date(),
+          },
+        });
+        counted = position.entriesVerified;
+      },
+    });
+
+    // Entries checked after the last saved page (only when the chain broke)
+    if (result.entriesVerified > counted) {
+      await this.prisma.chainVerificationJob.update({
+        where: { id: jobId },
+        data: { entriesVerified: { increment: result.entriesVerified - counted } },
+      });
+    }
+
+    return result;
+  }
+
+  private async nextAccounts(job: ChainVerificationJob, after: string | null): Promise<string[]> {
+    if (!job.verifyAll) {
+      return job.accountIds.filter((id) => after === null || id > after).slice(0, ACCOUNT_PAGE_SIZE);
+    }
+
+    const wallets = await this.prisma.walletBalanceCache.findMany({
+      where: after === null ? {} : { accountId: { gt: after } },
+      orderBy: { accountId: 'asc' },
+      select: { accountId: true },
+      take: ACCOUNT_PAGE_SIZE,
+    });
+    return wallets.map((w) => w.accountId);
+  }
+
+  /**
+   * Returns the latest checkpoint if its signature verifies. Falls back
+   * to full verification (null) when there is no checkpoint or its
+   * signature cannot be verified.
+   */
+  private async findTrustedCheckpointId(): Promise<string | null> {
+    const checkpoint = await this.checkpoints.getLatest();
+    const publicKey = this.checkpoints.getPublicKey();
+
+    if (!checkpoint || !publicKey) {
+      logger.warn('No verifiable checkpoint available, verifying from genesis');
+      return null;
+    }
+
+    const verification = verifyCheckpoint(checkpoint, publicKey);
+    if (!verification.valid) {
+      logger.warn('Latest checkpoint failed verification, verifying from genesis', {
+        checkpointId: checkpoint.id,
+        message: verification.message,
+      });
+      return null;
+    }
+
+    return checkpoint.id;
+  }
+
+  /**
+   * Checkpoint heads as verification anchors. Accounts created after the
+   * checkpoint have no anchor and are verified in full.
+   */
+  private async loadAnchors(checkpointId: string): Promise<Map<string, ChainAnchor>> {
+    const checkpoint = await getCheckpoint(this.prisma, checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    return new Map(
+      checkpoint.heads.map((h) => [h.accountId, { walletSeq: h.walletSeq, entryHash: h.entryHash }])
+    );
+  }
+
+  private formatJob(job: ChainVerificationJob) {
+    return {
+      id: job.id,
+      status: job.status,
+      requestedBy: job.requestedBy,
+      verifyAll: job.verifyAll,
+      accountIds: job.accountIds,
+      checkpointId: job.checkpointId,
+      progress: {
+        accountsTotal: job.accountsTotal,
+        accountsProcessed: job.accountsProcessed,
+        accountsInvalid: job.accountsInvalid,
+        entriesVerified: job.entriesVerified,
+        currentAccountId: job.currentAccountId,
+        currentSeq: job.currentSeq,
+      },
+      failures: job.failures,
+      attempts: job.attempts,
+      error: job.error,
+      startedAt: job.startedAt?.toISOString() ?? null,
+      completedAt: job.completedAt?.toISOString() ?? null,
+      createdAt: job.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Checkpoint Service
+ *
+ * Takes signed ledger checkpoints on demand and, when
+ * LEDGER_CHECKPOINT_INTERVAL_MS is set, on a fixed interval. A checkpoint
+ * is refused when an account's chain no longer verifies from the previous
+ * one; that refusal is audited, since it means the ledger was altered.
+ */
+
+import { Injectable, OnModuleInit, OnModuleDestroy, ConflictException, ServiceUnavailableException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { createCheckpoint, getCheckpoint, SignedCheckpoint, CheckpointSigner, LedgerError } from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('ops-service');
+
+@Injectable()
+export class CheckpointService implements OnModuleInit, OnModuleDestroy {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private prisma: PrismaService) {}
+
+  onModuleInit() {
+    const intervalMs = parseInt(process.env.LEDGER_CHECKPOINT_INTERVAL_MS || '0', 10);
+    if (intervalMs > 0 && this.getSigner()) {
+      this.timer = setInterval(() => {
+        this.takeCheckpoint('scheduler').catch((error) =>
+          logger.error('Scheduled checkpoint failed', error)
+        );
+      }, intervalMs);
+      logger.info('Ledger checkpoint schedule enabled', { intervalMs });
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async takeCheckpoint(actorId: string): Promise<SignedCheckpoint | null> {
+    const signer = this.getSigner();
+    if (!signer) {
+      throw new ServiceUnavailableException({
+        code: 'CHECKPOINT_KEY_NOT_CONFIGURED',
+        message: 'LEDGER_CHECKPOINT_PRIVATE_KEY is not set',
+      });
+    }
+
+    // Skip overlapping runs when a checkpoint takes longer than the interval
+    if (this.running) {
+      logger.warn('Checkpoint already in progress, skipping');
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const checkpoint = await createCheckpoint(this.prisma, signer);
+
+      logAuditEvent({
+        action: 'LEDGER_CHECKPOINT_CREATED',
+        actor: { id: actorId, type: actorId === 'scheduler' ? 'system' : 'user' },
+        resource: { type: 'LedgerCheckpoint', id: checkpoint.id },
+        outcome: 'success',
+        details: { merkleRoot: checkpoint.merkleRoot, accountCount: checkpoint.accountCount },
+      });
+
+      return checkpoint;
+    } catch (error) {
+      if (!(error instanceof LedgerError)) {
+        throw error;
+      }
+
+      logger.error('Checkpoint refused', error, { code: error.code, details: error.details });
+      logAuditEvent({
+        action: 'LEDGER_CHECKPOINT_CREATED',
+        actor: { id: actorId, type: actorId === 'scheduler' ? 'system' : 'user' },
+        resource: { type: 'LedgerCheckpoint', id: 'new' },
+        outcome: 'failure',
+        details: { code: error.code, message: error.message, ...error.details },
+      });
+      throw new ConflictException({ code: error.code, message: error.message, details: error.details });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async listCheckpoints(page = 1, limit = 20) {
+    const [checkpoints, total] = await Promise.all([
+      this.prisma.ledgerCheckpoint.findMany({
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.ledgerCheckpoint.count(),
+    ]);
+
+    return {
+      checkpoints: checkpoints.map((c) => ({
+        id: c.id,
+        merkleRoot: c.merkleRoot,
+        accountCount: c.accountCount,
+        previousCheckpointId: c.previousCheckpointId,
+        keyId: c.keyId,
+        signature: c.signature,
+        createdAt: c.createdAt.toISOString(),
+      })),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  async getLatest(): Promise<SignedCheckpoint | null> {
+    return getCheckpoint(this.prisma);
+  }
+
+  getPublicKey(): string | undefined {
+    return process.env.LEDGER_CHECKPOINT_PUBLIC_KEY?.replace(/\\n/g, '\n');
+  }
+
+  private getSigner(): CheckpointSigner | null {
+    const privateKey = process.env.LEDGER_CHECKPOINT_PRIVATE_KEY;
+    if (!privateKey) {
+      return null;
+    }
+
+    return {
+      keyId: process.env.LEDGER_CHECKPOINT_KEY_ID || 'default',
+      // PEM keys are usually stored in env with escaped newlines
+      privateKey: privateKey.replace(/\\n/g, '\n'),
+    };
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * Discount Campaign Service
+ *
+ * Creates and lists discount campaigns. Creating a campaign opens its
+ * budget wallet (CAMPAIGN_{code}) empty; settlement-service funds it
+ * from MARKETING_WALLET, and intent-service checks codes against the
+ * campaign's rules. Campaigns are paused rather than edited, so the rules
+ * a payment was discounted under never change after the fact.
+ */
+
+import { Injectable, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import {
+  DiscountCampaign,
+  DiscountCampaignStatus,
+  DiscountKind,
+  PaymentIntentStatus,
+  Prisma,
+} from '@syntherium/db';
+import { campaignWalletDefinition, openAccount, BASE_CURRENCY, LedgerError } from '@syntherium/ledger-core';
+import { logAuditEvent } from '@syntherium/observability';
+
+export interface CreateDiscountCampaignRequest {
+  code?: string;
+  description?: string;
+  kind?: string;
+  value?: string;
+  maxDiscount?: string;
+  minOrderAmount?: string;
+  currency?: string;
+  perCustomerLimit?: number;
+  usageLimit?: number;
+  startsAt?: string;
+  endsAt?: string;
+}
+
+/** Payments that no longer hold a redemption */
+const RELEASED_INTENT_STATUSES: PaymentIntentStatus[] = [
+  PaymentIntentStatus.FAILED,
+  PaymentIntentStatus.EXPIRED,
+];
+
+@Injectable()
+export class DiscountCampaignService {
+  constructor(private prisma: PrismaService) {}
+
+  async listCampaigns(query: {
+    status?: string;
+    activeAt?: Date;
+    page?: number;
+    limit?: number;
+  }) {
+    const { activeAt, page = 1, limit = 20 } = query;
+    const status = this.parseEnum(DiscountCampaignStatus, 'status', query.status);
+
+    const where: Prisma.DiscountCampaignWhereInput = {
+      ...(status && { status }),
+      ...(activeAt && {
+        startsAt: { lte: activeAt },
+        OR: [{ endsAt: null }, { endsAt: { gt: activeAt } }],
+      }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.discountCampaign.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.discountCampaign.count({ where }),
+    ]);
+
+    const [wallets, redemptions] = await Promise.all([
+      this.prisma.walletBalanceCache.findMany({
+        where: { accountId: { in: data.map((campaign) => campaign.walletAccountId) } },
+      }),
+      this.prisma.paymentIntent.groupBy({
+        by: ['discountCampaignId'],
+        where: {
+          discountCampaignId: { in: data.map((campaign) => campaign.id) },
+          status: { notIn: RELEASED_INTENT_STATUSES },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return {
+      data: data.map((campaign) => {
+        const wallet = wallets.find((w) => w.accountId === campaign.walletAccountId);
+        const used = redemptions.find((r) => r.discountCampaignId === campaign.id);
+        return {
+          ...this.formatCampaign(campaign),
+          budgetBalance: (wallet?.balance ?? new Prisma.Decimal(0)).toString(),
+          redemptions: used?._count._all ?? 0,
+        };
+      }),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  /**
+   * Creates a campaign and opens its (empty) budget wallet.
+   */
+  async createCampaign(body: CreateDiscountCampaignRequest, actorId: string) {
+    const code = (body.code || '').toUpperCase();
+    const kind = this.parseEnum(DiscountKind, 'kind', body.kind);
+    const currency = (body.currency || BASE_CURRENCY).toUpperCase();
+
+    if (!/^[A-Z0-9_]+$/.test(code) || !kind) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: 'code (letters, digits and underscores) and kind are required',
+        details: { code: body.code, kind: body.kind },
+      });
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: 'currency must be an ISO 4217 code',
+        details: { currency: body.currency },
+      });
+    }
+
+    const value = this.parseAmount('value', body.value);
+    const maxDiscount = this.parseAmount('maxDiscount', body.maxDiscount);
+    const minOrderAmount = this.parseAmount('minOrderAmount', body.minOrderAmount);
+
+    if (!value || !value.greaterThan(0)) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: 'value must be a positive decimal',
+        details: { value: body.value },
+      });
+    }
+    if (kind === DiscountKind.PERCENTAGE && value.greaterThan(100)) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: 'PERCENTAGE value is a percent between 0 and 100, e.g. 15',
+        details: { value: body.value },
+      });
+    }
+    if (kind === DiscountKind.FIXED && maxDiscount) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: 'maxDiscount caps PERCENTAGE campaigns only',
+        details: { maxDiscount: body.maxDiscount },
+      });
+    }
+
+    const perCustomerLimit = this.parseLimit('perCustomerLimit', body.perCustomerLimit);
+    const usageLimit = this.parseLimit('usageLimit', body.usageLimit);
+
+    const startsAt = body.startsAt ? new Date(body.startsAt) : new Date();
+    const endsAt = body.endsAt ? new Date(body.endsAt) : null;
+    if (Number.isNaN(startsAt.getTime()) || (endsAt && Number.isNaN(endsAt.getTime()))) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: 'startsAt and endsAt must be ISO 8601 timestamps',
+        details: { startsAt: body.startsAt, endsAt: body.endsAt },
+      });
+    }
+    if (endsAt && endsAt <= startsAt) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: 'endsAt must be after startsAt',
+        details: { startsAt: startsAt.toISOString(), endsAt: endsAt.toISOString() },
+      });
+    }
+
+    const wallet = campaignWalletDefinition(code);
+
+    const campaign = await this.prisma.$transaction(async (tx) => {
+      await openAccount(tx, wallet).catch((error) => {
+        if (error instanceof LedgerError) {
+          throw new BadRequestException({ code: error.code, message: error.message, details: error.details });
+        }
+        throw error;
+      });
+
+      try {
+        return await tx.discountCampaign.create({
+          data: {
+            code,
+            description: body.description,
+            kind,
+            value,
+            maxDiscount,
+            minOrderAmount,
+            currency,
+            perCustomerLimit,
+            usageLimit,
+            startsAt,
+            endsAt,
+            walletAccountId: wallet.accountId,
+            createdBy: actorId,
+          },
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new ConflictException({
+            code: 'DISCOUNT_CAMPAIGN_EXISTS',
+            message: `A campaign with code ${code} already exists`,
+            details: { code },
+          });
+        }
+        throw error;
+      }
+    });
+
+    logAuditEvent({
+      action: 'DISCOUNT_CAMPAIGN_CREATED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'DiscountCampaign', id: campaign.id },
+      outcome: 'success',
+      details: {
+        code,
+        kind,
+        value: value.toString(),
+        maxDiscount: maxDiscount?.toString() ?? null,
+        minOrderAmount: minOrderAmount?.toString() ?? null,
+        currency,
+        perCustomerLimit,
+        usageLimit,
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt?.toISOString() ?? null,
+        walletAccountId: wallet.accountId,
+      },
+    });
+
+    return this.formatCampaign(campaign);
+  }
+
+  /**
+   * Pauses or resumes a campaign. Pausing refuses the code on new
+   * payment intents; payments already discounted still settle.
+   */
+  async setCampaignStatus(
+    campaignId: string,
+    status: DiscountCampaignStatus,
+    reason: string | undefined,
+    actorId: string,
+  ) {
+    const existing = await this.prisma.discountCampaign.findUnique({ where: { id: campaignId } });
+    if (!existing) {
+      throw new NotFoundException({
+        code: 'DISCOUNT_CAMPAIGN_NOT_FOUND',
+        message: `Discount campaign not found: ${campaignId}`,
+      });
+    }
+
+    const campaign = await this.prisma.discountCampaign.update({
+      where: { id: campaignId },
+      data: { status },
+    });
+
+    logAuditEvent({
+      action: status === DiscountCampaignStatus.PAUSED ? 'DISCOUNT_CAMPAIGN_PAUSED' : 'DISCOUNT_CAMPAIGN_RESUMED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'DiscountCampaign', id: campaignId },
+      outcome: 'success',
+      details: { code: campaign.code, previousStatus: existing.status, reason: reason ?? null },
+    });
+
+    return this.formatCampaign(campaign);
+  }
+
+  private parseAmount(field: string, value: string | undefined): Prisma.Decimal | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (!/^\d+(\.\d+)?$/.test(String(value))) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: `${field} must be a non-negative decimal`,
+        details: { [field]: value },
+      });
+    }
+    return new Prisma.Decimal(value);
+  }
+
+  private parseLimit(field: string, value: number | undefined): number | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (!Number.isInteger(value) || value < 1) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: `${field} must be a positive integer`,
+        details: { [field]: value },
+      });
+    }
+    return value;
+  }
+
+  private parseEnum<T extends Record<string, string>>(
+    values: T,
+    field: string,
+    value: string | undefined,
+  ): T[keyof T] | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!Object.values(values).includes(value)) {
+      throw new BadRequestException({
+        code: 'INVALID_DISCOUNT_CAMPAIGN',
+        message: `${field} must be one of ${Object.values(values).join(', ')}`,
+        details: { [field]: value },
+      });
+    }
+    return value as T[keyof T];
+  }
+
+  private formatCampaign(campaign: DiscountCampaign) {
+    return {
+      id: campaign.id,
+      code: campaign.code,
+      description: campaign.description,
+      kind: campaign.kind,
+      value: campaign.value.toString(),
+      maxDiscount: campaign.maxDiscount?.toString() ?? null,
+      minOrderAmount: campaign.minOrderAmount?.toString() ?? null,
+      currency: campaign.currency,
+      perCustomerLimit: campaign.perCustomerLimit,
+      usageLimit: campaign.usageLimit,
+      startsAt: campaign.startsAt.toISOString(),
+      endsAt: campaign.endsAt?.toISOString() ?? null,
+      walletAccountId: campaign.walletAccountId,
+      status: campaign.status,
+      createdBy: campaign.createdBy,
+      createdAt: campaign.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Dispute Service
+ *
+ * Ops view of provider chargebacks. Opening and resolving disputes moves
+ * money, so it happens in settlement-service; here ops work the open
+ * queue by evidence deadline and record when evidence was submitted.
+ */
+
+import { Injectable, BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { Dispute, DisputeStatus, PaymentProvider, Prisma } from '@syntherium/db';
+import { logAuditEvent } from '@syntherium/observability';
+
+@Injectable()
+export class DisputeService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lists disputes, OPEN by default, soonest evidence deadline first.
+   *
+   * @param query.overdue - Only disputes past their deadline with no evidence submitted
+   */
+  async listDisputes(query: {
+    status?: string;
+    provider?: string;
+    overdue?: boolean;
+    page?: number;
+    limit?: number;
+  }) {
+    const { overdue, page = 1, limit = 20 } = query;
+    const status = this.parseEnum(DisputeStatus, 'status', query.status) ?? DisputeStatus.OPEN;
+    const provider = this.parseEnum(PaymentProvider, 'provider', query.provider);
+
+    const where: Prisma.DisputeWhereInput = {
+      status,
+      ...(provider && { provider }),
+      ...(overdue && { evidenceDueAt: { lt: new Date() }, evidenceSubmittedAt: null }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.dispute.findMany({
+        where,
+        orderBy: [{ evidenceDueAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.dispute.count({ where }),
+    ]);
+
+    return {
+      data: data.map((dispute) => this.formatDispute(dispute)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  /**
+   * Records that evidence was sent to the provider. Idempotent: the
+   * first submission time is kept.
+   */
+  async markEvidenceSubmitted(disputeId: string, actorId: string) {
+    const dispute = await this.prisma.dispute.findUnique({ where: { id: disputeId } });
+
+    if (!dispute) {
+      throw new NotFoundException({
+        code: 'DISPUTE_NOT_FOUND',
+        message: `Dispute not found: ${disputeId}`,
+      });
+    }
+    if (dispute.status !== DisputeStatus.OPEN) {
+      throw new ConflictException({
+        code: 'DISPUTE_NOT_OPEN',
+        message: `Dispute is already ${dispute.status}`,
+        details: { disputeId, currentStatus: dispute.status },
+      });
+    }
+    if (dispute.evidenceSubmittedAt) {
+      return this.formatDispute(dispute);
+    }
+
+    const updated = await this.prisma.dispute.update({
+      where: { id: disputeId },
+      data: { evidenceSubmittedAt: new Date() },
+    });
+
+    logAuditEvent({
+      action: 'DISPUTE_EVIDENCE_SUBMITTED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'Dispute', id: disputeId },
+      outcome: 'success',
+      details: {
+        reference: updated.reference,
+        evidenceDueAt: updated.evidenceDueAt?.toISOString() ?? null,
+        late: !!updated.evidenceDueAt && updated.evidenceDueAt < updated.evidenceSubmittedAt!,
+      },
+    });
+
+    return this.formatDispute(updated);
+  }
+
+  private parseEnum<T extends Record<string, string>>(
+    values: T,
+    field: string,
+    value: string | undefined,
+  ): T[keyof T] | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!Object.values(values).includes(value)) {
+      throw new BadRequestException({
+        code: `INVALID_${field.toUpperCase()}`,
+        message: `${field} must be one of ${Object.values(values).join(', ')}`,
+        details: { [field]: value },
+      });
+    }
+    return value as T[keyof T];
+  }
+
+  private formatDispute(dispute: Dispute) {
+    return {
+      id: dispute.id,
+      reference: dispute.reference,
+      paymentIntentId: dispute.paymentIntentId,
+      orderId: dispute.orderId,
+      provider: dispute.provider,
+      providerDisputeId: dispute.providerDisputeId,
+      amount: dispute.amount.toString(),
+      currency: dispute.currency,
+      reason: dispute.reason,
+      status: dispute.status,
+      evidenceDueAt: dispute.evidenceDueAt?.toISOString() ?? null,
+      evidenceSubmittedAt: dispute.evidenceSubmittedAt?.toISOString() ?? null,
+      evidenceOverdue: dispute.status === DisputeStatus.OPEN
+        && !dispute.evidenceSubmittedAt
+        && !!dispute.evidenceDueAt
+        && dispute.evidenceDueAt < new Date(),
+      holdAccountId: dispute.holdAccountId,
+      heldAmount: dispute.heldAmount.toString(),
+      feeAmount: dispute.feeAmount?.toString() ?? null,
+      resolutionNote: dispute.resolutionNote,
+      resolvedAt: dispute.resolvedAt?.toISOString() ?? null,
+      createdAt: dispute.createdAt.toISOString(),
+    };
+  }
+}
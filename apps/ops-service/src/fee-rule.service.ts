@@ -0,0 +1,270 @@
+/**
+ * Fee Rule Service
+ *
+ * Lists and versions the commission and processing fee rules settlement
+ * prices payments with. Rules are never edited: publishing a rule under
+ * an existing code adds the next version and ends the previous one where
+ * the new one takes effect, so past settlements keep naming the version
+ * they used.
+ */
+
+import { Injectable, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { FeeRule, FeeRuleKind, DeliveryType, PaymentProvider, Prisma } from '@syntherium/db';
+import { BASE_CURRENCY } from '@syntherium/ledger-core';
+import { logAuditEvent } from '@syntherium/observability';
+
+export interface CreateFeeRuleRequest {
+  code?: string;
+  kind?: string;
+  description?: string;
+  vendorId?: string;
+  productId?: string;
+  deliveryType?: string;
+  provider?: string;
+  percentage?: string;
+  flatAmount?: string;
+  capAmount?: string;
+  currency?: string;
+  effectiveFrom?: string;
+}
+
+@Injectable()
+export class FeeRuleService {
+  constructor(private prisma: PrismaService) {}
+
+  async listFeeRules(query: {
+    kind?: string;
+    code?: string;
+    vendorId?: string;
+    activeAt?: Date;
+    page?: number;
+    limit?: number;
+  }) {
+    const { code, vendorId, activeAt, page = 1, limit = 20 } = query;
+    const kind = this.parseEnum(FeeRuleKind, 'kind', query.kind);
+
+    const where: Prisma.FeeRuleWhereInput = {
+      ...(kind && { kind }),
+      ...(code && { code }),
+      ...(vendorId && { vendorId }),
+      ...(activeAt && {
+        effectiveFrom: { lte: activeAt },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gt: activeAt } }],
+      }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.feeRule.findMany({
+        where,
+        orderBy: [{ code: 'asc' }, { version: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.feeRule.count({ where }),
+    ]);
+
+    return {
+      data: data.map((rule) => this.formatFeeRule(rule)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  /**
+   * Publishes a rule as the next version of its code.
+   */
+  async createFeeRule(body: CreateFeeRuleRequest, actorId: string) {
+    const code = (body.code || '').toUpperCase();
+    const kind = this.parseEnum(FeeRuleKind, 'kind', body.kind);
+    const deliveryType = this.parseEnum(DeliveryType, 'deliveryType', body.deliveryType);
+    const provider = this.parseEnum(PaymentProvider, 'provider', body.provider);
+    const currency = (body.currency || BASE_CURRENCY).toUpperCase();
+
+    if (!/^[A-Z0-9_]+$/.test(code) || !kind) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE_RULE',
+        message: 'code (letters, digits and underscores) and kind are required',
+        details: { code: body.code, kind: body.kind },
+      });
+    }
+
+    // Commission is priced on order lines in the escrow currency;
+    // processing fees on what a provider collected
+    if (kind === FeeRuleKind.COMMISSION && (provider || currency !== BASE_CURRENCY)) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE_RULE',
+        message: `COMMISSION rules are in ${BASE_CURRENCY} and cannot be scoped by provider`,
+        details: { provider, currency },
+      });
+    }
+    if (kind === FeeRuleKind.PROCESSING_FEE && (body.vendorId || body.productId || deliveryType)) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE_RULE',
+        message: 'PROCESSING_FEE rules can only be scoped by provider and currency',
+        details: { vendorId: body.vendorId, productId: body.productId, deliveryType },
+      });
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE_RULE',
+        message: 'currency must be an ISO 4217 code',
+        details: { currency: body.currency },
+      });
+    }
+
+    const percentage = this.parseAmount('percentage', body.percentage) ?? new Prisma.Decimal(0);
+    const flatAmount = this.parseAmount('flatAmount', body.flatAmount) ?? new Prisma.Decimal(0);
+    const capAmount = this.parseAmount('capAmount', body.capAmount);
+
+    if (percentage.greaterThan(1)) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE_RULE',
+        message: 'percentage is a fraction between 0 and 1, e.g. 0.014',
+        details: { percentage: body.percentage },
+      });
+    }
+
+    const effectiveFrom = body.effectiveFrom ? new Date(body.effectiveFrom) : new Date();
+    if (Number.isNaN(effectiveFrom.getTime())) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE_RULE',
+        message: 'effectiveFrom must be an ISO 8601 timestamp',
+        details: { effectiveFrom: body.effectiveFrom },
+      });
+    }
+
+    const { rule, previous } = await this.prisma.$transaction(async (tx) => {
+      const previous = await tx.feeRule.findFirst({
+        where: { code },
+        orderBy: { version: 'desc' },
+      });
+
+      if (previous && previous.kind !== kind) {
+        throw new ConflictException({
+          code: 'FEE_RULE_KIND_MISMATCH',
+          message: `${code} is a ${previous.kind} rule`,
+          details: { code, kind, existingKind: previous.kind },
+        });
+      }
+      if (previous && effectiveFrom <= previous.effectiveFrom) {
+        throw new ConflictException({
+          code: 'FEE_RULE_NOT_AFTER_PREVIOUS',
+          message: `A new version of ${code} must take effect after version ${previous.version}`,
+          details: { code, effectiveFrom: effectiveFrom.toISOString(), previousEffectiveFrom: previous.effectiveFrom.toISOString() },
+        });
+      }
+
+      // The previous version stops applying where this one starts
+      if (previous && (!previous.effectiveTo || previous.effectiveTo > effectiveFrom)) {
+        await tx.feeRule.update({
+          where: { id: previous.id },
+          data: { effectiveTo: effectiveFrom },
+        });
+      }
+
+      try {
+        const rule = await tx.feeRule.create({
+          data: {
+            code,
+            version: (previous?.version ?? 0) + 1,
+            kind,
+            description: body.description,
+            vendorId: body.vendorId || null,
+            productId: body.productId || null,
+            deliveryType: deliveryType ?? null,
+            provider: provider ?? null,
+            percentage,
+            flatAmount,
+            capAmount,
+            currency,
+            effectiveFrom,
+            createdBy: actorId,
+          },
+        });
+        return { rule, previous };
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new ConflictException({
+            code: 'FEE_RULE_VERSION_CONFLICT',
+            message: `Another version of ${code} was published concurrently; retry`,
+            details: { code },
+          });
+        }
+        throw error;
+      }
+    });
+
+    logAuditEvent({
+      action: 'FEE_RULE_CREATED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'FeeRule', id: rule.id },
+      outcome: 'success',
+      details: {
+        code,
+        version: rule.version,
+        kind,
+        percentage: percentage.toString(),
+        flatAmount: flatAmount.toString(),
+        capAmount: capAmount?.toString() ?? null,
+        effectiveFrom: effectiveFrom.toISOString(),
+        supersedesVersion: previous?.version ?? null,
+      },
+    });
+
+    return this.formatFeeRule(rule);
+  }
+
+  private parseAmount(field: string, value: string | undefined): Prisma.Decimal | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (!/^\d+(\.\d+)?$/.test(String(value))) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE_RULE',
+        message: `${field} must be a non-negative decimal`,
+        details: { [field]: value },
+      });
+    }
+    return new Prisma.Decimal(value);
+  }
+
+  private parseEnum<T extends Record<string, string>>(
+    values: T,
+    field: string,
+    value: string | undefined,
+  ): T[keyof T] | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!Object.values(values).includes(value)) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE_RULE',
+        message: `${field} must be one of ${Object.values(values).join(', ')}`,
+        details: { [field]: value },
+      });
+    }
+    return value as T[keyof T];
+  }
+
+  private formatFeeRule(rule: FeeRule) {
+    return {
+      id: rule.id,
+      code: rule.code,
+      version: rule.version,
+      kind: rule.kind,
+      description: rule.description,
+      vendorId: rule.vendorId,
+      productId: rule.productId,
+      deliveryType: rule.deliveryType,
+      provider: rule.provider,
+      percentage: rule.percentage.toString(),
+      flatAmount: rule.flatAmount.toString(),
+      capAmount: rule.capAmount?.toString() ?? null,
+      currency: rule.currency,
+      effectiveFrom: rule.effectiveFrom.toISOString(),
+      effectiveTo: rule.effectiveTo?.toISOString() ?? null,
+      createdAt: rule.createdAt.toISOString(),
+      createdBy: rule.createdBy,
+    };
+  }
+}
@@ -1,11 +1,39 @@
-import { Controller, Get, Post, Query, Body, Req } from '@nestjs/common';
+import { Controller, Get, Post, Put, Param, Query, Body, Req, HttpCode } from '@nestjs/common';
 import { OpsService } from './ops.service';
+import { CheckpointService } from './checkpoint.service';
+import { BalanceSnapshotService } from './balance-snapshot.service';
+import { ChainVerificationService } from './chain-verification.service';
+import { BalanceDriftService } from './balance-drift.service';
+import { AccountRegistryService, OpenAccountRequest } from './account-registry.service';
+import { FeeRuleService, CreateFeeRuleRequest } from './fee-rule.service';
+import { DiscountCampaignService, CreateDiscountCampaignRequest } from './discount-campaign.service';
+import { VendorBankAccountService, SetVendorBankAccountRequest } from './vendor-bank-account.service';
+import { DisputeService } from './dispute.service';
+import { OutboxService } from './outbox.service';
+import { SettlementDeadLetterService } from './settlement-dead-letter.service';
+import { PaymentMismatchService } from './payment-mismatch.service';
+import { UnallocatedReceiptService } from './unallocated-receipt.service';
 import { Roles, Role, UserContext } from '@syntherium/security';
-import { WebhookStatus } from '@syntherium/db';
+import { WebhookStatus, DiscountCampaignStatus } from '@syntherium/db';
 
 @Controller('ops')
 export class OpsController {
-  constructor(private readonly opsService: OpsService) {}
+  constructor(
+    private readonly opsService: OpsService,
+    private readonly checkpointService: CheckpointService,
+    private readonly balanceSnapshotService: BalanceSnapshotService,
+    private readonly chainVerificationService: ChainVerificationService,
+    private readonly balanceDriftService: BalanceDriftService,
+    private readonly accountRegistryService: AccountRegistryService,
+    private readonly feeRuleService: FeeRuleService,
+    private readonly discountCampaignService: DiscountCampaignService,
+    private readonly vendorBankAccountService: VendorBankAccountService,
+    private readonly disputeService: DisputeService,
+    private readonly outboxService: OutboxService,
+    private readonly settlementDeadLetterService: SettlementDeadLetterService,
+    private readonly paymentMismatchService: PaymentMismatchService,
+    private readonly unallocatedReceiptService: UnallocatedReceiptService,
+  ) {}
 
   @Get('webhook-inbox')
   @Roles(Role.OPS, Role.ADMIN)
@@ -38,6 +66,7 @@ export class OpsController {
     @Query('reference') reference?: string,
     @Query('orderId') orderId?: string,
     @Query('entryType') entryType?: string,
+    @Query('currency') currency?: string,
     @Query('minAmount') minAmount?: string,
     @Query('maxAmount') maxAmount?: string,
     @Query('fromDate') fromDate?: string,
@@ -50,6 +79,7 @@ export class OpsController {
       reference,
       orderId,
       entryType,
+      currency,
       minAmount,
       maxAmount,
       fromDate: fromDate ? new Date(fromDate) : undefined,
@@ -68,7 +98,399 @@ export class OpsController {
 
   @Post('verify-chain')
   @Roles(Role.OPS, Role.ADMIN)
-  async verifyChain(@Body() body: { accountIds?: string[]; verifyAll?: boolean }) {
-    return this.opsService.verifyChains(body.accountIds || [], body.verifyAll || false);
+  @HttpCode(202)
+  async verifyChain(
+    @Body() body: { accountIds?: string[]; verifyAll?: boolean; fromCheckpoint?: boolean },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.chainVerificationService.startJob(
+      {
+        accountIds: body.accountIds || [],
+        verifyAll: body.verifyAll || false,
+        fromCheckpoint: body.fromCheckpoint || false,
+      },
+      user?.id || 'unknown',
+    );
+  }
+
+  @Get('verify-chain/jobs')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listVerificationJobs(@Query('page') page?: string, @Query('limit') limit?: string) {
+    return this.chainVerificationService.listJobs(
+      page ? parseInt(page, 10) : 1,
+      limit ? parseInt(limit, 10) : 20,
+    );
+  }
+
+  @Get('verify-chain/jobs/:jobId')
+  @Roles(Role.OPS, Role.ADMIN)
+  async getVerificationJob(@Param('jobId') jobId: string) {
+    return this.chainVerificationService.getJob(jobId);
+  }
+
+  @Get('fx-rates')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listFxRates(
+    @Query('baseCurrency') baseCurrency?: string,
+    @Query('quoteCurrency') quoteCurrency?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.opsService.listFxRates({
+      baseCurrency,
+      quoteCurrency,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Post('fx-rates')
+  @Roles(Role.ADMIN)
+  async createFxRate(
+    @Body() body: { baseCurrency: string; quoteCurrency: string; rate: string; source?: string; effectiveAt?: string },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.opsService.createFxRate(body, user?.id || 'unknown');
+  }
+
+  @Get('fee-rules')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listFeeRules(
+    @Query('kind') kind?: string,
+    @Query('code') code?: string,
+    @Query('vendorId') vendorId?: string,
+    @Query('activeAt') activeAt?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.feeRuleService.listFeeRules({
+      kind,
+      code,
+      vendorId,
+      activeAt: activeAt ? new Date(activeAt) : undefined,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Post('fee-rules')
+  @Roles(Role.ADMIN)
+  async createFeeRule(@Body() body: CreateFeeRuleRequest, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.feeRuleService.createFeeRule(body ?? {}, user?.id || 'unknown');
+  }
+
+  @Get('discount-campaigns')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listDiscountCampaigns(
+    @Query('status') status?: string,
+    @Query('activeAt') activeAt?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.discountCampaignService.listCampaigns({
+      status,
+      activeAt: activeAt ? new Date(activeAt) : undefined,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Post('discount-campaigns')
+  @Roles(Role.ADMIN)
+  async createDiscountCampaign(@Body() body: CreateDiscountCampaignRequest, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.discountCampaignService.createCampaign(body ?? {}, user?.id || 'unknown');
+  }
+
+  @Post('discount-campaigns/:campaignId/pause')
+  @Roles(Role.ADMIN)
+  @HttpCode(200)
+  async pauseDiscountCampaign(
+    @Param('campaignId') campaignId: string,
+    @Body() body: { reason?: string },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.discountCampaignService.setCampaignStatus(
+      campaignId,
+      DiscountCampaignStatus.PAUSED,
+      body?.reason,
+      user?.id || 'unknown',
+    );
+  }
+
+  @Post('discount-campaigns/:campaignId/resume')
+  @Roles(Role.ADMIN)
+  @HttpCode(200)
+  async resumeDiscountCampaign(
+    @Param('campaignId') campaignId: string,
+    @Body() body: { reason?: string },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.discountCampaignService.setCampaignStatus(
+      campaignId,
+      DiscountCampaignStatus.ACTIVE,
+      body?.reason,
+      user?.id || 'unknown',
+    );
+  }
+
+  @Get('vendors/:vendorId/bank-account')
+  @Roles(Role.OPS, Role.ADMIN)
+  async getVendorBankAccount(@Param('vendorId') vendorId: string) {
+    return this.vendorBankAccountService.getBankAccount(vendorId);
+  }
+
+  @Put('vendors/:vendorId/bank-account')
+  @Roles(Role.ADMIN)
+  async setVendorBankAccount(
+    @Param('vendorId') vendorId: string,
+    @Body() body: SetVendorBankAccountRequest,
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.vendorBankAccountService.setBankAccount(vendorId, body ?? {}, user?.id || 'unknown');
+  }
+
+  @Get('disputes')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listDisputes(
+    @Query('status') status?: string,
+    @Query('provider') provider?: string,
+    @Query('overdue') overdue?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.disputeService.listDisputes({
+      status,
+      provider,
+      overdue: overdue === 'true',
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Post('disputes/:disputeId/evidence')
+  @Roles(Role.OPS, Role.ADMIN)
+  @HttpCode(200)
+  async markDisputeEvidenceSubmitted(@Param('disputeId') disputeId: string, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.disputeService.markEvidenceSubmitted(disputeId, user?.id || 'unknown');
+  }
+
+  @Get('payment-mismatches')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listPaymentMismatches(
+    @Query('status') status?: string,
+    @Query('kind') kind?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.paymentMismatchService.listMismatches({
+      status,
+      kind,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Get('unallocated-receipts')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listUnallocatedReceipts(
+    @Query('status') status?: string,
+    @Query('provider') provider?: string,
+    @Query('reference') reference?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.unallocatedReceiptService.listReceipts({
+      status,
+      provider,
+      reference,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Get('outbox-events')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listOutboxEvents(
+    @Query('type') type?: string,
+    @Query('aggregateId') aggregateId?: string,
+    @Query('deliveryStatus') deliveryStatus?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.outboxService.listEvents({
+      type,
+      aggregateId,
+      deliveryStatus,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Post('outbox-events/:eventId/replay')
+  @Roles(Role.ADMIN)
+  @HttpCode(202)
+  async replayOutboxEvent(
+    @Param('eventId') eventId: string,
+    @Body() body: { subscriber?: string },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.outboxService.replayEvent(eventId, body?.subscriber || undefined, user?.id || 'unknown');
+  }
+
+  @Get('settlement-dead-letters')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listSettlementDeadLetters(
+    @Query('status') status?: string,
+    @Query('paymentIntentId') paymentIntentId?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.settlementDeadLetterService.listDeadLetters({
+      status,
+      paymentIntentId,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Post('settlement-dead-letters/:deadLetterId/requeue')
+  @Roles(Role.ADMIN)
+  @HttpCode(202)
+  async requeueSettlementDeadLetter(@Param('deadLetterId') deadLetterId: string, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.settlementDeadLetterService.requeueDeadLetter(deadLetterId, user?.id || 'unknown');
+  }
+
+  @Get('checkpoints')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listCheckpoints(@Query('page') page?: string, @Query('limit') limit?: string) {
+    return this.checkpointService.listCheckpoints(
+      page ? parseInt(page, 10) : 1,
+      limit ? parseInt(limit, 10) : 20,
+    );
+  }
+
+  @Post('checkpoints')
+  @Roles(Role.ADMIN)
+  async createCheckpoint(@Req() req: any) {
+    const user = req.user as UserContext;
+    return this.checkpointService.takeCheckpoint(user?.id || 'unknown');
+  }
+
+  @Post('balance-snapshots')
+  @Roles(Role.ADMIN)
+  async backfillBalanceSnapshots(@Body() body: { from?: string; to?: string }, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.balanceSnapshotService.backfill(body ?? {}, user?.id || 'unknown');
+  }
+
+  @Get('balance-drift')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listBalanceDriftRuns(@Query('page') page?: string, @Query('limit') limit?: string) {
+    return this.balanceDriftService.listRuns(
+      page ? parseInt(page, 10) : 1,
+      limit ? parseInt(limit, 10) : 20,
+    );
+  }
+
+  @Get('balance-drift/:runId')
+  @Roles(Role.OPS, Role.ADMIN)
+  async getBalanceDriftRun(@Param('runId') runId: string) {
+    return this.balanceDriftService.getRun(runId);
+  }
+
+  @Post('balance-drift')
+  @Roles(Role.OPS, Role.ADMIN)
+  async checkBalanceDrift(@Req() req: any) {
+    const user = req.user as UserContext;
+    return this.balanceDriftService.runCheck(user?.id || 'unknown');
+  }
+
+  @Post('balance-cache/rebuild')
+  @Roles(Role.ADMIN)
+  async rebuildBalanceCache(
+    @Body() body: { accountIds?: string[]; allDrifted?: boolean; reason?: string },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.balanceDriftService.rebuild(body, user?.id || 'unknown');
+  }
+
+  @Get('accounts')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listAccounts(
+    @Query('type') type?: string,
+    @Query('ownerType') ownerType?: string,
+    @Query('ownerId') ownerId?: string,
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.accountRegistryService.listAccounts({
+      type,
+      ownerType,
+      ownerId,
+      status,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+  }
+
+  @Get('accounts/:accountId')
+  @Roles(Role.OPS, Role.ADMIN)
+  async getAccount(@Param('accountId') accountId: string) {
+    return this.accountRegistryService.getAccount(accountId);
+  }
+
+  @Post('accounts')
+  @Roles(Role.ADMIN)
+  async openAccount(@Body() body: OpenAccountRequest, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.accountRegistryService.openAccount(body, user?.id || 'unknown');
+  }
+
+  @Post('accounts/:accountId/freeze')
+  @Roles(Role.ADMIN)
+  @HttpCode(200)
+  async freezeAccount(
+    @Param('accountId') accountId: string,
+    @Body() body: { scope?: string; reason?: string },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.accountRegistryService.freezeAccount(accountId, body ?? {}, user?.id || 'unknown');
+  }
+
+  @Post('accounts/:accountId/unfreeze')
+  @Roles(Role.ADMIN)
+  @HttpCode(200)
+  async unfreezeAccount(
+    @Param('accountId') accountId: string,
+    @Body() body: { reason?: string },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.accountRegistryService.unfreezeAccount(accountId, body?.reason, user?.id || 'unknown');
+  }
+
+  @Post('accounts/:accountId/close')
+  @Roles(Role.ADMIN)
+  @HttpCode(200)
+  async closeAccount(
+    @Param('accountId') accountId: string,
+    @Body() body: { reason?: string },
+    @Req() req: any,
+  ) {
+    const user = req.user as UserContext;
+    return this.accountRegistryService.closeAccount(accountId, body?.reason, user?.id || 'unknown');
   }
 }
@@ -5,14 +5,17 @@
  * RBAC protected - requires ops or admin role.
  */
 
-import { Injectable } from '@nestjs/common';
+import { Injectable, BadRequestException } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
-import { verifyChain, VerifyChainResult } from '@syntherium/ledger-core';
 import { WebhookStatus, Prisma } from '@syntherium/db';
+import { currencyAccountDefinitions, openAccount, LedgerError } from '@syntherium/ledger-core';
 import { createLogger, logAuditEvent } from '@syntherium/observability';
 
 const logger = createLogger('ops-service');
 
+// Date-time with an explicit offset, so it never depends on the server's zone
+const ISO_8601_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
 @Injectable()
 export class OpsService {
   constructor(private prisma: PrismaService) {}
@@ -73,6 +76,7 @@ export class OpsService {
     reference?: string;
     orderId?: string;
     entryType?: string;
+    currency?: string;
     minAmount?: string;
     maxAmount?: string;
     fromDate?: Date;
@@ -80,13 +84,14 @@ export class OpsService {
     page?: number;
     limit?: number;
   }) {
-    const { accountId, reference, orderId, entryType, minAmount, maxAmount, fromDate, toDate, page = 1, limit = 20 } = query;
+    const { accountId, reference, orderId, entryType, currency, minAmount, maxAmount, fromDate, toDate, page = 1, limit = 20 } = query;
 
     const where: Prisma.LedgerEntryWhereInput = {
       ...(accountId && { accountId }),
       ...(reference && { reference: { contains: reference } }),
       ...(orderId && { orderId }),
       ...(entryType && { entryType: entryType as any }),
+      ...(currency && { currency }),
       ...(minAmount || maxAmount) && {
         amount: {
           ...(minAmount && { gte: new Prisma.Decimal(minAmount) }),
@@ -119,8 +124,10 @@ export class OpsService {
         walletSeq: e.walletSeq,
         reference: e.reference,
         orderId: e.orderId,
+        journalId: e.journalId,
         entryType: e.entryType,
         amount: e.amount.toString(),
+        currency: e.currency,
         description: e.description,
         prevHash: e.prevHash,
         entryHash: e.entryHash,
@@ -179,31 +186,140 @@ export class OpsService {
     };
   }
 
-  async verifyChains(accountIds: string[], verifyAll: boolean) {
-    let accounts = accountIds;
+  async listFxRates(query: { baseCurrency?: string; quoteCurrency?: string; page?: number; limit?: number }) {
+    const { baseCurrency, quoteCurrency, page = 1, limit = 20 } = query;
+
+    const where: Prisma.FxRateWhereInput = {
+      ...(baseCurrency && { baseCurrency }),
+      ...(quoteCurrency && { quoteCurrency }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.fxRate.findMany({
+        where,
+        orderBy: { effectiveAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.fxRate.count({ where }),
+    ]);
 
-    if (verifyAll) {
-      const wallets = await this.prisma.walletBalanceCache.findMany({ select: { accountId: true } });
-      accounts = wallets.map(w => w.accountId);
+    return {
+      data: data.map(r => this.formatFxRate(r)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  async createFxRate(
+    body: { baseCurrency: string; quoteCurrency: string; rate: string; source?: string; effectiveAt?: string },
+    actorId: string,
+  ) {
+    const baseCurrency = (body.baseCurrency || '').toUpperCase();
+    const quoteCurrency = (body.quoteCurrency || '').toUpperCase();
+
+    if (!/^[A-Z]{3}$/.test(baseCurrency) || !/^[A-Z]{3}$/.test(quoteCurrency) || baseCurrency === quoteCurrency) {
+      throw new BadRequestException({
+        code: 'INVALID_CURRENCY_PAIR',
+        message: 'baseCurrency and quoteCurrency must be two different ISO 4217 codes',
+        details: { baseCurrency: body.baseCurrency, quoteCurrency: body.quoteCurrency },
+      });
     }
 
-    const results: VerifyChainResult[] = [];
+    const rate = /^\d+(\.\d+)?$/.test(String(body.rate ?? '')) ? new Prisma.Decimal(body.rate) : null;
+    if (!rate || !rate.greaterThan(0)) {
+      throw new BadRequestException({
+        code: 'INVALID_RATE',
+        message: 'rate must be a positive decimal',
+        details: { rate: body.rate },
+      });
+    }
 
-    for (const accountId of accounts) {
-      const result = await verifyChain(this.prisma, accountId);
-      results.push(result);
+    const effectiveAt = body.effectiveAt === undefined || body.effectiveAt === null
+      ? new Date()
+      : parseIsoTimestamp(body.effectiveAt);
+    if (!effectiveAt) {
+      throw new BadRequestException({
+        code: 'INVALID_EFFECTIVE_AT',
+        message: 'effectiveAt must be an ISO 8601 timestamp',
+        details: { effectiveAt: body.effectiveAt },
+      });
     }
 
-    const validCount = results.filter(r => r.valid).length;
+    // Conversions post to both currencies' FX positions (and foreign
+    // payments to their clearing account), so register them with the rate
+    const fxRate = await this.prisma.$transaction(async (tx) => {
+      for (const definition of [baseCurrency, quoteCurrency].flatMap(currencyAccountDefinitions)) {
+        await openAccount(tx, definition).catch((error) => {
+          if (error instanceof LedgerError) {
+            throw new BadRequestException({ code: error.code, message: error.message, details: error.details });
+          }
+          throw error;
+        });
+      }
+
+      return tx.fxRate.create({
+        data: {
+          baseCurrency,
+          quoteCurrency,
+          rate,
+          source: body.source || 'manual',
+          effectiveAt,
+          createdBy: actorId,
+        },
+      });
+    });
+
+    logAuditEvent({
+      action: 'FX_RATE_CREATED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'FxRate', id: fxRate.id },
+      outcome: 'success',
+      details: { baseCurrency, quoteCurrency, rate: rate.toString(), effectiveAt: fxRate.effectiveAt.toISOString() },
+    });
 
+    return this.formatFxRate(fxRate);
+  }
+
+  private formatFxRate(rate: {
+    id: string;
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: Prisma.Decimal;
+    source: string;
+    effectiveAt: Date;
+    createdAt: Date;
+    createdBy: string | null;
+  }) {
     return {
-      results,
-      summary: {
-        totalAccounts: results.length,
-        validAccounts: validCount,
-        invalidAccounts: results.length - validCount,
-        allValid: validCount === results.length,
-      },
+      id: rate.id,
+      baseCurrency: rate.baseCurrency,
+      quoteCurrency: rate.quoteCurrency,
+      rate: rate.rate.toString(),
+      source: rate.source,
+      effectiveAt: rate.effectiveAt.toISOString(),
+      createdAt: rate.createdAt.toISOString(),
+      createdBy: rate.createdBy,
     };
   }
 }
+
+/**
+ * Parses an ISO 8601 timestamp. Date() alone also accepts other formats
+ * and rolls impossible dates over (2026-02-30 becomes March 2), so both
+ * are rejected here.
+ */
+function parseIsoTimestamp(value: unknown): Date | null {
+  const match = typeof value === 'string' ? ISO_8601_TIMESTAMP.exec(value) : null;
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const calendarDay = new Date(Date.UTC(year, month - 1, day));
+  if (calendarDay.getUTCMonth() !== month - 1 || calendarDay.getUTCDate() !== day) {
+    return null;
+  }
+
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,136 @@
+/**
+ * Outbox Service
+ *
+ * Ops view of the settlement outbox: which domain events were recorded
+ * and how delivery to each subscriber went. Replaying puts deliveries
+ * back to PENDING; settlement-service's dispatcher sends them again.
+ */
+
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { OutboxDelivery, OutboxDeliveryStatus, OutboxEvent, Prisma } from '@syntherium/db';
+import { logAuditEvent } from '@syntherium/observability';
+
+@Injectable()
+export class OutboxService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lists events, newest first, with their deliveries.
+   *
+   * @param query.deliveryStatus - Only events with a delivery in this status
+   */
+  async listEvents(query: {
+    type?: string;
+    aggregateId?: string;
+    deliveryStatus?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { type, aggregateId, page = 1, limit = 20 } = query;
+
+    if (query.deliveryStatus && !Object.values(OutboxDeliveryStatus).includes(query.deliveryStatus as OutboxDeliveryStatus)) {
+      throw new BadRequestException({
+        code: 'INVALID_DELIVERY_STATUS',
+        message: `deliveryStatus must be one of ${Object.values(OutboxDeliveryStatus).join(', ')}`,
+        details: { deliveryStatus: query.deliveryStatus },
+      });
+    }
+    const deliveryStatus = query.deliveryStatus as OutboxDeliveryStatus | undefined;
+
+    const where: Prisma.OutboxEventWhereInput = {
+      ...(type && { type }),
+      ...(aggregateId && { aggregateId }),
+      ...(deliveryStatus && { deliveries: { some: { status: deliveryStatus } } }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.outboxEvent.findMany({
+        where,
+        include: { deliveries: { orderBy: { subscriber: 'asc' } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.outboxEvent.count({ where }),
+    ]);
+
+    return {
+      data: data.map((event) => this.formatEvent(event)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  /**
+   * Sends an event again. With a subscriber, only to that subscriber
+   * (which need not have received it before); otherwise to every
+   * subscriber it was delivered or failed to, and it is fanned out again
+   * so subscribers registered since also receive it.
+   */
+  async replayEvent(eventId: string, subscriber: string | undefined, actorId: string) {
+    const event = await this.prisma.outboxEvent.findUnique({ where: { id: eventId } });
+
+    if (!event) {
+      throw new NotFoundException({
+        code: 'OUTBOX_EVENT_NOT_FOUND',
+        message: `Outbox event not found: ${eventId}`,
+      });
+    }
+
+    const reset = {
+      status: OutboxDeliveryStatus.PENDING,
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: new Date(),
+      deliveredAt: null,
+    };
+
+    if (subscriber) {
+      await this.prisma.outboxDelivery.upsert({
+        where: { eventId_subscriber: { eventId, subscriber } },
+        create: { eventId, subscriber },
+        update: reset,
+      });
+    } else {
+      await this.prisma.$transaction([
+        this.prisma.outboxDelivery.updateMany({ where: { eventId }, data: reset }),
+        this.prisma.outboxEvent.update({ where: { id: eventId }, data: { fannedOutAt: null } }),
+      ]);
+    }
+
+    logAuditEvent({
+      action: 'OUTBOX_EVENT_REPLAYED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'OutboxEvent', id: eventId },
+      outcome: 'success',
+      details: { type: event.type, aggregateId: event.aggregateId, subscriber: subscriber ?? null },
+    });
+
+    const replayed = await this.prisma.outboxEvent.findUniqueOrThrow({
+      where: { id: eventId },
+      include: { deliveries: { orderBy: { subscriber: 'asc' } } },
+    });
+    return this.formatEvent(replayed);
+  }
+
+  private formatEvent(event: OutboxEvent & { deliveries: OutboxDelivery[] }) {
+    return {
+      id: event.id,
+      type: event.type,
+      aggregateType: event.aggregateType,
+      aggregateId: event.aggregateId,
+      payload: event.payload,
+      createdAt: event.createdAt.toISOString(),
+      fannedOutAt: event.fannedOutAt?.toISOString() ?? null,
+      deliveries: event.deliveries.map((delivery) => ({
+        id: delivery.id,
+        subscriber: delivery.subscriber,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        lastError: delivery.lastError,
+        nextAttemptAt: delivery.nextAttemptAt.toISOString(),
+        deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+      })),
+    };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Payment Mismatch Service
+ *
+ * Ops view of payments the provider confirmed for a different amount or
+ * currency than expected. The funds wait in PAYMENT_SUSPENSE; resolving
+ * a mismatch posts to the ledger, so admins do that in
+ * settlement-service.
+ */
+
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { PaymentMismatch, PaymentMismatchKind, PaymentMismatchStatus, Prisma } from '@syntherium/db';
+
+@Injectable()
+export class PaymentMismatchService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lists mismatches, OPEN by default, oldest first.
+   */
+  async listMismatches(query: {
+    status?: string;
+    kind?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { page = 1, limit = 20 } = query;
+    const status = this.parseEnum(PaymentMismatchStatus, 'status', query.status) ?? PaymentMismatchStatus.OPEN;
+    const kind = this.parseEnum(PaymentMismatchKind, 'kind', query.kind);
+
+    const where: Prisma.PaymentMismatchWhereInput = {
+      status,
+      ...(kind && { kind }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.paymentMismatch.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.paymentMismatch.count({ where }),
+    ]);
+
+    return {
+      data: data.map((mismatch) => this.formatMismatch(mismatch)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  private parseEnum<T extends Record<string, string>>(
+    values: T,
+    field: string,
+    value: string | undefined,
+  ): T[keyof T] | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!Object.values(values).includes(value)) {
+      throw new BadRequestException({
+        code: `INVALID_${field.toUpperCase()}`,
+        message: `${field} must be one of ${Object.values(values).join(', ')}`,
+        details: { [field]: value },
+      });
+    }
+    return value as T[keyof T];
+  }
+
+  private formatMismatch(mismatch: PaymentMismatch) {
+    return {
+      id: mismatch.id,
+      reference: mismatch.reference,
+      paymentIntentId: mismatch.paymentIntentId,
+      orderId: mismatch.orderId,
+      kind: mismatch.kind,
+      expectedAmount: mismatch.expectedAmount.toString(),
+      expectedCurrency: mismatch.expectedCurrency,
+      receivedAmount: mismatch.receivedAmount.toString(),
+      receivedCurrency: mismatch.receivedCurrency,
+      suspenseAmount: mismatch.suspenseAmount.toString(),
+      status: mismatch.status,
+      refundAmount: mismatch.refundAmount?.toString() ?? null,
+      resolutionNote: mismatch.resolutionNote,
+      resolvedBy: mismatch.resolvedBy,
+      resolvedAt: mismatch.resolvedAt?.toISOString() ?? null,
+      createdAt: mismatch.createdAt.toISOString(),
+    };
+  }
+}
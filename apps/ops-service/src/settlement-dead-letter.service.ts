@@ -0,0 +1,150 @@
+/**
+ * Settlement Dead Letter Service
+ *
+ * Ops view of settlements that kept failing on contention until
+ * settlement-service gave up on them. Requeueing puts the job back to
+ * PENDING with a fresh attempt count; settlement-service's retry pass
+ * picks it up again. It is the only way a dead-lettered job is restarted:
+ * new settlement requests for the intent leave it alone.
+ */
+
+import { Injectable, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { Prisma, SettlementDeadLetter, SettlementJob, SettlementJobStatus } from '@syntherium/db';
+import { logAuditEvent } from '@syntherium/observability';
+
+const DEAD_LETTER_STATUSES = ['OPEN', 'REQUEUED'] as const;
+
+@Injectable()
+export class SettlementDeadLetterService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lists dead letters, newest first, with their job's current state.
+   *
+   * @param query.status - OPEN (not yet requeued, the default) or REQUEUED
+   */
+  async listDeadLetters(query: {
+    status?: string;
+    paymentIntentId?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { paymentIntentId, page = 1, limit = 20 } = query;
+    const status = query.status || 'OPEN';
+
+    if (!(DEAD_LETTER_STATUSES as readonly string[]).includes(status)) {
+      throw new BadRequestException({
+        code: 'INVALID_DEAD_LETTER_STATUS',
+        message: `status must be one of ${DEAD_LETTER_STATUSES.join(', ')}`,
+        details: { status: query.status },
+      });
+    }
+
+    const where: Prisma.SettlementDeadLetterWhereInput = {
+      requeuedAt: status === 'OPEN' ? null : { not: null },
+      ...(paymentIntentId && { paymentIntentId }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.settlementDeadLetter.findMany({
+        where,
+        include: { job: true },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.settlementDeadLetter.count({ where }),
+    ]);
+
+    return {
+      data: data.map((deadLetter) => this.formatDeadLetter(deadLetter)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  /**
+   * Puts a dead-lettered settlement back in the retry queue, due now.
+   * Both writes are guarded on the state they move from, so concurrent
+   * requeues cannot both succeed.
+   */
+  async requeueDeadLetter(deadLetterId: string, actorId: string) {
+    const deadLetter = await this.prisma.settlementDeadLetter.findUnique({
+      where: { id: deadLetterId },
+    });
+
+    if (!deadLetter) {
+      throw new NotFoundException({
+        code: 'SETTLEMENT_DEAD_LETTER_NOT_FOUND',
+        message: `Settlement dead letter not found: ${deadLetterId}`,
+      });
+    }
+
+    const requeued = await this.prisma.$transaction(async (tx) => {
+      const marked = await tx.settlementDeadLetter.updateMany({
+        where: { id: deadLetterId, requeuedAt: null },
+        data: { requeuedAt: new Date(), requeuedBy: actorId },
+      });
+      if (marked.count === 0) {
+        const current = await tx.settlementDeadLetter.findUniqueOrThrow({ where: { id: deadLetterId } });
+        throw new ConflictException({
+          code: 'DEAD_LETTER_ALREADY_REQUEUED',
+          message: `Settlement dead letter was already requeued: ${deadLetterId}`,
+          details: { requeuedAt: current.requeuedAt?.toISOString() ?? null, requeuedBy: current.requeuedBy },
+        });
+      }
+
+      const reset = await tx.settlementJob.updateMany({
+        where: { id: deadLetter.jobId, status: SettlementJobStatus.DEAD_LETTERED },
+        data: {
+          status: SettlementJobStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          completedAt: null,
+        },
+      });
+      if (reset.count === 0) {
+        const job = await tx.settlementJob.findUniqueOrThrow({ where: { id: deadLetter.jobId } });
+        throw new ConflictException({
+          code: 'SETTLEMENT_JOB_NOT_DEAD_LETTERED',
+          message: `Settlement job ${deadLetter.jobId} is no longer dead-lettered; it is ${job.status}`,
+          details: { jobId: deadLetter.jobId, jobStatus: job.status },
+        });
+      }
+
+      return tx.settlementDeadLetter.findUniqueOrThrow({
+        where: { id: deadLetterId },
+        include: { job: true },
+      });
+    });
+
+    logAuditEvent({
+      action: 'SETTLEMENT_DEAD_LETTER_REQUEUED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'SettlementDeadLetter', id: deadLetterId },
+      outcome: 'success',
+      details: { jobId: deadLetter.jobId, paymentIntentId: deadLetter.paymentIntentId, lastError: deadLetter.lastError },
+    });
+
+    return this.formatDeadLetter(requeued);
+  }
+
+  private formatDeadLetter(deadLetter: SettlementDeadLetter & { job: SettlementJob }) {
+    return {
+      id: deadLetter.id,
+      jobId: deadLetter.jobId,
+      paymentIntentId: deadLetter.paymentIntentId,
+      attempts: deadLetter.attempts,
+      lastError: deadLetter.lastError,
+      createdAt: deadLetter.createdAt.toISOString(),
+      requeuedAt: deadLetter.requeuedAt?.toISOString() ?? null,
+      requeuedBy: deadLetter.requeuedBy,
+      job: {
+        status: deadLetter.job.status,
+        attempts: deadLetter.job.attempts,
+        nextAttemptAt: deadLetter.job.nextAttemptAt.toISOString(),
+        completedAt: deadLetter.job.completedAt?.toISOString() ?? null,
+      },
+    };
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Unallocated Receipt Service
+ *
+ * Ops view of money providers confirmed that matched no payment intent.
+ * It waits in PAYMENT_SUSPENSE; matching a receipt to an order settles
+ * that order's payment, so admins do it in settlement-service.
+ */
+
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { PaymentProvider, Prisma, UnallocatedReceipt, UnallocatedReceiptStatus } from '@syntherium/db';
+
+@Injectable()
+export class UnallocatedReceiptService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lists receipts, UNALLOCATED by default, oldest first.
+   *
+   * @param query.reference - Only receipts whose webhook carried this reference
+   */
+  async listReceipts(query: {
+    status?: string;
+    provider?: string;
+    reference?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { reference, page = 1, limit = 20 } = query;
+    const status = this.parseEnum(UnallocatedReceiptStatus, 'status', query.status)
+      ?? UnallocatedReceiptStatus.UNALLOCATED;
+    const provider = this.parseEnum(PaymentProvider, 'provider', query.provider);
+
+    const where: Prisma.UnallocatedReceiptWhereInput = {
+      status,
+      ...(provider && { provider }),
+      ...(reference && { providerReference: reference }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.unallocatedReceipt.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.unallocatedReceipt.count({ where }),
+    ]);
+
+    return {
+      data: data.map((receipt) => this.formatReceipt(receipt)),
+      pagination: { page, limit, total, hasMore: page * limit < total },
+    };
+  }
+
+  private parseEnum<T extends Record<string, string>>(
+    values: T,
+    field: string,
+    value: string | undefined,
+  ): T[keyof T] | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!Object.values(values).includes(value)) {
+      throw new BadRequestException({
+        code: `INVALID_${field.toUpperCase()}`,
+        message: `${field} must be one of ${Object.values(values).join(', ')}`,
+        details: { [field]: value },
+      });
+    }
+    return value as T[keyof T];
+  }
+
+  private formatReceipt(receipt: UnallocatedReceipt) {
+    return {
+      id: receipt.id,
+      reference: receipt.reference,
+      provider: receipt.provider,
+      providerEventId: receipt.providerEventId,
+      providerReference: receipt.providerReference,
+      webhookId: receipt.webhookId,
+      amount: receipt.amount.toString(),
+      currency: receipt.currency,
+      suspenseAmount: receipt.suspenseAmount.toString(),
+      status: receipt.status,
+      paymentIntentId: receipt.paymentIntentId,
+      matchedBy: receipt.matchedBy,
+      matchedAt: receipt.matchedAt?.toISOString() ?? null,
+      note: receipt.note,
+      createdAt: receipt.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Vendor Bank Account Service
+ *
+ * Keeps the bank details vendor payouts are sent to. Payout batches copy
+ * the details onto each line, so a change only affects later batches.
+ * Every change is admin-only and audited.
+ */
+
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { VendorBankAccount } from '@syntherium/db';
+import { logAuditEvent } from '@syntherium/observability';
+
+export interface SetVendorBankAccountRequest {
+  bankCode?: string;
+  accountNumber?: string;
+  accountName?: string;
+}
+
+@Injectable()
+export class VendorBankAccountService {
+  constructor(private prisma: PrismaService) {}
+
+  async getBankAccount(vendorId: string) {
+    const account = await this.prisma.vendorBankAccount.findUnique({ where: { vendorId } });
+    if (!account) {
+      throw new NotFoundException({
+        code: 'BANK_ACCOUNT_NOT_FOUND',
+        message: `No bank account on file for vendor: ${vendorId}`,
+      });
+    }
+    return this.formatBankAccount(account);
+  }
+
+  async setBankAccount(vendorId: string, body: SetVendorBankAccountRequest, actorId: string) {
+    const bankCode = (body.bankCode || '').trim();
+    const accountNumber = (body.accountNumber || '').trim();
+    const accountName = (body.accountName || '').trim();
+
+    if (!/^\d{3,6}$/.test(bankCode) || !/^\d{10}$/.test(accountNumber) || !accountName) {
+      throw new BadRequestException({
+        code: 'INVALID_BANK_ACCOUNT',
+        message: 'bankCode (3-6 digits), accountNumber (10-digit NUBAN) and accountName are required',
+        details: { bankCode: body.bankCode, accountNumber: body.accountNumber },
+      });
+    }
+
+    const previous = await this.prisma.vendorBankAccount.findUnique({ where: { vendorId } });
+    const account = await this.prisma.vendorBankAccount.upsert({
+      where: { vendorId },
+      create: { vendorId, bankCode, accountNumber, accountName, updatedBy: actorId },
+      update: { bankCode, accountNumber, accountName, updatedBy: actorId },
+    });
+
+    logAuditEvent({
+      action: previous ? 'VENDOR_BANK_ACCOUNT_CHANGED' : 'VENDOR_BANK_ACCOUNT_ADDED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'VendorBankAccount', id: vendorId },
+      outcome: 'success',
+      details: {
+        bankCode,
+        accountNumberLast4: accountNumber.slice(-4),
+        ...(previous && {
+          previousBankCode: previous.bankCode,
+          previousAccountNumberLast4: previous.accountNumber.slice(-4),
+        }),
+      },
+    });
+
+    return this.formatBankAccount(account);
+  }
+
+  private formatBankAccount(account: VendorBankAccount) {
+    return {
+      vendorId: account.vendorId,
+      bankCode: account.bankCode,
+      accountNumber: account.accountNumber,
+      accountName: account.accountName,
+      createdAt: account.createdAt.toISOString(),
+      updatedAt: account.updatedAt.toISOString(),
+      updatedBy: account.updatedBy,
+    };
+  }
+}
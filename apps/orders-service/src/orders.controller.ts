@@ -1,5 +1,5 @@
 import { Controller, Post, Get, Param, Body, HttpCode, HttpStatus } from '@nestjs/common';
-import { OrdersService, CreateOrderDto } from './orders.service';
+import { OrdersService, CreateOrderDto, SettlementEventMessage } from './orders.service';
 
 @Controller('orders')
 export class OrdersController {
@@ -45,4 +45,13 @@ export class OrdersController {
   async getFinancialStatus(@Param('id') id: string) {
     return this.ordersService.getFinancialStatus(id);
   }
+
+  /**
+   * Subscriber endpoint for settlement-service's outbox (SETTLEMENT_OUTBOX_SUBSCRIBERS).
+   */
+  @Post('settlement-events')
+  @HttpCode(HttpStatus.OK)
+  async handleSettlementEvent(@Body() message: SettlementEventMessage) {
+    return this.ordersService.handleSettlementEvent(message);
+  }
 }
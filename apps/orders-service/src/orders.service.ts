@@ -3,6 +3,9 @@
  * 
  * Order lifecycle management.
  * CRITICAL: This service does NOT write ledger entries.
+ *
+ * Delivering an order records OrderDelivered in the outbox with the
+ * status change; settlement-service releases the order's escrow from it.
  */
 
 import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
@@ -13,6 +16,26 @@ import { createLogger } from '@syntherium/observability';
 
 const logger = createLogger('orders-service');
 
+/** A settlement-service outbox event, as delivered to the `orders` subscriber */
+export interface SettlementEventMessage {
+  id: string;
+  type: string;
+  aggregateType: string;
+  aggregateId: string;
+  payload: Record<string, unknown> | null;
+  occurredAt: string;
+}
+
+/** Outbox event type settlement-service releases a delivered order's escrow on */
+const ORDER_DELIVERED_EVENT = 'OrderDelivered';
+
+/** What each settlement event means for its order */
+const SETTLEMENT_EVENT_MESSAGES: Record<string, string> = {
+  PaymentSettled: 'Order payment settled',
+  RefundSettled: 'Order refund settled',
+  EscrowReleased: 'Order escrow released to vendor',
+};
+
 export interface CreateOrderDto {
   customerId: string;
   vendorId: string;
@@ -104,9 +127,27 @@ export class OrdersService {
     });
   }
 
+  /**
+   * Marks the order delivered and records OrderDelivered in the outbox in
+   * the same transaction, so its escrow release is delivered to
+   * settlement-service at least once, retried until it goes through.
+   */
   async deliver(id: string, dto: { deliveredAt?: Date }) {
-    return this.transitionStatus(id, OrderStatus.DISPATCHED, OrderStatus.DELIVERED, {
-      deliveredAt: dto.deliveredAt || new Date(),
+    return this.prisma.$transaction(async (tx) => {
+      const order = await this.transitionStatus(id, OrderStatus.DISPATCHED, OrderStatus.DELIVERED, {
+        deliveredAt: dto.deliveredAt || new Date(),
+      }, tx);
+
+      await tx.outboxEvent.create({
+        data: {
+          type: ORDER_DELIVERED_EVENT,
+          aggregateType: 'Order',
+          aggregateId: id,
+          payload: { orderId: id, vendorId: order.vendorId, deliveredAt: order.deliveredAt ?? null },
+        },
+      });
+
+      return order;
     });
   }
 
@@ -174,6 +215,35 @@ export class OrdersService {
     };
   }
 
+  /**
+   * Receives settlement events from settlement-service's outbox. Each is
+   * recorded against its order; delivery is at least once, so the same
+   * event id may arrive more than once.
+   */
+  async handleSettlementEvent(message: SettlementEventMessage) {
+    if (!message?.id || !message.type) {
+      throw new BadRequestException({
+        code: 'INVALID_SETTLEMENT_EVENT',
+        message: 'id and type are required',
+      });
+    }
+
+    const orderId = typeof message.payload?.orderId === 'string' ? message.payload.orderId : undefined;
+    const description = SETTLEMENT_EVENT_MESSAGES[message.type];
+    if (!description || !orderId) {
+      logger.debug('Settlement event ignored', { eventId: message.id, type: message.type });
+      return { eventId: message.id, handled: false };
+    }
+
+    logger.info(description, {
+      orderId,
+      eventId: message.id,
+      type: message.type,
+      occurredAt: message.occurredAt,
+    });
+    return { eventId: message.id, handled: true };
+  }
+
   private async transitionStatus(
     id: string,
     fromStatus: OrderStatus,
@@ -182,9 +252,10 @@ export class OrdersService {
       estimatedDeliveryTime: Date;
       driverId: string;
       deliveredAt: Date;
-    }>
+    }>,
+    client: Prisma.TransactionClient = this.prisma,
   ) {
-    const order = await this.prisma.order.findUnique({ where: { id } });
+    const order = await client.order.findUnique({ where: { id } });
     
     if (!order) {
       throw new NotFoundException(`Order not found: ${id}`);
@@ -198,7 +269,7 @@ export class OrdersService {
       });
     }
 
-    const updated = await this.prisma.order.update({
+    const updated = await client.order.update({
       where: { id },
       data: { status: toStatus, ...data },
       include: { items: true },
@@ -216,7 +287,9 @@ export class OrdersService {
       case PaymentIntentStatus.CONFIRMING: return 'Payment confirming';
       case PaymentIntentStatus.FAILED: return 'Payment failed';
       case PaymentIntentStatus.EXPIRED: return 'Payment expired';
+      case PaymentIntentStatus.PARTIALLY_REFUNDED: return 'Payment partially refunded';
       case PaymentIntentStatus.REFUNDED: return 'Payment refunded';
+      case PaymentIntentStatus.UNDER_REVIEW: return 'Payment under review';
       default: return 'Unknown payment status';
     }
   }
@@ -1,11 +1,54 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { HealthController } from './health.controller';
+import { SettlementController } from './settlement.controller';
+import { PayoutController } from './payout.controller';
+import { DisputeController } from './dispute.controller';
+import { PaymentMismatchController } from './payment-mismatch.controller';
+import { UnallocatedReceiptController } from './unallocated-receipt.controller';
+import { DiscountCampaignController } from './discount-campaign.controller';
 import { SettlementService } from './settlement.service';
+import { RefundSettlementService } from './refund-settlement.service';
+import { EscrowReleaseService } from './escrow-release.service';
+import { PayoutService } from './payout.service';
+import { DisputeService } from './dispute.service';
+import { PaymentMismatchService } from './payment-mismatch.service';
+import { UnallocatedReceiptService } from './unallocated-receipt.service';
+import { DiscountCampaignService } from './discount-campaign.service';
+import { HoldExpiryService } from './hold-expiry.service';
+import { OutboxDispatcherService } from './outbox-dispatcher.service';
+import { SettlementJobService } from './settlement-job.service';
 import { PrismaService } from './prisma.service';
+import { RolesGuard } from '@syntherium/security';
 
 @Module({
-  controllers: [HealthController],
-  providers: [PrismaService, SettlementService],
-  exports: [SettlementService],
+  controllers: [
+    HealthController,
+    SettlementController,
+    PayoutController,
+    DisputeController,
+    PaymentMismatchController,
+    UnallocatedReceiptController,
+    DiscountCampaignController,
+  ],
+  providers: [
+    PrismaService,
+    SettlementService,
+    RefundSettlementService,
+    EscrowReleaseService,
+    PayoutService,
+    DisputeService,
+    PaymentMismatchService,
+    UnallocatedReceiptService,
+    DiscountCampaignService,
+    HoldExpiryService,
+    OutboxDispatcherService,
+    SettlementJobService,
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
+  ],
+  exports: [SettlementService, OutboxDispatcherService],
 })
 export class AppModule {}
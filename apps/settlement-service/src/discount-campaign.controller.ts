@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Body,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { DiscountCampaignService } from './discount-campaign.service';
+import { Prisma } from '@syntherium/db';
+import { Roles, Role, UserContext } from '@syntherium/security';
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Discount campaign budgets. Served by settlement-service because
+ * funding a campaign posts to the ledger, so it is admin-only; campaigns
+ * are created, paused and listed through ops-service. Reserving a
+ * discount holds budget, so it is here too, for intent-service only.
+ */
+@Controller('discount-campaigns')
+@Roles(Role.ADMIN)
+export class DiscountCampaignController {
+  constructor(private readonly discountCampaignService: DiscountCampaignService) {}
+
+  @Post(':campaignId/fund')
+  @HttpCode(HttpStatus.OK)
+  async fundCampaign(
+    @Param('campaignId') campaignId: string,
+    @Body() body: { amount?: string; note?: string },
+    @Req() req: any,
+  ) {
+    const amount = DECIMAL_PATTERN.test(String(body?.amount ?? '')) ? new Prisma.Decimal(body.amount as string) : null;
+    if (!amount || !amount.greaterThan(0)) {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: 'amount must be a positive decimal',
+        details: { amount: body?.amount },
+      });
+    }
+
+    const user = req.user as UserContext;
+    const result = await this.discountCampaignService.fundCampaign(campaignId, {
+      amount,
+      note: body.note,
+    }, user?.id || 'unknown');
+
+    return {
+      campaignId,
+      code: result.campaign.code,
+      walletAccountId: result.campaign.walletAccountId,
+      journalId: result.journal.journalId,
+      reference: result.journal.reference,
+      amount: amount.toString(),
+      budgetBalance: result.budgetBalance.toString(),
+    };
+  }
+
+  @Post(':campaignId/reservations')
+  @Roles(Role.SERVICE)
+  @HttpCode(HttpStatus.OK)
+  async reserveDiscount(
+    @Param('campaignId') campaignId: string,
+    @Body() body: { reference?: string; amount?: string },
+  ) {
+    if (!body?.reference || typeof body.reference !== 'string') {
+      throw new BadRequestException({
+        code: 'REFERENCE_REQUIRED',
+        message: 'reference is required',
+      });
+    }
+
+    const amount = DECIMAL_PATTERN.test(String(body.amount ?? '')) ? new Prisma.Decimal(body.amount as string) : null;
+    if (!amount || !amount.greaterThan(0)) {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: 'amount must be a positive decimal',
+        details: { amount: body.amount },
+      });
+    }
+
+    const { campaign, hold } = await this.discountCampaignService.reserveDiscount(campaignId, {
+      reference: body.reference,
+      amount,
+    });
+
+    return {
+      campaignId,
+      code: campaign.code,
+      walletAccountId: campaign.walletAccountId,
+      holdId: hold.id,
+      reference: hold.reference,
+      amount: hold.amount.toString(),
+      currency: hold.currency,
+      status: hold.status,
+      expiresAt: hold.expiresAt?.toISOString() ?? null,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Discount Campaign Service Tests
+ *
+ * Tests for:
+ * - Funding a campaign's wallet from MARKETING_WALLET, numbered per campaign
+ * - Reserving a payment's discount as a hold on the campaign wallet
+ * - Which wallet pays (and is refunded) a payment's subsidy
+ */
+
+import { DiscountCampaignService, subsidyWalletAccount } from './discount-campaign.service';
+import { Prisma } from '@syntherium/db';
+import { postJournal, placeHold, LedgerError } from '@syntherium/ledger-core';
+
+jest.mock('@syntherium/ledger-core', () => ({
+  ...jest.requireActual('@syntherium/ledger-core'),
+  postJournal: jest.fn(),
+  placeHold: jest.fn(),
+}));
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+describe('DiscountCampaignService', () => {
+  let campaignService: DiscountCampaignService;
+  let mockTx: any;
+  let campaign: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    campaign = {
+      id: 'dc_1',
+      code: 'PROMO2024',
+      currency: 'NGN',
+      walletAccountId: 'CAMPAIGN_PROMO2024',
+    };
+
+    mockTx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      discountCampaign: {
+        findUnique: jest.fn(async () => campaign),
+        findUniqueOrThrow: jest.fn(async () => campaign),
+      },
+      ledgerJournal: {
+        count: jest.fn().mockResolvedValue(2),
+      },
+      walletBalanceCache: {
+        findUniqueOrThrow: jest.fn().mockResolvedValue({ accountId: 'CAMPAIGN_PROMO2024', balance: decimal('75000') }),
+      },
+    };
+
+    (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_fund', reference: 'CAMPAIGN_PROMO2024_FUND_3', entries: [] });
+    campaignService = new DiscountCampaignService({ $transaction: jest.fn((callback) => callback(mockTx)) } as any);
+  });
+
+  it('should move budget from MARKETING_WALLET to the campaign wallet', async () => {
+    const result = await campaignService.fundCampaign('dc_1', { amount: decimal('25000') }, 'admin_1');
+
+    expect(postJournal).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+      reference: 'CAMPAIGN_PROMO2024_FUND_3',
+      legs: [
+        expect.objectContaining({ accountId: 'MARKETING_WALLET', entryType: 'DEBIT', amount: decimal('25000') }),
+        expect.objectContaining({ accountId: 'CAMPAIGN_PROMO2024', entryType: 'CREDIT', amount: decimal('25000') }),
+      ],
+    }));
+    expect(result.budgetBalance.toString()).toBe('75000');
+  });
+
+  it('should not fund an unknown campaign', async () => {
+    mockTx.discountCampaign.findUnique.mockResolvedValue(null);
+
+    await expect(campaignService.fundCampaign('dc_missing', { amount: decimal('100') }, 'admin_1'))
+      .rejects.toMatchObject({ response: expect.objectContaining({ code: 'DISCOUNT_CAMPAIGN_NOT_FOUND' }) });
+    expect(postJournal).not.toHaveBeenCalled();
+  });
+
+  it('should reserve the discount on the campaign wallet until it lapses', async () => {
+    (placeHold as jest.Mock).mockImplementation(async (_tx, params) => ({ id: 'hold_1', status: 'ACTIVE', ...params }));
+    const before = Date.now();
+
+    const result = await campaignService.reserveDiscount('dc_1', {
+      reference: 'PAYMENT_order_1',
+      amount: decimal('2000'),
+    });
+
+    expect(placeHold).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+      accountId: 'CAMPAIGN_PROMO2024',
+      reference: 'PAYMENT_order_1',
+      amount: decimal('2000'),
+    }));
+    expect(result.hold.expiresAt!.getTime()).toBeGreaterThanOrEqual(before + 24 * 60 * 60 * 1000);
+  });
+
+  it('should refuse a reservation the budget cannot cover', async () => {
+    (placeHold as jest.Mock).mockRejectedValue(new LedgerError('INSUFFICIENT_BALANCE', 'Insufficient available balance', {
+      availableBalance: '1500',
+    }));
+
+    await expect(campaignService.reserveDiscount('dc_1', { reference: 'PAYMENT_order_1', amount: decimal('2000') }))
+      .rejects.toMatchObject({
+        status: 409,
+        response: expect.objectContaining({
+          code: 'CAMPAIGN_BUDGET_EXHAUSTED',
+          details: expect.objectContaining({ discountAmount: '2000', availableBalance: '1500' }),
+        }),
+      });
+  });
+
+  it('should pay subsidies from the campaign wallet, or MARKETING_WALLET without one', async () => {
+    expect(await subsidyWalletAccount(mockTx, { discountCampaignId: 'dc_1' })).toBe('CAMPAIGN_PROMO2024');
+    expect(await subsidyWalletAccount(mockTx, { discountCampaignId: null })).toBe('MARKETING_WALLET');
+  });
+});
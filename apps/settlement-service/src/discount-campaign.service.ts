@@ -0,0 +1,243 @@
+/**
+ * Discount Campaign Service
+ *
+ * Funds discount campaigns' budget wallets. Each campaign subsidises its
+ * discounts from its own wallet (CAMPAIGN_{code}), topped up from
+ * MARKETING_WALLET here, so settlement can refuse a subsidy once the
+ * campaign's budget is spent. Campaigns are created and paused through
+ * ops-service.
+ *
+ * intent-service reserves each discount here when it creates the
+ * intent: a hold on the campaign's wallet, referenced by the payment
+ * reference, that settlement captures. An unsettled intent's hold lapses
+ * after DISCOUNT_RESERVATION_TTL_MS.
+ */
+
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { DiscountCampaign, LedgerEntryType, PaymentIntent, Prisma, SystemAccounts, WalletHold } from '@syntherium/db';
+import {
+  postJournal,
+  placeHold,
+  convertAmount,
+  runLedgerTransaction,
+  PrismaFxRateSource,
+  LedgerError,
+  PostJournalResult,
+  BASE_CURRENCY,
+} from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+/** How long a discount stays reserved for an unsettled intent */
+const DEFAULT_DISCOUNT_RESERVATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface FundCampaignResult {
+  campaign: DiscountCampaign;
+  journal: PostJournalResult;
+  /** The campaign wallet's balance after funding */
+  budgetBalance: Prisma.Decimal;
+}
+
+export interface ReserveDiscountResult {
+  campaign: DiscountCampaign;
+  /** The reservation, in NGN; an existing one when the reference already has it */
+  hold: WalletHold;
+}
+
+/**
+ * Wallet that pays a payment's discount subsidy: its campaign's budget
+ * wallet, or MARKETING_WALLET for payments discounted before campaigns.
+ * Refunds return the subsidy to the same wallet.
+ */
+export async function subsidyWalletAccount(
+  tx: Prisma.TransactionClient,
+  intent: Pick<PaymentIntent, 'discountCampaignId'>,
+): Promise<string> {
+  if (!intent.discountCampaignId) {
+    return SystemAccounts.MARKETING_WALLET;
+  }
+
+  const campaign = await tx.discountCampaign.findUniqueOrThrow({
+    where: { id: intent.discountCampaignId },
+  });
+  return campaign.walletAccountId;
+}
+
+@Injectable()
+export class DiscountCampaignService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Moves budget from MARKETING_WALLET to the campaign's wallet as one
+   * journal, referenced {walletAccountId}_FUND_{seq}.
+   */
+  async fundCampaign(
+    campaignId: string,
+    params: { amount: Prisma.Decimal; note?: string },
+    actorId: string,
+  ): Promise<FundCampaignResult> {
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      // Fundings of one campaign are numbered one at a time
+      await tx.$queryRaw`SELECT id FROM discount_campaigns WHERE id = ${campaignId} FOR UPDATE`;
+      const campaign = await tx.discountCampaign.findUnique({ where: { id: campaignId } });
+
+      if (!campaign) {
+        throw new NotFoundException({
+          code: 'DISCOUNT_CAMPAIGN_NOT_FOUND',
+          message: `Discount campaign not found: ${campaignId}`,
+        });
+      }
+
+      const fundings = await tx.ledgerJournal.count({
+        where: { reference: { startsWith: `${campaign.walletAccountId}_FUND_` } },
+      });
+      const description = `Budget for discount campaign ${campaign.code}` +
+        (params.note ? ` (${params.note})` : '');
+
+      const journal = await postJournal(tx, {
+        reference: `${campaign.walletAccountId}_FUND_${fundings + 1}`,
+        description,
+        metadata: { campaignId, fundedBy: actorId },
+        legs: [
+          {
+            accountId: SystemAccounts.MARKETING_WALLET,
+            entryType: LedgerEntryType.DEBIT,
+            amount: params.amount,
+            description,
+          },
+          {
+            accountId: campaign.walletAccountId,
+            entryType: LedgerEntryType.CREDIT,
+            amount: params.amount,
+            description,
+          },
+        ],
+      });
+
+      const wallet = await tx.walletBalanceCache.findUniqueOrThrow({
+        where: { accountId: campaign.walletAccountId },
+      });
+
+      return { campaign, journal, budgetBalance: wallet.balance };
+    }, {
+      timeout: 10000,
+    }));
+
+    logger.info('Discount campaign funded', {
+      campaignId,
+      code: result.campaign.code,
+      journalId: result.journal.journalId,
+      amount: params.amount.toString(),
+    });
+
+    logAuditEvent({
+      action: 'DISCOUNT_CAMPAIGN_FUNDED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'DiscountCampaign', id: campaignId },
+      outcome: 'success',
+      details: {
+        code: result.campaign.code,
+        reference: result.journal.reference,
+        amount: params.amount.toString(),
+        budgetBalance: result.budgetBalance.toString(),
+        note: params.note ?? null,
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Holds a payment's discount (in NGN, at the current rate for a foreign
+   * currency) on the campaign's wallet, referenced by the payment
+   * reference. Idempotent per reference. Expired holds are swept before
+   * the budget is checked.
+   *
+   * @throws NotFoundException DISCOUNT_CAMPAIGN_NOT_FOUND
+   * @throws ConflictException CAMPAIGN_BUDGET_EXHAUSTED if the budget's
+   *   available balance cannot cover the discount
+   * @throws BadRequestException for other ledger rejections, e.g. no FX rate
+   */
+  async reserveDiscount(
+    campaignId: string,
+    params: { reference: string; amount: Prisma.Decimal },
+  ): Promise<ReserveDiscountResult> {
+    const ttlMs = parseInt(
+      process.env.DISCOUNT_RESERVATION_TTL_MS ?? String(DEFAULT_DISCOUNT_RESERVATION_TTL_MS),
+      10
+    );
+
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      const campaign = await tx.discountCampaign.findUnique({ where: { id: campaignId } });
+
+      if (!campaign) {
+        throw new NotFoundException({
+          code: 'DISCOUNT_CAMPAIGN_NOT_FOUND',
+          message: `Discount campaign not found: ${campaignId}`,
+        });
+      }
+
+      const subsidy = campaign.currency === BASE_CURRENCY
+        ? params.amount
+        : convertAmount(params.amount, await new PrismaFxRateSource(tx).getRate(campaign.currency, BASE_CURRENCY));
+
+      try {
+        const hold = await placeHold(tx, {
+          accountId: campaign.walletAccountId,
+          reference: params.reference,
+          amount: subsidy,
+          reason: `Discount ${campaign.code} for ${params.reference}`,
+          expiresAt: new Date(Date.now() + ttlMs),
+        });
+        return { campaign, hold };
+      } catch (error) {
+        if (error instanceof LedgerError && (error.code === 'INSUFFICIENT_BALANCE' || error.code === 'WALLET_NOT_FOUND')) {
+          throw new ConflictException({
+            code: 'CAMPAIGN_BUDGET_EXHAUSTED',
+            message: `The budget for discount code ${campaign.code} cannot cover this discount`,
+            details: {
+              discountCode: campaign.code,
+              walletAccountId: campaign.walletAccountId,
+              discountAmount: params.amount.toString(),
+              availableBalance: error.details?.availableBalance ?? '0',
+            },
+          });
+        }
+        throw error;
+      }
+    }, {
+      timeout: 10000,
+    }));
+
+    logger.info('Discount reserved', {
+      campaignId,
+      code: result.campaign.code,
+      reference: params.reference,
+      holdId: result.hold.id,
+      amount: result.hold.amount.toString(),
+    });
+
+    return result;
+  }
+
+  /**
+   * Surfaces ledger rejections (e.g. MARKETING_WALLET cannot cover the
+   * funding, no FX rate for a reservation) as 400s instead of unhandled errors.
+   */
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
+  }
+}
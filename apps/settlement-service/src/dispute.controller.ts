@@ -0,0 +1,132 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Body,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { DisputeService, DisputeActor } from './dispute.service';
+import { Dispute, DisputeStatus, Prisma } from '@syntherium/db';
+import { Roles, Role, UserContext } from '@syntherium/security';
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Chargebacks. Served by settlement-service because opening a dispute
+ * holds funds and losing one posts to the ledger. Providers report both
+ * through webhook-service; admins may record them by hand. Ops lists
+ * disputes through ops-service.
+ */
+@Controller('disputes')
+@Roles(Role.SERVICE, Role.ADMIN)
+export class DisputeController {
+  constructor(private readonly disputeService: DisputeService) {}
+
+  @Post()
+  async openDispute(
+    @Body() body: {
+      paymentReference?: string;
+      providerDisputeId?: string;
+      amount?: string;
+      reason?: string;
+      evidenceDueAt?: string;
+    },
+    @Req() req: any,
+  ) {
+    if (!body?.paymentReference || !body.providerDisputeId) {
+      throw new BadRequestException({
+        code: 'INVALID_DISPUTE',
+        message: 'paymentReference and providerDisputeId are required',
+      });
+    }
+    if (!DECIMAL_PATTERN.test(String(body.amount ?? ''))) {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: 'amount must be a positive decimal',
+        details: { amount: body.amount },
+      });
+    }
+
+    const evidenceDueAt = body.evidenceDueAt ? new Date(body.evidenceDueAt) : undefined;
+    if (evidenceDueAt && isNaN(evidenceDueAt.getTime())) {
+      throw new BadRequestException({
+        code: 'INVALID_DATE',
+        message: 'evidenceDueAt must be an ISO 8601 date-time',
+        details: { evidenceDueAt: body.evidenceDueAt },
+      });
+    }
+
+    const dispute = await this.disputeService.openDispute({
+      paymentReference: body.paymentReference,
+      providerDisputeId: body.providerDisputeId,
+      amount: new Prisma.Decimal(body.amount as string),
+      reason: body.reason,
+      evidenceDueAt,
+    }, this.actor(req));
+    return this.formatDispute(dispute);
+  }
+
+  @Post(':disputeId/resolve')
+  @HttpCode(HttpStatus.OK)
+  async resolveDispute(
+    @Param('disputeId') disputeId: string,
+    @Body() body: { outcome?: string; fee?: string; note?: string },
+    @Req() req: any,
+  ) {
+    if (body?.outcome !== DisputeStatus.WON && body?.outcome !== DisputeStatus.LOST) {
+      throw new BadRequestException({
+        code: 'INVALID_OUTCOME',
+        message: `outcome must be ${DisputeStatus.WON} or ${DisputeStatus.LOST}`,
+        details: { outcome: body?.outcome },
+      });
+    }
+    if (body.fee !== undefined && !DECIMAL_PATTERN.test(String(body.fee))) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE',
+        message: 'fee must be a non-negative decimal',
+        details: { fee: body.fee },
+      });
+    }
+
+    const dispute = await this.disputeService.resolveDispute(disputeId, {
+      outcome: body.outcome,
+      fee: body.fee !== undefined ? new Prisma.Decimal(body.fee) : undefined,
+      note: body.note,
+    }, this.actor(req));
+    return this.formatDispute(dispute);
+  }
+
+  private actor(req: any): DisputeActor {
+    const user = req.user as UserContext | undefined;
+    return {
+      id: user?.id || 'unknown',
+      type: user?.roles.includes(Role.SERVICE) ? 'service' : 'user',
+    };
+  }
+
+  private formatDispute(dispute: Dispute) {
+    return {
+      id: dispute.id,
+      reference: dispute.reference,
+      paymentIntentId: dispute.paymentIntentId,
+      orderId: dispute.orderId,
+      provider: dispute.provider,
+      providerDisputeId: dispute.providerDisputeId,
+      amount: dispute.amount.toString(),
+      currency: dispute.currency,
+      reason: dispute.reason,
+      status: dispute.status,
+      evidenceDueAt: dispute.evidenceDueAt?.toISOString() ?? null,
+      evidenceSubmittedAt: dispute.evidenceSubmittedAt?.toISOString() ?? null,
+      holdAccountId: dispute.holdAccountId,
+      heldAmount: dispute.heldAmount.toString(),
+      feeAmount: dispute.feeAmount?.toString() ?? null,
+      resolutionNote: dispute.resolutionNote,
+      resolvedAt: dispute.resolvedAt?.toISOString() ?? null,
+      createdAt: dispute.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Dispute Service Tests
+ *
+ * Tests for:
+ * - Holding a chargeback in escrow, or in the vendor wallet after release
+ * - Only what was paid and not refunded can be disputed, and escrow holds
+ *   only what it still holds for the order
+ * - LOST: chargeback, shortfall and fee posted as one journal
+ * - WON: hold released, nothing posted
+ */
+
+import { DisputeService } from './dispute.service';
+import { DisputeStatus, LedgerEntryType, OrderStatus, PaymentIntentStatus, Prisma } from '@syntherium/db';
+import { postJournal, placeHold, releaseHold } from '@syntherium/ledger-core';
+
+jest.mock('@syntherium/ledger-core', () => ({
+  ...jest.requireActual('@syntherium/ledger-core'),
+  postJournal: jest.fn(),
+  lockAccounts: jest.fn(),
+  placeHold: jest.fn(),
+  releaseHold: jest.fn(),
+}));
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+const service = { id: 'service-account', type: 'service' as const };
+
+describe('DisputeService', () => {
+  let disputeService: DisputeService;
+  let escrowReleaseService: { releaseOrder: jest.Mock; heldInEscrow: jest.Mock };
+  let refunds: any[];
+  let mockTx: any;
+  let intent: any;
+  let disputes: any[];
+  let wallet: any;
+
+  const legsPosted = () => (postJournal as jest.Mock).mock.calls[0][1].legs.map((leg: any) => [
+    leg.reference,
+    leg.accountId,
+    leg.entryType,
+    leg.amount.toString(),
+  ]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    disputes = [];
+    refunds = [];
+    wallet = { accountId: 'PLATFORM_ESCROW', balance: decimal('500000'), heldAmount: decimal('0') };
+    intent = {
+      id: 'pi_1',
+      reference: 'PAYMENT_order_1',
+      orderId: 'order_1',
+      provider: 'paystack',
+      amount: decimal('10000'),
+      currency: 'NGN',
+      status: PaymentIntentStatus.SETTLED,
+      order: { id: 'order_1', vendorId: 'a', status: OrderStatus.DISPATCHED },
+    };
+
+    mockTx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      paymentIntent: {
+        findUnique: jest.fn(async () => intent),
+        findUniqueOrThrow: jest.fn(async () => ({ ...intent, disputes })),
+      },
+      ledgerJournal: {
+        findUnique: jest.fn().mockResolvedValue(null),
+      },
+      walletBalanceCache: {
+        findUnique: jest.fn(async () => wallet),
+      },
+      refundIntent: {
+        findMany: jest.fn(async () => refunds),
+      },
+      dispute: {
+        findUnique: jest.fn(async ({ where }: any) => disputes.find((d) =>
+          where.id ? d.id === where.id : d.providerDisputeId === where.provider_providerDisputeId.providerDisputeId
+        ) ?? null),
+        findUniqueOrThrow: jest.fn(async ({ where }: any) => disputes.find((d) => d.id === where.id)),
+        create: jest.fn(async ({ data }: any) => {
+          const dispute = { id: `dp_${disputes.length + 1}`, status: DisputeStatus.OPEN, ...data };
+          disputes.push(dispute);
+          return dispute;
+        }),
+        update: jest.fn(async ({ where, data }: any) => ({ ...disputes.find((d) => d.id === where.id), ...data })),
+      },
+    };
+
+    (placeHold as jest.Mock).mockResolvedValue({ id: 'hold_1' });
+    (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_1', entries: [] });
+    escrowReleaseService = { releaseOrder: jest.fn(), heldInEscrow: jest.fn().mockResolvedValue(decimal('10000')) };
+    disputeService = new DisputeService(
+      {
+        $transaction: jest.fn((callback) => callback(mockTx)),
+        order: { findUnique: jest.fn(async () => intent.order) },
+      } as any,
+      escrowReleaseService as any,
+    );
+  });
+
+  const open = () => disputeService.openDispute({
+    paymentReference: 'PAYMENT_order_1',
+    providerDisputeId: 'CHB_123',
+    amount: decimal('10000'),
+    evidenceDueAt: new Date('2026-11-01T00:00:00Z'),
+  }, service);
+
+  describe('openDispute', () => {
+    it('should hold the disputed amount in escrow until the order is released', async () => {
+      const dispute = await open();
+
+      expect(placeHold).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+        accountId: 'PLATFORM_ESCROW',
+        reference: 'DISPUTE_pi_1_1',
+        amount: decimal('10000'),
+      }));
+      expect(dispute).toMatchObject({ holdAccountId: 'PLATFORM_ESCROW', holdId: 'hold_1', status: DisputeStatus.OPEN });
+
+      // The provider retrying its notification finds the same dispute
+      expect(await open()).toBe(dispute);
+      expect(placeHold).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hold what the vendor wallet has available once released', async () => {
+      mockTx.ledgerJournal.findUnique.mockResolvedValue({ id: 'jr_release', reference: 'RELEASE_order_1' });
+      wallet = { accountId: 'VENDOR_A', balance: decimal('7000'), heldAmount: decimal('1000') };
+
+      const dispute = await open();
+
+      expect(dispute.holdAccountId).toBe('VENDOR_A');
+      expect(dispute.heldAmount.toString()).toBe('6000');
+      expect(placeHold).toHaveBeenCalledWith(mockTx, expect.objectContaining({ accountId: 'VENDOR_A' }));
+    });
+
+    it('should dispute only what a refunded order has left, held from its own escrow', async () => {
+      intent.status = PaymentIntentStatus.PARTIALLY_REFUNDED;
+      refunds = [{ amount: decimal('6000') }];
+      escrowReleaseService.heldInEscrow.mockResolvedValue(decimal('4000'));
+
+      await expect(open()).rejects.toMatchObject({
+        response: expect.objectContaining({
+          code: 'DISPUTE_EXCEEDS_PAYMENT',
+          details: expect.objectContaining({ refundedAmount: '6000' }),
+        }),
+      });
+
+      // Pooled escrow holds plenty for other orders; only what it still
+      // holds for this one is held, the rest is CHARGEBACK_EXPENSE's if lost
+      escrowReleaseService.heldInEscrow.mockResolvedValue(decimal('3500'));
+      const dispute = await disputeService.openDispute({
+        paymentReference: 'PAYMENT_order_1',
+        providerDisputeId: 'CHB_456',
+        amount: decimal('4000'),
+      }, service);
+
+      expect(escrowReleaseService.heldInEscrow).toHaveBeenCalledWith(mockTx, 'order_1');
+      expect(dispute.heldAmount.toString()).toBe('3500');
+      expect(placeHold).toHaveBeenCalledWith(mockTx, expect.objectContaining({ amount: decimal('3500') }));
+
+      intent.status = PaymentIntentStatus.REFUNDED;
+      refunds = [{ amount: decimal('10000') }];
+      await expect(disputeService.openDispute({
+        paymentReference: 'PAYMENT_order_1',
+        providerDisputeId: 'CHB_789',
+        amount: decimal('1'),
+      }, service)).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'DISPUTE_EXCEEDS_PAYMENT' }),
+      });
+    });
+
+    it('should refuse payments that have not settled', async () => {
+      intent.status = PaymentIntentStatus.CONFIRMING;
+
+      await expect(open()).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'PAYMENT_NOT_SETTLED' }),
+      });
+      expect(placeHold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveDispute', () => {
+    beforeEach(() => {
+      disputes.push({
+        id: 'dp_1',
+        reference: 'DISPUTE_pi_1_1',
+        paymentIntentId: 'pi_1',
+        orderId: 'order_1',
+        provider: 'paystack',
+        providerDisputeId: 'CHB_123',
+        amount: decimal('10000'),
+        currency: 'NGN',
+        status: DisputeStatus.OPEN,
+        holdAccountId: 'VENDOR_A',
+        holdId: 'hold_1',
+        heldAmount: decimal('6000'),
+      });
+    });
+
+    it('should charge back the held amount, cover the shortfall and post the fee', async () => {
+      const dispute = await disputeService.resolveDispute('dp_1', {
+        outcome: DisputeStatus.LOST,
+        fee: decimal('500'),
+      }, service);
+
+      expect(releaseHold).toHaveBeenCalledWith(mockTx, 'hold_1');
+      expect(legsPosted()).toEqual([
+        ['DISPUTE_pi_1_1_SHORTFALL', 'VENDOR_A', LedgerEntryType.CREDIT, '4000'],
+        ['DISPUTE_pi_1_1_SHORTFALL', 'CHARGEBACK_EXPENSE', LedgerEntryType.DEBIT, '4000'],
+        [undefined, 'VENDOR_A', LedgerEntryType.DEBIT, '10000'],
+        [undefined, 'PAYMENT_CLEARING', LedgerEntryType.CREDIT, '10000'],
+        ['DISPUTE_pi_1_1_FEE', 'CHARGEBACK_EXPENSE', LedgerEntryType.DEBIT, '500'],
+        ['DISPUTE_pi_1_1_FEE', 'PAYMENT_CLEARING', LedgerEntryType.CREDIT, '500'],
+      ]);
+      expect(dispute.status).toBe(DisputeStatus.LOST);
+      expect(escrowReleaseService.releaseOrder).not.toHaveBeenCalled();
+    });
+
+    it('should release the hold and the delivered order when won', async () => {
+      disputes[0].holdAccountId = 'PLATFORM_ESCROW';
+      intent.order.status = OrderStatus.DELIVERED;
+
+      const dispute = await disputeService.resolveDispute('dp_1', { outcome: DisputeStatus.WON }, service);
+
+      expect(releaseHold).toHaveBeenCalledWith(mockTx, 'hold_1');
+      expect(postJournal).not.toHaveBeenCalled();
+      expect(dispute.status).toBe(DisputeStatus.WON);
+      expect(escrowReleaseService.releaseOrder).toHaveBeenCalledWith('order_1');
+    });
+
+    it('should not change the outcome of a resolved dispute', async () => {
+      disputes[0].status = DisputeStatus.WON;
+
+      await expect(disputeService.resolveDispute('dp_1', { outcome: DisputeStatus.LOST }, service))
+        .rejects.toMatchObject({ response: expect.objectContaining({ code: 'DISPUTE_ALREADY_RESOLVED' }) });
+      expect(releaseHold).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * Dispute Service
+ *
+ * Provider chargebacks against settled payments:
+ * 1. openDispute - records the dispute and places a hold, referenced by
+ *    the dispute, on wherever the order's money now sits: PLATFORM_ESCROW
+ *    before release, the vendor wallet after. The hold is in NGN at the
+ *    rate the payment settled at, and never more than the account has
+ *    available - in escrow, never more than escrow still holds for this
+ *    order. Only what was paid and not refunded can be disputed.
+ * 2. resolveDispute - WON releases the hold. LOST releases it and posts
+ *    ONE balanced journal referenced by the dispute:
+ *    - DEBIT the held account + CREDIT PAYMENT_CLEARING (the chargeback;
+ *      the provider takes it back out of what it owes us)
+ *    - DEBIT CHARGEBACK_EXPENSE + CREDIT the held account for any part
+ *      of the chargeback the hold did not cover
+ *    - DEBIT CHARGEBACK_EXPENSE + CREDIT PAYMENT_CLEARING (the provider's
+ *      chargeback fee, when there is one)
+ *
+ * Foreign payments are charged back in their own currency, converted as
+ * refunds are. While a dispute is open the order's escrow is not
+ * released; a payment with an open or lost dispute cannot be refunded.
+ */
+
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { escrowReleaseReference, EscrowReleaseService } from './escrow-release.service';
+import { paymentSettlementQuote } from './refund-settlement.service';
+import {
+  Dispute,
+  DisputeStatus,
+  LedgerEntryType,
+  OrderStatus,
+  PaymentIntentStatus,
+  Prisma,
+  RefundIntentStatus,
+  SystemAccounts,
+} from '@syntherium/db';
+import {
+  postJournal,
+  lockAccounts,
+  placeHold,
+  releaseHold,
+  runLedgerTransaction,
+  buildFxConversionLegs,
+  convertAmount,
+  fxJournalMetadata,
+  paymentClearingAccount,
+  vendorWalletAccount,
+  LedgerError,
+  BASE_CURRENCY,
+  FxQuote,
+  JournalLeg,
+} from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+/** Payment statuses a chargeback can be raised against */
+const DISPUTABLE_PAYMENT_STATUSES: PaymentIntentStatus[] = [
+  PaymentIntentStatus.SETTLED,
+  PaymentIntentStatus.PARTIALLY_REFUNDED,
+  PaymentIntentStatus.REFUNDED,
+];
+
+/** Who reported the dispute or its outcome: a provider webhook via a service, or an admin */
+export interface DisputeActor {
+  id: string;
+  type: 'user' | 'service';
+}
+
+export interface OpenDisputeParams {
+  paymentReference: string;
+  providerDisputeId: string;
+  /** Disputed amount, in the payment currency */
+  amount: Prisma.Decimal;
+  reason?: string;
+  evidenceDueAt?: Date;
+}
+
+export interface ResolveDisputeParams {
+  outcome: typeof DisputeStatus.WON | typeof DisputeStatus.LOST;
+  /** Provider's chargeback fee, in the payment currency (LOST only) */
+  fee?: Prisma.Decimal;
+  note?: string;
+}
+
+@Injectable()
+export class DisputeService {
+  constructor(
+    private prisma: PrismaService,
+    private escrowReleaseService: EscrowReleaseService,
+  ) {}
+
+  /**
+   * Records a chargeback and holds the disputed amount. Idempotent on
+   * the provider's dispute id: opening it again returns the dispute.
+   */
+  async openDispute(params: OpenDisputeParams, actor: DisputeActor): Promise<Dispute> {
+    const { paymentReference, providerDisputeId, amount } = params;
+
+    if (amount.lessThanOrEqualTo(0)) {
+      throw new BadRequestException({
+        code: 'INVALID_AMOUNT',
+        message: 'Disputed amount must be positive',
+        details: { amount: amount.toString() },
+      });
+    }
+
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      const found = await tx.paymentIntent.findUnique({ where: { reference: paymentReference } });
+
+      if (!found) {
+        throw new NotFoundException({
+          code: 'INTENT_NOT_FOUND',
+          message: `Payment intent not found for reference: ${paymentReference}`,
+        });
+      }
+
+      // Same lock as settlement and refunds: one money movement per payment at a time
+      await tx.$queryRaw`SELECT id FROM payment_intents WHERE id = ${found.id} FOR UPDATE`;
+
+      const existing = await tx.dispute.findUnique({
+        where: { provider_providerDisputeId: { provider: found.provider, providerDisputeId } },
+      });
+      if (existing) {
+        logger.info('Dispute already open (idempotent)', { disputeId: existing.id, providerDisputeId });
+        return { dispute: existing, created: false };
+      }
+
+      const intent = await tx.paymentIntent.findUniqueOrThrow({
+        where: { id: found.id },
+        include: { order: true, disputes: true },
+      });
+
+      if (!DISPUTABLE_PAYMENT_STATUSES.includes(intent.status)) {
+        throw new ConflictException({
+          code: 'PAYMENT_NOT_SETTLED',
+          message: `Cannot dispute payment in status: ${intent.status}`,
+          details: { paymentIntentId: intent.id, currentStatus: intent.status },
+        });
+      }
+
+      // Refunded money is already back with the customer
+      const refunds = await tx.refundIntent.findMany({
+        where: { paymentIntentId: intent.id, status: RefundIntentStatus.SETTLED },
+        select: { amount: true },
+      });
+      const refunded = refunds.reduce((sum, r) => sum.add(r.amount), new Prisma.Decimal(0));
+      const disputedBefore = intent.disputes
+        .filter((d) => d.status !== DisputeStatus.WON)
+        .reduce((sum, d) => sum.add(d.amount), new Prisma.Decimal(0));
+      if (disputedBefore.add(amount).greaterThan(intent.amount.sub(refunded))) {
+        throw new ConflictException({
+          code: 'DISPUTE_EXCEEDS_PAYMENT',
+          message: 'Disputed amount exceeds what is left of the payment',
+          details: {
+            requestedAmount: amount.toString(),
+            alreadyDisputed: disputedBefore.toString(),
+            paymentAmount: intent.amount.toString(),
+            refundedAmount: refunded.toString(),
+          },
+        });
+      }
+
+      // Escrow until the order is released, the vendor's earnings after
+      const release = await tx.ledgerJournal.findUnique({
+        where: { reference: escrowReleaseReference(intent.orderId) },
+      });
+      const holdAccountId = release
+        ? vendorWalletAccount(intent.order.vendorId)
+        : SystemAccounts.PLATFORM_ESCROW;
+
+      const quote = intent.currency === BASE_CURRENCY
+        ? null
+        : await paymentSettlementQuote(tx, intent.reference, intent.currency);
+      const disputedBase = quote ? convertAmount(amount, quote) : amount;
+
+      // Hold what the account can cover - in pooled escrow, only what it
+      // still holds for this order and no open dispute already holds;
+      // losing the dispute charges the rest to CHARGEBACK_EXPENSE
+      await lockAccounts(tx, [holdAccountId]);
+      const wallet = await tx.walletBalanceCache.findUnique({ where: { accountId: holdAccountId } });
+      let available = wallet ? wallet.balance.sub(wallet.heldAmount) : new Prisma.Decimal(0);
+      if (holdAccountId === SystemAccounts.PLATFORM_ESCROW) {
+        const heldForOrder = intent.disputes
+          .filter((d) => d.status === DisputeStatus.OPEN && d.holdAccountId === SystemAccounts.PLATFORM_ESCROW)
+          .reduce((sum, d) => sum.add(d.heldAmount), new Prisma.Decimal(0));
+        const orderEscrow = (await this.escrowReleaseService.heldInEscrow(tx, intent.orderId)).sub(heldForOrder);
+        available = Prisma.Decimal.min(available, orderEscrow);
+      }
+      const heldAmount = Prisma.Decimal.max(Prisma.Decimal.min(disputedBase, available), 0);
+
+      const reference = `DISPUTE_${intent.id}_${intent.disputes.length + 1}`;
+      const hold = heldAmount.greaterThan(0)
+        ? await placeHold(tx, {
+          accountId: holdAccountId,
+          reference,
+          amount: heldAmount,
+          reason: `Chargeback ${providerDisputeId} on payment ${intent.reference}`,
+        })
+        : null;
+
+      const dispute = await tx.dispute.create({
+        data: {
+          reference,
+          paymentIntentId: intent.id,
+          orderId: intent.orderId,
+          provider: intent.provider,
+          providerDisputeId,
+          amount,
+          currency: intent.currency,
+          reason: params.reason,
+          evidenceDueAt: params.evidenceDueAt,
+          holdAccountId,
+          holdId: hold?.id,
+          heldAmount,
+        },
+      });
+
+      logger.info('Dispute opened', {
+        disputeId: dispute.id,
+        reference,
+        paymentReference: intent.reference,
+        amount: amount.toString(),
+        currency: intent.currency,
+        holdAccountId,
+        heldAmount: heldAmount.toString(),
+        shortfall: disputedBase.sub(heldAmount).toString(),
+      });
+
+      return { dispute, created: true };
+    }, {
+      timeout: 10000,
+    }));
+
+    if (result.created) {
+      logAuditEvent({
+        action: 'DISPUTE_OPENED',
+        actor,
+        resource: { type: 'Dispute', id: result.dispute.id },
+        outcome: 'success',
+        details: {
+          reference: result.dispute.reference,
+          paymentIntentId: result.dispute.paymentIntentId,
+          providerDisputeId,
+          amount: result.dispute.amount.toString(),
+          currency: result.dispute.currency,
+          holdAccountId: result.dispute.holdAccountId,
+          heldAmount: result.dispute.heldAmount.toString(),
+        },
+      });
+    }
+
+    return result.dispute;
+  }
+
+  /**
+   * Records the provider's decision. Resolving again with the same
+   * outcome returns the dispute; a resolved dispute cannot change outcome.
+   */
+  async resolveDispute(disputeId: string, params: ResolveDisputeParams, actor: DisputeActor): Promise<Dispute> {
+    const { outcome } = params;
+    const fee = params.fee ?? new Prisma.Decimal(0);
+
+    if (fee.lessThan(0) || (outcome === DisputeStatus.WON && fee.greaterThan(0))) {
+      throw new BadRequestException({
+        code: 'INVALID_FEE',
+        message: 'fee must be non-negative, and only applies to lost disputes',
+        details: { outcome, fee: fee.toString() },
+      });
+    }
+
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      const found = await tx.dispute.findUnique({ where: { id: disputeId } });
+
+      if (!found) {
+        throw new NotFoundException({
+          code: 'DISPUTE_NOT_FOUND',
+          message: `Dispute not found: ${disputeId}`,
+        });
+      }
+
+      await tx.$queryRaw`SELECT id FROM payment_intents WHERE id = ${found.paymentIntentId} FOR UPDATE`;
+      await tx.$queryRaw`SELECT id FROM disputes WHERE id = ${disputeId} FOR UPDATE`;
+
+      const dispute = await tx.dispute.findUniqueOrThrow({ where: { id: disputeId } });
+
+      if (dispute.status === outcome) {
+        logger.info('Dispute already resolved (idempotent)', { disputeId, outcome });
+        return { dispute, resolved: false };
+      }
+
+      if (dispute.status !== DisputeStatus.OPEN) {
+        throw new ConflictException({
+          code: 'DISPUTE_ALREADY_RESOLVED',
+          message: `Dispute is already ${dispute.status}`,
+          details: { disputeId, currentStatus: dispute.status },
+        });
+      }
+
+      if (dispute.holdId) {
+        await releaseHold(tx, dispute.holdId);
+      }
+
+      if (outcome === DisputeStatus.LOST) {
+        const intent = await tx.paymentIntent.findUniqueOrThrow({ where: { id: dispute.paymentIntentId } });
+        const quote = dispute.currency === BASE_CURRENCY
+          ? null
+          : await paymentSettlementQuote(tx, intent.reference, dispute.currency);
+
+        const journal = await postJournal(tx, {
+          reference: dispute.reference,
+          orderId: dispute.orderId,
+          description: `Chargeback ${dispute.providerDisputeId} on payment ${intent.reference}`,
+          metadata: quote ? fxJournalMetadata(quote, dispute.amount, convertAmount(dispute.amount, quote)) : undefined,
+          legs: this.chargebackLegs(dispute, fee, quote),
+        });
+
+        logger.info('Chargeback journal posted', {
+          journalId: journal.journalId,
+          reference: dispute.reference,
+          amount: dispute.amount.toString(),
+          fee: fee.toString(),
+          currency: dispute.currency,
+          holdAccountId: dispute.holdAccountId,
+        });
+      }
+
+      const resolved = await tx.dispute.update({
+        where: { id: disputeId },
+        data: {
+          status: outcome,
+          feeAmount: outcome === DisputeStatus.LOST ? fee : undefined,
+          resolutionNote: params.note,
+          resolvedAt: new Date(),
+        },
+      });
+
+      return { dispute: resolved, resolved: true };
+    }, {
+      timeout: 10000,
+    }));
+
+    if (!result.resolved) {
+      return result.dispute;
+    }
+
+    logAuditEvent({
+      action: outcome === DisputeStatus.WON ? 'DISPUTE_WON' : 'DISPUTE_LOST',
+      actor,
+      resource: { type: 'Dispute', id: disputeId },
+      outcome: 'success',
+      details: {
+        reference: result.dispute.reference,
+        paymentIntentId: result.dispute.paymentIntentId,
+        amount: result.dispute.amount.toString(),
+        fee: fee.toString(),
+        holdAccountId: result.dispute.holdAccountId,
+      },
+    });
+
+    await this.releaseIfDelivered(result.dispute);
+
+    return result.dispute;
+  }
+
+  /**
+   * Chargeback legs for a lost dispute: the chargeback out of the held
+   * account, CHARGEBACK_EXPENSE covering what the hold could not, and
+   * the fee.
+   */
+  private chargebackLegs(dispute: Dispute, fee: Prisma.Decimal, quote: FxQuote | null): JournalLeg[] {
+    const legs: JournalLeg[] = [];
+    const chargeback = this.clearingLegs(dispute, dispute.holdAccountId, dispute.amount, quote);
+    const chargebackBase = quote ? convertAmount(dispute.amount, quote) : dispute.amount;
+    const shortfall = chargebackBase.sub(dispute.heldAmount);
+
+    if (shortfall.greaterThan(0)) {
+      const shortfallReference = `${dispute.reference}_SHORTFALL`;
+      const description = `Chargeback ${dispute.providerDisputeId} not covered by ${dispute.holdAccountId}`;
+
+      legs.push(
+        {
+          reference: shortfallReference,
+          accountId: dispute.holdAccountId,
+          entryType: LedgerEntryType.CREDIT,
+          amount: shortfall,
+          description,
+        },
+        {
+          reference: shortfallReference,
+          accountId: SystemAccounts.CHARGEBACK_EXPENSE,
+          entryType: LedgerEntryType.DEBIT,
+          amount: shortfall,
+          description,
+        },
+      );
+    }
+
+    legs.push(...chargeback);
+
+    if (fee.greaterThan(0)) {
+      legs.push(...this.clearingLegs(dispute, SystemAccounts.CHARGEBACK_EXPENSE, fee, quote).map((leg) => ({
+        ...leg,
+        reference: `${dispute.reference}_FEE`,
+        description: `${dispute.provider} chargeback fee for ${dispute.providerDisputeId}`,
+      })));
+    }
+
+    return legs;
+  }
+
+  /**
+   * DEBIT an NGN account and CREDIT the payment's clearing account; for
+   * foreign payments, the settlement conversion run backwards.
+   */
+  private clearingLegs(
+    dispute: Dispute,
+    fromAccountId: string,
+    amount: Prisma.Decimal,
+    quote: FxQuote | null,
+  ): JournalLeg[] {
+    const description = `Chargeback ${dispute.providerDisputeId} for order ${dispute.orderId}`;
+
+    if (quote) {
+      const conversion = buildFxConversionLegs({
+        fromAccountId: paymentClearingAccount(dispute.currency),
+        toAccountId: fromAccountId,
+        amount,
+        quote,
+        description: `${description} (${dispute.currency})`,
+      });
+      return conversion.legs.map((leg) => ({
+        ...leg,
+        entryType: leg.entryType === LedgerEntryType.DEBIT ? LedgerEntryType.CREDIT : LedgerEntryType.DEBIT,
+      }));
+    }
+
+    return [
+      {
+        accountId: fromAccountId,
+        entryType: LedgerEntryType.DEBIT,
+        amount,
+        description,
+      },
+      {
+        accountId: SystemAccounts.PAYMENT_CLEARING,
+        entryType: LedgerEntryType.CREDIT,
+        amount,
+        description: `Chargeback ${dispute.providerDisputeId} taken by ${dispute.provider}`,
+      },
+    ];
+  }
+
+  /**
+   * A delivered order whose release waited on the dispute is released
+   * now. Failure is logged, not raised: the dispute is resolved either
+   * way and the release can be retried.
+   */
+  private async releaseIfDelivered(dispute: Dispute): Promise<void> {
+    if (dispute.holdAccountId !== SystemAccounts.PLATFORM_ESCROW) {
+      return;
+    }
+
+    const order = await this.prisma.order.findUnique({ where: { id: dispute.orderId } });
+    if (order?.status !== OrderStatus.DELIVERED) {
+      return;
+    }
+
+    try {
+      await this.escrowReleaseService.releaseOrder(dispute.orderId);
+    } catch (error) {
+      logger.warn('Escrow release after dispute failed', {
+        disputeId: dispute.id,
+        orderId: dispute.orderId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Surfaces ledger rejections (e.g. the held account frozen) as 400s
+   * instead of unhandled errors.
+   */
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
+  }
+}
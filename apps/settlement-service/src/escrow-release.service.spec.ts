@@ -0,0 +1,188 @@
+/**
+ * Escrow Release Tests
+ *
+ * Tests for:
+ * - Release of everything escrow holds for a delivered order
+ * - Settled commission split between the vendor wallet and platform revenue
+ * - Idempotency per order and delivery/balance guards
+ * - Releasing delivered orders from OrderDelivered outbox events
+ */
+
+import { EscrowReleaseService } from './escrow-release.service';
+import { OrderStatus, LedgerEntryType, Prisma } from '@syntherium/db';
+import { postJournal, openAccount } from '@syntherium/ledger-core';
+
+jest.mock('@syntherium/ledger-core', () => ({
+  ...jest.requireActual('@syntherium/ledger-core'),
+  postJournal: jest.fn(),
+  openAccount: jest.fn(),
+}));
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+describe('EscrowReleaseService', () => {
+  let service: EscrowReleaseService;
+  let mockTx: any;
+  let order: any;
+  let mockDispatcher: any;
+
+  const legsPosted = () => (postJournal as jest.Mock).mock.calls[0][1].legs.map((leg: any) => [
+    leg.accountId,
+    leg.entryType,
+    leg.amount.toString(),
+  ]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    order = { id: 'order_1', vendorId: 'vendor_a', status: OrderStatus.DELIVERED };
+    mockTx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      order: {
+        findUnique: jest.fn(async () => order),
+      },
+      ledgerJournal: {
+        findUnique: jest.fn().mockResolvedValue(null),
+      },
+      ledgerEntry: {
+        // Payment 8000 + subsidy 2000 in, refund 1000 out
+        groupBy: jest.fn().mockResolvedValue([
+          { entryType: LedgerEntryType.CREDIT, _sum: { amount: decimal('10000') } },
+          { entryType: LedgerEntryType.DEBIT, _sum: { amount: decimal('1000') } },
+        ]),
+      },
+      dispute: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      outboxEvent: {
+        create: jest.fn(),
+      },
+      settlementSplit: {
+        // Settlement priced 10% commission on the 10000 paid in
+        aggregate: jest.fn().mockResolvedValue({
+          _sum: { grossAmount: decimal('10000'), commissionAmount: decimal('1000') },
+        }),
+      },
+    };
+
+    (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_1', reference: 'RELEASE_order_1', entries: [] });
+    mockDispatcher = { subscribe: jest.fn() };
+    service = new EscrowReleaseService({ $transaction: jest.fn((callback) => callback(mockTx)) } as any, mockDispatcher);
+  });
+
+  it('should move what escrow holds for the order to the vendor, less commission', async () => {
+    const result = await service.releaseOrder('order_1');
+
+    expect(openAccount).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+      accountId: 'VENDOR_VENDOR_A',
+      ownerId: 'vendor_a',
+    }));
+    expect((postJournal as jest.Mock).mock.calls[0][1]).toMatchObject({ reference: 'RELEASE_order_1', orderId: 'order_1' });
+    expect(legsPosted()).toEqual([
+      ['PLATFORM_ESCROW', LedgerEntryType.DEBIT, '9000'],
+      ['VENDOR_VENDOR_A', LedgerEntryType.CREDIT, '8100'],
+      ['PLATFORM_REVENUE', LedgerEntryType.CREDIT, '900'],
+    ]);
+    expect(result.vendorAmount.toString()).toBe('8100');
+    expect(result.commissionAmount.toString()).toBe('900');
+    expect(mockTx.outboxEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'EscrowReleased',
+        aggregateId: 'order_1',
+        payload: expect.objectContaining({ vendorAmount: '8100', commissionAmount: '900' }),
+      }),
+    });
+  });
+
+  it('should take no commission for payments settled without a split', async () => {
+    mockTx.settlementSplit.aggregate.mockResolvedValue({ _sum: { grossAmount: null, commissionAmount: null } });
+
+    const result = await service.releaseOrder('order_1');
+
+    expect(legsPosted()).toEqual([
+      ['PLATFORM_ESCROW', LedgerEntryType.DEBIT, '9000'],
+      ['VENDOR_VENDOR_A', LedgerEntryType.CREDIT, '9000'],
+    ]);
+    expect(result.commissionAmount.toString()).toBe('0');
+  });
+
+  it('should post no vendor leg when commission takes everything held', async () => {
+    mockTx.settlementSplit.aggregate.mockResolvedValue({
+      _sum: { grossAmount: decimal('10000'), commissionAmount: decimal('10000') },
+    });
+
+    const result = await service.releaseOrder('order_1');
+
+    expect(legsPosted()).toEqual([
+      ['PLATFORM_ESCROW', LedgerEntryType.DEBIT, '9000'],
+      ['PLATFORM_REVENUE', LedgerEntryType.CREDIT, '9000'],
+    ]);
+    expect(result.vendorAmount.toString()).toBe('0');
+  });
+
+  it('should release delivered orders from their OrderDelivered event', async () => {
+    service.onModuleInit();
+    expect(mockDispatcher.subscribe).toHaveBeenCalledWith('escrow-release', ['OrderDelivered'], expect.any(Function));
+    const handler = mockDispatcher.subscribe.mock.calls[0][2];
+    const message = {
+      id: 'oe_1',
+      type: 'OrderDelivered',
+      aggregateType: 'Order',
+      aggregateId: 'order_1',
+      payload: { orderId: 'order_1' },
+      occurredAt: '2026-10-19T00:00:00.000Z',
+    };
+
+    await handler(message);
+    expect((postJournal as jest.Mock).mock.calls[0][1]).toMatchObject({ reference: 'RELEASE_order_1' });
+
+    // Disputed: thrown so the dispatcher retries it later
+    mockTx.dispute.findFirst.mockResolvedValueOnce({ id: 'dp_1', status: 'OPEN' });
+    await expect(handler(message)).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'ORDER_DISPUTED' }),
+    });
+
+    // Nothing held: done, nothing to retry
+    mockTx.ledgerEntry.groupBy.mockResolvedValue([]);
+    await expect(handler(message)).resolves.toBeUndefined();
+  });
+
+  it('should return the original release when the order was already released', async () => {
+    mockTx.ledgerJournal.findUnique.mockResolvedValue({
+      id: 'jr_1',
+      reference: 'RELEASE_order_1',
+      entries: [
+        { id: 'le_1', accountId: 'PLATFORM_ESCROW', amount: decimal('9000') },
+        { id: 'le_2', accountId: 'VENDOR_VENDOR_A', amount: decimal('9000') },
+      ],
+    });
+
+    const result = await service.releaseOrder('order_1');
+
+    expect(result.message).toBe('Escrow already released');
+    expect(result.releasedAmount.toString()).toBe('9000');
+    expect(result.commissionAmount.toString()).toBe('0');
+    expect(postJournal).not.toHaveBeenCalled();
+    expect(mockTx.outboxEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse orders that are not delivered, disputed or hold nothing in escrow', async () => {
+    order.status = OrderStatus.DISPATCHED;
+    await expect(service.releaseOrder('order_1')).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'ORDER_NOT_DELIVERED' }),
+    });
+
+    order.status = OrderStatus.DELIVERED;
+    mockTx.dispute.findFirst.mockResolvedValueOnce({ id: 'dp_1', status: 'OPEN' });
+    await expect(service.releaseOrder('order_1')).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'ORDER_DISPUTED' }),
+    });
+
+    mockTx.ledgerEntry.groupBy.mockResolvedValue([]);
+    await expect(service.releaseOrder('order_1')).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'NOTHING_TO_RELEASE' }),
+    });
+
+    expect(postJournal).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Escrow Release Service
+ *
+ * Releases a delivered order's money out of PLATFORM_ESCROW as ONE
+ * balanced journal referenced RELEASE_{orderId}:
+ * - DEBIT PLATFORM_ESCROW (everything escrow holds for the order)
+ * - CREDIT VENDOR_<vendorId> (the vendor's earnings wallet, when non-zero)
+ * - CREDIT PLATFORM_REVENUE (platform commission, when non-zero)
+ *
+ * Commission is what settlement priced from the fee rules (see
+ * SettlementSplit), scaled down by any refunds.
+ *
+ * What escrow holds for an order is read from the ledger: payment and
+ * subsidy credits less refunds and lost chargebacks. Orders with an open
+ * dispute are not released until it is resolved. Escrow therefore only ever holds money
+ * for orders that have not been delivered yet.
+ *
+ * Releases are driven by OrderDelivered, which orders-service records in
+ * the outbox when it delivers an order: the `escrow-release` subscriber
+ * releases the order, and the dispatcher retries it with backoff until
+ * it goes through (e.g. once a dispute is resolved).
+ */
+
+import { Injectable, OnModuleInit, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { recordOutboxEvent, OutboxEventType, OutboxMessage } from './outbox';
+import { OutboxDispatcherService } from './outbox-dispatcher.service';
+import { OrderStatus, DisputeStatus, LedgerEntryType, Prisma, SystemAccounts } from '@syntherium/db';
+import {
+  postJournal,
+  openAccount,
+  runLedgerTransaction,
+  vendorWalletDefinition,
+  LedgerError,
+  AppendEntryResult,
+  JournalLeg,
+} from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+/**
+ * Journal reference of an order's escrow release.
+ */
+export function escrowReleaseReference(orderId: string): string {
+  return `RELEASE_${orderId}`;
+}
+
+export interface EscrowReleaseResult {
+  success: boolean;
+  orderId: string;
+  reference: string;
+  vendorAccountId: string;
+  /** Amount taken out of escrow */
+  releasedAmount: Prisma.Decimal;
+  vendorAmount: Prisma.Decimal;
+  commissionAmount: Prisma.Decimal;
+  ledgerEntries: AppendEntryResult[];
+  message: string;
+}
+
+@Injectable()
+export class EscrowReleaseService implements OnModuleInit {
+  constructor(
+    private prisma: PrismaService,
+    private outboxDispatcher: OutboxDispatcherService,
+  ) {}
+
+  onModuleInit() {
+    this.outboxDispatcher.subscribe(
+      'escrow-release',
+      [OutboxEventType.ORDER_DELIVERED],
+      (message) => this.releaseDelivered(message),
+    );
+  }
+
+  /**
+   * Outbox handler for OrderDelivered. Any failure is retried by the
+   * dispatcher, except an order escrow holds nothing for (unpaid or
+   * fully refunded), which has nothing to release.
+   */
+  async releaseDelivered(message: OutboxMessage): Promise<void> {
+    try {
+      await this.releaseOrder(message.aggregateId);
+    } catch (error) {
+      if (error instanceof ConflictException && (error.getResponse() as { code?: string }).code === 'NOTHING_TO_RELEASE') {
+        logger.warn('Delivered order has no escrow to release', { orderId: message.aggregateId, eventId: message.id });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Releases a delivered order's escrow to its vendor. Idempotent per
+   * order: releasing again returns the original release.
+   *
+   * @param orderId - Order to release
+   */
+  async releaseOrder(orderId: string): Promise<EscrowReleaseResult> {
+    logger.info('Starting escrow release', { orderId });
+
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      const order = await tx.order.findUnique({ where: { id: orderId } });
+
+      if (!order) {
+        throw new NotFoundException({
+          code: 'ORDER_NOT_FOUND',
+          message: `Order not found: ${orderId}`,
+        });
+      }
+
+      // Lock the order's payments, as settlement and refunds do, so what
+      // escrow holds for the order can't change underneath the release
+      await tx.$queryRaw`SELECT id FROM payment_intents WHERE order_id = ${orderId} FOR UPDATE`;
+
+      const reference = escrowReleaseReference(orderId);
+      const vendorWallet = vendorWalletDefinition(order.vendorId);
+
+      const existing = await tx.ledgerJournal.findUnique({
+        where: { reference },
+        include: { entries: true },
+      });
+
+      if (existing) {
+        logger.info('Escrow already released (idempotent)', { orderId, reference });
+        const legAmount = (accountId: string) =>
+          existing.entries.find((e) => e.accountId === accountId)?.amount ?? new Prisma.Decimal(0);
+
+        return {
+          success: true,
+          orderId,
+          reference,
+          vendorAccountId: vendorWallet.accountId,
+          releasedAmount: legAmount(SystemAccounts.PLATFORM_ESCROW),
+          vendorAmount: legAmount(vendorWallet.accountId),
+          commissionAmount: legAmount(SystemAccounts.PLATFORM_REVENUE),
+          ledgerEntries: existing.entries.map((e) => ({
+            id: e.id,
+            accountId: e.accountId,
+            walletSeq: e.walletSeq,
+            reference: e.reference,
+            journalId: e.journalId,
+            entryType: e.entryType,
+            amount: e.amount,
+            currency: e.currency,
+            reversesEntryId: e.reversesEntryId,
+            entryHash: e.entryHash,
+            prevHash: e.prevHash,
+          })),
+          message: 'Escrow already released',
+        };
+      }
+
+      if (order.status !== OrderStatus.DELIVERED) {
+        throw new ConflictException({
+          code: 'ORDER_NOT_DELIVERED',
+          message: `Cannot release escrow for order in status: ${order.status}`,
+          details: { currentStatus: order.status, requiredStatus: OrderStatus.DELIVERED },
+        });
+      }
+
+      // An open dispute holds part of escrow until its outcome is known
+      const dispute = await tx.dispute.findFirst({
+        where: { orderId, status: DisputeStatus.OPEN },
+      });
+      if (dispute) {
+        throw new ConflictException({
+          code: 'ORDER_DISPUTED',
+          message: 'Cannot release escrow while a payment for this order is disputed',
+          details: { orderId, disputeId: dispute.id },
+        });
+      }
+
+      const held = await this.heldInEscrow(tx, orderId);
+      if (held.lessThanOrEqualTo(0)) {
+        throw new ConflictException({
+          code: 'NOTHING_TO_RELEASE',
+          message: 'Escrow holds nothing for this order; it is unpaid or fully refunded',
+          details: { orderId, held: held.toString() },
+        });
+      }
+
+      const commission = await this.commissionOnRelease(tx, orderId, held);
+      const vendorAmount = held.sub(commission);
+
+      await openAccount(tx, vendorWallet);
+
+      // A leg for zero would be refused; commission can take it all
+      const legs: JournalLeg[] = [
+        {
+          accountId: SystemAccounts.PLATFORM_ESCROW,
+          entryType: LedgerEntryType.DEBIT,
+          amount: held,
+          description: `Escrow release for delivered order ${orderId}`,
+        },
+      ];
+      if (vendorAmount.greaterThan(0)) {
+        legs.push({
+          accountId: vendorWallet.accountId,
+          entryType: LedgerEntryType.CREDIT,
+          amount: vendorAmount,
+          description: `Earnings for order ${orderId}`,
+        });
+      }
+      if (commission.greaterThan(0)) {
+        legs.push({
+          accountId: SystemAccounts.PLATFORM_REVENUE,
+          entryType: LedgerEntryType.CREDIT,
+          amount: commission,
+          description: `Commission on order ${orderId}`,
+        });
+      }
+
+      const journal = await postJournal(tx, {
+        reference,
+        orderId,
+        description: `Escrow release for order ${orderId}`,
+        legs,
+      });
+
+      await recordOutboxEvent(tx, {
+        type: OutboxEventType.ESCROW_RELEASED,
+        aggregateType: 'Order',
+        aggregateId: orderId,
+        payload: {
+          orderId,
+          reference,
+          vendorId: order.vendorId,
+          vendorAccountId: vendorWallet.accountId,
+          releasedAmount: held.toString(),
+          vendorAmount: vendorAmount.toString(),
+          commissionAmount: commission.toString(),
+          journalId: journal.journalId,
+        },
+      });
+
+      logger.info('Escrow release journal posted', {
+        journalId: journal.journalId,
+        orderId,
+        vendorAccountId: vendorWallet.accountId,
+        released: held.toString(),
+        commission: commission.toString(),
+      });
+
+      return {
+        success: true,
+        orderId,
+        reference,
+        vendorAccountId: vendorWallet.accountId,
+        releasedAmount: held,
+        vendorAmount,
+        commissionAmount: commission,
+        ledgerEntries: journal.entries,
+        message: 'Escrow released successfully',
+      };
+    }, {
+      timeout: 10000,
+    }));
+
+    logAuditEvent({
+      action: 'ESCROW_RELEASED',
+      actor: { id: 'settlement-service', type: 'service' },
+      resource: { type: 'Order', id: orderId },
+      outcome: 'success',
+      details: {
+        reference: result.reference,
+        vendorAccountId: result.vendorAccountId,
+        releasedAmount: result.releasedAmount.toString(),
+        commissionAmount: result.commissionAmount.toString(),
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Net escrow balance attributable to an order: its credits less its
+   * debits. Disputes size their escrow holds from it.
+   */
+  async heldInEscrow(tx: Prisma.TransactionClient, orderId: string): Promise<Prisma.Decimal> {
+    const sums = await tx.ledgerEntry.groupBy({
+      by: ['entryType'],
+      where: { accountId: SystemAccounts.PLATFORM_ESCROW, orderId },
+      _sum: { amount: true },
+    });
+
+    return sums.reduce((held, row) => {
+      const amount = row._sum.amount ?? new Prisma.Decimal(0);
+      return row.entryType === LedgerEntryType.CREDIT ? held.add(amount) : held.sub(amount);
+    }, new Prisma.Decimal(0));
+  }
+
+  /**
+   * Commission settlement priced for the order's payments, in proportion
+   * to how much of what they paid into escrow is still held (refunds
+   * give back their share of commission). None for payments settled
+   * without a split.
+   */
+  private async commissionOnRelease(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    held: Prisma.Decimal,
+  ): Promise<Prisma.Decimal> {
+    const totals = await tx.settlementSplit.aggregate({
+      where: { orderId },
+      _sum: { grossAmount: true, commissionAmount: true },
+    });
+    const gross = totals._sum.grossAmount ?? new Prisma.Decimal(0);
+    const commission = totals._sum.commissionAmount ?? new Prisma.Decimal(0);
+
+    if (gross.lessThanOrEqualTo(0) || commission.lessThanOrEqualTo(0)) {
+      return new Prisma.Decimal(0);
+    }
+
+    return Prisma.Decimal.min(
+      commission.mul(held).div(gross).toDecimalPlaces(4, Prisma.Decimal.ROUND_HALF_EVEN),
+      held,
+    );
+  }
+
+  /**
+   * Surfaces ledger rejections (e.g. escrow or the vendor wallet frozen)
+   * as 400s instead of unhandled errors.
+   */
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Fee Rule Engine Tests
+ *
+ * Tests for:
+ * - Rule selection by scope and specificity
+ * - Percentage, flat and capped fees
+ * - Splitting a payment into vendor share, commission and provider fee
+ */
+
+import { selectFeeRule, applyFeeRule, computePaymentSplit } from './fee-rules';
+import { FeeRule, FeeRuleKind, DeliveryType, PaymentProvider, Prisma } from '@syntherium/db';
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+let ruleSeq = 0;
+const rule = (overrides: Partial<FeeRule>): FeeRule => ({
+  id: `fr_${++ruleSeq}`,
+  code: 'DEFAULT_COMMISSION',
+  version: 1,
+  kind: FeeRuleKind.COMMISSION,
+  description: null,
+  vendorId: null,
+  productId: null,
+  deliveryType: null,
+  provider: null,
+  percentage: decimal('0'),
+  flatAmount: decimal('0'),
+  capAmount: null,
+  currency: 'NGN',
+  effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+  effectiveTo: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  createdBy: null,
+  ...overrides,
+});
+
+describe('fee rules', () => {
+  describe('selectFeeRule', () => {
+    const fallback = rule({ code: 'DEFAULT', percentage: decimal('0.1') });
+    const vendor = rule({ code: 'VENDOR_A', vendorId: 'vendor_a', percentage: decimal('0.08') });
+    const product = rule({ code: 'CYLINDER', productId: 'prod_cyl', percentage: decimal('0.02') });
+    const pickup = rule({ code: 'PICKUP', deliveryType: DeliveryType.PICKUP, percentage: decimal('0.05') });
+    const rules = [fallback, vendor, product, pickup];
+
+    it('should prefer product over vendor over delivery type rules', () => {
+      const criteria = { vendorId: 'vendor_a', deliveryType: DeliveryType.PICKUP, currency: 'NGN' };
+
+      expect(selectFeeRule(rules, { ...criteria, productId: 'prod_cyl' })).toBe(product);
+      expect(selectFeeRule(rules, { ...criteria, productId: 'prod_gas' })).toBe(vendor);
+      expect(selectFeeRule(rules, { ...criteria, vendorId: 'vendor_b' })).toBe(pickup);
+      expect(selectFeeRule(rules, { vendorId: 'vendor_b', deliveryType: DeliveryType.DELIVERY, currency: 'NGN' }))
+        .toBe(fallback);
+    });
+
+    it('should ignore rules in another currency and break ties by effective date', () => {
+      const newer = rule({ code: 'PROMO', effectiveFrom: new Date('2026-06-01T00:00:00Z') });
+      const usd = rule({ code: 'USD', currency: 'USD', vendorId: 'vendor_a' });
+
+      expect(selectFeeRule([fallback, newer, usd], { vendorId: 'vendor_a', currency: 'NGN' })).toBe(newer);
+      expect(selectFeeRule([usd], { vendorId: 'vendor_a', currency: 'NGN' })).toBeNull();
+    });
+  });
+
+  describe('applyFeeRule', () => {
+    it('should add percentage and flat fee, then cap', () => {
+      // Flutterwave-style local card fee: 1.4%, capped at 2000
+      const card = rule({ percentage: decimal('0.014'), flatAmount: decimal('100'), capAmount: decimal('2000') });
+
+      expect(applyFeeRule(card, decimal('10000')).toString()).toBe('240');
+      expect(applyFeeRule(card, decimal('500000')).toString()).toBe('2000');
+    });
+
+    it('should never charge more than the base', () => {
+      expect(applyFeeRule(rule({ flatAmount: decimal('50') }), decimal('20')).toString()).toBe('20');
+    });
+  });
+
+  describe('computePaymentSplit', () => {
+    let mockTx: any;
+    let rules: FeeRule[];
+
+    beforeEach(() => {
+      rules = [
+        rule({ code: 'DEFAULT', percentage: decimal('0.1') }),
+        rule({ code: 'CYLINDER', version: 3, productId: 'prod_cyl', percentage: decimal('0.02') }),
+        rule({
+          code: 'FLUTTERWAVE_NGN',
+          kind: FeeRuleKind.PROCESSING_FEE,
+          provider: PaymentProvider.flutterwave,
+          percentage: decimal('0.014'),
+          capAmount: decimal('2000'),
+        }),
+      ];
+
+      mockTx = {
+        order: {
+          findUniqueOrThrow: jest.fn().mockResolvedValue({
+            id: 'order_1',
+            vendorId: 'vendor_a',
+            deliveryType: DeliveryType.DELIVERY,
+            deliveryFee: decimal('1000'),
+            items: [
+              { productId: 'prod_gas', quantity: 2, unitPrice: decimal('3000') },
+              { productId: 'prod_cyl', quantity: 1, unitPrice: decimal('5000') },
+            ],
+          }),
+        },
+        feeRule: {
+          findMany: jest.fn(async ({ where }: any) => rules.filter((r) => r.kind === where.kind)),
+        },
+      };
+    });
+
+    it('should price commission per line and the fee on what was collected', async () => {
+      const split = await computePaymentSplit(mockTx, {
+        orderId: 'order_1',
+        amount: decimal('10000'),
+        discountAmount: decimal('2000'),
+        currency: 'NGN',
+        provider: PaymentProvider.flutterwave,
+      }, null);
+
+      // 10% of 6000 gas + 2% of 5000 cylinder + 10% of 1000 delivery
+      expect(split.commissionAmount.toString()).toBe('800');
+      expect(split.grossAmount.toString()).toBe('12000');
+      expect(split.vendorAmount.toString()).toBe('11200');
+      expect(split.commissionLines).toContainEqual(expect.objectContaining({
+        productId: 'prod_cyl',
+        commissionAmount: '100',
+        ruleCode: 'CYLINDER',
+        ruleVersion: 3,
+      }));
+      expect(split.feeAmount.toString()).toBe('140');
+      expect(split.feeRule?.code).toBe('FLUTTERWAVE_NGN');
+    });
+
+    it('should price foreign payments in NGN at the settlement rate', async () => {
+      rules.push(rule({
+        code: 'STRIPE_USD',
+        kind: FeeRuleKind.PROCESSING_FEE,
+        provider: PaymentProvider.stripe,
+        currency: 'USD',
+        percentage: decimal('0.029'),
+        flatAmount: decimal('0.3'),
+      }));
+      mockTx.order.findUniqueOrThrow.mockResolvedValue({
+        id: 'order_1',
+        vendorId: 'vendor_a',
+        deliveryType: DeliveryType.PICKUP,
+        deliveryFee: decimal('0'),
+        items: [{ productId: 'prod_gas', quantity: 1, unitPrice: decimal('10') }],
+      });
+
+      const split = await computePaymentSplit(mockTx, {
+        orderId: 'order_1',
+        amount: decimal('10'),
+        discountAmount: decimal('0'),
+        currency: 'USD',
+        provider: PaymentProvider.stripe,
+      }, {
+        baseCurrency: 'USD',
+        quoteCurrency: 'NGN',
+        rate: decimal('1500'),
+        source: 'manual',
+        effectiveAt: new Date('2026-01-01T00:00:00Z'),
+      });
+
+      expect(split.grossAmount.toString()).toBe('15000');
+      expect(split.commissionAmount.toString()).toBe('1500');
+      expect(split.feeAmount.toString()).toBe('0.59');
+      expect(split.feeAmountBase.toString()).toBe('885');
+    });
+
+    it('should split nothing off when no rules are in effect', async () => {
+      rules = [];
+
+      const split = await computePaymentSplit(mockTx, {
+        orderId: 'order_1',
+        amount: decimal('12000'),
+        discountAmount: decimal('0'),
+        currency: 'NGN',
+        provider: PaymentProvider.paystack,
+      }, null);
+
+      expect(split.commissionAmount.toString()).toBe('0');
+      expect(split.vendorAmount.toString()).toBe('12000');
+      expect(split.feeAmount.toString()).toBe('0');
+      expect(split.feeRule).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Fee Rule Engine
+ *
+ * Prices platform commission and provider processing fees from the
+ * fee_rules table. A rule applies to an amount when every scope field it
+ * sets (vendor, product, delivery type, provider) matches and its
+ * currency is the amount's. Of the rules effective at the time, the most
+ * specific wins; ties go to the latest effectiveFrom, then version.
+ *
+ * Commission is priced per order line (each item, plus the delivery fee
+ * with no product) in NGN, so product-scoped rules price only their
+ * product. Processing fees are priced on the amount the provider
+ * collected, in the payment currency.
+ */
+
+import {
+  FeeRule,
+  FeeRuleKind,
+  DeliveryType,
+  PaymentProvider,
+  Prisma,
+} from '@syntherium/db';
+import { BASE_CURRENCY, convertAmount, FxQuote } from '@syntherium/ledger-core';
+
+/** Fees use ledger precision */
+const AMOUNT_DECIMALS = 4;
+
+/** Scope weights: a product rule beats a vendor rule beats a delivery type rule */
+const SPECIFICITY = {
+  productId: 4,
+  vendorId: 2,
+  provider: 2,
+  deliveryType: 1,
+} as const;
+
+export interface FeeRuleCriteria {
+  vendorId?: string;
+  productId?: string;
+  deliveryType?: DeliveryType;
+  provider?: PaymentProvider;
+  currency: string;
+}
+
+export interface CommissionLine {
+  /** Null for the delivery fee line */
+  productId: string | null;
+  baseAmount: string;
+  commissionAmount: string;
+  ruleId: string | null;
+  ruleCode: string | null;
+  ruleVersion: number | null;
+}
+
+export interface PaymentSplit {
+  /** Credited to escrow: payment plus subsidy, in NGN */
+  grossAmount: Prisma.Decimal;
+  vendorAmount: Prisma.Decimal;
+  commissionAmount: Prisma.Decimal;
+  commissionLines: CommissionLine[];
+  /** Provider fee in the payment currency */
+  feeAmount: Prisma.Decimal;
+  /** Provider fee in NGN */
+  feeAmountBase: Prisma.Decimal;
+  feeRule: FeeRule | null;
+}
+
+/**
+ * Whether every scope field the rule sets matches the criteria.
+ */
+export function feeRuleMatches(rule: FeeRule, criteria: FeeRuleCriteria): boolean {
+  return rule.currency === criteria.currency
+    && (rule.vendorId === null || rule.vendorId === criteria.vendorId)
+    && (rule.productId === null || rule.productId === criteria.productId)
+    && (rule.deliveryType === null || rule.deliveryType === criteria.deliveryType)
+    && (rule.provider === null || rule.provider === criteria.provider);
+}
+
+function specificity(rule: FeeRule): number {
+  return (Object.keys(SPECIFICITY) as (keyof typeof SPECIFICITY)[])
+    .reduce((score, field) => (rule[field] === null ? score : score + SPECIFICITY[field]), 0);
+}
+
+/**
+ * Picks the rule to apply from effective rules, or null if none match.
+ */
+export function selectFeeRule(rules: FeeRule[], criteria: FeeRuleCriteria): FeeRule | null {
+  return rules
+    .filter((rule) => feeRuleMatches(rule, criteria))
+    .sort((a, b) =>
+      specificity(b) - specificity(a)
+      || b.effectiveFrom.getTime() - a.effectiveFrom.getTime()
+      || b.version - a.version)[0] ?? null;
+}
+
+/**
+ * Fee a rule charges on an amount: base x percentage + flat, capped,
+ * rounded half-even, and never more than the base itself.
+ */
+export function applyFeeRule(rule: FeeRule, base: Prisma.Decimal): Prisma.Decimal {
+  let fee = base.mul(rule.percentage).add(rule.flatAmount);
+  if (rule.capAmount && fee.greaterThan(rule.capAmount)) {
+    fee = rule.capAmount;
+  }
+  fee = fee.toDecimalPlaces(AMOUNT_DECIMALS, Prisma.Decimal.ROUND_HALF_EVEN);
+  return Prisma.Decimal.min(fee, base);
+}
+
+/**
+ * Rules of a kind in effect at asOf (effectiveTo is exclusive).
+ */
+export function findEffectiveFeeRules(
+  tx: Prisma.TransactionClient,
+  kind: FeeRuleKind,
+  asOf: Date,
+): Promise<FeeRule[]> {
+  return tx.feeRule.findMany({
+    where: {
+      kind,
+      effectiveFrom: { lte: asOf },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: asOf } }],
+    },
+  });
+}
+
+/**
+ * Splits a payment into vendor share, commission and provider fee.
+ *
+ * @param intent - Payment being settled
+ * @param quote - Rate into NGN for foreign payments, null for NGN
+ * @param asOf - Which rules are in effect
+ */
+export async function computePaymentSplit(
+  tx: Prisma.TransactionClient,
+  intent: {
+    orderId: string;
+    amount: Prisma.Decimal;
+    discountAmount: Prisma.Decimal;
+    currency: string;
+    provider: PaymentProvider;
+  },
+  quote: FxQuote | null,
+  asOf: Date = new Date(),
+): Promise<PaymentSplit> {
+  const toBase = (amount: Prisma.Decimal) => (quote ? convertAmount(amount, quote) : amount);
+  const grossAmount = toBase(intent.amount).add(toBase(intent.discountAmount));
+
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: intent.orderId },
+    include: { items: true },
+  });
+
+  // Step 1: Commission, one line per item plus the delivery fee
+  const lines: { productId: string | null; base: Prisma.Decimal }[] = order.items.map((item) => ({
+    productId: item.productId,
+    base: toBase(item.unitPrice.mul(item.quantity)),
+  }));
+  if (order.deliveryFee.greaterThan(0)) {
+    lines.push({ productId: null, base: toBase(order.deliveryFee) });
+  }
+  if (lines.length === 0) {
+    lines.push({ productId: null, base: grossAmount });
+  }
+
+  const commissionRules = await findEffectiveFeeRules(tx, FeeRuleKind.COMMISSION, asOf);
+  const commissionLines: CommissionLine[] = lines.map(({ productId, base }) => {
+    const rule = selectFeeRule(commissionRules, {
+      vendorId: order.vendorId,
+      productId: productId ?? undefined,
+      deliveryType: order.deliveryType,
+      currency: BASE_CURRENCY,
+    });
+    return {
+      productId,
+      baseAmount: base.toString(),
+      commissionAmount: (rule ? applyFeeRule(rule, base) : new Prisma.Decimal(0)).toString(),
+      ruleId: rule?.id ?? null,
+      ruleCode: rule?.code ?? null,
+      ruleVersion: rule?.version ?? null,
+    };
+  });
+
+  // Lines are priced at full order value; the vendor can't owe more than escrow holds
+  const commissionAmount = Prisma.Decimal.min(
+    commissionLines.reduce((sum, line) => sum.add(line.commissionAmount), new Prisma.Decimal(0)),
+    grossAmount,
+  );
+
+  // Step 2: Processing fee on what the provider collected
+  const feeRule = selectFeeRule(
+    await findEffectiveFeeRules(tx, FeeRuleKind.PROCESSING_FEE, asOf),
+    { provider: intent.provider, currency: intent.currency },
+  );
+  const feeAmount = feeRule ? applyFeeRule(feeRule, intent.amount) : new Prisma.Decimal(0);
+
+  return {
+    grossAmount,
+    vendorAmount: grossAmount.sub(commissionAmount),
+    commissionAmount,
+    commissionLines,
+    feeAmount,
+    feeAmountBase: toBase(feeAmount),
+    feeRule,
+  };
+}
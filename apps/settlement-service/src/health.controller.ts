@@ -1,7 +1,9 @@
 import { Controller, Get } from '@nestjs/common';
+import { Public } from '@syntherium/security';
 
 @Controller()
 export class HealthController {
+  @Public()
   @Get('health')
   getHealth() {
     return {
@@ -0,0 +1,61 @@
+/**
+ * Hold Expiry Service
+ *
+ * Periodically expires wallet holds whose expiresAt has passed and
+ * returns their amounts to the available balance. Debits and new holds
+ * also sweep lapsed holds on the account they touch, so this only keeps
+ * idle wallets and hold listings up to date.
+ */
+
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { expireHolds } from '@syntherium/ledger-core';
+import { createLogger } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60000;
+
+@Injectable()
+export class HoldExpiryService implements OnModuleInit, OnModuleDestroy {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private prisma: PrismaService) {}
+
+  onModuleInit() {
+    const intervalMs = parseInt(
+      process.env.SETTLEMENT_HOLD_SWEEP_INTERVAL_MS ?? String(DEFAULT_SWEEP_INTERVAL_MS),
+      10
+    );
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.sweep().catch((error) => logger.error('Hold expiry sweep failed', error));
+      }, intervalMs);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async sweep(): Promise<{ holdsExpired: number; accountsProcessed: number }> {
+    // Skip overlapping runs when a sweep takes longer than the interval
+    if (this.running) {
+      return { holdsExpired: 0, accountsProcessed: 0 };
+    }
+
+    this.running = true;
+    try {
+      const result = await expireHolds(this.prisma);
+      if (result.holdsExpired > 0) {
+        logger.info('Expired wallet holds', result);
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Outbox Dispatcher Tests
+ *
+ * Tests for:
+ * - Fanning events out to the subscribers of their type
+ * - Leaving events no subscriber takes for subscribers registered later
+ * - Delivering, and backing off then giving up on failures
+ * - Leaving deliveries another dispatcher claimed
+ */
+
+import { OutboxDispatcherService } from './outbox-dispatcher.service';
+import { OutboxDeliveryStatus } from '@syntherium/db';
+
+describe('OutboxDispatcherService', () => {
+  let dispatcher: OutboxDispatcherService;
+  let mockPrisma: any;
+  let event: any;
+
+  const pending = (overrides: any = {}) => ({
+    id: 'od_1',
+    eventId: 'oe_1',
+    subscriber: 'orders',
+    status: OutboxDeliveryStatus.PENDING,
+    attempts: 0,
+    nextAttemptAt: new Date('2026-10-19T00:00:00Z'),
+    event,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    event = {
+      id: 'oe_1',
+      type: 'PaymentSettled',
+      aggregateType: 'PaymentIntent',
+      aggregateId: 'pi_1',
+      payload: { amount: '10000' },
+      createdAt: new Date('2026-10-19T00:00:00Z'),
+      fannedOutAt: null,
+    };
+
+    mockPrisma = {
+      $transaction: jest.fn(async (operations) => Promise.all(operations)),
+      outboxEvent: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+      },
+      outboxDelivery: {
+        createMany: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(),
+      },
+    };
+
+    dispatcher = new OutboxDispatcherService(mockPrisma);
+  });
+
+  it('should fan events out to the subscribers of their type', async () => {
+    mockPrisma.outboxEvent.findMany.mockResolvedValue([event]);
+    dispatcher.subscribe('orders', ['PaymentSettled'], jest.fn());
+    dispatcher.subscribe('payouts', ['EscrowReleased'], jest.fn());
+    dispatcher.subscribe('audit', '*', jest.fn());
+
+    const result = await dispatcher.dispatch();
+
+    expect(mockPrisma.outboxDelivery.createMany).toHaveBeenCalledWith({
+      data: [
+        { eventId: 'oe_1', subscriber: 'orders' },
+        { eventId: 'oe_1', subscriber: 'audit' },
+      ],
+      skipDuplicates: true,
+    });
+    expect(mockPrisma.outboxEvent.update).toHaveBeenCalledWith({
+      where: { id: 'oe_1' },
+      data: { fannedOutAt: expect.any(Date) },
+    });
+    expect(result.eventsFannedOut).toBe(1);
+  });
+
+  it('should leave events unfanned until a subscriber takes them', async () => {
+    const result = await dispatcher.dispatch();
+
+    expect(mockPrisma.outboxEvent.findMany).not.toHaveBeenCalled();
+    expect(result.eventsFannedOut).toBe(0);
+
+    dispatcher.subscribe('payouts', ['EscrowReleased'], jest.fn());
+    await dispatcher.dispatch();
+
+    expect(mockPrisma.outboxEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { fannedOutAt: null, type: { in: ['EscrowReleased'] } },
+    }));
+    expect(mockPrisma.outboxEvent.update).not.toHaveBeenCalled();
+  });
+
+  it('should deliver the event and mark the delivery DELIVERED', async () => {
+    const handler = jest.fn();
+    dispatcher.subscribe('orders', '*', handler);
+    mockPrisma.outboxDelivery.findMany.mockResolvedValue([pending()]);
+
+    const result = await dispatcher.dispatch();
+
+    expect(handler).toHaveBeenCalledWith({
+      id: 'oe_1',
+      type: 'PaymentSettled',
+      aggregateType: 'PaymentIntent',
+      aggregateId: 'pi_1',
+      payload: { amount: '10000' },
+      occurredAt: '2026-10-19T00:00:00.000Z',
+    });
+    expect(mockPrisma.outboxDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'od_1' },
+      data: expect.objectContaining({ status: OutboxDeliveryStatus.DELIVERED, attempts: 1 }),
+    });
+    expect(result.delivered).toBe(1);
+  });
+
+  it('should back off after a failure and give up after the last attempt', async () => {
+    dispatcher.subscribe('orders', '*', jest.fn().mockRejectedValue(new Error('HTTP_503: Service Unavailable')));
+    mockPrisma.outboxDelivery.findMany.mockResolvedValue([pending({ attempts: 2 })]);
+
+    await dispatcher.dispatch();
+
+    expect(mockPrisma.outboxDelivery.update).toHaveBeenLastCalledWith({
+      where: { id: 'od_1' },
+      data: expect.objectContaining({
+        status: OutboxDeliveryStatus.PENDING,
+        attempts: 3,
+        lastError: 'HTTP_503: Service Unavailable',
+      }),
+    });
+
+    mockPrisma.outboxDelivery.findMany.mockResolvedValue([pending({ attempts: 9 })]);
+    await dispatcher.dispatch();
+
+    expect(mockPrisma.outboxDelivery.update).toHaveBeenLastCalledWith({
+      where: { id: 'od_1' },
+      data: expect.objectContaining({ status: OutboxDeliveryStatus.FAILED, attempts: 10 }),
+    });
+  });
+
+  it('should skip deliveries another dispatcher claimed', async () => {
+    const handler = jest.fn();
+    dispatcher.subscribe('orders', '*', handler);
+    mockPrisma.outboxDelivery.findMany.mockResolvedValue([pending()]);
+    mockPrisma.outboxDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    await dispatcher.dispatch();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockPrisma.outboxDelivery.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Outbox Dispatcher Service
+ *
+ * Delivers outbox events to subscribers, at least once:
+ * 1. Fan-out - each new event gets one OutboxDelivery per subscriber
+ *    registered for its type at that time. An event no subscriber takes
+ *    is left to fan out once one registers, rather than marked done
+ *    with no deliveries
+ * 2. Delivery - due deliveries are claimed (compare-and-set on
+ *    nextAttemptAt, so one dispatcher instance sends each attempt) and
+ *    handed to the subscriber; failures back off exponentially and are
+ *    left FAILED after MAX_ATTEMPTS
+ *
+ * Subscribers are in-process handlers registered with subscribe(), or
+ * HTTP endpoints configured in SETTLEMENT_OUTBOX_SUBSCRIBERS as
+ * comma-separated name=url pairs, which receive every event type
+ * (orders-service subscribes as `orders`; notification senders and
+ * client apps register the same way).
+ * Delivery order is not guaranteed and a crash between sending and
+ * recording the outcome resends, so subscribers deduplicate on event id.
+ * Replaying (ops-service) puts deliveries back to PENDING.
+ */
+
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { OutboxMessage, OutboxEventType, toOutboxMessage } from './outbox';
+import { OutboxDeliveryStatus } from '@syntherium/db';
+import { createLogger } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+const DEFAULT_DISPATCH_INTERVAL_MS = 5000;
+const BATCH_SIZE = 100;
+/** How long a claimed delivery is left to its dispatcher before others retry it */
+const CLAIM_TIMEOUT_MS = 60000;
+const HTTP_TIMEOUT_MS = 10000;
+const MAX_ATTEMPTS = 10;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 3600000;
+
+export type OutboxHandler = (message: OutboxMessage) => Promise<void>;
+
+interface OutboxSubscriber {
+  name: string;
+  /** Event types delivered; '*' for all */
+  eventTypes: OutboxEventType[] | '*';
+  handler: OutboxHandler;
+}
+
+export interface DispatchResult {
+  eventsFannedOut: number;
+  delivered: number;
+  failed: number;
+}
+
+@Injectable()
+export class OutboxDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly subscribers = new Map<string, OutboxSubscriber>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private prisma: PrismaService) {}
+
+  onModuleInit() {
+    for (const { name, url } of parseHttpSubscribers(process.env.SETTLEMENT_OUTBOX_SUBSCRIBERS)) {
+      this.subscribe(name, '*', (message) => postToSubscriber(url, message));
+    }
+
+    const intervalMs = parseInt(
+      process.env.SETTLEMENT_OUTBOX_DISPATCH_INTERVAL_MS ?? String(DEFAULT_DISPATCH_INTERVAL_MS),
+      10
+    );
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.dispatch().catch((error) => logger.error('Outbox dispatch failed', error));
+      }, intervalMs);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Registers a subscriber. Only events fanned out after registration
+   * reach it; earlier ones can be replayed to it by name.
+   */
+  subscribe(name: string, eventTypes: OutboxEventType[] | '*', handler: OutboxHandler): void {
+    if (this.subscribers.has(name)) {
+      throw new Error(`Outbox subscriber already registered: ${name}`);
+    }
+    this.subscribers.set(name, { name, eventTypes, handler });
+  }
+
+  async dispatch(): Promise<DispatchResult> {
+    // Skip overlapping runs when a dispatch takes longer than the interval
+    if (this.running) {
+      return { eventsFannedOut: 0, delivered: 0, failed: 0 };
+    }
+
+    this.running = true;
+    try {
+      const eventsFannedOut = await this.fanOut();
+      const { delivered, failed } = await this.deliverDue();
+      if (eventsFannedOut > 0 || delivered > 0 || failed > 0) {
+        logger.info('Outbox dispatched', { eventsFannedOut, delivered, failed });
+      }
+      return { eventsFannedOut, delivered, failed };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async fanOut(): Promise<number> {
+    const subscribers = [...this.subscribers.values()];
+    if (subscribers.length === 0) {
+      return 0;
+    }
+
+    // Only events some subscriber takes, so the rest cannot crowd them out
+    const types = subscribers.some((s) => s.eventTypes === '*')
+      ? undefined
+      : [...new Set(subscribers.flatMap((s) => s.eventTypes as OutboxEventType[]))];
+    const events = await this.prisma.outboxEvent.findMany({
+      where: { fannedOutAt: null, ...(types && { type: { in: types } }) },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const event of events) {
+      const matching = subscribers.filter((s) =>
+        s.eventTypes === '*' || s.eventTypes.includes(event.type as OutboxEventType)
+      );
+
+      // skipDuplicates: another instance may have fanned the event out
+      // first, or a replay left some deliveries in place
+      await this.prisma.$transaction([
+        this.prisma.outboxDelivery.createMany({
+          data: matching.map((s) => ({ eventId: event.id, subscriber: s.name })),
+          skipDuplicates: true,
+        }),
+        this.prisma.outboxEvent.update({
+          where: { id: event.id },
+          data: { fannedOutAt: new Date() },
+        }),
+      ]);
+    }
+
+    return events.length;
+  }
+
+  private async deliverDue(): Promise<{ delivered: number; failed: number }> {
+    const due = await this.prisma.outboxDelivery.findMany({
+      where: {
+        status: OutboxDeliveryStatus.PENDING,
+        nextAttemptAt: { lte: new Date() },
+        subscriber: { in: [...this.subscribers.keys()] },
+      },
+      include: { event: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let delivered = 0;
+    let failed = 0;
+
+    for (const delivery of due) {
+      // Compare-and-set on nextAttemptAt so only one dispatcher sends it
+      const claimed = await this.prisma.outboxDelivery.updateMany({
+        where: { id: delivery.id, status: OutboxDeliveryStatus.PENDING, nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS) },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const attempts = delivery.attempts + 1;
+      try {
+        await this.subscribers.get(delivery.subscriber)!.handler(toOutboxMessage(delivery.event));
+        await this.prisma.outboxDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: OutboxDeliveryStatus.DELIVERED,
+            attempts,
+            lastError: null,
+            deliveredAt: new Date(),
+          },
+        });
+        delivered++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const givingUp = attempts >= MAX_ATTEMPTS;
+        const backoffMs = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+        await this.prisma.outboxDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: givingUp ? OutboxDeliveryStatus.FAILED : OutboxDeliveryStatus.PENDING,
+            attempts,
+            lastError: message,
+            nextAttemptAt: new Date(Date.now() + backoffMs),
+          },
+        });
+        failed++;
+
+        logger.warn('Outbox delivery failed', {
+          deliveryId: delivery.id,
+          eventId: delivery.eventId,
+          eventType: delivery.event.type,
+          subscriber: delivery.subscriber,
+          attempts,
+          givingUp,
+          error: message,
+        });
+      }
+    }
+
+    return { delivered, failed };
+  }
+}
+
+/**
+ * Parses `name=url,name=url`, skipping malformed pairs.
+ */
+function parseHttpSubscribers(config: string | undefined): { name: string; url: string }[] {
+  return (config ?? '')
+    .split(',')
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .flatMap((pair) => {
+      const separator = pair.indexOf('=');
+      const name = pair.slice(0, separator).trim();
+      const url = pair.slice(separator + 1).trim();
+      if (separator <= 0 || !url) {
+        logger.warn('Ignoring malformed outbox subscriber', { subscriber: pair });
+        return [];
+      }
+      return [{ name, url }];
+    });
+}
+
+async function postToSubscriber(url: string, message: OutboxMessage): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-api-key': process.env.SETTLEMENT_OUTBOX_API_KEY || '',
+      'x-outbox-event-id': message.id,
+    },
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP_${response.status}: ${response.statusText}`);
+  }
+}
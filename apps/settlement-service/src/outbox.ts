@@ -0,0 +1,71 @@
+/**
+ * Settlement outbox
+ *
+ * Domain events are recorded with the transaction client of the change
+ * they describe, so an event is stored if and only if the change
+ * commits. OutboxDispatcherService delivers them afterwards.
+ * orders-service records OrderDelivered in the same table.
+ */
+
+import { OutboxEvent, Prisma } from '@syntherium/db';
+
+export const OutboxEventType = {
+  PAYMENT_SETTLED: 'PaymentSettled',
+  REFUND_SETTLED: 'RefundSettled',
+  ESCROW_RELEASED: 'EscrowReleased',
+  /** Recorded by orders-service; releases the order's escrow */
+  ORDER_DELIVERED: 'OrderDelivered',
+} as const;
+
+export type OutboxEventType = typeof OutboxEventType[keyof typeof OutboxEventType];
+
+export interface RecordOutboxEventParams {
+  type: OutboxEventType;
+  /** What the event is about, e.g. PaymentIntent / pi_123 */
+  aggregateType: string;
+  aggregateId: string;
+  /** Amounts as strings, like the API */
+  payload: Prisma.InputJsonObject;
+}
+
+/**
+ * What subscribers receive. `id` is stable across redeliveries, so
+ * subscribers deduplicate on it.
+ */
+export interface OutboxMessage {
+  id: string;
+  type: string;
+  aggregateType: string;
+  aggregateId: string;
+  payload: Prisma.JsonValue;
+  occurredAt: string;
+}
+
+/**
+ * Records a domain event. MUST be called with the transaction client of
+ * the change the event describes.
+ */
+export async function recordOutboxEvent(
+  tx: Prisma.TransactionClient,
+  params: RecordOutboxEventParams,
+): Promise<OutboxEvent> {
+  return tx.outboxEvent.create({
+    data: {
+      type: params.type,
+      aggregateType: params.aggregateType,
+      aggregateId: params.aggregateId,
+      payload: params.payload,
+    },
+  });
+}
+
+export function toOutboxMessage(event: OutboxEvent): OutboxMessage {
+  return {
+    id: event.id,
+    type: event.type,
+    aggregateType: event.aggregateType,
+    aggregateId: event.aggregateId,
+    payload: event.payload,
+    occurredAt: event.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Body,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  PaymentMismatchService,
+  MismatchResolution,
+  MismatchResolutionResult,
+} from './payment-mismatch.service';
+import { AppendEntryResult } from '@syntherium/ledger-core';
+import { Roles, Role, UserContext } from '@syntherium/security';
+
+/**
+ * Payments confirmed for a different amount or currency than expected.
+ * Served by settlement-service because resolving one posts to the
+ * ledger, so it is admin-only; ops lists them through ops-service.
+ */
+@Controller('payment-mismatches')
+@Roles(Role.ADMIN)
+export class PaymentMismatchController {
+  constructor(private readonly paymentMismatchService: PaymentMismatchService) {}
+
+  @Post(':mismatchId/resolve')
+  @HttpCode(HttpStatus.OK)
+  async resolveMismatch(
+    @Param('mismatchId') mismatchId: string,
+    @Body() body: { resolution?: string; note?: string },
+    @Req() req: any,
+  ) {
+    const resolutions = Object.values(MismatchResolution) as string[];
+    if (!body?.resolution || !resolutions.includes(body.resolution)) {
+      throw new BadRequestException({
+        code: 'INVALID_RESOLUTION',
+        message: `resolution must be one of ${resolutions.join(', ')}`,
+        details: { resolution: body?.resolution },
+      });
+    }
+
+    const user = req.user as UserContext;
+    const result = await this.paymentMismatchService.resolveMismatch(mismatchId, {
+      resolution: body.resolution as MismatchResolution,
+      note: body.note,
+    }, user?.id || 'unknown');
+    return this.formatResult(result);
+  }
+
+  private formatResult(result: MismatchResolutionResult) {
+    const { mismatch } = result;
+    return {
+      id: mismatch.id,
+      reference: mismatch.reference,
+      paymentIntentId: mismatch.paymentIntentId,
+      orderId: mismatch.orderId,
+      kind: mismatch.kind,
+      expectedAmount: mismatch.expectedAmount.toString(),
+      expectedCurrency: mismatch.expectedCurrency,
+      receivedAmount: mismatch.receivedAmount.toString(),
+      receivedCurrency: mismatch.receivedCurrency,
+      suspenseAmount: mismatch.suspenseAmount.toString(),
+      status: mismatch.status,
+      refundAmount: mismatch.refundAmount?.toString() ?? null,
+      resolutionNote: mismatch.resolutionNote,
+      resolvedBy: mismatch.resolvedBy,
+      resolvedAt: mismatch.resolvedAt?.toISOString() ?? null,
+      createdAt: mismatch.createdAt.toISOString(),
+      paymentStatus: result.paymentStatus,
+      message: result.message,
+      ledgerEntries: result.ledgerEntries.map((entry) => this.formatEntry(entry)),
+    };
+  }
+
+  private formatEntry(entry: AppendEntryResult) {
+    return {
+      id: entry.id,
+      accountId: entry.accountId,
+      walletSeq: entry.walletSeq,
+      reference: entry.reference,
+      journalId: entry.journalId,
+      entryType: entry.entryType,
+      amount: entry.amount.toString(),
+      currency: entry.currency,
+      reversesEntryId: entry.reversesEntryId,
+      entryHash: entry.entryHash,
+      prevHash: entry.prevHash,
+    };
+  }
+}
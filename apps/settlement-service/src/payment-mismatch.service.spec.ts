@@ -0,0 +1,123 @@
+/**
+ * Payment Mismatch Service Tests
+ *
+ * Tests for:
+ * - ACCEPT: suspense reversed, payment settled as received
+ * - REFUND_DIFFERENCE: overpayments settle at the expected amount,
+ *   underpayments fail with everything refunded
+ * - Resolved mismatches cannot be resolved the other way
+ */
+
+import { PaymentMismatchService } from './payment-mismatch.service';
+import { PaymentIntentStatus, PaymentMismatchKind, PaymentMismatchStatus, Prisma } from '@syntherium/db';
+import { reverseJournal } from '@syntherium/ledger-core';
+
+jest.mock('@syntherium/ledger-core', () => ({
+  ...jest.requireActual('@syntherium/ledger-core'),
+  reverseJournal: jest.fn(),
+}));
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+describe('PaymentMismatchService', () => {
+  let mismatchService: PaymentMismatchService;
+  let settlementService: { settleConfirmedIntent: jest.Mock };
+  let mockTx: any;
+  let intent: any;
+  let mismatch: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    intent = {
+      id: 'pi_1',
+      reference: 'PAYMENT_order_1',
+      orderId: 'order_1',
+      amount: decimal('10000'),
+      originalAmount: decimal('11000'),
+      discountAmount: decimal('1000'),
+      currency: 'NGN',
+      status: PaymentIntentStatus.UNDER_REVIEW,
+    };
+    mismatch = {
+      id: 'pm_1',
+      reference: 'SUSPENSE_PAYMENT_order_1',
+      paymentIntentId: 'pi_1',
+      orderId: 'order_1',
+      kind: PaymentMismatchKind.UNDERPAID,
+      expectedAmount: decimal('10000'),
+      expectedCurrency: 'NGN',
+      receivedAmount: decimal('9500'),
+      receivedCurrency: 'NGN',
+      suspenseAmount: decimal('9500'),
+      journalId: 'jr_suspense',
+      status: PaymentMismatchStatus.OPEN,
+      refundAmount: null,
+    };
+
+    mockTx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      paymentIntent: {
+        findUniqueOrThrow: jest.fn(async () => intent),
+        update: jest.fn(async ({ data }: any) => ({ ...intent, ...data })),
+      },
+      paymentMismatch: {
+        findUnique: jest.fn(async () => mismatch),
+        findUniqueOrThrow: jest.fn(async () => mismatch),
+        update: jest.fn(async ({ data }: any) => ({ ...mismatch, ...data })),
+      },
+    };
+
+    (reverseJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_reversal', entries: [] });
+    settlementService = { settleConfirmedIntent: jest.fn().mockResolvedValue({ ledgerEntries: [] }) };
+    mismatchService = new PaymentMismatchService(
+      { $transaction: jest.fn((callback) => callback(mockTx)) } as any,
+      settlementService as any,
+    );
+  });
+
+  it('should settle an accepted payment as received', async () => {
+    const result = await mismatchService.resolveMismatch('pm_1', { resolution: 'ACCEPT' }, 'admin_1');
+
+    expect(reverseJournal).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+      journalId: 'jr_suspense',
+      reference: 'SUSPENSE_PAYMENT_order_1_REVERSAL',
+    }));
+    expect(settlementService.settleConfirmedIntent).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+      amount: decimal('9500'),
+      originalAmount: decimal('10500'),
+    }));
+    expect(result.mismatch.status).toBe(PaymentMismatchStatus.ACCEPTED);
+    expect(result.paymentStatus).toBe(PaymentIntentStatus.SETTLED);
+  });
+
+  it('should settle an overpayment at the expected amount and refund the excess', async () => {
+    mismatch.kind = PaymentMismatchKind.OVERPAID;
+    mismatch.receivedAmount = decimal('12000');
+
+    const result = await mismatchService.resolveMismatch('pm_1', { resolution: 'REFUND_DIFFERENCE' }, 'admin_1');
+
+    expect(settlementService.settleConfirmedIntent).toHaveBeenCalledWith(mockTx, intent);
+    expect(result.mismatch.status).toBe(PaymentMismatchStatus.REFUNDED);
+    expect(result.mismatch.refundAmount?.toString()).toBe('2000');
+  });
+
+  it('should fail an underpayment and refund everything received', async () => {
+    const result = await mismatchService.resolveMismatch('pm_1', { resolution: 'REFUND_DIFFERENCE' }, 'admin_1');
+
+    expect(settlementService.settleConfirmedIntent).not.toHaveBeenCalled();
+    expect(mockTx.paymentIntent.update).toHaveBeenCalledWith({
+      where: { id: 'pi_1' },
+      data: { status: PaymentIntentStatus.FAILED },
+    });
+    expect(result.mismatch.refundAmount?.toString()).toBe('9500');
+    expect(result.paymentStatus).toBe(PaymentIntentStatus.FAILED);
+  });
+
+  it('should not resolve a resolved mismatch the other way', async () => {
+    mismatch.status = PaymentMismatchStatus.ACCEPTED;
+
+    await expect(mismatchService.resolveMismatch('pm_1', { resolution: 'REFUND_DIFFERENCE' }, 'admin_1'))
+      .rejects.toMatchObject({ response: expect.objectContaining({ code: 'PAYMENT_MISMATCH_ALREADY_RESOLVED' }) });
+    expect(reverseJournal).not.toHaveBeenCalled();
+  });
+});
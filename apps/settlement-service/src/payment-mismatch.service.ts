@@ -0,0 +1,230 @@
+/**
+ * Payment Mismatch Service
+ *
+ * Resolves payments the provider confirmed for a different amount or
+ * currency than the intent, or in full for a discount its subsidy
+ * wallet could not fund (UNFUNDED_SUBSIDY). Settlement posted what was
+ * received to PAYMENT_SUSPENSE and left the intent UNDER_REVIEW;
+ * resolving reverses that suspense journal and, in the same transaction:
+ * - ACCEPT - settles the payment as received: the intent takes the
+ *   received amount and currency (the discount is unchanged) and
+ *   settles normally; an unfunded subsidy is refused until its
+ *   campaign is topped up
+ * - REFUND_DIFFERENCE - an overpayment settles at the expected amount
+ *   and the excess is to be refunded; any other payment does not
+ *   settle at all, the intent FAILS and everything received is to be
+ *   refunded
+ *
+ * The refund itself is made through the provider; refundAmount records
+ * how much, in the received currency.
+ */
+
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { SettlementService } from './settlement.service';
+import {
+  PaymentIntentStatus,
+  PaymentMismatch,
+  PaymentMismatchKind,
+  PaymentMismatchStatus,
+  Prisma,
+} from '@syntherium/db';
+import {
+  reverseJournal,
+  runLedgerTransaction,
+  LedgerError,
+  AppendEntryResult,
+} from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+export const MismatchResolution = {
+  ACCEPT: 'ACCEPT',
+  REFUND_DIFFERENCE: 'REFUND_DIFFERENCE',
+} as const;
+
+export type MismatchResolution = typeof MismatchResolution[keyof typeof MismatchResolution];
+
+export interface ResolveMismatchParams {
+  resolution: MismatchResolution;
+  note?: string;
+}
+
+export interface MismatchResolutionResult {
+  mismatch: PaymentMismatch;
+  /** SETTLED, or FAILED when nothing was settled */
+  paymentStatus: PaymentIntentStatus;
+  /** The suspense reversal, then the settlement if there was one */
+  ledgerEntries: AppendEntryResult[];
+  message: string;
+}
+
+@Injectable()
+export class PaymentMismatchService {
+  constructor(
+    private prisma: PrismaService,
+    private settlementService: SettlementService,
+  ) {}
+
+  /**
+   * Resolves a mismatch. Resolving again the same way returns the
+   * mismatch; a resolved mismatch cannot be resolved the other way.
+   */
+  async resolveMismatch(
+    mismatchId: string,
+    params: ResolveMismatchParams,
+    actorId: string,
+  ): Promise<MismatchResolutionResult> {
+    const { resolution } = params;
+    const targetStatus = resolution === MismatchResolution.ACCEPT
+      ? PaymentMismatchStatus.ACCEPTED
+      : PaymentMismatchStatus.REFUNDED;
+
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      const found = await tx.paymentMismatch.findUnique({ where: { id: mismatchId } });
+
+      if (!found) {
+        throw new NotFoundException({
+          code: 'PAYMENT_MISMATCH_NOT_FOUND',
+          message: `Payment mismatch not found: ${mismatchId}`,
+        });
+      }
+
+      await tx.$queryRaw`SELECT id FROM payment_intents WHERE id = ${found.paymentIntentId} FOR UPDATE`;
+
+      const mismatch = await tx.paymentMismatch.findUniqueOrThrow({ where: { id: mismatchId } });
+      const intent = await tx.paymentIntent.findUniqueOrThrow({ where: { id: mismatch.paymentIntentId } });
+
+      if (mismatch.status === targetStatus) {
+        logger.info('Payment mismatch already resolved (idempotent)', { mismatchId, resolution });
+        return {
+          mismatch,
+          paymentStatus: intent.status,
+          ledgerEntries: [],
+          message: 'Payment mismatch already resolved',
+          resolved: false,
+        };
+      }
+
+      if (mismatch.status !== PaymentMismatchStatus.OPEN) {
+        throw new ConflictException({
+          code: 'PAYMENT_MISMATCH_ALREADY_RESOLVED',
+          message: `Payment mismatch is already ${mismatch.status}`,
+          details: { mismatchId, currentStatus: mismatch.status },
+        });
+      }
+
+      // The discount is in the intent's currency; it cannot carry over
+      // to a payment made in another
+      if (
+        resolution === MismatchResolution.ACCEPT &&
+        mismatch.kind === PaymentMismatchKind.WRONG_CURRENCY &&
+        intent.discountAmount.greaterThan(0)
+      ) {
+        throw new ConflictException({
+          code: 'DISCOUNT_CURRENCY_MISMATCH',
+          message: 'A discounted payment made in another currency cannot be accepted; refund it instead',
+          details: { mismatchId, discountCode: intent.discountCode, receivedCurrency: mismatch.receivedCurrency },
+        });
+      }
+
+      const reversal = await reverseJournal(tx, {
+        journalId: mismatch.journalId,
+        reference: `${mismatch.reference}_REVERSAL`,
+        reason: `Payment mismatch ${resolution === MismatchResolution.ACCEPT ? 'accepted' : 'refunded'}`,
+        orderId: mismatch.orderId,
+      });
+
+      let refundAmount: Prisma.Decimal | null = null;
+      let settlement: AppendEntryResult[] = [];
+      let paymentStatus: PaymentIntentStatus = PaymentIntentStatus.SETTLED;
+
+      if (resolution === MismatchResolution.ACCEPT) {
+        const accepted = await tx.paymentIntent.update({
+          where: { id: intent.id },
+          data: {
+            amount: mismatch.receivedAmount,
+            currency: mismatch.receivedCurrency,
+            originalAmount: mismatch.receivedAmount.add(intent.discountAmount),
+          },
+        });
+        settlement = (await this.settlementService.settleConfirmedIntent(tx, accepted)).ledgerEntries;
+      } else if (mismatch.kind === PaymentMismatchKind.OVERPAID) {
+        settlement = (await this.settlementService.settleConfirmedIntent(tx, intent)).ledgerEntries;
+        refundAmount = mismatch.receivedAmount.sub(mismatch.expectedAmount);
+      } else {
+        await tx.paymentIntent.update({
+          where: { id: intent.id },
+          data: { status: PaymentIntentStatus.FAILED },
+        });
+        refundAmount = mismatch.receivedAmount;
+        paymentStatus = PaymentIntentStatus.FAILED;
+      }
+
+      const resolved = await tx.paymentMismatch.update({
+        where: { id: mismatchId },
+        data: {
+          status: targetStatus,
+          refundAmount,
+          resolutionNote: params.note,
+          resolvedBy: actorId,
+          resolvedAt: new Date(),
+        },
+      });
+
+      return {
+        mismatch: resolved,
+        paymentStatus,
+        ledgerEntries: [...reversal.entries, ...settlement],
+        message: paymentStatus === PaymentIntentStatus.SETTLED
+          ? 'Payment mismatch resolved and payment settled'
+          : 'Payment mismatch resolved; payment not settled',
+        resolved: true,
+      };
+    }, {
+      timeout: 10000,
+    }));
+
+    const { resolved, ...outcome } = result;
+    if (!resolved) {
+      return outcome;
+    }
+
+    logAuditEvent({
+      action: resolution === MismatchResolution.ACCEPT ? 'PAYMENT_MISMATCH_ACCEPTED' : 'PAYMENT_MISMATCH_REFUNDED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'PaymentMismatch', id: mismatchId },
+      outcome: 'success',
+      details: {
+        paymentIntentId: result.mismatch.paymentIntentId,
+        kind: result.mismatch.kind,
+        expected: `${result.mismatch.expectedAmount.toString()} ${result.mismatch.expectedCurrency}`,
+        received: `${result.mismatch.receivedAmount.toString()} ${result.mismatch.receivedCurrency}`,
+        refundAmount: result.mismatch.refundAmount?.toString() ?? null,
+        paymentStatus: result.paymentStatus,
+      },
+    });
+
+    return outcome;
+  }
+
+  /**
+   * Surfaces ledger rejections (e.g. a frozen account when the accepted
+   * payment settles) as 400s instead of unhandled errors.
+   */
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  StreamableFile,
+} from '@nestjs/common';
+import { PayoutService, PayoutBatchWithLines } from './payout.service';
+import { PayoutBatch, PayoutBatchStatus, PayoutLine, Prisma } from '@syntherium/db';
+import { Roles, Role, UserContext } from '@syntherium/security';
+
+/**
+ * Vendor payouts. Served by settlement-service because every step
+ * posts to the ledger; creating batches and recording bank outcomes is
+ * admin-only, viewing is ops or admin.
+ */
+@Controller('payouts')
+export class PayoutController {
+  constructor(private readonly payoutService: PayoutService) {}
+
+  @Post('batches')
+  @Roles(Role.ADMIN)
+  async createBatch(@Body() body: { minimumAmount?: string }, @Req() req: any) {
+    const minimumAmount = body?.minimumAmount ?? '0';
+    if (!/^\d+(\.\d+)?$/.test(String(minimumAmount))) {
+      throw new BadRequestException({
+        code: 'INVALID_MINIMUM_AMOUNT',
+        message: 'minimumAmount must be a non-negative decimal',
+        details: { minimumAmount },
+      });
+    }
+
+    const user = req.user as UserContext;
+    const result = await this.payoutService.createBatch(new Prisma.Decimal(minimumAmount), user?.id || 'unknown');
+    return {
+      ...this.formatBatch(result.batch),
+      skipped: result.skipped,
+    };
+  }
+
+  @Get('batches')
+  @Roles(Role.OPS, Role.ADMIN)
+  async listBatches(
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (status && !Object.values(PayoutBatchStatus).includes(status as PayoutBatchStatus)) {
+      throw new BadRequestException({
+        code: 'INVALID_STATUS',
+        message: `status must be one of ${Object.values(PayoutBatchStatus).join(', ')}`,
+      });
+    }
+
+    const result = await this.payoutService.listBatches({
+      status: status as PayoutBatchStatus | undefined,
+      page: page ? parseInt(page, 10) : 1,
+      limit: limit ? parseInt(limit, 10) : 20,
+    });
+    return {
+      data: result.data.map((batch) => this.formatBatch(batch)),
+      pagination: result.pagination,
+    };
+  }
+
+  @Get('batches/:batchId')
+  @Roles(Role.OPS, Role.ADMIN)
+  async getBatch(@Param('batchId') batchId: string) {
+    return this.formatBatch(await this.payoutService.getBatch(batchId));
+  }
+
+  @Get('batches/:batchId/file')
+  @Roles(Role.OPS, Role.ADMIN)
+  async getBankFile(@Param('batchId') batchId: string) {
+    const csv = await this.payoutService.bankFile(batchId);
+    return new StreamableFile(Buffer.from(csv), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="payout-${batchId}.csv"`,
+    });
+  }
+
+  @Post('batches/:batchId/sent')
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async markBatchSent(@Param('batchId') batchId: string, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.formatBatch(await this.payoutService.markBatchSent(batchId, user?.id || 'unknown'));
+  }
+
+  @Post('lines/:lineId/paid')
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async markLinePaid(@Param('lineId') lineId: string, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.formatLine(await this.payoutService.markLinePaid(lineId, user?.id || 'unknown'));
+  }
+
+  @Post('lines/:lineId/failed')
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async markLineFailed(@Param('lineId') lineId: string, @Body() body: { reason?: string }, @Req() req: any) {
+    const user = req.user as UserContext;
+    return this.formatLine(await this.payoutService.markLineFailed(lineId, body?.reason, user?.id || 'unknown'));
+  }
+
+  private formatBatch(batch: PayoutBatch | PayoutBatchWithLines) {
+    return {
+      id: batch.id,
+      reference: batch.reference,
+      currency: batch.currency,
+      totalAmount: batch.totalAmount.toString(),
+      lineCount: batch.lineCount,
+      status: batch.status,
+      createdAt: batch.createdAt.toISOString(),
+      createdBy: batch.createdBy,
+      sentAt: batch.sentAt?.toISOString() ?? null,
+      completedAt: batch.completedAt?.toISOString() ?? null,
+      ...('lines' in batch && { lines: batch.lines.map((line) => this.formatLine(line)) }),
+    };
+  }
+
+  private formatLine(line: PayoutLine) {
+    return {
+      id: line.id,
+      batchId: line.batchId,
+      reference: line.reference,
+      vendorId: line.vendorId,
+      accountId: line.accountId,
+      amount: line.amount.toString(),
+      bankCode: line.bankCode,
+      accountNumber: line.accountNumber,
+      accountName: line.accountName,
+      status: line.status,
+      failureReason: line.failureReason,
+      sentAt: line.sentAt?.toISOString() ?? null,
+      paidAt: line.paidAt?.toISOString() ?? null,
+      failedAt: line.failedAt?.toISOString() ?? null,
+    };
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Payout Service Tests
+ *
+ * Tests for:
+ * - Batching vendor wallet balances into PAYOUTS_IN_TRANSIT
+ * - NIBSS-style bank transfer file
+ * - Line outcomes: PAID leaves for the bank, FAILED returns to the wallet
+ */
+
+import { PayoutService } from './payout.service';
+import {
+  AccountOwnerType,
+  LedgerEntryType,
+  PayoutBatchStatus,
+  PayoutLineStatus,
+  Prisma,
+} from '@syntherium/db';
+import { postJournal } from '@syntherium/ledger-core';
+
+jest.mock('@syntherium/ledger-core', () => ({
+  ...jest.requireActual('@syntherium/ledger-core'),
+  postJournal: jest.fn(),
+  lockAccounts: jest.fn(),
+}));
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+describe('PayoutService', () => {
+  let service: PayoutService;
+  let mockTx: any;
+  let lines: any[];
+
+  const legsPosted = () => (postJournal as jest.Mock).mock.calls[0][1].legs.map((leg: any) => [
+    leg.accountId,
+    leg.entryType,
+    leg.amount.toString(),
+  ]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lines = [];
+
+    mockTx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      ledgerAccount: {
+        findMany: jest.fn().mockResolvedValue([
+          { accountId: 'VENDOR_A', ownerId: 'a', ownerType: AccountOwnerType.VENDOR },
+          { accountId: 'VENDOR_B', ownerId: 'b', ownerType: AccountOwnerType.VENDOR },
+          { accountId: 'VENDOR_C', ownerId: 'c', ownerType: AccountOwnerType.VENDOR },
+        ]),
+      },
+      walletBalanceCache: {
+        findMany: jest.fn().mockResolvedValue([
+          { accountId: 'VENDOR_A', balance: decimal('15000.5678'), heldAmount: decimal('1000') },
+          { accountId: 'VENDOR_B', balance: decimal('5000'), heldAmount: decimal('0') },
+          { accountId: 'VENDOR_C', balance: decimal('0'), heldAmount: decimal('0') },
+        ]),
+      },
+      vendorBankAccount: {
+        findMany: jest.fn().mockResolvedValue([
+          { vendorId: 'a', bankCode: '058', accountNumber: '0123456789', accountName: 'Gas Hub, Ltd' },
+        ]),
+      },
+      payoutBatch: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn(async ({ data }: any) => ({ id: 'pb_1', ...data })),
+        findUniqueOrThrow: jest.fn(async () => ({ id: 'pb_1', reference: 'PAYOUT_BATCH_X', lineCount: 1, totalAmount: decimal('14000.56'), lines })),
+        updateMany: jest.fn(),
+      },
+      payoutLine: {
+        create: jest.fn(async ({ data }: any) => {
+          const line = { id: `pl_${lines.length + 1}`, status: PayoutLineStatus.PENDING, ...data };
+          lines.push(line);
+          return line;
+        }),
+        findUnique: jest.fn(async ({ where }: any) => lines.find((l) => l.id === where.id) ?? null),
+        update: jest.fn(async ({ where, data }: any) => ({ ...lines.find((l) => l.id === where.id), ...data })),
+        count: jest.fn().mockResolvedValue(0),
+      },
+    };
+
+    (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_1', entries: [] });
+    service = new PayoutService({ $transaction: jest.fn((callback) => callback(mockTx)) } as any);
+  });
+
+  describe('createBatch', () => {
+    it('should move available balances, in kobo, into payouts in transit', async () => {
+      const result = await service.createBatch(decimal('0'), 'admin_1');
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({ vendorId: 'a', accountNumber: '0123456789' });
+      expect(lines[0].reference).toMatch(/^PAYOUT_\d{8}_1_1$/);
+      expect(legsPosted()).toEqual([
+        ['VENDOR_A', LedgerEntryType.DEBIT, '14000.56'],
+        ['PAYOUTS_IN_TRANSIT', LedgerEntryType.CREDIT, '14000.56'],
+      ]);
+      expect(result.skipped).toEqual([
+        expect.objectContaining({ vendorId: 'b', reason: 'NO_BANK_ACCOUNT' }),
+      ]);
+    });
+
+    it('should leave vendors below the minimum for a later batch', async () => {
+      await expect(service.createBatch(decimal('20000'), 'admin_1')).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'NOTHING_TO_PAY_OUT' }),
+      });
+      expect(postJournal).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should export the batch as a bulk transfer CSV', async () => {
+    lines = [{
+      reference: 'PAYOUT_20261019_1_1',
+      accountNumber: '0123456789',
+      bankCode: '058',
+      amount: decimal('14000.56'),
+      accountName: 'Gas Hub, Ltd',
+    }];
+    service = new PayoutService({
+      payoutBatch: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'pb_1', reference: 'PAYOUT_BATCH_20261019_1', lines }),
+      },
+    } as any);
+
+    const csv = await service.bankFile('pb_1');
+
+    expect(csv.split('\r\n')).toEqual([
+      'S/N,Account Number,Bank Code,Amount,Beneficiary Name,Narration,Reference',
+      '1,0123456789,058,14000.56,"Gas Hub, Ltd",Syntherium payout PAYOUT_BATCH_20261019_1,PAYOUT_20261019_1_1',
+      '',
+    ]);
+  });
+
+  it('should escape bank file cells a spreadsheet would run as formulas', async () => {
+    lines = [{
+      reference: 'PAYOUT_20261019_1_1',
+      accountNumber: '+2340123456789',
+      bankCode: '@058',
+      amount: decimal('14000.56'),
+      accountName: '=HYPERLINK("http://x.test","Gas Hub")',
+    }, {
+      reference: 'PAYOUT_20261019_1_2',
+      accountNumber: '0123456780',
+      bankCode: '058',
+      amount: decimal('500.00'),
+      accountName: '-Mama Put',
+    }];
+    service = new PayoutService({
+      payoutBatch: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'pb_1', reference: 'PAYOUT_BATCH_20261019_1', lines }),
+      },
+    } as any);
+
+    const csv = await service.bankFile('pb_1');
+
+    expect(csv.split('\r\n').slice(1, 3)).toEqual([
+      `1,'+2340123456789,'@058,14000.56,"'=HYPERLINK(""http://x.test"",""Gas Hub"")",Syntherium payout PAYOUT_BATCH_20261019_1,PAYOUT_20261019_1_1`,
+      `2,0123456780,058,500.00,'-Mama Put,Syntherium payout PAYOUT_BATCH_20261019_1,PAYOUT_20261019_1_2`,
+    ]);
+  });
+
+  describe('line outcomes', () => {
+    beforeEach(() => {
+      lines = [{
+        id: 'pl_1',
+        batchId: 'pb_1',
+        reference: 'PAYOUT_20261019_1_1',
+        vendorId: 'a',
+        accountId: 'VENDOR_A',
+        amount: decimal('14000.56'),
+        status: PayoutLineStatus.SENT,
+      }];
+    });
+
+    it('should pay a sent line out of transit and complete the batch', async () => {
+      const line = await service.markLinePaid('pl_1', 'admin_1');
+
+      expect((postJournal as jest.Mock).mock.calls[0][1].reference).toBe('PAYOUT_20261019_1_1_PAID');
+      expect(legsPosted()).toEqual([
+        ['PAYOUTS_IN_TRANSIT', LedgerEntryType.DEBIT, '14000.56'],
+        ['SETTLEMENT_BANK', LedgerEntryType.CREDIT, '14000.56'],
+      ]);
+      expect(line.status).toBe(PayoutLineStatus.PAID);
+      expect(mockTx.payoutBatch.updateMany).toHaveBeenCalledWith({
+        where: { id: 'pb_1', status: PayoutBatchStatus.SENT },
+        data: expect.objectContaining({ status: PayoutBatchStatus.COMPLETED }),
+      });
+    });
+
+    it('should return a failed line to the vendor wallet', async () => {
+      const line = await service.markLineFailed('pl_1', 'Invalid account', 'admin_1');
+
+      expect(legsPosted()).toEqual([
+        ['PAYOUTS_IN_TRANSIT', LedgerEntryType.DEBIT, '14000.56'],
+        ['VENDOR_A', LedgerEntryType.CREDIT, '14000.56'],
+      ]);
+      expect(line).toMatchObject({ status: PayoutLineStatus.FAILED, failureReason: 'Invalid account' });
+    });
+
+    it('should not pay lines that were never sent, nor post twice', async () => {
+      lines[0].status = PayoutLineStatus.PENDING;
+      await expect(service.markLinePaid('pl_1', 'admin_1')).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'INVALID_PAYOUT_STATUS' }),
+      });
+
+      lines[0].status = PayoutLineStatus.FAILED;
+      await service.markLineFailed('pl_1', 'Invalid account', 'admin_1');
+
+      expect(postJournal).not.toHaveBeenCalled();
+    });
+  });
+});
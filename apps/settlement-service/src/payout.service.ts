@@ -0,0 +1,477 @@
+/**
+ * Payout Service
+ *
+ * Pays vendors what escrow releases credited to their wallets:
+ * 1. createBatch - every active vendor wallet with an available balance
+ *    and bank details becomes a payout line; ONE journal referenced
+ *    PAYOUT_BATCH_{yyyymmdd}_{seq} moves the lines from the wallets into
+ *    PAYOUTS_IN_TRANSIT
+ * 2. bankFile - the batch as a NIBSS-style bulk transfer CSV
+ * 3. markBatchSent - the file was submitted; lines PENDING → SENT
+ * 4. markLinePaid / markLineFailed - per line bank outcome:
+ *    PAID:   DEBIT PAYOUTS_IN_TRANSIT, CREDIT SETTLEMENT_BANK
+ *    FAILED: DEBIT PAYOUTS_IN_TRANSIT, CREDIT the vendor wallet
+ *
+ * Bank transfers settle in kobo, so lines pay out the available balance
+ * rounded down to 2 decimals; the remainder stays in the wallet.
+ */
+
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import {
+  AccountOwnerType,
+  AccountStatus,
+  LedgerEntryType,
+  PayoutBatch,
+  PayoutBatchStatus,
+  PayoutLine,
+  PayoutLineStatus,
+  Prisma,
+  SystemAccounts,
+} from '@syntherium/db';
+import {
+  postJournal,
+  lockAccounts,
+  runLedgerTransaction,
+  LedgerError,
+  BASE_CURRENCY,
+  JournalLeg,
+} from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+/** Bank transfers are in kobo */
+const PAYOUT_DECIMALS = 2;
+
+export type PayoutBatchWithLines = PayoutBatch & { lines: PayoutLine[] };
+
+export interface SkippedVendor {
+  vendorId: string;
+  accountId: string;
+  availableBalance: string;
+  reason: 'NO_BANK_ACCOUNT' | 'BELOW_MINIMUM';
+}
+
+export interface CreatePayoutBatchResult {
+  batch: PayoutBatchWithLines;
+  skipped: SkippedVendor[];
+}
+
+@Injectable()
+export class PayoutService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Gathers what every vendor is owed into a new batch and moves it into
+   * PAYOUTS_IN_TRANSIT.
+   *
+   * @param minimumAmount - Vendors with less available are left for a later batch
+   */
+  async createBatch(minimumAmount: Prisma.Decimal, actorId: string): Promise<CreatePayoutBatchResult> {
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      const wallets = await tx.ledgerAccount.findMany({
+        where: { ownerType: AccountOwnerType.VENDOR, status: AccountStatus.ACTIVE, currency: BASE_CURRENCY },
+        orderBy: { accountId: 'asc' },
+      });
+
+      // Balances can't move under the batch once the wallets are locked,
+      // and locking PAYOUTS_IN_TRANSIT serializes batch creation: a
+      // concurrent batch waits here, then sees what this one took
+      await lockAccounts(tx, [SystemAccounts.PAYOUTS_IN_TRANSIT, ...wallets.map((w) => w.accountId)]);
+
+      const [balances, bankAccounts] = await Promise.all([
+        tx.walletBalanceCache.findMany({ where: { accountId: { in: wallets.map((w) => w.accountId) } } }),
+        tx.vendorBankAccount.findMany({
+          where: { vendorId: { in: wallets.map((w) => w.ownerId).filter((id): id is string => !!id) } },
+        }),
+      ]);
+
+      const skipped: SkippedVendor[] = [];
+      const payable: { vendorId: string; accountId: string; amount: Prisma.Decimal; bank: typeof bankAccounts[number] }[] = [];
+
+      for (const wallet of wallets) {
+        const cache = balances.find((b) => b.accountId === wallet.accountId);
+        if (!cache || !wallet.ownerId) {
+          continue;
+        }
+
+        // Lapsed holds not yet swept still count as held
+        const available = cache.balance.sub(cache.heldAmount);
+        const amount = available.toDecimalPlaces(PAYOUT_DECIMALS, Prisma.Decimal.ROUND_DOWN);
+        if (amount.lessThanOrEqualTo(0)) {
+          continue;
+        }
+
+        const bank = bankAccounts.find((b) => b.vendorId === wallet.ownerId);
+        if (!bank || amount.lessThan(minimumAmount)) {
+          skipped.push({
+            vendorId: wallet.ownerId,
+            accountId: wallet.accountId,
+            availableBalance: available.toString(),
+            reason: bank ? 'BELOW_MINIMUM' : 'NO_BANK_ACCOUNT',
+          });
+          continue;
+        }
+
+        payable.push({ vendorId: wallet.ownerId, accountId: wallet.accountId, amount, bank });
+      }
+
+      if (payable.length === 0) {
+        throw new ConflictException({
+          code: 'NOTHING_TO_PAY_OUT',
+          message: 'No vendor has a payable balance and bank details',
+          details: { skipped },
+        });
+      }
+
+      const totalAmount = payable.reduce((sum, p) => sum.add(p.amount), new Prisma.Decimal(0));
+      const day = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+      const seq = await tx.payoutBatch.count({ where: { reference: { startsWith: `PAYOUT_BATCH_${day}_` } } }) + 1;
+      const reference = `PAYOUT_BATCH_${day}_${seq}`;
+
+      const created = await tx.payoutBatch.create({
+        data: {
+          reference,
+          currency: BASE_CURRENCY,
+          totalAmount,
+          lineCount: payable.length,
+          createdBy: actorId,
+        },
+      });
+
+      const legs: JournalLeg[] = [];
+      for (const [index, p] of payable.entries()) {
+        const lineReference = `PAYOUT_${day}_${seq}_${index + 1}`;
+        await tx.payoutLine.create({
+          data: {
+            batchId: created.id,
+            reference: lineReference,
+            vendorId: p.vendorId,
+            accountId: p.accountId,
+            amount: p.amount,
+            bankCode: p.bank.bankCode,
+            accountNumber: p.bank.accountNumber,
+            accountName: p.bank.accountName,
+          },
+        });
+
+        legs.push({
+          reference: lineReference,
+          accountId: p.accountId,
+          entryType: LedgerEntryType.DEBIT,
+          amount: p.amount,
+          description: `Payout ${lineReference} to vendor ${p.vendorId}`,
+        });
+      }
+      legs.push({
+        accountId: SystemAccounts.PAYOUTS_IN_TRANSIT,
+        entryType: LedgerEntryType.CREDIT,
+        amount: totalAmount,
+        description: `Payout batch ${reference}`,
+      });
+
+      const journal = await postJournal(tx, {
+        reference,
+        description: `Vendor payout batch ${reference}`,
+        legs,
+      });
+
+      logger.info('Payout batch journal posted', {
+        journalId: journal.journalId,
+        reference,
+        lineCount: payable.length,
+        totalAmount: totalAmount.toString(),
+        skipped: skipped.length,
+      });
+
+      const batch = await tx.payoutBatch.findUniqueOrThrow({
+        where: { id: created.id },
+        include: { lines: { orderBy: { accountId: 'asc' } } },
+      });
+      return { batch, skipped };
+    }, {
+      timeout: 30000,
+    }));
+
+    logAuditEvent({
+      action: 'PAYOUT_BATCH_CREATED',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'PayoutBatch', id: result.batch.id },
+      outcome: 'success',
+      details: {
+        reference: result.batch.reference,
+        lineCount: result.batch.lineCount,
+        totalAmount: result.batch.totalAmount.toString(),
+        skipped: result.skipped.length,
+      },
+    });
+
+    return result;
+  }
+
+  async listBatches(query: { status?: PayoutBatchStatus; page?: number; limit?: number }) {
+    const { status, page = 1, limit = 20 } = query;
+    const where: Prisma.PayoutBatchWhereInput = { ...(status && { status }) };
+
+    const [data, total] = await Promise.all([
+      this.prisma.payoutBatch.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.payoutBatch.count({ where }),
+    ]);
+
+    return { data, pagination: { page, limit, total, hasMore: page * limit < total } };
+  }
+
+  async getBatch(batchId: string): Promise<PayoutBatchWithLines> {
+    const batch = await this.prisma.payoutBatch.findUnique({
+      where: { id: batchId },
+      include: { lines: { orderBy: { accountId: 'asc' } } },
+    });
+
+    if (!batch) {
+      throw new NotFoundException({
+        code: 'PAYOUT_BATCH_NOT_FOUND',
+        message: `Payout batch not found: ${batchId}`,
+      });
+    }
+
+    return batch;
+  }
+
+  /**
+   * The batch as a NIBSS-style bulk credit schedule: one row per line,
+   * amounts in naira with kobo, the line reference as narration. Text
+   * cells that a spreadsheet would read as a formula are escaped.
+   */
+  async bankFile(batchId: string): Promise<string> {
+    const batch = await this.getBatch(batchId);
+
+    const rows: unknown[][] = [
+      ['S/N', 'Account Number', 'Bank Code', 'Amount', 'Beneficiary Name', 'Narration', 'Reference'],
+      ...batch.lines.map((line, index) => [
+        index + 1,
+        line.accountNumber,
+        line.bankCode,
+        line.amount.toFixed(PAYOUT_DECIMALS),
+        line.accountName,
+        `Syntherium payout ${batch.reference}`,
+        line.reference,
+      ]),
+    ];
+
+    return toCsv(rows);
+  }
+
+  /**
+   * Records that the bank file was submitted.
+   */
+  async markBatchSent(batchId: string, actorId: string): Promise<PayoutBatchWithLines> {
+    const batch = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM payout_batches WHERE id = ${batchId} FOR UPDATE`;
+      const current = await tx.payoutBatch.findUnique({ where: { id: batchId } });
+
+      if (!current) {
+        throw new NotFoundException({
+          code: 'PAYOUT_BATCH_NOT_FOUND',
+          message: `Payout batch not found: ${batchId}`,
+        });
+      }
+      if (current.status !== PayoutBatchStatus.CREATED) {
+        throw new ConflictException({
+          code: 'INVALID_PAYOUT_BATCH_STATUS',
+          message: `Cannot send payout batch in status: ${current.status}`,
+          details: { currentStatus: current.status, requiredStatus: PayoutBatchStatus.CREATED },
+        });
+      }
+
+      const sentAt = new Date();
+      // Lines failed before sending stay FAILED
+      await tx.payoutLine.updateMany({
+        where: { batchId, status: PayoutLineStatus.PENDING },
+        data: { status: PayoutLineStatus.SENT, sentAt },
+      });
+      await tx.payoutBatch.update({
+        where: { id: batchId },
+        data: { status: PayoutBatchStatus.SENT, sentAt },
+      });
+      await this.completeBatchIfSettled(tx, batchId);
+
+      return tx.payoutBatch.findUniqueOrThrow({
+        where: { id: batchId },
+        include: { lines: { orderBy: { accountId: 'asc' } } },
+      });
+    });
+
+    logAuditEvent({
+      action: 'PAYOUT_BATCH_SENT',
+      actor: { id: actorId, type: 'user' },
+      resource: { type: 'PayoutBatch', id: batchId },
+      outcome: 'success',
+      details: { reference: batch.reference, lineCount: batch.lineCount },
+    });
+
+    return batch;
+  }
+
+  /**
+   * Records that the bank paid a SENT line; the money leaves the platform.
+   * Idempotent for lines already PAID.
+   */
+  async markLinePaid(lineId: string, actorId: string): Promise<PayoutLine> {
+    return this.settleLine(lineId, PayoutLineStatus.PAID, undefined, actorId);
+  }
+
+  /**
+   * Records that the bank rejected a line (or it was pulled before
+   * sending); the amount returns to the vendor wallet for a later batch.
+   * Idempotent for lines already FAILED.
+   */
+  async markLineFailed(lineId: string, reason: string | undefined, actorId: string): Promise<PayoutLine> {
+    if (!reason) {
+      throw new BadRequestException({
+        code: 'REASON_REQUIRED',
+        message: 'A reason is required to fail a payout',
+      });
+    }
+    return this.settleLine(lineId, PayoutLineStatus.FAILED, reason, actorId);
+  }
+
+  private async settleLine(
+    lineId: string,
+    outcome: typeof PayoutLineStatus.PAID | typeof PayoutLineStatus.FAILED,
+    reason: string | undefined,
+    actorId: string,
+  ): Promise<PayoutLine> {
+    const { line, posted } = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      await tx.$queryRaw`SELECT id FROM payout_lines WHERE id = ${lineId} FOR UPDATE`;
+      const current = await tx.payoutLine.findUnique({ where: { id: lineId } });
+
+      if (!current) {
+        throw new NotFoundException({
+          code: 'PAYOUT_LINE_NOT_FOUND',
+          message: `Payout line not found: ${lineId}`,
+        });
+      }
+      if (current.status === outcome) {
+        return { line: current, posted: false };
+      }
+
+      // Only SENT lines can be paid; PENDING ones can also be pulled
+      const allowed: PayoutLineStatus[] = outcome === PayoutLineStatus.PAID
+        ? [PayoutLineStatus.SENT]
+        : [PayoutLineStatus.PENDING, PayoutLineStatus.SENT];
+      if (!allowed.includes(current.status)) {
+        throw new ConflictException({
+          code: 'INVALID_PAYOUT_STATUS',
+          message: `Cannot mark payout ${current.status} as ${outcome}`,
+          details: { currentStatus: current.status, allowedStatuses: allowed },
+        });
+      }
+
+      const paid = outcome === PayoutLineStatus.PAID;
+      await postJournal(tx, {
+        reference: `${current.reference}_${outcome}`,
+        description: paid
+          ? `Payout ${current.reference} paid to vendor ${current.vendorId}`
+          : `Payout ${current.reference} failed, returned to vendor ${current.vendorId}`,
+        metadata: paid ? undefined : { failureReason: reason ?? null },
+        legs: [
+          {
+            accountId: SystemAccounts.PAYOUTS_IN_TRANSIT,
+            entryType: LedgerEntryType.DEBIT,
+            amount: current.amount,
+          },
+          {
+            accountId: paid ? SystemAccounts.SETTLEMENT_BANK : current.accountId,
+            entryType: LedgerEntryType.CREDIT,
+            amount: current.amount,
+          },
+        ],
+      });
+
+      const now = new Date();
+      const line = await tx.payoutLine.update({
+        where: { id: lineId },
+        data: paid
+          ? { status: PayoutLineStatus.PAID, paidAt: now }
+          : { status: PayoutLineStatus.FAILED, failedAt: now, failureReason: reason },
+      });
+      await this.completeBatchIfSettled(tx, current.batchId);
+
+      return { line, posted: true };
+    }, {
+      timeout: 10000,
+    }));
+
+    if (posted) {
+      logAuditEvent({
+        action: outcome === PayoutLineStatus.PAID ? 'PAYOUT_PAID' : 'PAYOUT_FAILED',
+        actor: { id: actorId, type: 'user' },
+        resource: { type: 'PayoutLine', id: lineId },
+        outcome: 'success',
+        details: {
+          reference: line.reference,
+          vendorId: line.vendorId,
+          amount: line.amount.toString(),
+          ...(reason && { reason }),
+        },
+      });
+    }
+
+    return line;
+  }
+
+  /**
+   * A sent batch is complete once every line is PAID or FAILED.
+   */
+  private async completeBatchIfSettled(tx: Prisma.TransactionClient, batchId: string): Promise<void> {
+    const open = await tx.payoutLine.count({
+      where: { batchId, status: { in: [PayoutLineStatus.PENDING, PayoutLineStatus.SENT] } },
+    });
+    if (open === 0) {
+      await tx.payoutBatch.updateMany({
+        where: { id: batchId, status: PayoutBatchStatus.SENT },
+        data: { status: PayoutBatchStatus.COMPLETED, completedAt: new Date() },
+      });
+    }
+  }
+
+  /**
+   * Surfaces ledger rejections (e.g. a frozen vendor wallet) as 400s
+   * instead of unhandled errors.
+   */
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
+  }
+}
+
+function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Beneficiary names and account details come from vendors; a spreadsheet
+// would run a cell starting with =, +, - or @ as a formula, so it is
+// prefixed with a quote to keep it text
+function csvField(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,175 @@
+/**
+ * Refund Settlement Tests
+ *
+ * Tests for:
+ * - Refund journal legs, including the proportional subsidy reversal
+ * - Payment status transitions (PARTIALLY_REFUNDED, REFUNDED)
+ * - Idempotency and status guards
+ */
+
+import { RefundSettlementService } from './refund-settlement.service';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { PaymentIntentStatus, RefundIntentStatus, LedgerEntryType, Prisma } from '@syntherium/db';
+import { postJournal } from '@syntherium/ledger-core';
+
+jest.mock('@syntherium/ledger-core', () => ({
+  ...jest.requireActual('@syntherium/ledger-core'),
+  postJournal: jest.fn(),
+}));
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+describe('RefundSettlementService', () => {
+  let service: RefundSettlementService;
+  let mockTx: any;
+  let mockPrisma: any;
+  let intent: any;
+  let refunds: any[];
+
+  const legsPosted = () => (postJournal as jest.Mock).mock.calls[0][1].legs.map((leg: any) => [
+    leg.accountId,
+    leg.entryType,
+    leg.amount.toString(),
+  ]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    intent = {
+      id: 'pi_1',
+      reference: 'PAYMENT_order_1',
+      orderId: 'order_1',
+      amount: decimal('8000'),
+      discountAmount: decimal('2000'),
+      discountCode: 'PROMO',
+      currency: 'NGN',
+      provider: 'flutterwave',
+      status: PaymentIntentStatus.SETTLED,
+    };
+    refunds = [
+      { id: 'rf_1', reference: 'REFUND_pi_1_1', paymentIntentId: 'pi_1', amount: decimal('2000'), status: RefundIntentStatus.PROCESSING },
+    ];
+
+    const findRefund = async ({ where }: any) => refunds.find((r) => r.id === where.id) ?? null;
+    mockTx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      paymentIntent: {
+        findUniqueOrThrow: jest.fn(async () => intent),
+        update: jest.fn(),
+      },
+      refundIntent: {
+        findUnique: jest.fn(findRefund),
+        findUniqueOrThrow: jest.fn(findRefund),
+        findMany: jest.fn(async ({ where }: any) => refunds.filter((r) => r.status === where.status)),
+        update: jest.fn(),
+      },
+      ledgerEntry: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      dispute: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      outboxEvent: {
+        create: jest.fn(),
+      },
+      ledgerJournal: {
+        findUnique: jest.fn().mockResolvedValue(null),
+      },
+    };
+    mockPrisma = {
+      $transaction: jest.fn((callback) => callback(mockTx)),
+      refundIntent: {
+        updateMany: jest.fn(),
+      },
+    };
+
+    (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_1', reference: 'REFUND_pi_1_1', entries: [] });
+    service = new RefundSettlementService(mockPrisma as any);
+  });
+
+  it('should pay the refund and its share of the subsidy out of escrow', async () => {
+    const result = await service.settleRefund('rf_1');
+
+    expect(mockPrisma.refundIntent.updateMany).toHaveBeenCalledWith({
+      where: { id: 'rf_1', status: RefundIntentStatus.PENDING },
+      data: { status: RefundIntentStatus.PROCESSING },
+    });
+    expect((postJournal as jest.Mock).mock.calls[0][1].reference).toBe('REFUND_pi_1_1');
+    expect(legsPosted()).toEqual([
+      ['PLATFORM_ESCROW', LedgerEntryType.DEBIT, '2000'],
+      ['PAYMENT_CLEARING', LedgerEntryType.CREDIT, '2000'],
+      ['PLATFORM_ESCROW', LedgerEntryType.DEBIT, '500'],
+      ['MARKETING_WALLET', LedgerEntryType.CREDIT, '500'],
+    ]);
+    expect(mockTx.refundIntent.update).toHaveBeenCalledWith({
+      where: { id: 'rf_1' },
+      data: { status: RefundIntentStatus.SETTLED },
+    });
+    expect(result.paymentStatus).toBe(PaymentIntentStatus.PARTIALLY_REFUNDED);
+    expect(result.totalRefunded.toString()).toBe('2000');
+  });
+
+  it('should mark the payment REFUNDED and return the rest of the subsidy on the final refund', async () => {
+    intent.amount = decimal('3');
+    intent.discountAmount = decimal('1');
+    intent.status = PaymentIntentStatus.PARTIALLY_REFUNDED;
+    refunds = [
+      { id: 'rf_1', reference: 'REFUND_pi_1_1', paymentIntentId: 'pi_1', amount: decimal('1'), status: RefundIntentStatus.SETTLED },
+      { id: 'rf_2', reference: 'REFUND_pi_1_2', paymentIntentId: 'pi_1', amount: decimal('2'), status: RefundIntentStatus.PROCESSING },
+    ];
+
+    const result = await service.settleRefund('rf_2');
+
+    // 1/3 of the subsidy (0.3333) went back with the first refund
+    expect(legsPosted()).toContainEqual(['MARKETING_WALLET', LedgerEntryType.CREDIT, '0.6667']);
+    expect(mockTx.paymentIntent.update).toHaveBeenCalledWith({
+      where: { id: 'pi_1' },
+      data: { status: PaymentIntentStatus.REFUNDED },
+    });
+    expect(result.totalRefunded.toString()).toBe('3');
+  });
+
+  it('should return existing entries for a settled refund', async () => {
+    refunds[0].status = RefundIntentStatus.SETTLED;
+    mockTx.ledgerEntry.findMany.mockResolvedValue([{ id: 'le_1', amount: decimal('2000') }]);
+
+    const result = await service.settleRefund('rf_1');
+
+    expect(result.message).toBe('Refund already settled');
+    expect(result.ledgerEntries).toHaveLength(1);
+    expect(postJournal).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown, failed and over-limit refunds without posting', async () => {
+    await expect(service.settleRefund('rf_missing')).rejects.toThrow(NotFoundException);
+
+    refunds[0].status = RefundIntentStatus.FAILED;
+    await expect(service.settleRefund('rf_1')).rejects.toThrow(ConflictException);
+
+    refunds[0].status = RefundIntentStatus.PROCESSING;
+    refunds[0].amount = decimal('8000.0001');
+    await expect(service.settleRefund('rf_1')).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'REFUND_EXCEEDS_REMAINING' }),
+    });
+
+    expect(postJournal).not.toHaveBeenCalled();
+  });
+
+  it('should refuse refunds once the order\'s escrow has been released', async () => {
+    mockTx.ledgerJournal.findUnique.mockResolvedValue({ id: 'jr_release', reference: 'RELEASE_order_1' });
+
+    await expect(service.settleRefund('rf_1')).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'ORDER_ALREADY_RELEASED' }),
+    });
+    expect(postJournal).not.toHaveBeenCalled();
+  });
+
+  it('should refuse refunds of a payment under dispute', async () => {
+    mockTx.dispute.findFirst.mockResolvedValue({ id: 'dp_1', status: 'OPEN' });
+
+    await expect(service.settleRefund('rf_1')).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'PAYMENT_DISPUTED' }),
+    });
+    expect(postJournal).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * Refund Settlement Service
+ *
+ * Pays refunds back out of PLATFORM_ESCROW. Each refund is ONE balanced
+ * journal referenced by the refund intent's reference:
+ * - DEBIT PLATFORM_ESCROW + CREDIT PAYMENT_CLEARING (customer refund)
+ * - If the payment was subsidized: DEBIT PLATFORM_ESCROW + CREDIT the
+ *   wallet that paid the subsidy (its campaign's budget, or
+ *   MARKETING_WALLET) for the refunded share of it
+ *
+ * Foreign payments are refunded in their own currency at the rate the
+ * payment settled at, so escrow gives back what it received.
+ */
+
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { escrowReleaseReference } from './escrow-release.service';
+import { subsidyWalletAccount } from './discount-campaign.service';
+import { recordOutboxEvent, OutboxEventType } from './outbox';
+import {
+  PaymentIntentStatus,
+  RefundIntentStatus,
+  DisputeStatus,
+  LedgerEntryType,
+  Prisma,
+  SystemAccounts,
+} from '@syntherium/db';
+import {
+  postJournal,
+  runLedgerTransaction,
+  buildFxConversionLegs,
+  convertAmount,
+  fxJournalMetadata,
+  paymentClearingAccount,
+  PrismaFxRateSource,
+  LedgerError,
+  BASE_CURRENCY,
+  AppendEntryResult,
+  FxQuote,
+  JournalLeg,
+} from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+/** Payment statuses a refund can be paid against */
+const REFUNDABLE_PAYMENT_STATUSES: PaymentIntentStatus[] = [
+  PaymentIntentStatus.SETTLED,
+  PaymentIntentStatus.PARTIALLY_REFUNDED,
+];
+
+/**
+ * Rate a payment settled at, from its settlement journal's metadata.
+ * Falls back to the current rate for payments settled without one.
+ */
+export async function paymentSettlementQuote(
+  tx: Prisma.TransactionClient,
+  paymentReference: string,
+  currency: string,
+): Promise<FxQuote> {
+  const journal = await tx.ledgerJournal.findUnique({ where: { reference: paymentReference } });
+  const fx = (journal?.metadata as Prisma.JsonObject | null)?.fx as Prisma.JsonObject | undefined;
+
+  if (fx && fx.baseCurrency === currency && fx.quoteCurrency === BASE_CURRENCY) {
+    return {
+      baseCurrency: currency,
+      quoteCurrency: BASE_CURRENCY,
+      rate: new Prisma.Decimal(fx.rate as string),
+      source: fx.source as string,
+      effectiveAt: new Date(fx.effectiveAt as string),
+      rateId: (fx.rateId as string | null) ?? undefined,
+    };
+  }
+
+  return new PrismaFxRateSource(tx).getRate(currency, BASE_CURRENCY);
+}
+
+export interface RefundSettlementResult {
+  success: boolean;
+  refundIntentId: string;
+  reference: string;
+  paymentIntentId: string;
+  /** Payment intent status after the refund: PARTIALLY_REFUNDED or REFUNDED */
+  paymentStatus: PaymentIntentStatus;
+  /** Total refunded against the payment, this refund included */
+  totalRefunded: Prisma.Decimal;
+  ledgerEntries: AppendEntryResult[];
+  message: string;
+}
+
+@Injectable()
+export class RefundSettlementService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Settles a refund intent: posts the refund journal, marks the refund
+   * SETTLED and moves the payment to PARTIALLY_REFUNDED or REFUNDED.
+   *
+   * The refund is claimed as PROCESSING first; if posting fails it stays
+   * PROCESSING and settling it again retries. Settling a SETTLED refund
+   * returns its existing entries.
+   *
+   * @param refundIntentId - Refund intent ID to settle
+   */
+  async settleRefund(refundIntentId: string): Promise<RefundSettlementResult> {
+    logger.info('Starting refund settlement', { refundIntentId });
+
+    await this.prisma.refundIntent.updateMany({
+      where: { id: refundIntentId, status: RefundIntentStatus.PENDING },
+      data: { status: RefundIntentStatus.PROCESSING },
+    });
+
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      const refund = await tx.refundIntent.findUnique({ where: { id: refundIntentId } });
+
+      if (!refund) {
+        throw new NotFoundException({
+          code: 'REFUND_NOT_FOUND',
+          message: `Refund intent not found: ${refundIntentId}`,
+        });
+      }
+
+      // Lock the payment first, as settlePayment does, so refunds of one
+      // payment settle one at a time
+      await tx.$queryRaw`SELECT id FROM payment_intents WHERE id = ${refund.paymentIntentId} FOR UPDATE`;
+      await tx.$queryRaw`SELECT id FROM refund_intents WHERE id = ${refundIntentId} FOR UPDATE`;
+
+      const [intent, current] = await Promise.all([
+        tx.paymentIntent.findUniqueOrThrow({ where: { id: refund.paymentIntentId } }),
+        tx.refundIntent.findUniqueOrThrow({ where: { id: refundIntentId } }),
+      ]);
+
+      const settledRefunds = await tx.refundIntent.findMany({
+        where: { paymentIntentId: intent.id, status: RefundIntentStatus.SETTLED },
+        select: { id: true, amount: true },
+      });
+      const refundedBefore = settledRefunds
+        .filter((r) => r.id !== refundIntentId)
+        .reduce((sum, r) => sum.add(r.amount), new Prisma.Decimal(0));
+
+      if (current.status === RefundIntentStatus.SETTLED) {
+        logger.info('Refund already settled (idempotent)', { refundIntentId, reference: current.reference });
+
+        const existingEntries = await tx.ledgerEntry.findMany({
+          where: { journal: { reference: current.reference } },
+          orderBy: { createdAt: 'asc' },
+        });
+
+        return {
+          success: true,
+          refundIntentId,
+          reference: current.reference,
+          paymentIntentId: intent.id,
+          paymentStatus: intent.status,
+          totalRefunded: refundedBefore.add(current.amount),
+          ledgerEntries: existingEntries.map((e) => ({
+            id: e.id,
+            accountId: e.accountId,
+            walletSeq: e.walletSeq,
+            reference: e.reference,
+            journalId: e.journalId,
+            entryType: e.entryType,
+            amount: e.amount,
+            currency: e.currency,
+            reversesEntryId: e.reversesEntryId,
+            entryHash: e.entryHash,
+            prevHash: e.prevHash,
+          })),
+          message: 'Refund already settled',
+        };
+      }
+
+      if (current.status !== RefundIntentStatus.PROCESSING) {
+        throw new ConflictException({
+          code: 'INVALID_STATUS_FOR_REFUND',
+          message: `Cannot settle refund in status: ${current.status}`,
+          details: { currentStatus: current.status },
+        });
+      }
+
+      if (!REFUNDABLE_PAYMENT_STATUSES.includes(intent.status)) {
+        throw new ConflictException({
+          code: 'PAYMENT_NOT_REFUNDABLE',
+          message: `Cannot refund payment in status: ${intent.status}`,
+          details: { paymentIntentId: intent.id, currentStatus: intent.status },
+        });
+      }
+
+      // A disputed payment is being charged back by the provider; refunding
+      // it as well would pay the customer twice
+      const dispute = await tx.dispute.findFirst({
+        where: { paymentIntentId: intent.id, status: { in: [DisputeStatus.OPEN, DisputeStatus.LOST] } },
+      });
+      if (dispute) {
+        throw new ConflictException({
+          code: 'PAYMENT_DISPUTED',
+          message: `Cannot refund a payment with a ${dispute.status} dispute`,
+          details: { paymentIntentId: intent.id, disputeId: dispute.id, disputeStatus: dispute.status },
+        });
+      }
+
+      // Once released, the order's money is no longer in escrow
+      const release = await tx.ledgerJournal.findUnique({
+        where: { reference: escrowReleaseReference(intent.orderId) },
+      });
+      if (release) {
+        throw new ConflictException({
+          code: 'ORDER_ALREADY_RELEASED',
+          message: 'Escrow for this order has been released to the vendor',
+          details: { orderId: intent.orderId, releaseJournalId: release.id },
+        });
+      }
+
+      const refundedAfter = refundedBefore.add(current.amount);
+      if (refundedAfter.greaterThan(intent.amount)) {
+        throw new ConflictException({
+          code: 'REFUND_EXCEEDS_REMAINING',
+          message: 'Refund amount exceeds remaining refundable amount',
+          details: {
+            requestedAmount: current.amount.toString(),
+            remainingAmount: intent.amount.sub(refundedBefore).toString(),
+            originalAmount: intent.amount.toString(),
+            totalRefunded: refundedBefore.toString(),
+          },
+        });
+      }
+
+      // Step 1: Customer refund - escrow pays back through provider clearing
+      const quote = intent.currency === BASE_CURRENCY
+        ? null
+        : await paymentSettlementQuote(tx, intent.reference, intent.currency);
+
+      const legs: JournalLeg[] = [];
+      let metadata: Prisma.JsonObject | undefined;
+
+      if (quote) {
+        // The payment's conversion, run backwards
+        const conversion = buildFxConversionLegs({
+          fromAccountId: paymentClearingAccount(intent.currency),
+          toAccountId: SystemAccounts.PLATFORM_ESCROW,
+          amount: current.amount,
+          quote,
+          description: `Refund ${current.reference} for order ${intent.orderId} (${intent.currency})`,
+        });
+        legs.push(...conversion.legs.map((leg) => ({
+          ...leg,
+          entryType: leg.entryType === LedgerEntryType.DEBIT ? LedgerEntryType.CREDIT : LedgerEntryType.DEBIT,
+        })));
+        metadata = fxJournalMetadata(quote, current.amount, conversion.convertedAmount);
+      } else {
+        legs.push(
+          {
+            accountId: SystemAccounts.PLATFORM_ESCROW,
+            entryType: LedgerEntryType.DEBIT,
+            amount: current.amount,
+            description: `Refund ${current.reference} for order ${intent.orderId}`,
+          },
+          {
+            accountId: SystemAccounts.PAYMENT_CLEARING,
+            entryType: LedgerEntryType.CREDIT,
+            amount: current.amount,
+            description: `Refund ${current.reference} paid via ${intent.provider}`,
+          },
+        );
+      }
+
+      // Step 2: Give the subsidy's wallet back its refunded share.
+      // Shares are taken on cumulative refunds so that a full refund
+      // returns exactly the subsidy settlement paid in.
+      const subsidy = this.subsidyShare(intent, refundedAfter, quote)
+        .sub(this.subsidyShare(intent, refundedBefore, quote));
+
+      if (subsidy.greaterThan(0)) {
+        const discountReference = `${current.reference}_DISC`;
+        const subsidyWallet = await subsidyWalletAccount(tx, intent);
+
+        legs.push(
+          {
+            reference: `${discountReference}_ESCROW`,
+            accountId: SystemAccounts.PLATFORM_ESCROW,
+            entryType: LedgerEntryType.DEBIT,
+            amount: subsidy,
+            description: `Discount subsidy returned for refund ${current.reference}`,
+          },
+          {
+            reference: discountReference,
+            accountId: subsidyWallet,
+            entryType: LedgerEntryType.CREDIT,
+            amount: subsidy,
+            description: `Discount subsidy reversal for order ${intent.orderId} (${intent.discountCode})`,
+          },
+        );
+      }
+
+      const journal = await postJournal(tx, {
+        reference: current.reference,
+        orderId: intent.orderId,
+        description: `Refund of payment ${intent.reference}`,
+        metadata,
+        legs,
+      });
+
+      // Step 3: Refund SETTLED; payment fully or partially refunded
+      const paymentStatus = refundedAfter.equals(intent.amount)
+        ? PaymentIntentStatus.REFUNDED
+        : PaymentIntentStatus.PARTIALLY_REFUNDED;
+
+      await tx.refundIntent.update({
+        where: { id: refundIntentId },
+        data: { status: RefundIntentStatus.SETTLED },
+      });
+      await tx.paymentIntent.update({
+        where: { id: intent.id },
+        data: { status: paymentStatus },
+      });
+
+      await recordOutboxEvent(tx, {
+        type: OutboxEventType.REFUND_SETTLED,
+        aggregateType: 'RefundIntent',
+        aggregateId: refundIntentId,
+        payload: {
+          refundIntentId,
+          reference: current.reference,
+          paymentIntentId: intent.id,
+          orderId: intent.orderId,
+          amount: current.amount.toString(),
+          currency: intent.currency,
+          paymentStatus,
+          totalRefunded: refundedAfter.toString(),
+          journalId: journal.journalId,
+        },
+      });
+
+      logger.info('Refund journal posted', {
+        journalId: journal.journalId,
+        reference: current.reference,
+        amount: current.amount.toString(),
+        currency: intent.currency,
+        subsidyReturned: subsidy.toString(),
+        paymentStatus,
+      });
+
+      return {
+        success: true,
+        refundIntentId,
+        reference: current.reference,
+        paymentIntentId: intent.id,
+        paymentStatus,
+        totalRefunded: refundedAfter,
+        ledgerEntries: journal.entries,
+        message: 'Refund settled successfully',
+      };
+    }, {
+      timeout: 10000,
+    }));
+
+    logAuditEvent({
+      action: 'REFUND_SETTLED',
+      actor: { id: 'settlement-service', type: 'service' },
+      resource: { type: 'RefundIntent', id: refundIntentId },
+      outcome: 'success',
+      details: {
+        reference: result.reference,
+        paymentIntentId: result.paymentIntentId,
+        paymentStatus: result.paymentStatus,
+        totalRefunded: result.totalRefunded.toString(),
+        entriesCreated: result.ledgerEntries.length,
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Subsidy (in escrow's currency) attributable to a refunded amount:
+   * discountAmount scaled by the refunded fraction of what the customer paid.
+   */
+  private subsidyShare(
+    intent: { amount: Prisma.Decimal; discountAmount: Prisma.Decimal },
+    refunded: Prisma.Decimal,
+    quote: FxQuote | null,
+  ): Prisma.Decimal {
+    if (intent.discountAmount.lessThanOrEqualTo(0) || refunded.isZero()) {
+      return new Prisma.Decimal(0);
+    }
+    const share = intent.discountAmount
+      .mul(refunded)
+      .div(intent.amount)
+      .toDecimalPlaces(4, Prisma.Decimal.ROUND_HALF_EVEN);
+    return quote ? convertAmount(share, quote) : share;
+  }
+
+  /**
+   * Surfaces ledger rejections (e.g. escrow short of funds or frozen)
+   * as 400s instead of unhandled errors.
+   */
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Settlement Job Tests
+ *
+ * Tests for:
+ * - Recording settlement requests and marking them SUCCEEDED
+ * - Backing off on serialization failures and timeouts
+ * - Dead-lettering after the last attempt
+ * - Failing, without retry, on other errors
+ * - Leaving dead-lettered jobs to ops-service's requeue
+ */
+
+import { NotFoundException } from '@nestjs/common';
+import { SettlementJobService } from './settlement-job.service';
+import { Prisma, SettlementJobStatus, PaymentIntentStatus } from '@syntherium/db';
+
+describe('SettlementJobService', () => {
+  let service: SettlementJobService;
+  let mockPrisma: any;
+  let mockSettlementService: any;
+
+  const job = (overrides: any = {}) => ({
+    id: 'sj_1',
+    paymentIntentId: 'pi_1',
+    confirmedAmount: null,
+    confirmedCurrency: null,
+    status: SettlementJobStatus.PENDING,
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: new Date('2026-10-19T00:00:00Z'),
+    completedAt: null,
+    ...overrides,
+  });
+
+  const serializationFailure = () => new Prisma.PrismaClientKnownRequestError(
+    'Transaction failed due to a write conflict or a deadlock',
+    { code: 'P2034', clientVersion: '5.22.0' },
+  );
+
+  beforeEach(() => {
+    mockPrisma = {
+      $transaction: jest.fn(async (operations) => Promise.all(operations)),
+      paymentIntent: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'pi_1', reference: 'PAY_1' }),
+      },
+      settlementJob: {
+        upsert: jest.fn().mockResolvedValue(job()),
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(async ({ data }) => job(data)),
+      },
+      settlementDeadLetter: {
+        create: jest.fn().mockResolvedValue({ id: 'sdl_1' }),
+      },
+    };
+
+    mockSettlementService = {
+      settlePayment: jest.fn().mockResolvedValue({
+        success: true,
+        paymentIntentId: 'pi_1',
+        reference: 'PAY_1',
+        paymentStatus: PaymentIntentStatus.SETTLED,
+        message: 'Payment settled successfully',
+        ledgerEntries: [],
+      }),
+    };
+
+    service = new SettlementJobService(mockPrisma, mockSettlementService);
+  });
+
+  it('should record the request and mark the job SUCCEEDED', async () => {
+    const outcome = await service.submitByReference('PAY_1', {
+      amount: new Prisma.Decimal('10000'),
+      currency: 'NGN',
+    });
+
+    expect(mockPrisma.settlementJob.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { paymentIntentId: 'pi_1' },
+      create: expect.objectContaining({ paymentIntentId: 'pi_1', confirmedCurrency: 'NGN', attempts: 0 }),
+    }));
+    expect(mockPrisma.settlementJob.update).toHaveBeenCalledWith({
+      where: { id: 'sj_1' },
+      data: expect.objectContaining({ status: SettlementJobStatus.SUCCEEDED, attempts: 1 }),
+    });
+    expect(outcome.result?.paymentStatus).toBe(PaymentIntentStatus.SETTLED);
+  });
+
+  it('should reject unknown intents without recording a job', async () => {
+    mockPrisma.paymentIntent.findUnique.mockResolvedValue(null);
+
+    await expect(service.submit('pi_missing')).rejects.toThrow(NotFoundException);
+    expect(mockPrisma.settlementJob.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should schedule a retry with backoff on a serialization failure', async () => {
+    mockSettlementService.settlePayment.mockRejectedValue(serializationFailure());
+    const before = Date.now();
+
+    const outcome = await service.submit('pi_1');
+
+    expect(outcome.result).toBeNull();
+    expect(outcome.job.status).toBe(SettlementJobStatus.PENDING);
+    expect(outcome.job.attempts).toBe(1);
+    expect(outcome.job.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 5000);
+    expect(mockPrisma.settlementDeadLetter.create).not.toHaveBeenCalled();
+  });
+
+  it('should retry transaction timeouts from the background pass', async () => {
+    mockPrisma.settlementJob.findMany.mockResolvedValue([job({ attempts: 2 })]);
+    mockSettlementService.settlePayment.mockRejectedValue(new Prisma.PrismaClientKnownRequestError(
+      'Transaction already closed',
+      { code: 'P2028', clientVersion: '5.22.0' },
+    ));
+
+    const result = await service.retryDue();
+
+    expect(mockPrisma.settlementJob.update).toHaveBeenLastCalledWith({
+      where: { id: 'sj_1' },
+      data: expect.objectContaining({ status: SettlementJobStatus.PENDING, attempts: 3 }),
+    });
+    expect(result.retried).toBe(1);
+  });
+
+  it('should dead-letter the job after the last attempt', async () => {
+    mockPrisma.settlementJob.findMany.mockResolvedValue([job({ attempts: 7 })]);
+    mockSettlementService.settlePayment.mockRejectedValue(serializationFailure());
+
+    const result = await service.retryDue();
+
+    expect(mockPrisma.settlementJob.update).toHaveBeenCalledWith({
+      where: { id: 'sj_1' },
+      data: expect.objectContaining({ status: SettlementJobStatus.DEAD_LETTERED, attempts: 8 }),
+    });
+    expect(mockPrisma.settlementDeadLetter.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ jobId: 'sj_1', paymentIntentId: 'pi_1', attempts: 8 }),
+    });
+    expect(result.failed).toBe(1);
+  });
+
+  it('should fail the job and rethrow errors that retrying cannot fix', async () => {
+    const error = new Error('Ledger account is frozen: ESCROW');
+    mockSettlementService.settlePayment.mockRejectedValue(error);
+
+    await expect(service.submit('pi_1')).rejects.toBe(error);
+    expect(mockPrisma.settlementJob.update).toHaveBeenCalledWith({
+      where: { id: 'sj_1' },
+      data: expect.objectContaining({ status: SettlementJobStatus.FAILED, attempts: 1 }),
+    });
+  });
+
+  it('should not restart a dead-lettered job on a new request', async () => {
+    mockPrisma.settlementJob.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.settlementJob.upsert.mockResolvedValue(job({ status: SettlementJobStatus.DEAD_LETTERED, attempts: 8 }));
+
+    const outcome = await service.submitByReference('PAY_1');
+
+    expect(mockPrisma.settlementJob.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { paymentIntentId: 'pi_1', status: { not: SettlementJobStatus.DEAD_LETTERED } },
+    }));
+    expect(mockPrisma.settlementJob.upsert).toHaveBeenCalledWith(expect.objectContaining({ update: {} }));
+    expect(mockSettlementService.settlePayment).not.toHaveBeenCalled();
+    expect(mockPrisma.settlementJob.update).not.toHaveBeenCalled();
+    expect(outcome.result).toBeNull();
+    expect(outcome.job.status).toBe(SettlementJobStatus.DEAD_LETTERED);
+    expect(outcome.job.attempts).toBe(8);
+  });
+
+  it('should skip jobs another instance claimed', async () => {
+    mockPrisma.settlementJob.findMany.mockResolvedValue([job()]);
+    mockPrisma.settlementJob.updateMany.mockResolvedValue({ count: 0 });
+
+    await service.retryDue();
+
+    expect(mockSettlementService.settlePayment).not.toHaveBeenCalled();
+  });
+});
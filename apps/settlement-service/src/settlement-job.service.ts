@@ -0,0 +1,311 @@
+/**
+ * Settlement Job Service
+ *
+ * Payment settlement requests are recorded as a SettlementJob before
+ * they are attempted:
+ * 1. The request attempts the job straight away. runLedgerTransaction
+ *    already retries deadlocks in-process; if the settlement still fails
+ *    with a serialization failure or a transaction timeout, the job is
+ *    scheduled for retry and the caller told so instead of erroring.
+ * 2. Due jobs are claimed (compare-and-set on nextAttemptAt, so one
+ *    instance runs each attempt) and retried, backing off exponentially.
+ * 3. After MAX_ATTEMPTS the job is DEAD_LETTERED and a
+ *    SettlementDeadLetter records its last error. New requests for the
+ *    intent do not restart it; only requeueing it from ops-service does.
+ *
+ * Other failures (unknown intent, wrong status, ledger refusals) are not
+ * retried: the job is FAILED and the error returned to the caller, as
+ * before. Settlement is idempotent, so re-running a job that did settle
+ * is harmless.
+ */
+
+import { Injectable, NotFoundException, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { SettlementService, SettlementResult, ProviderConfirmation } from './settlement.service';
+import { Prisma, SettlementJob, SettlementJobStatus } from '@syntherium/db';
+import { isRetryableTransactionError } from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+const DEFAULT_RETRY_INTERVAL_MS = 5000;
+const BATCH_SIZE = 50;
+/** How long a claimed job is left to its attempt before others retry it */
+const CLAIM_TIMEOUT_MS = 60000;
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 600000;
+
+export interface SettlementJobOutcome {
+  job: SettlementJob;
+  /** The settlement; null when the job was scheduled for retry or dead-lettered */
+  result: SettlementResult | null;
+}
+
+/**
+ * Whether a settlement failure may succeed if simply run again:
+ * serialization failures, deadlocks and interactive transaction
+ * timeouts (P2028).
+ */
+export function isRetryableSettlementError(error: unknown): boolean {
+  return isRetryableTransactionError(error) ||
+    (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2028');
+}
+
+@Injectable()
+export class SettlementJobService implements OnModuleInit, OnModuleDestroy {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private settlementService: SettlementService,
+  ) {}
+
+  onModuleInit() {
+    const intervalMs = parseInt(
+      process.env.SETTLEMENT_JOB_RETRY_INTERVAL_MS ?? String(DEFAULT_RETRY_INTERVAL_MS),
+      10
+    );
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.retryDue().catch((error) => logger.error('Settlement job retry failed', error));
+      }, intervalMs);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Records a settlement request for an intent and attempts it. A job
+   * already recorded for the intent is restarted with this request's
+   * confirmation and a fresh attempt count, unless it is dead-lettered.
+   *
+   * @throws NotFoundException INTENT_NOT_FOUND for an unknown intent, or
+   *   the settlement's error when it is not retryable
+   */
+  async submit(intentId: string, confirmed?: ProviderConfirmation): Promise<SettlementJobOutcome> {
+    const intent = await this.prisma.paymentIntent.findUnique({
+      where: { id: intentId },
+    });
+
+    if (!intent) {
+      throw new NotFoundException({
+        code: 'INTENT_NOT_FOUND',
+        message: `Payment intent not found: ${intentId}`,
+      });
+    }
+
+    return this.record(intent.id, confirmed);
+  }
+
+  /**
+   * submit() for the intent with this payment reference.
+   *
+   * @throws NotFoundException INTENT_NOT_FOUND for an unknown reference;
+   *   webhook-service books the funds as an unallocated receipt
+   */
+  async submitByReference(reference: string, confirmed?: ProviderConfirmation): Promise<SettlementJobOutcome> {
+    const intent = await this.prisma.paymentIntent.findUnique({
+      where: { reference },
+    });
+
+    if (!intent) {
+      throw new NotFoundException({
+        code: 'INTENT_NOT_FOUND',
+        message: `Payment intent not found for reference: ${reference}`,
+      });
+    }
+
+    return this.record(intent.id, confirmed);
+  }
+
+  /**
+   * Retries jobs whose backoff has elapsed.
+   */
+  async retryDue(): Promise<{ succeeded: number; retried: number; failed: number }> {
+    // Skip overlapping runs when a retry pass takes longer than the interval
+    if (this.running) {
+      return { succeeded: 0, retried: 0, failed: 0 };
+    }
+
+    this.running = true;
+    try {
+      const due = await this.prisma.settlementJob.findMany({
+        where: { status: SettlementJobStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      let succeeded = 0;
+      let retried = 0;
+      let failed = 0;
+
+      for (const job of due) {
+        // Compare-and-set on nextAttemptAt so only one instance runs it
+        const claimed = await this.prisma.settlementJob.updateMany({
+          where: { id: job.id, status: SettlementJobStatus.PENDING, nextAttemptAt: job.nextAttemptAt },
+          data: { nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS) },
+        });
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        const { job: attempted } = await this.attempt(job, false);
+        if (attempted.status === SettlementJobStatus.SUCCEEDED) {
+          succeeded++;
+        } else if (attempted.status === SettlementJobStatus.PENDING) {
+          retried++;
+        } else {
+          failed++;
+        }
+      }
+
+      if (due.length > 0) {
+        logger.info('Settlement jobs retried', { due: due.length, succeeded, retried, failed });
+      }
+      return { succeeded, retried, failed };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Creates the intent's job, or restarts it with this request's
+   * confirmation and a fresh attempt count. A DEAD_LETTERED job is left
+   * alone: only requeueing it from ops-service puts it back in the queue.
+   */
+  private async record(intentId: string, confirmed?: ProviderConfirmation): Promise<SettlementJobOutcome> {
+    const request = {
+      confirmedAmount: confirmed?.amount ?? null,
+      confirmedCurrency: confirmed?.currency ?? null,
+      status: SettlementJobStatus.PENDING,
+      attempts: 0,
+      lastError: null,
+      // Claimed by this request until its attempt finishes
+      nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS),
+      completedAt: null,
+    };
+
+    // Guarded on status so a job dead-lettered meanwhile is not restarted
+    const restarted = await this.prisma.settlementJob.updateMany({
+      where: { paymentIntentId: intentId, status: { not: SettlementJobStatus.DEAD_LETTERED } },
+      data: request,
+    });
+
+    const job = await this.prisma.settlementJob.upsert({
+      where: { paymentIntentId: intentId },
+      create: { paymentIntentId: intentId, ...request },
+      update: {},
+    });
+
+    if (restarted.count === 0 && job.status === SettlementJobStatus.DEAD_LETTERED) {
+      logger.warn('Settlement job is dead-lettered, not restarted', {
+        jobId: job.id,
+        paymentIntentId: intentId,
+      });
+      return { job, result: null };
+    }
+
+    return this.attempt(job, true);
+  }
+
+  /**
+   * Runs one attempt and records its outcome on the job.
+   *
+   * @param rethrow - Whether a non-retryable error is thrown on to the
+   *   caller (requests) or only recorded (background retries)
+   */
+  private async attempt(job: SettlementJob, rethrow: boolean): Promise<SettlementJobOutcome> {
+    const attempts = job.attempts + 1;
+    const confirmed = job.confirmedAmount && job.confirmedCurrency
+      ? { amount: job.confirmedAmount, currency: job.confirmedCurrency }
+      : undefined;
+
+    try {
+      const result = await this.settlementService.settlePayment(job.paymentIntentId, confirmed);
+      const succeeded = await this.prisma.settlementJob.update({
+        where: { id: job.id },
+        data: {
+          status: SettlementJobStatus.SUCCEEDED,
+          attempts,
+          lastError: null,
+          completedAt: new Date(),
+        },
+      });
+      return { job: succeeded, result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (!isRetryableSettlementError(error)) {
+        await this.prisma.settlementJob.update({
+          where: { id: job.id },
+          data: { status: SettlementJobStatus.FAILED, attempts, lastError: message, completedAt: new Date() },
+        });
+        if (rethrow) {
+          throw error;
+        }
+        logger.warn('Settlement job failed', { jobId: job.id, paymentIntentId: job.paymentIntentId, attempts, error: message });
+        return { job: { ...job, status: SettlementJobStatus.FAILED, attempts, lastError: message }, result: null };
+      }
+
+      if (attempts >= MAX_ATTEMPTS) {
+        return { job: await this.deadLetter(job, attempts, message), result: null };
+      }
+
+      const backoffMs = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+      const scheduled = await this.prisma.settlementJob.update({
+        where: { id: job.id },
+        data: {
+          status: SettlementJobStatus.PENDING,
+          attempts,
+          lastError: message,
+          nextAttemptAt: new Date(Date.now() + backoffMs),
+        },
+      });
+
+      logger.warn('Settlement scheduled for retry', {
+        jobId: job.id,
+        paymentIntentId: job.paymentIntentId,
+        attempts,
+        nextAttemptAt: scheduled.nextAttemptAt.toISOString(),
+        error: message,
+      });
+      return { job: scheduled, result: null };
+    }
+  }
+
+  private async deadLetter(job: SettlementJob, attempts: number, lastError: string): Promise<SettlementJob> {
+    const [deadLettered, deadLetter] = await this.prisma.$transaction([
+      this.prisma.settlementJob.update({
+        where: { id: job.id },
+        data: { status: SettlementJobStatus.DEAD_LETTERED, attempts, lastError, completedAt: new Date() },
+      }),
+      this.prisma.settlementDeadLetter.create({
+        data: { jobId: job.id, paymentIntentId: job.paymentIntentId, attempts, lastError },
+      }),
+    ]);
+
+    logger.error('Settlement job dead-lettered', undefined, {
+      jobId: job.id,
+      deadLetterId: deadLetter.id,
+      paymentIntentId: job.paymentIntentId,
+      attempts,
+      error: lastError,
+    });
+
+    logAuditEvent({
+      action: 'SETTLEMENT_DEAD_LETTERED',
+      actor: { id: 'settlement-service', type: 'service' },
+      resource: { type: 'SettlementJob', id: job.id },
+      outcome: 'failure',
+      details: { deadLetterId: deadLetter.id, paymentIntentId: job.paymentIntentId, attempts, lastError },
+    });
+
+    return deadLettered;
+  }
+}
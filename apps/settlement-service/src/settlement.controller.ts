@@ -0,0 +1,172 @@
+import { Controller, Post, Param, Body, Res, HttpCode, HttpStatus, BadRequestException } from '@nestjs/common';
+import { Response } from 'express';
+import { SettlementResult, ProviderConfirmation } from './settlement.service';
+import { SettlementJobService, SettlementJobOutcome } from './settlement-job.service';
+import { RefundSettlementService, RefundSettlementResult } from './refund-settlement.service';
+import { EscrowReleaseService, EscrowReleaseResult } from './escrow-release.service';
+import { AppendEntryResult } from '@syntherium/ledger-core';
+import { Prisma, SettlementJobStatus } from '@syntherium/db';
+import { Roles, Role } from '@syntherium/security';
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Internal settlement API. Only other services (webhook-service,
+ * orders-service, ops tooling) may move money, so every route requires
+ * the service role.
+ */
+@Controller('settlements')
+@Roles(Role.SERVICE)
+export class SettlementController {
+  constructor(
+    private readonly settlementJobService: SettlementJobService,
+    private readonly refundSettlementService: RefundSettlementService,
+    private readonly escrowReleaseService: EscrowReleaseService,
+  ) {}
+
+  /**
+   * Payment settlements run as durable jobs: 200 with the settlement, or
+   * 202 when contention has it scheduled for retry (see SettlementJobService).
+   */
+  @Post('payments/by-reference')
+  @HttpCode(HttpStatus.OK)
+  async settleByReference(
+    @Body() body: { reference?: string; amount?: string; currency?: string },
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    if (!body?.reference || typeof body.reference !== 'string') {
+      throw new BadRequestException({
+        code: 'REFERENCE_REQUIRED',
+        message: 'reference is required',
+      });
+    }
+
+    const outcome = await this.settlementJobService.submitByReference(
+      body.reference,
+      this.parseConfirmation(body),
+    );
+    return this.formatOutcome(outcome, res);
+  }
+
+  @Post('payments/:intentId')
+  @HttpCode(HttpStatus.OK)
+  async settleByIntentId(
+    @Param('intentId') intentId: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const outcome = await this.settlementJobService.submit(intentId);
+    return this.formatOutcome(outcome, res);
+  }
+
+  @Post('refunds/:refundIntentId')
+  @HttpCode(HttpStatus.OK)
+  async settleRefund(@Param('refundIntentId') refundIntentId: string) {
+    const result = await this.refundSettlementService.settleRefund(refundIntentId);
+    return this.formatRefundResult(result);
+  }
+
+  @Post('orders/:orderId/release')
+  @HttpCode(HttpStatus.OK)
+  async releaseOrder(@Param('orderId') orderId: string) {
+    const result = await this.escrowReleaseService.releaseOrder(orderId);
+    return this.formatReleaseResult(result);
+  }
+
+  /**
+   * The provider-confirmed amount, when the caller passed one. Amount and
+   * currency come together; without them the intent's amount is trusted.
+   */
+  private parseConfirmation(body: { amount?: string; currency?: string }): ProviderConfirmation | undefined {
+    if (body.amount === undefined && body.currency === undefined) {
+      return undefined;
+    }
+
+    const amount = String(body.amount ?? '');
+    const currency = String(body.currency ?? '').toUpperCase();
+    if (!DECIMAL_PATTERN.test(amount) || !CURRENCY_PATTERN.test(currency)) {
+      throw new BadRequestException({
+        code: 'INVALID_CONFIRMATION',
+        message: 'amount must be a positive decimal and currency an ISO 4217 code, given together',
+        details: { amount: body.amount, currency: body.currency },
+      });
+    }
+
+    return { amount: new Prisma.Decimal(amount), currency };
+  }
+
+  private formatOutcome(outcome: SettlementJobOutcome, res: Response) {
+    if (outcome.result) {
+      return this.formatResult(outcome.result);
+    }
+
+    const { job } = outcome;
+    res.status(HttpStatus.ACCEPTED);
+    return {
+      success: false,
+      paymentIntentId: job.paymentIntentId,
+      jobId: job.id,
+      jobStatus: job.status,
+      attempts: job.attempts,
+      nextAttemptAt: job.status === SettlementJobStatus.PENDING ? job.nextAttemptAt.toISOString() : null,
+      lastError: job.lastError,
+      message: job.status === SettlementJobStatus.PENDING
+        ? 'Settlement hit contention and is scheduled for retry'
+        : 'Settlement exhausted its retries and was dead-lettered',
+    };
+  }
+
+  private formatResult(result: SettlementResult) {
+    return {
+      success: result.success,
+      paymentIntentId: result.paymentIntentId,
+      reference: result.reference,
+      paymentStatus: result.paymentStatus,
+      message: result.message,
+      ledgerEntries: result.ledgerEntries.map((entry) => this.formatEntry(entry)),
+    };
+  }
+
+  private formatRefundResult(result: RefundSettlementResult) {
+    return {
+      success: result.success,
+      refundIntentId: result.refundIntentId,
+      reference: result.reference,
+      paymentIntentId: result.paymentIntentId,
+      paymentStatus: result.paymentStatus,
+      totalRefunded: result.totalRefunded.toString(),
+      message: result.message,
+      ledgerEntries: result.ledgerEntries.map((entry) => this.formatEntry(entry)),
+    };
+  }
+
+  private formatReleaseResult(result: EscrowReleaseResult) {
+    return {
+      success: result.success,
+      orderId: result.orderId,
+      reference: result.reference,
+      vendorAccountId: result.vendorAccountId,
+      releasedAmount: result.releasedAmount.toString(),
+      vendorAmount: result.vendorAmount.toString(),
+      commissionAmount: result.commissionAmount.toString(),
+      message: result.message,
+      ledgerEntries: result.ledgerEntries.map((entry) => this.formatEntry(entry)),
+    };
+  }
+
+  private formatEntry(entry: AppendEntryResult) {
+    return {
+      id: entry.id,
+      accountId: entry.accountId,
+      walletSeq: entry.walletSeq,
+      reference: entry.reference,
+      journalId: entry.journalId,
+      entryType: entry.entryType,
+      amount: entry.amount.toString(),
+      currency: entry.currency,
+      reversesEntryId: entry.reversesEntryId,
+      entryHash: entry.entryHash,
+      prevHash: entry.prevHash,
+    };
+  }
+}
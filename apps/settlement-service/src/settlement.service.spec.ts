@@ -3,24 +3,80 @@
  * 
  * Tests for:
  * - Idempotency
+ * - One balanced settlement journal per payment
+ * - Commission and processing fee splits, per line and capped at gross
+ * - Foreign payments converted through the FX positions
  * - Atomic rollback
  * - Discount logic
  * - Insufficient funds handling
+ * - Provider-confirmed amount mismatches held in suspense
+ * - Campaign subsidies captured from their reservation, and held in
+ *   suspense when their budget cannot cover them
  */
 
 import { SettlementService } from './settlement.service';
-import { BadRequestException } from '@nestjs/common';
-import { PaymentIntentStatus } from '@syntherium/db';
+import { NotFoundException, ConflictException } from '@nestjs/common';
+import { FeeRule, FeeRuleKind, PaymentIntentStatus, PaymentMismatchKind, Prisma } from '@syntherium/db';
+import { postJournal, JournalLeg } from '@syntherium/ledger-core';
+
+jest.mock('@syntherium/ledger-core', () => ({
+  ...jest.requireActual('@syntherium/ledger-core'),
+  postJournal: jest.fn(),
+}));
+
+/**
+ * Debits minus credits per currency; a balanced journal nets to zero in each.
+ */
+function netByCurrency(legs: JournalLeg[]): Record<string, string> {
+  const net: Record<string, Prisma.Decimal> = {};
+  for (const leg of legs) {
+    const currency = leg.currency ?? 'NGN';
+    const amount = new Prisma.Decimal(leg.amount.toString());
+    net[currency] = (net[currency] ?? new Prisma.Decimal(0))
+      .add(leg.entryType === 'DEBIT' ? amount : amount.negated());
+  }
+  return Object.fromEntries(Object.entries(net).map(([currency, amount]) => [currency, amount.toString()]));
+}
+
+/**
+ * Fee rule row with no scope and no fee; tests set what they price.
+ */
+function feeRule(overrides: Partial<FeeRule>): FeeRule {
+  return {
+    id: 'fr_1',
+    code: 'DEFAULT_COMMISSION',
+    version: 1,
+    kind: FeeRuleKind.COMMISSION,
+    description: null,
+    vendorId: null,
+    productId: null,
+    deliveryType: null,
+    provider: null,
+    percentage: new Prisma.Decimal('0'),
+    flatAmount: new Prisma.Decimal('0'),
+    capAmount: null,
+    currency: 'NGN',
+    effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+    effectiveTo: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    createdBy: null,
+    ...overrides,
+  };
+}
 
 describe('SettlementService', () => {
   let service: SettlementService;
   let mockPrisma: any;
   let mockTx: any;
 
+  const postedLegs = (): JournalLeg[] => (postJournal as jest.Mock).mock.calls[0][1].legs;
+
   beforeEach(() => {
     jest.clearAllMocks();
 
     mockTx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      $executeRaw: jest.fn().mockResolvedValue(1),
       paymentIntent: {
         findUnique: jest.fn(),
         update: jest.fn(),
@@ -36,6 +92,37 @@ describe('SettlementService', () => {
         update: jest.fn(),
         create: jest.fn(),
       },
+      walletHold: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      fxRate: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      paymentMismatch: {
+        create: jest.fn(),
+      },
+      discountCampaign: {
+        findUniqueOrThrow: jest.fn(),
+      },
+      order: {
+        findUniqueOrThrow: jest.fn().mockResolvedValue({
+          id: 'order_abc',
+          vendorId: 'vendor_1',
+          deliveryType: 'STANDARD',
+          deliveryFee: new Prisma.Decimal('0'),
+          items: [{ productId: 'prod_1', unitPrice: new Prisma.Decimal('10000'), quantity: 1 }],
+        }),
+      },
+      feeRule: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      settlementSplit: {
+        create: jest.fn(),
+      },
+      outboxEvent: {
+        create: jest.fn(),
+      },
     };
 
     mockPrisma = {
@@ -71,6 +158,85 @@ describe('SettlementService', () => {
       expect(result.ledgerEntries.length).toBe(1);
     });
 
+    it('should return the entries of exactly the settlement journal when re-settled', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue({
+        id: 'pi_1',
+        reference: 'REF_1',
+        status: PaymentIntentStatus.SETTLED,
+      });
+      mockTx.ledgerEntry.findMany.mockResolvedValue([
+        { id: 'le_1', reference: 'REF_1', journalId: 'jr_1', accountId: 'PAYMENT_CLEARING' },
+        { id: 'le_2', reference: 'REF_1', journalId: 'jr_1', accountId: 'PLATFORM_ESCROW' },
+      ]);
+
+      const result = await service.settlePayment('pi_1');
+
+      // Exact journal reference: REF_10's entries must not match REF_1
+      expect(mockTx.ledgerEntry.findMany).toHaveBeenCalledWith({
+        where: { journal: { reference: 'REF_1' } },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(result.ledgerEntries.map((entry) => entry.journalId)).toEqual(['jr_1', 'jr_1']);
+      expect(postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should look up a held payment by its suspense journal', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue({
+        id: 'pi_1',
+        reference: 'REF_1',
+        status: PaymentIntentStatus.UNDER_REVIEW,
+      });
+      mockTx.ledgerEntry.findMany.mockResolvedValue([]);
+
+      await service.settlePayment('pi_1');
+
+      expect(mockTx.ledgerEntry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { journal: { reference: 'SUSPENSE_REF_1' } },
+      }));
+    });
+
+    it('should post a settlement as exactly one balanced journal', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue({
+        id: 'pi_1',
+        reference: 'PAYMENT_order_abc',
+        orderId: 'order_abc',
+        provider: 'flutterwave',
+        amount: new Prisma.Decimal('10000'),
+        discountAmount: new Prisma.Decimal('0'),
+        currency: 'NGN',
+        status: PaymentIntentStatus.CONFIRMING,
+      });
+      const entries = [
+        { id: 'le_1', journalId: 'jr_1', accountId: 'PAYMENT_CLEARING' },
+        { id: 'le_2', journalId: 'jr_1', accountId: 'PLATFORM_ESCROW' },
+      ];
+      (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_1', reference: 'PAYMENT_order_abc', entries });
+
+      const result = await service.settlePayment('pi_1');
+
+      expect(postJournal).toHaveBeenCalledTimes(1);
+      expect(postJournal).toHaveBeenCalledWith(mockTx, expect.objectContaining({ reference: 'PAYMENT_order_abc' }));
+      expect(postedLegs()).toEqual([
+        expect.objectContaining({ accountId: 'PAYMENT_CLEARING', entryType: 'DEBIT', amount: new Prisma.Decimal('10000') }),
+        expect.objectContaining({ accountId: 'PLATFORM_ESCROW', entryType: 'CREDIT', amount: new Prisma.Decimal('10000') }),
+      ]);
+      expect(netByCurrency(postedLegs())).toEqual({ NGN: '0' });
+      expect(mockTx.settlementSplit.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          paymentIntentId: 'pi_1',
+          grossAmount: new Prisma.Decimal('10000'),
+          vendorAmount: new Prisma.Decimal('10000'),
+          commissionAmount: new Prisma.Decimal('0'),
+          feeAmount: new Prisma.Decimal('0'),
+        }),
+      });
+      expect(result.ledgerEntries).toBe(entries);
+      expect(mockTx.paymentIntent.update).toHaveBeenCalledWith({
+        where: { id: 'pi_1' },
+        data: { status: PaymentIntentStatus.SETTLED },
+      });
+    });
+
     it('should reject settlement for wrong status', async () => {
       const pendingIntent = {
         id: 'pi_124',
@@ -80,19 +246,340 @@ describe('SettlementService', () => {
 
       mockTx.paymentIntent.findUnique.mockResolvedValue(pendingIntent);
 
-      await expect(service.settlePayment('pi_124')).rejects.toThrow(BadRequestException);
+      await expect(service.settlePayment('pi_124')).rejects.toThrow(ConflictException);
     });
 
     it('should reject settlement for non-existent intent', async () => {
       mockTx.paymentIntent.findUnique.mockResolvedValue(null);
 
-      await expect(service.settlePayment('pi_nonexistent')).rejects.toThrow(BadRequestException);
+      await expect(service.settlePayment('pi_nonexistent')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should refuse to settle a foreign payment without an FX rate', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue({
+        id: 'pi_usd',
+        reference: 'PAYMENT_order_usd',
+        orderId: 'order_usd',
+        currency: 'USD',
+        status: PaymentIntentStatus.CONFIRMING,
+      });
+
+      await expect(service.settlePayment('pi_usd')).rejects.toMatchObject({
+        response: expect.objectContaining({ code: 'FX_RATE_NOT_FOUND' }),
+      });
+      expect(mockTx.ledgerEntry.create).not.toHaveBeenCalled();
+      expect(mockTx.paymentIntent.update).not.toHaveBeenCalled();
+    });
+
+    it('should hold a short payment in suspense instead of settling it', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue({
+        id: 'pi_short',
+        reference: 'PAYMENT_order_short',
+        orderId: 'order_short',
+        provider: 'flutterwave',
+        amount: new Prisma.Decimal('10000'),
+        discountAmount: new Prisma.Decimal('0'),
+        currency: 'NGN',
+        status: PaymentIntentStatus.CONFIRMING,
+      });
+      (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_suspense', entries: [] });
+
+      const result = await service.settlePayment('pi_short', {
+        amount: new Prisma.Decimal('9500'),
+        currency: 'NGN',
+      });
+
+      expect(postJournal).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+        reference: 'SUSPENSE_PAYMENT_order_short',
+        legs: [
+          expect.objectContaining({ accountId: 'PAYMENT_CLEARING', entryType: 'DEBIT', amount: new Prisma.Decimal('9500') }),
+          expect.objectContaining({ accountId: 'PAYMENT_SUSPENSE', entryType: 'CREDIT', amount: new Prisma.Decimal('9500') }),
+        ],
+      }));
+      expect(mockTx.paymentMismatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ kind: PaymentMismatchKind.UNDERPAID, journalId: 'jr_suspense' }),
+      });
+      expect(mockTx.paymentIntent.update).toHaveBeenCalledWith({
+        where: { id: 'pi_short' },
+        data: { status: PaymentIntentStatus.UNDER_REVIEW },
+      });
+      expect(result.paymentStatus).toBe(PaymentIntentStatus.UNDER_REVIEW);
+    });
+  });
+
+  describe('fee splits', () => {
+    const setRules = (rules: FeeRule[]) => {
+      mockTx.feeRule.findMany.mockImplementation(async ({ where }: any) =>
+        rules.filter((rule) => rule.kind === where.kind));
+    };
+
+    beforeEach(() => {
+      (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_1', entries: [] });
+    });
+
+    it('should round commission per line half-even and expense the processing fee', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue({
+        id: 'pi_1',
+        reference: 'PAYMENT_order_abc',
+        orderId: 'order_abc',
+        provider: 'flutterwave',
+        amount: new Prisma.Decimal('200.04'),
+        discountAmount: new Prisma.Decimal('0'),
+        currency: 'NGN',
+        status: PaymentIntentStatus.CONFIRMING,
+      });
+      mockTx.order.findUniqueOrThrow.mockResolvedValue({
+        id: 'order_abc',
+        vendorId: 'vendor_1',
+        deliveryType: 'STANDARD',
+        deliveryFee: new Prisma.Decimal('0'),
+        items: [
+          { productId: 'prod_1', unitPrice: new Prisma.Decimal('100.02'), quantity: 1 },
+          { productId: 'prod_2', unitPrice: new Prisma.Decimal('100.02'), quantity: 1 },
+        ],
+      });
+      setRules([
+        // 100.02 x 1.25% = 1.250250: half-even keeps 1.2502 on each line
+        // (half-up would give 1.2503; rounding the total, 2.5005)
+        feeRule({ percentage: new Prisma.Decimal('0.0125') }),
+        feeRule({
+          id: 'fr_2',
+          code: 'FLUTTERWAVE_NGN',
+          version: 3,
+          kind: FeeRuleKind.PROCESSING_FEE,
+          provider: 'flutterwave',
+          percentage: new Prisma.Decimal('0.015'),
+          capAmount: new Prisma.Decimal('2000'),
+        }),
+      ]);
+
+      await service.settlePayment('pi_1');
+
+      expect(postJournal).toHaveBeenCalledTimes(1);
+      expect(postedLegs()).toEqual([
+        expect.objectContaining({ accountId: 'PAYMENT_CLEARING', entryType: 'DEBIT', amount: new Prisma.Decimal('200.04') }),
+        expect.objectContaining({ accountId: 'PLATFORM_ESCROW', entryType: 'CREDIT', amount: new Prisma.Decimal('200.04') }),
+        expect.objectContaining({
+          reference: 'PAYMENT_order_abc_FEE',
+          accountId: 'PROCESSING_FEE_EXPENSE',
+          entryType: 'DEBIT',
+          amount: new Prisma.Decimal('3.0006'),
+        }),
+        expect.objectContaining({
+          reference: 'PAYMENT_order_abc_FEE',
+          accountId: 'PAYMENT_CLEARING',
+          entryType: 'CREDIT',
+          amount: new Prisma.Decimal('3.0006'),
+        }),
+      ]);
+      expect(netByCurrency(postedLegs())).toEqual({ NGN: '0' });
+
+      const split = mockTx.settlementSplit.create.mock.calls[0][0].data;
+      expect(split).toEqual(expect.objectContaining({
+        grossAmount: new Prisma.Decimal('200.04'),
+        commissionAmount: new Prisma.Decimal('2.5004'),
+        vendorAmount: new Prisma.Decimal('197.5396'),
+        feeAmount: new Prisma.Decimal('3.0006'),
+        feeRuleId: 'fr_2',
+        feeRuleVersion: 3,
+      }));
+      expect(split.commissionLines).toEqual([
+        expect.objectContaining({ productId: 'prod_1', baseAmount: '100.02', commissionAmount: '1.2502', ruleCode: 'DEFAULT_COMMISSION', ruleVersion: 1 }),
+        expect.objectContaining({ productId: 'prod_2', baseAmount: '100.02', commissionAmount: '1.2502', ruleCode: 'DEFAULT_COMMISSION', ruleVersion: 1 }),
+      ]);
+    });
+
+    it('should cap commission at the gross amount escrow receives', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue({
+        id: 'pi_1',
+        reference: 'PAYMENT_order_abc',
+        orderId: 'order_abc',
+        provider: 'flutterwave',
+        amount: new Prisma.Decimal('10000'),
+        discountAmount: new Prisma.Decimal('0'),
+        currency: 'NGN',
+        status: PaymentIntentStatus.CONFIRMING,
+      });
+      // Lines are priced at full order value, 12500 against 10000 paid
+      mockTx.order.findUniqueOrThrow.mockResolvedValue({
+        id: 'order_abc',
+        vendorId: 'vendor_1',
+        deliveryType: 'STANDARD',
+        deliveryFee: new Prisma.Decimal('500'),
+        items: [{ productId: 'prod_1', unitPrice: new Prisma.Decimal('6000'), quantity: 2 }],
+      });
+      setRules([feeRule({ percentage: new Prisma.Decimal('0.9') })]);
+
+      await service.settlePayment('pi_1');
+
+      // Commission is taken at escrow release, so settlement posts only the payment
+      expect(postedLegs()).toHaveLength(2);
+      expect(netByCurrency(postedLegs())).toEqual({ NGN: '0' });
+
+      const split = mockTx.settlementSplit.create.mock.calls[0][0].data;
+      expect(split.commissionLines.map((line: any) => line.commissionAmount)).toEqual(['10800', '450']);
+      expect(split).toEqual(expect.objectContaining({
+        grossAmount: new Prisma.Decimal('10000'),
+        commissionAmount: new Prisma.Decimal('10000'),
+        vendorAmount: new Prisma.Decimal('0'),
+        feeAmount: new Prisma.Decimal('0'),
+        feeRuleId: undefined,
+      }));
+    });
+
+    it('should convert a foreign payment and its processing fee through the FX positions', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue({
+        id: 'pi_usd',
+        reference: 'PAYMENT_order_usd',
+        orderId: 'order_usd',
+        provider: 'stripe',
+        amount: new Prisma.Decimal('100'),
+        discountAmount: new Prisma.Decimal('0'),
+        currency: 'USD',
+        status: PaymentIntentStatus.CONFIRMING,
+      });
+      mockTx.fxRate.findFirst.mockImplementation(async ({ where }: any) =>
+        where.baseCurrency === 'USD' && where.quoteCurrency === 'NGN'
+          ? { id: 'fx_1', rate: new Prisma.Decimal('1520.5'), source: 'manual', effectiveAt: new Date('2026-10-01T00:00:00Z') }
+          : null);
+      mockTx.order.findUniqueOrThrow.mockResolvedValue({
+        id: 'order_usd',
+        vendorId: 'vendor_1',
+        deliveryType: 'STANDARD',
+        deliveryFee: new Prisma.Decimal('0'),
+        items: [{ productId: 'prod_1', unitPrice: new Prisma.Decimal('100'), quantity: 1 }],
+      });
+      setRules([
+        feeRule({ percentage: new Prisma.Decimal('0.05') }),
+        feeRule({
+          id: 'fr_usd',
+          code: 'STRIPE_USD',
+          kind: FeeRuleKind.PROCESSING_FEE,
+          provider: 'stripe',
+          currency: 'USD',
+          percentage: new Prisma.Decimal('0.029'),
+          flatAmount: new Prisma.Decimal('0.3'),
+        }),
+      ]);
+
+      await service.settlePayment('pi_usd');
+
+      expect(postJournal).toHaveBeenCalledTimes(1);
+      expect(postedLegs()).toEqual([
+        expect.objectContaining({ accountId: 'PAYMENT_CLEARING_USD', entryType: 'DEBIT', amount: new Prisma.Decimal('100'), currency: 'USD' }),
+        expect.objectContaining({ accountId: 'FX_POSITION_USD', entryType: 'CREDIT', amount: new Prisma.Decimal('100'), currency: 'USD' }),
+        expect.objectContaining({ accountId: 'FX_POSITION_NGN', entryType: 'DEBIT', amount: new Prisma.Decimal('152050'), currency: 'NGN' }),
+        expect.objectContaining({ accountId: 'PLATFORM_ESCROW', entryType: 'CREDIT', amount: new Prisma.Decimal('152050'), currency: 'NGN' }),
+        // The provider keeps 3.20 USD (2.9% + 0.30): clearing is owed less,
+        // and the expense is booked in NGN at the same rate
+        expect.objectContaining({ reference: 'PAYMENT_order_usd_FEE', accountId: 'PAYMENT_CLEARING_USD', entryType: 'CREDIT', amount: new Prisma.Decimal('3.2'), currency: 'USD' }),
+        expect.objectContaining({ reference: 'PAYMENT_order_usd_FEE', accountId: 'FX_POSITION_USD', entryType: 'DEBIT', amount: new Prisma.Decimal('3.2'), currency: 'USD' }),
+        expect.objectContaining({ reference: 'PAYMENT_order_usd_FEE', accountId: 'FX_POSITION_NGN', entryType: 'CREDIT', amount: new Prisma.Decimal('4865.6'), currency: 'NGN' }),
+        expect.objectContaining({ reference: 'PAYMENT_order_usd_FEE', accountId: 'PROCESSING_FEE_EXPENSE', entryType: 'DEBIT', amount: new Prisma.Decimal('4865.6'), currency: 'NGN' }),
+      ]);
+      expect(netByCurrency(postedLegs())).toEqual({ USD: '0', NGN: '0' });
+      expect((postJournal as jest.Mock).mock.calls[0][1].metadata).toEqual({
+        fx: expect.objectContaining({ baseCurrency: 'USD', quoteCurrency: 'NGN', rate: '1520.5' }),
+      });
+      expect(mockTx.settlementSplit.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          grossAmount: new Prisma.Decimal('152050'),
+          commissionAmount: new Prisma.Decimal('7602.5'),
+          vendorAmount: new Prisma.Decimal('144447.5'),
+          feeAmount: new Prisma.Decimal('4865.6'),
+          feeRuleId: 'fr_usd',
+        }),
+      });
     });
   });
 
   describe('discount logic', () => {
     it.todo('should create two extra entries for discounted payments');
-    it.todo('should fail with no writes if marketing funds insufficient');
+
+    const promoIntent = () => ({
+      id: 'pi_promo',
+      reference: 'PAYMENT_order_promo',
+      orderId: 'order_promo',
+      provider: 'flutterwave',
+      amount: new Prisma.Decimal('8000'),
+      discountAmount: new Prisma.Decimal('2000'),
+      discountCode: 'PROMO2024',
+      discountCampaignId: 'dc_1',
+      currency: 'NGN',
+      status: PaymentIntentStatus.CONFIRMING,
+    });
+
+    beforeEach(() => {
+      mockTx.discountCampaign.findUniqueOrThrow.mockResolvedValue({ id: 'dc_1', walletAccountId: 'CAMPAIGN_PROMO2024' });
+    });
+
+    it('should capture the discount reserved for the intent', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue(promoIntent());
+      mockTx.walletHold.findUnique.mockResolvedValue({
+        id: 'hold_promo',
+        accountId: 'CAMPAIGN_PROMO2024',
+        reference: 'PAYMENT_order_promo',
+        amount: new Prisma.Decimal('2000'),
+        status: 'ACTIVE',
+      });
+      // The reservation is the only thing left in the budget
+      mockTx.walletBalanceCache.findUnique.mockResolvedValue({
+        accountId: 'CAMPAIGN_PROMO2024',
+        balance: new Prisma.Decimal('2000'),
+        heldAmount: new Prisma.Decimal('2000'),
+      });
+      (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_1', entries: [] });
+
+      const result = await service.settlePayment('pi_promo');
+
+      expect(mockTx.walletHold.findUnique).toHaveBeenCalledWith({
+        where: { accountId_reference: { accountId: 'CAMPAIGN_PROMO2024', reference: 'PAYMENT_order_promo' } },
+      });
+      expect(postedLegs()).toEqual(expect.arrayContaining([
+        expect.objectContaining({
+          reference: 'PAYMENT_order_promo_DISC',
+          accountId: 'CAMPAIGN_PROMO2024',
+          entryType: 'DEBIT',
+          amount: new Prisma.Decimal('2000'),
+          capturesHoldId: 'hold_promo',
+        }),
+        expect.objectContaining({ accountId: 'PLATFORM_ESCROW', entryType: 'CREDIT', amount: new Prisma.Decimal('2000') }),
+      ]));
+      expect(netByCurrency(postedLegs())).toEqual({ NGN: '0' });
+      expect(result.paymentStatus).toBe(PaymentIntentStatus.SETTLED);
+    });
+
+    it('should hold a payment whose subsidy the budget cannot cover in suspense', async () => {
+      mockTx.paymentIntent.findUnique.mockResolvedValue(promoIntent());
+      mockTx.walletBalanceCache.findUnique.mockResolvedValue({
+        accountId: 'CAMPAIGN_PROMO2024',
+        balance: new Prisma.Decimal('1500'),
+        heldAmount: new Prisma.Decimal('0'),
+      });
+      (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_suspense', entries: [] });
+
+      const result = await service.settlePayment('pi_promo', {
+        amount: new Prisma.Decimal('8000'),
+        currency: 'NGN',
+      });
+
+      expect(postJournal).toHaveBeenCalledTimes(1);
+      expect(postJournal).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+        reference: 'SUSPENSE_PAYMENT_order_promo',
+        legs: [
+          expect.objectContaining({ accountId: 'PAYMENT_CLEARING', entryType: 'DEBIT', amount: new Prisma.Decimal('8000') }),
+          expect.objectContaining({ accountId: 'PAYMENT_SUSPENSE', entryType: 'CREDIT', amount: new Prisma.Decimal('8000') }),
+        ],
+      }));
+      expect(mockTx.paymentMismatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ kind: PaymentMismatchKind.UNFUNDED_SUBSIDY, journalId: 'jr_suspense' }),
+      });
+      expect(mockTx.paymentIntent.update).toHaveBeenCalledWith({
+        where: { id: 'pi_promo' },
+        data: { status: PaymentIntentStatus.UNDER_REVIEW },
+      });
+      expect(result.paymentStatus).toBe(PaymentIntentStatus.UNDER_REVIEW);
+    });
   });
 
   describe('atomicity', () => {
@@ -14,34 +14,86 @@
  * 1. Ledger is append-only - entries are NEVER updated or deleted
  * 2. All writes happen in a single atomic transaction
  * 3. Wallet balance cache is updated in the SAME transaction
- * 4. Discounts are subsidies: Marketing pays Vendor via Escrow
+ * 4. Discounts are subsidies: the campaign's budget wallet pays Vendor
+ *    via Escrow, capturing the discount reserved when the intent was
+ *    created; a subsidy the budget cannot cover holds the payment in
+ *    suspense, never refuses it
  * 5. Refunds create NEW entries, never mutate old ones
+ * 6. Each settlement is ONE balanced journal (debits = credits)
+ * 7. Escrow is held in NGN; foreign payments convert at settlement
+ * 8. Provider fees are expensed at settlement; commission, priced by the
+ *    fee rules in effect, is kept when escrow is released
+ * 9. Domain events go to the outbox in the SAME transaction
+ * 10. Payments confirmed for a different amount or currency are held in
+ *     suspense, never settled at the intent's amount
  */
 
-import { Injectable, BadRequestException } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
+import { recordOutboxEvent, OutboxEventType } from './outbox';
 import { 
+  PaymentIntent,
   PaymentIntentStatus, 
+  PaymentMismatchKind,
   LedgerEntryType,
-  Prisma 
+  WalletHoldStatus,
+  Prisma,
+  SystemAccounts,
 } from '@syntherium/db';
-import { appendEntry, AppendEntryResult } from '@syntherium/ledger-core';
+import {
+  postJournal,
+  runLedgerTransaction,
+  lockAccounts,
+  sweepExpiredHolds,
+  buildFxConversionLegs,
+  convertAmount,
+  fxJournalMetadata,
+  paymentClearingAccount,
+  PrismaFxRateSource,
+  LedgerError,
+  BASE_CURRENCY,
+  AppendEntryResult,
+  FxQuote,
+  JournalLeg,
+} from '@syntherium/ledger-core';
 import { createLogger, logAuditEvent } from '@syntherium/observability';
+import { computePaymentSplit } from './fee-rules';
+import { postToSuspense } from './suspense';
+import { subsidyWalletAccount } from './discount-campaign.service';
 
 const logger = createLogger('settlement-service');
 
-// System wallet identifiers
-const PLATFORM_ESCROW = 'PLATFORM_ESCROW';
-const MARKETING_WALLET = 'MARKETING_WALLET';
-
 export interface SettlementResult {
   success: boolean;
   paymentIntentId: string;
   reference: string;
+  /** SETTLED, or UNDER_REVIEW when the payment was held in suspense */
+  paymentStatus: PaymentIntentStatus;
   ledgerEntries: AppendEntryResult[];
   message: string;
 }
 
+/**
+ * What the provider reports it actually collected, from the webhook.
+ */
+export interface ProviderConfirmation {
+  amount: Prisma.Decimal;
+  currency: string;
+}
+
+/**
+ * How a discounted intent's subsidy is paid for.
+ */
+interface SubsidyFunding {
+  walletAccountId: string;
+  /** NGN the wallet pays into escrow */
+  subsidy: Prisma.Decimal;
+  /** The discount reserved at intent creation, captured by the subsidy leg */
+  holdId?: string;
+  /** What neither the reservation nor the available balance covers */
+  shortfall: Prisma.Decimal;
+}
+
 @Injectable()
 export class SettlementService {
   constructor(private prisma: PrismaService) {}
@@ -52,179 +104,527 @@ export class SettlementService {
    * This is the ONLY method that writes to the ledger.
    * 
    * @param intentId - Payment intent ID to settle
+   * @param confirmed - Provider-confirmed amount; when it differs from the
+   *   intent the funds go to suspense and the intent to UNDER_REVIEW
    * @returns Settlement result with created ledger entries
    */
-  async settlePayment(intentId: string): Promise<SettlementResult> {
+  async settlePayment(intentId: string, confirmed?: ProviderConfirmation): Promise<SettlementResult> {
     logger.info('Starting payment settlement', { intentId });
 
-    // Use a transaction to ensure atomicity
-    const result = await this.prisma.$transaction(async (tx) => {
+    // Use a transaction to ensure atomicity. Retried automatically on
+    // deadlocks/serialization failures, so the body must stay side-effect free.
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
       // Step 1: Lock and fetch the payment intent
+      await tx.$queryRaw`SELECT id FROM payment_intents WHERE id = ${intentId} FOR UPDATE`;
       const intent = await tx.paymentIntent.findUnique({
         where: { id: intentId },
       });
 
       if (!intent) {
-        throw new BadRequestException({
+        throw new NotFoundException({
           code: 'INTENT_NOT_FOUND',
           message: `Payment intent not found: ${intentId}`,
         });
       }
 
-      // Step 2: Check if already settled (idempotency)
-      if (intent.status === PaymentIntentStatus.SETTLED) {
-        logger.info('Payment already settled (idempotent)', {
+      // Step 2: Check if already settled, or held for review (idempotency)
+      if (intent.status === PaymentIntentStatus.SETTLED || intent.status === PaymentIntentStatus.UNDER_REVIEW) {
+        const underReview = intent.status === PaymentIntentStatus.UNDER_REVIEW;
+        logger.info(underReview ? 'Payment already under review (idempotent)' : 'Payment already settled (idempotent)', {
           intentId,
           reference: intent.reference,
         });
 
-        // Return existing entries for idempotency
+        // Return the existing journal's entries for idempotency
         const existingEntries = await tx.ledgerEntry.findMany({
-          where: { reference: { startsWith: intent.reference } },
+          where: { journal: { reference: underReview ? `SUSPENSE_${intent.reference}` : intent.reference } },
+          orderBy: { createdAt: 'asc' },
         });
 
         return {
           success: true,
           paymentIntentId: intentId,
           reference: intent.reference,
+          paymentStatus: intent.status,
           ledgerEntries: existingEntries.map(e => ({
             id: e.id,
             accountId: e.accountId,
             walletSeq: e.walletSeq,
             reference: e.reference,
+            journalId: e.journalId,
             entryType: e.entryType,
             amount: e.amount,
+            currency: e.currency,
+            reversesEntryId: e.reversesEntryId,
             entryHash: e.entryHash,
             prevHash: e.prevHash,
           })),
-          message: 'Payment already settled',
+          message: underReview ? 'Payment already held in suspense for review' : 'Payment already settled',
         };
       }
 
       // Step 3: Validate status allows settlement
       if (intent.status !== PaymentIntentStatus.CONFIRMING) {
-        throw new BadRequestException({
+        throw new ConflictException({
           code: 'INVALID_STATUS_FOR_SETTLEMENT',
           message: `Cannot settle payment in status: ${intent.status}`,
           details: { currentStatus: intent.status, requiredStatus: 'CONFIRMING' },
         });
       }
 
-      const ledgerEntries: AppendEntryResult[] = [];
+      // Step 4: Settle, or hold a mismatched payment for review
+      return this.settleOrHold(tx, intent, confirmed);
+    }, {
+      // Intent row lock + per-account ledger locks give the consistency;
+      // see LedgerTransactionOptions for why this is not Serializable
+      timeout: 10000, // 10 second timeout
+    }));
 
-      // Step 4: Create primary ledger entry - Credit to Platform Escrow
-      const primaryEntry = await appendEntry(tx, {
-        reference: intent.reference,
-        orderId: intent.orderId,
-        accountId: PLATFORM_ESCROW,
-        entryType: LedgerEntryType.CREDIT,
-        amount: intent.amount,
-        description: `Payment received for order ${intent.orderId}`,
+    // Log audit event outside transaction
+    logAuditEvent({
+      action: result.paymentStatus === PaymentIntentStatus.UNDER_REVIEW ? 'PAYMENT_AMOUNT_MISMATCH' : 'PAYMENT_SETTLED',
+      actor: { id: 'settlement-service', type: 'service' },
+      resource: { type: 'PaymentIntent', id: intentId },
+      outcome: 'success',
+      details: {
+        reference: result.reference,
+        paymentStatus: result.paymentStatus,
+        entriesCreated: result.ledgerEntries.length,
+      },
+    });
+
+    logger.info('Payment settlement completed', {
+      intentId,
+      reference: result.reference,
+      entriesCreated: result.ledgerEntries.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Settles a confirmed intent, unless the provider-confirmed amount or
+   * currency differs from it, or its discount subsidy is not funded:
+   * then what was received goes to suspense for review instead.
+   *
+   * MUST be called inside a ledger transaction holding the intent's row
+   * lock. Matching an unallocated receipt settles through it.
+   */
+  async settleOrHold(
+    tx: Prisma.TransactionClient,
+    intent: PaymentIntent,
+    confirmed?: ProviderConfirmation,
+  ): Promise<SettlementResult> {
+    if (confirmed && (!confirmed.amount.equals(intent.amount) || confirmed.currency !== intent.currency)) {
+      return this.holdInSuspense(tx, intent, confirmed);
+    }
+
+    const quote = await this.settlementQuote(tx, intent);
+    const funding = await this.fundSubsidy(tx, intent, quote);
+
+    if (funding && funding.shortfall.greaterThan(0)) {
+      return this.holdInSuspense(
+        tx,
+        intent,
+        { amount: intent.amount, currency: intent.currency },
+        PaymentMismatchKind.UNFUNDED_SUBSIDY,
+      );
+    }
+    return this.postSettlement(tx, intent, quote, funding);
+  }
+
+  /**
+   * Posts the settlement journal for a confirmed intent and marks it
+   * SETTLED.
+   *
+   * MUST be called inside a ledger transaction holding the intent's row
+   * lock. PaymentMismatchService settles reviewed mismatches through it;
+   * their payment already sits in suspense, so an unfunded subsidy
+   * refuses the resolution until the campaign is topped up.
+   *
+   * @throws ConflictException CAMPAIGN_BUDGET_EXHAUSTED if the subsidy
+   *   wallet cannot cover the discount
+   */
+  async settleConfirmedIntent(
+    tx: Prisma.TransactionClient,
+    intent: PaymentIntent,
+  ): Promise<SettlementResult> {
+    const quote = await this.settlementQuote(tx, intent);
+    const funding = await this.fundSubsidy(tx, intent, quote);
+
+    if (funding && funding.shortfall.greaterThan(0)) {
+      throw new ConflictException({
+        code: 'CAMPAIGN_BUDGET_EXHAUSTED',
+        message: `Subsidy wallet cannot cover the discount for ${intent.reference}`,
+        details: {
+          paymentIntentId: intent.id,
+          discountCode: intent.discountCode,
+          walletAccountId: funding.walletAccountId,
+          subsidy: funding.subsidy.toString(),
+          shortfall: funding.shortfall.toString(),
+        },
       });
-      ledgerEntries.push(primaryEntry);
+    }
+    return this.postSettlement(tx, intent, quote, funding);
+  }
 
-      logger.info('Primary ledger entry created', {
-        entryId: primaryEntry.id,
-        accountId: PLATFORM_ESCROW,
-        amount: intent.amount.toString(),
-        reference: intent.reference,
+  /**
+   * Finds what pays a discounted intent's subsidy: its reservation on
+   * the subsidy wallet, then the wallet's available balance. Null when
+   * nothing was discounted.
+   */
+  private async fundSubsidy(
+    tx: Prisma.TransactionClient,
+    intent: PaymentIntent,
+    quote: FxQuote | null,
+  ): Promise<SubsidyFunding | null> {
+    if (!intent.discountAmount.greaterThan(0)) {
+      return null;
+    }
+
+    const walletAccountId = await subsidyWalletAccount(tx, intent);
+    const subsidy = quote ? convertAmount(intent.discountAmount, quote) : intent.discountAmount;
+
+    // Lapsed reservations no longer count as held
+    await lockAccounts(tx, [walletAccountId]);
+    await sweepExpiredHolds(tx, walletAccountId);
+
+    const hold = await tx.walletHold.findUnique({
+      where: { accountId_reference: { accountId: walletAccountId, reference: intent.reference } },
+    });
+    const reserved = hold?.status === WalletHoldStatus.ACTIVE ? hold : null;
+
+    const wallet = await tx.walletBalanceCache.findUnique({ where: { accountId: walletAccountId } });
+    const available = wallet ? wallet.balance.sub(wallet.heldAmount) : new Prisma.Decimal(0);
+    const covered = available.add(reserved?.amount ?? 0);
+
+    return {
+      walletAccountId,
+      subsidy,
+      holdId: reserved?.id,
+      shortfall: Prisma.Decimal.max(subsidy.sub(covered), 0),
+    };
+  }
+
+  /**
+   * Posts the settlement journal, records the split and marks the
+   * intent SETTLED.
+   */
+  private async postSettlement(
+    tx: Prisma.TransactionClient,
+    intent: PaymentIntent,
+    quote: FxQuote | null,
+    funding: SubsidyFunding | null,
+  ): Promise<SettlementResult> {
+    // Step 1: Payment legs - provider clearing pays into Platform Escrow.
+    // Foreign payments are converted into NGN on the way.
+    const legs: JournalLeg[] = [];
+    let metadata: Prisma.JsonObject | undefined;
+
+    if (quote) {
+      const conversion = buildFxConversionLegs({
+        fromAccountId: paymentClearingAccount(intent.currency),
+        toAccountId: SystemAccounts.PLATFORM_ESCROW,
+        amount: intent.amount,
+        quote,
+        description: `Payment collected via ${intent.provider} for order ${intent.orderId} (${intent.currency})`,
       });
+      legs.push(...conversion.legs);
+      metadata = fxJournalMetadata(quote, intent.amount, conversion.convertedAmount);
+    } else {
+      legs.push(
+        {
+          // Clearing goes negative by design: its balance is what
+          // providers owe the platform
+          accountId: SystemAccounts.PAYMENT_CLEARING,
+          entryType: LedgerEntryType.DEBIT,
+          amount: intent.amount,
+          description: `Payment collected via ${intent.provider} for order ${intent.orderId}`,
+        },
+        {
+          accountId: SystemAccounts.PLATFORM_ESCROW,
+          entryType: LedgerEntryType.CREDIT,
+          amount: intent.amount,
+          description: `Payment received for order ${intent.orderId}`,
+        },
+      );
+    }
 
-      // Step 5: Handle discount subsidy if applicable
-      if (intent.discountAmount.greaterThan(0)) {
-        const discountReference = `${intent.reference}_DISC`;
+    // Step 2: Subsidy legs if applicable - the campaign's budget pays
+    // Escrow so the vendor receives the full amount (in NGN, at the same
+    // rate), capturing the discount reserved for this intent
+    if (funding) {
+      const discountReference = `${intent.reference}_DISC`;
 
-        // Debit Marketing Wallet for subsidy
-        const marketingDebit = await appendEntry(tx, {
+      legs.push(
+        {
           reference: discountReference,
-          orderId: intent.orderId,
-          accountId: MARKETING_WALLET,
+          accountId: funding.walletAccountId,
           entryType: LedgerEntryType.DEBIT,
-          amount: intent.discountAmount,
+          amount: funding.subsidy,
           description: `Discount subsidy for order ${intent.orderId} (${intent.discountCode})`,
-        });
-        ledgerEntries.push(marketingDebit);
-
-        logger.info('Marketing debit entry created', {
-          entryId: marketingDebit.id,
-          accountId: MARKETING_WALLET,
-          amount: intent.discountAmount.toString(),
-          discountCode: intent.discountCode,
-        });
-
-        // Credit Platform Escrow with subsidy (vendor receives full amount)
-        const subsidyCredit = await appendEntry(tx, {
+          capturesHoldId: funding.holdId,
+        },
+        {
           reference: `${discountReference}_ESCROW`,
-          orderId: intent.orderId,
-          accountId: PLATFORM_ESCROW,
+          accountId: SystemAccounts.PLATFORM_ESCROW,
           entryType: LedgerEntryType.CREDIT,
-          amount: intent.discountAmount,
+          amount: funding.subsidy,
           description: `Discount subsidy credit for order ${intent.orderId}`,
-        });
-        ledgerEntries.push(subsidyCredit);
+        },
+      );
+    }
+
+    // Step 3: Split the payment by the fee rules in effect, and expense
+    // the provider's processing fee - it keeps the fee, so clearing is
+    // owed that much less
+    const split = await computePaymentSplit(tx, intent, quote);
+
+    if (split.feeAmount.greaterThan(0)) {
+      const feeReference = `${intent.reference}_FEE`;
+      const description = `${intent.provider} processing fee for order ${intent.orderId}`;
 
-        logger.info('Subsidy credit entry created', {
-          entryId: subsidyCredit.id,
-          accountId: PLATFORM_ESCROW,
-          amount: intent.discountAmount.toString(),
+      if (quote) {
+        // Clearing is owed in the payment currency; the expense is in NGN
+        const conversion = buildFxConversionLegs({
+          fromAccountId: paymentClearingAccount(intent.currency),
+          toAccountId: SystemAccounts.PROCESSING_FEE_EXPENSE,
+          amount: split.feeAmount,
+          quote,
+          description,
         });
+        legs.push(...conversion.legs.map((leg) => ({
+          ...leg,
+          reference: feeReference,
+          entryType: leg.entryType === LedgerEntryType.DEBIT ? LedgerEntryType.CREDIT : LedgerEntryType.DEBIT,
+        })));
+      } else {
+        legs.push(
+          {
+            reference: feeReference,
+            accountId: SystemAccounts.PROCESSING_FEE_EXPENSE,
+            entryType: LedgerEntryType.DEBIT,
+            amount: split.feeAmount,
+            description,
+          },
+          {
+            reference: feeReference,
+            accountId: SystemAccounts.PAYMENT_CLEARING,
+            entryType: LedgerEntryType.CREDIT,
+            amount: split.feeAmount,
+            description,
+          },
+        );
       }
+    }
 
-      // Step 6: Update payment intent status to SETTLED
-      await tx.paymentIntent.update({
-        where: { id: intentId },
-        data: { status: PaymentIntentStatus.SETTLED },
-      });
+    // Step 4: Post all legs as one balanced journal
+    const journal = await postJournal(tx, {
+      reference: intent.reference,
+      orderId: intent.orderId,
+      description: `Settlement of payment ${intent.reference}`,
+      metadata,
+      legs,
+    });
 
-      return {
-        success: true,
-        paymentIntentId: intentId,
+    logger.info('Settlement journal posted', {
+      journalId: journal.journalId,
+      reference: intent.reference,
+      amount: intent.amount.toString(),
+      currency: intent.currency,
+      fxRate: quote?.rate.toString(),
+      discountAmount: intent.discountAmount.toString(),
+      discountCode: intent.discountCode,
+      commission: split.commissionAmount.toString(),
+      processingFee: split.feeAmount.toString(),
+      feeRule: split.feeRule ? `${split.feeRule.code}@${split.feeRule.version}` : null,
+      entriesCreated: journal.entries.length,
+    });
+
+    // Step 5: Record the split and the rule versions it used; escrow
+    // release takes its commission from here
+    await tx.settlementSplit.create({
+      data: {
+        paymentIntentId: intent.id,
+        orderId: intent.orderId,
+        grossAmount: split.grossAmount,
+        vendorAmount: split.vendorAmount,
+        commissionAmount: split.commissionAmount,
+        feeAmount: split.feeAmountBase,
+        commissionLines: split.commissionLines as unknown as Prisma.InputJsonArray,
+        feeRuleId: split.feeRule?.id,
+        feeRuleVersion: split.feeRule?.version,
+      },
+    });
+
+    // Step 6: Update payment intent status to SETTLED
+    await tx.paymentIntent.update({
+      where: { id: intent.id },
+      data: { status: PaymentIntentStatus.SETTLED },
+    });
+
+    // Step 7: Tell the rest of the platform, committed with the settlement
+    await recordOutboxEvent(tx, {
+      type: OutboxEventType.PAYMENT_SETTLED,
+      aggregateType: 'PaymentIntent',
+      aggregateId: intent.id,
+      payload: {
+        paymentIntentId: intent.id,
         reference: intent.reference,
-        ledgerEntries,
-        message: 'Payment settled successfully',
-      };
-    }, {
-      // Transaction options for strong consistency
-      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
-      timeout: 10000, // 10 second timeout
+        orderId: intent.orderId,
+        provider: intent.provider,
+        amount: intent.amount.toString(),
+        currency: intent.currency,
+        discountAmount: intent.discountAmount.toString(),
+        journalId: journal.journalId,
+      },
     });
 
-    // Log audit event outside transaction
-    logAuditEvent({
-      action: 'PAYMENT_SETTLED',
-      actor: { id: 'settlement-service', type: 'service' },
-      resource: { type: 'PaymentIntent', id: intentId },
-      outcome: 'success',
-      details: {
-        reference: result.reference,
-        entriesCreated: result.ledgerEntries.length,
+    return {
+      success: true,
+      paymentIntentId: intent.id,
+      reference: intent.reference,
+      paymentStatus: PaymentIntentStatus.SETTLED,
+      ledgerEntries: journal.entries,
+      message: 'Payment settled successfully',
+    };
+  }
+
+  /**
+   * Posts what the provider actually collected to PAYMENT_SUSPENSE (in
+   * NGN, at the current rate for a foreign currency) and leaves the
+   * intent UNDER_REVIEW. Nothing reaches escrow until the mismatch is
+   * resolved. A payment received in full whose subsidy is not funded is
+   * held the same way, as UNFUNDED_SUBSIDY.
+   */
+  private async holdInSuspense(
+    tx: Prisma.TransactionClient,
+    intent: PaymentIntent,
+    confirmed: ProviderConfirmation,
+    unfunded?: typeof PaymentMismatchKind.UNFUNDED_SUBSIDY,
+  ): Promise<SettlementResult> {
+    const reference = `SUSPENSE_${intent.reference}`;
+    const kind = unfunded ?? (confirmed.currency !== intent.currency
+      ? PaymentMismatchKind.WRONG_CURRENCY
+      : confirmed.amount.lessThan(intent.amount)
+        ? PaymentMismatchKind.UNDERPAID
+        : PaymentMismatchKind.OVERPAID);
+    const description = unfunded
+      ? `Payment for order ${intent.orderId} received in full; its discount ${intent.discountCode} is not funded`
+      : `Payment for order ${intent.orderId} received as ${confirmed.amount.toString()} ` +
+        `${confirmed.currency}, expected ${intent.amount.toString()} ${intent.currency}`;
+
+    const { journal, suspenseAmount } = await postToSuspense(tx, {
+      reference,
+      orderId: intent.orderId,
+      amount: confirmed.amount,
+      currency: confirmed.currency,
+      description,
+    });
+
+    await tx.paymentMismatch.create({
+      data: {
+        reference,
+        paymentIntentId: intent.id,
+        orderId: intent.orderId,
+        kind,
+        expectedAmount: intent.amount,
+        expectedCurrency: intent.currency,
+        receivedAmount: confirmed.amount,
+        receivedCurrency: confirmed.currency,
+        suspenseAmount,
+        journalId: journal.journalId,
       },
     });
 
-    logger.info('Payment settlement completed', {
-      intentId,
-      reference: result.reference,
-      entriesCreated: result.ledgerEntries.length,
+    await tx.paymentIntent.update({
+      where: { id: intent.id },
+      data: { status: PaymentIntentStatus.UNDER_REVIEW },
     });
 
-    return result;
+    logger.warn('Payment amount mismatch held in suspense', {
+      reference: intent.reference,
+      kind,
+      expected: `${intent.amount.toString()} ${intent.currency}`,
+      received: `${confirmed.amount.toString()} ${confirmed.currency}`,
+      suspenseAmount: suspenseAmount.toString(),
+    });
+
+    return {
+      success: true,
+      paymentIntentId: intent.id,
+      reference: intent.reference,
+      paymentStatus: PaymentIntentStatus.UNDER_REVIEW,
+      ledgerEntries: journal.entries,
+      message: `Payment ${kind}: held in suspense for review`,
+    };
+  }
+
+  /**
+   * The rate settling the intent into NGN; null for an NGN payment.
+   */
+  private async settlementQuote(
+    tx: Prisma.TransactionClient,
+    intent: PaymentIntent,
+  ): Promise<FxQuote | null> {
+    return intent.currency === BASE_CURRENCY ? null : this.getSettlementRate(tx, intent.currency);
+  }
+
+  /**
+   * Looks up the rate for converting a payment currency into NGN.
+   */
+  private async getSettlementRate(
+    tx: Prisma.TransactionClient,
+    currency: string,
+  ): Promise<FxQuote> {
+    try {
+      return await new PrismaFxRateSource(tx).getRate(currency, BASE_CURRENCY);
+    } catch (error) {
+      if (error instanceof LedgerError && error.code === 'FX_RATE_NOT_FOUND') {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Surfaces ledger rejections (e.g. a frozen account) as 400s instead
+   * of unhandled errors.
+   */
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
   }
 
   /**
    * Settles a payment by reference.
    */
-  async settlePaymentByReference(reference: string): Promise<SettlementResult> {
+  async settlePaymentByReference(reference: string, confirmed?: ProviderConfirmation): Promise<SettlementResult> {
     const intent = await this.prisma.paymentIntent.findUnique({
       where: { reference },
     });
 
     if (!intent) {
-      throw new BadRequestException({
+      throw new NotFoundException({
         code: 'INTENT_NOT_FOUND',
         message: `Payment intent not found for reference: ${reference}`,
       });
     }
 
-    return this.settlePayment(intent.id);
+    return this.settlePayment(intent.id, confirmed);
   }
 }
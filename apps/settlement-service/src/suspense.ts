@@ -0,0 +1,93 @@
+/**
+ * Payment suspense
+ *
+ * Money a provider collected that cannot settle yet - a payment
+ * confirmed for the wrong amount, or a receipt that matches no payment
+ * intent - is posted to PAYMENT_SUSPENSE, in NGN at the current rate,
+ * until someone decides where it goes. Resolving reverses the suspense
+ * journal.
+ */
+
+import { LedgerEntryType, Prisma, SystemAccounts } from '@syntherium/db';
+import {
+  postJournal,
+  buildFxConversionLegs,
+  fxJournalMetadata,
+  paymentClearingAccount,
+  PrismaFxRateSource,
+  BASE_CURRENCY,
+  JournalLeg,
+  PostJournalResult,
+} from '@syntherium/ledger-core';
+
+export interface PostToSuspenseParams {
+  /** Journal reference; must not start with a payment reference */
+  reference: string;
+  orderId?: string;
+  /** What the provider collected, in its currency */
+  amount: Prisma.Decimal;
+  currency: string;
+  description: string;
+}
+
+export interface SuspensePosting {
+  journal: PostJournalResult;
+  /** NGN credited to PAYMENT_SUSPENSE */
+  suspenseAmount: Prisma.Decimal;
+}
+
+/**
+ * Posts DEBIT payment clearing (in the collected currency) + CREDIT
+ * PAYMENT_SUSPENSE as one journal. MUST be called within a transaction.
+ *
+ * @throws LedgerError FX_RATE_NOT_FOUND for a currency without a rate
+ */
+export async function postToSuspense(
+  tx: Prisma.TransactionClient,
+  params: PostToSuspenseParams,
+): Promise<SuspensePosting> {
+  const { amount, currency, description } = params;
+
+  let legs: JournalLeg[];
+  let metadata: Prisma.JsonObject | undefined;
+  let suspenseAmount = amount;
+
+  if (currency !== BASE_CURRENCY) {
+    const quote = await new PrismaFxRateSource(tx).getRate(currency, BASE_CURRENCY);
+    const conversion = buildFxConversionLegs({
+      fromAccountId: paymentClearingAccount(currency),
+      toAccountId: SystemAccounts.PAYMENT_SUSPENSE,
+      amount,
+      quote,
+      description,
+    });
+    legs = conversion.legs;
+    metadata = fxJournalMetadata(quote, amount, conversion.convertedAmount);
+    suspenseAmount = conversion.convertedAmount;
+  } else {
+    legs = [
+      {
+        accountId: SystemAccounts.PAYMENT_CLEARING,
+        entryType: LedgerEntryType.DEBIT,
+        amount,
+        description,
+      },
+      {
+        accountId: SystemAccounts.PAYMENT_SUSPENSE,
+        entryType: LedgerEntryType.CREDIT,
+        amount,
+        description,
+      },
+    ];
+  }
+
+  const journal = await postJournal(tx, {
+    reference: params.reference,
+    orderId: params.orderId,
+    description,
+    metadata,
+    legs,
+  });
+
+  return { journal, suspenseAmount };
+}
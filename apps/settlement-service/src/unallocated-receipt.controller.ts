@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Body,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { UnallocatedReceiptService } from './unallocated-receipt.service';
+import { PaymentProvider, Prisma, UnallocatedReceipt } from '@syntherium/db';
+import { Roles, Role, UserContext } from '@syntherium/security';
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Provider-confirmed payments that match no payment intent. Served by
+ * settlement-service because recording one books it to suspense and
+ * matching one settles the order's payment. webhook-service records
+ * them; admins match them; ops list them through ops-service.
+ */
+@Controller('unallocated-receipts')
+export class UnallocatedReceiptController {
+  constructor(private readonly unallocatedReceiptService: UnallocatedReceiptService) {}
+
+  @Post()
+  @Roles(Role.SERVICE)
+  @HttpCode(HttpStatus.OK)
+  async recordReceipt(
+    @Body() body: {
+      provider?: string;
+      providerEventId?: string;
+      reference?: string;
+      webhookId?: string;
+      amount?: string;
+      currency?: string;
+    },
+  ) {
+    const providers = Object.values(PaymentProvider) as string[];
+    if (!body?.provider || !providers.includes(body.provider) || !body.providerEventId) {
+      throw new BadRequestException({
+        code: 'INVALID_RECEIPT',
+        message: `provider (one of ${providers.join(', ')}) and providerEventId are required`,
+        details: { provider: body?.provider, providerEventId: body?.providerEventId },
+      });
+    }
+
+    const currency = String(body.currency ?? '').toUpperCase();
+    if (!DECIMAL_PATTERN.test(String(body.amount ?? '')) || !CURRENCY_PATTERN.test(currency)) {
+      throw new BadRequestException({
+        code: 'INVALID_CONFIRMATION',
+        message: 'amount must be a positive decimal and currency an ISO 4217 code',
+        details: { amount: body.amount, currency: body.currency },
+      });
+    }
+
+    const receipt = await this.unallocatedReceiptService.recordReceipt({
+      provider: body.provider as PaymentProvider,
+      providerEventId: body.providerEventId,
+      providerReference: body.reference,
+      webhookId: body.webhookId,
+      amount: new Prisma.Decimal(body.amount as string),
+      currency,
+    });
+    return this.formatReceipt(receipt);
+  }
+
+  @Post(':receiptId/match')
+  @Roles(Role.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async matchReceipt(
+    @Param('receiptId') receiptId: string,
+    @Body() body: { orderId?: string; note?: string },
+    @Req() req: any,
+  ) {
+    if (!body?.orderId || typeof body.orderId !== 'string') {
+      throw new BadRequestException({
+        code: 'ORDER_ID_REQUIRED',
+        message: 'orderId is required',
+      });
+    }
+
+    const user = req.user as UserContext;
+    const result = await this.unallocatedReceiptService.matchReceipt(receiptId, {
+      orderId: body.orderId,
+      note: body.note,
+    }, user?.id || 'unknown');
+
+    return {
+      ...this.formatReceipt(result.receipt),
+      paymentStatus: result.settlement?.paymentStatus ?? null,
+      message: result.settlement?.message ?? 'Receipt already matched',
+    };
+  }
+
+  private formatReceipt(receipt: UnallocatedReceipt) {
+    return {
+      id: receipt.id,
+      reference: receipt.reference,
+      provider: receipt.provider,
+      providerEventId: receipt.providerEventId,
+      providerReference: receipt.providerReference,
+      webhookId: receipt.webhookId,
+      amount: receipt.amount.toString(),
+      currency: receipt.currency,
+      suspenseAmount: receipt.suspenseAmount.toString(),
+      status: receipt.status,
+      paymentIntentId: receipt.paymentIntentId,
+      matchedBy: receipt.matchedBy,
+      matchedAt: receipt.matchedAt?.toISOString() ?? null,
+      note: receipt.note,
+      createdAt: receipt.createdAt.toISOString(),
+    };
+  }
+}
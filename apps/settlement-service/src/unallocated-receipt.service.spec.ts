@@ -0,0 +1,135 @@
+/**
+ * Unallocated Receipt Service Tests
+ *
+ * Tests for:
+ * - Booking unmatched funds to suspense, once per provider event
+ * - Matching to an order: suspense reversed, payment settled as received
+ * - Refusing payments that are not waiting for money, and re-matching
+ */
+
+import { UnallocatedReceiptService } from './unallocated-receipt.service';
+import { PaymentIntentStatus, PaymentProvider, Prisma, UnallocatedReceiptStatus } from '@syntherium/db';
+import { postJournal, reverseJournal } from '@syntherium/ledger-core';
+
+jest.mock('@syntherium/ledger-core', () => ({
+  ...jest.requireActual('@syntherium/ledger-core'),
+  postJournal: jest.fn(),
+  reverseJournal: jest.fn(),
+}));
+
+const decimal = (value: string) => new Prisma.Decimal(value);
+
+describe('UnallocatedReceiptService', () => {
+  let receiptService: UnallocatedReceiptService;
+  let settlementService: { settleOrHold: jest.Mock };
+  let mockTx: any;
+  let intent: any;
+  let receipts: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    receipts = [];
+    intent = {
+      id: 'pi_1',
+      reference: 'PAYMENT_order_1',
+      orderId: 'order_1',
+      amount: decimal('10000'),
+      currency: 'NGN',
+      status: PaymentIntentStatus.INITIATED,
+    };
+
+    mockTx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      paymentIntent: {
+        findFirst: jest.fn(async () => intent),
+        findUnique: jest.fn(async () => intent),
+        findUniqueOrThrow: jest.fn(async () => intent),
+        update: jest.fn(async ({ data }: any) => ({ ...intent, ...data })),
+      },
+      unallocatedReceipt: {
+        findUnique: jest.fn(async ({ where }: any) => receipts.find((r) =>
+          where.id ? r.id === where.id : r.reference === where.reference
+        ) ?? null),
+        create: jest.fn(async ({ data }: any) => {
+          const receipt = { id: `ur_${receipts.length + 1}`, status: UnallocatedReceiptStatus.UNALLOCATED, ...data };
+          receipts.push(receipt);
+          return receipt;
+        }),
+        update: jest.fn(async ({ where, data }: any) => ({ ...receipts.find((r) => r.id === where.id), ...data })),
+      },
+    };
+
+    (postJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_unallocated', entries: [] });
+    (reverseJournal as jest.Mock).mockResolvedValue({ journalId: 'jr_reversal', entries: [] });
+    settlementService = {
+      settleOrHold: jest.fn().mockResolvedValue({
+        paymentIntentId: 'pi_1',
+        paymentStatus: PaymentIntentStatus.SETTLED,
+        message: 'Payment settled successfully',
+      }),
+    };
+    receiptService = new UnallocatedReceiptService(
+      { $transaction: jest.fn((callback) => callback(mockTx)) } as any,
+      settlementService as any,
+    );
+  });
+
+  const record = () => receiptService.recordReceipt({
+    provider: PaymentProvider.flutterwave,
+    providerEventId: 'flw_789',
+    providerReference: 'PAYMENT_order_unknown',
+    amount: decimal('10000'),
+    currency: 'NGN',
+  });
+
+  it('should book unmatched funds to suspense once per provider event', async () => {
+    const receipt = await record();
+
+    expect(postJournal).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+      reference: 'UNALLOCATED_flutterwave_flw_789',
+      legs: [
+        expect.objectContaining({ accountId: 'PAYMENT_CLEARING', entryType: 'DEBIT', amount: decimal('10000') }),
+        expect.objectContaining({ accountId: 'PAYMENT_SUSPENSE', entryType: 'CREDIT', amount: decimal('10000') }),
+      ],
+    }));
+    expect(receipt).toMatchObject({ journalId: 'jr_unallocated', status: UnallocatedReceiptStatus.UNALLOCATED });
+
+    expect(await record()).toBe(receipt);
+    expect(postJournal).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reverse the suspense and settle the order with the receipt', async () => {
+    const receipt = await record();
+
+    const result = await receiptService.matchReceipt(receipt.id, { orderId: 'order_1' }, 'admin_1');
+
+    expect(reverseJournal).toHaveBeenCalledWith(mockTx, expect.objectContaining({
+      journalId: 'jr_unallocated',
+      reference: 'UNALLOCATED_flutterwave_flw_789_REVERSAL',
+    }));
+    expect(settlementService.settleOrHold).toHaveBeenCalledWith(
+      mockTx,
+      expect.objectContaining({ id: 'pi_1', status: PaymentIntentStatus.CONFIRMING }),
+      { amount: decimal('10000'), currency: 'NGN' },
+    );
+    expect(result.receipt).toMatchObject({ status: UnallocatedReceiptStatus.MATCHED, paymentIntentId: 'pi_1' });
+  });
+
+  it('should refuse a payment that is not waiting for money', async () => {
+    const receipt = await record();
+    intent.status = PaymentIntentStatus.SETTLED;
+
+    await expect(receiptService.matchReceipt(receipt.id, { orderId: 'order_1' }, 'admin_1'))
+      .rejects.toMatchObject({ response: expect.objectContaining({ code: 'INTENT_NOT_AWAITING_PAYMENT' }) });
+    expect(reverseJournal).not.toHaveBeenCalled();
+  });
+
+  it('should not move a matched receipt to another order', async () => {
+    const receipt = await record();
+    Object.assign(receipt, { status: UnallocatedReceiptStatus.MATCHED, paymentIntentId: 'pi_1' });
+
+    await expect(receiptService.matchReceipt(receipt.id, { orderId: 'order_2' }, 'admin_1'))
+      .rejects.toMatchObject({ response: expect.objectContaining({ code: 'RECEIPT_ALREADY_MATCHED' }) });
+    expect(settlementService.settleOrHold).not.toHaveBeenCalled();
+  });
+});
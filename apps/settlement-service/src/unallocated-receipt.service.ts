@@ -0,0 +1,260 @@
+/**
+ * Unallocated Receipt Service
+ *
+ * Money a provider confirmed that matches no payment intent - the
+ * webhook carried no reference, or one we do not know:
+ * 1. recordReceipt - books it to PAYMENT_SUSPENSE (journal referenced
+ *    UNALLOCATED_{provider}_{providerEventId}) so the ledger shows it
+ *    arrived. Idempotent per provider event.
+ * 2. matchReceipt - an admin matches it to an order. The suspense
+ *    journal is reversed and the order's payment settles with the
+ *    received amount in the same transaction; an amount or currency
+ *    that differs goes to suspense as a payment mismatch, as it would
+ *    from a webhook.
+ */
+
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+import { SettlementService, SettlementResult } from './settlement.service';
+import { postToSuspense } from './suspense';
+import {
+  PaymentIntentStatus,
+  PaymentProvider,
+  Prisma,
+  UnallocatedReceipt,
+  UnallocatedReceiptStatus,
+} from '@syntherium/db';
+import { reverseJournal, runLedgerTransaction, LedgerError } from '@syntherium/ledger-core';
+import { createLogger, logAuditEvent } from '@syntherium/observability';
+
+const logger = createLogger('settlement-service');
+
+/** Intent statuses still waiting for the customer's money */
+const MATCHABLE_INTENT_STATUSES: PaymentIntentStatus[] = [
+  PaymentIntentStatus.PENDING,
+  PaymentIntentStatus.INITIATED,
+  PaymentIntentStatus.CONFIRMING,
+];
+
+export interface RecordReceiptParams {
+  provider: PaymentProvider;
+  providerEventId: string;
+  /** The reference the webhook carried, if any */
+  providerReference?: string;
+  webhookId?: string;
+  amount: Prisma.Decimal;
+  currency: string;
+}
+
+export interface MatchReceiptResult {
+  receipt: UnallocatedReceipt;
+  /** The order's settlement; null when the receipt was already matched */
+  settlement: SettlementResult | null;
+}
+
+@Injectable()
+export class UnallocatedReceiptService {
+  constructor(
+    private prisma: PrismaService,
+    private settlementService: SettlementService,
+  ) {}
+
+  /**
+   * Books a receipt to suspense. Recording the same provider event again
+   * returns the existing receipt.
+   */
+  async recordReceipt(params: RecordReceiptParams): Promise<UnallocatedReceipt> {
+    const reference = `UNALLOCATED_${params.provider}_${params.providerEventId}`;
+
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      const existing = await tx.unallocatedReceipt.findUnique({ where: { reference } });
+      if (existing) {
+        logger.info('Unallocated receipt already recorded (idempotent)', { reference });
+        return { receipt: existing, created: false };
+      }
+
+      const { journal, suspenseAmount } = await postToSuspense(tx, {
+        reference,
+        amount: params.amount,
+        currency: params.currency,
+        description: `Unallocated ${params.provider} receipt ${params.providerEventId}` +
+          (params.providerReference ? ` (reference ${params.providerReference})` : ''),
+      });
+
+      const receipt = await tx.unallocatedReceipt.create({
+        data: {
+          reference,
+          provider: params.provider,
+          providerEventId: params.providerEventId,
+          providerReference: params.providerReference,
+          webhookId: params.webhookId,
+          amount: params.amount,
+          currency: params.currency,
+          suspenseAmount,
+          journalId: journal.journalId,
+        },
+      });
+
+      return { receipt, created: true };
+    }, {
+      timeout: 10000,
+    }));
+
+    if (result.created) {
+      logger.warn('Unallocated receipt booked to suspense', {
+        reference,
+        providerReference: params.providerReference,
+        amount: params.amount.toString(),
+        currency: params.currency,
+      });
+
+      logAuditEvent({
+        action: 'UNALLOCATED_RECEIPT_RECORDED',
+        actor: { id: 'settlement-service', type: 'service' },
+        resource: { type: 'UnallocatedReceipt', id: result.receipt.id },
+        outcome: 'success',
+        details: {
+          reference,
+          providerReference: params.providerReference ?? null,
+          webhookId: params.webhookId ?? null,
+          amount: params.amount.toString(),
+          currency: params.currency,
+          suspenseAmount: result.receipt.suspenseAmount.toString(),
+        },
+      });
+    }
+
+    return result.receipt;
+  }
+
+  /**
+   * Matches a receipt to an order and settles the order's payment with
+   * it. Matching again to the same order returns the receipt; a matched
+   * receipt cannot move to another order.
+   */
+  async matchReceipt(
+    receiptId: string,
+    params: { orderId: string; note?: string },
+    actorId: string,
+  ): Promise<MatchReceiptResult> {
+    const { orderId } = params;
+
+    const result = await this.mapLedgerErrors(() => runLedgerTransaction(this.prisma, async (tx) => {
+      await tx.$queryRaw`SELECT id FROM unallocated_receipts WHERE id = ${receiptId} FOR UPDATE`;
+      const receipt = await tx.unallocatedReceipt.findUnique({ where: { id: receiptId } });
+
+      if (!receipt) {
+        throw new NotFoundException({
+          code: 'RECEIPT_NOT_FOUND',
+          message: `Unallocated receipt not found: ${receiptId}`,
+        });
+      }
+
+      if (receipt.status === UnallocatedReceiptStatus.MATCHED) {
+        const matchedIntent = await tx.paymentIntent.findUnique({ where: { id: receipt.paymentIntentId! } });
+        if (matchedIntent?.orderId === orderId) {
+          logger.info('Unallocated receipt already matched (idempotent)', { receiptId, orderId });
+          return { receipt, settlement: null };
+        }
+        throw new ConflictException({
+          code: 'RECEIPT_ALREADY_MATCHED',
+          message: 'Receipt is already matched to another order',
+          details: { receiptId, paymentIntentId: receipt.paymentIntentId },
+        });
+      }
+
+      const found = await tx.paymentIntent.findFirst({
+        where: { orderId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (!found) {
+        throw new NotFoundException({
+          code: 'INTENT_NOT_FOUND',
+          message: `No payment intent for order: ${orderId}`,
+          details: { orderId },
+        });
+      }
+
+      await tx.$queryRaw`SELECT id FROM payment_intents WHERE id = ${found.id} FOR UPDATE`;
+      const intent = await tx.paymentIntent.findUniqueOrThrow({ where: { id: found.id } });
+
+      if (!MATCHABLE_INTENT_STATUSES.includes(intent.status)) {
+        throw new ConflictException({
+          code: 'INTENT_NOT_AWAITING_PAYMENT',
+          message: `Cannot match a receipt to a payment in status: ${intent.status}`,
+          details: { orderId, paymentIntentId: intent.id, currentStatus: intent.status },
+        });
+      }
+
+      await reverseJournal(tx, {
+        journalId: receipt.journalId,
+        reference: `${receipt.reference}_REVERSAL`,
+        reason: `Matched to order ${orderId}`,
+        orderId,
+      });
+
+      const confirming = await tx.paymentIntent.update({
+        where: { id: intent.id },
+        data: { status: PaymentIntentStatus.CONFIRMING },
+      });
+      const settlement = await this.settlementService.settleOrHold(tx, confirming, {
+        amount: receipt.amount,
+        currency: receipt.currency,
+      });
+
+      const matched = await tx.unallocatedReceipt.update({
+        where: { id: receiptId },
+        data: {
+          status: UnallocatedReceiptStatus.MATCHED,
+          paymentIntentId: intent.id,
+          matchedBy: actorId,
+          matchedAt: new Date(),
+          note: params.note,
+        },
+      });
+
+      return { receipt: matched, settlement };
+    }, {
+      timeout: 10000,
+    }));
+
+    if (result.settlement) {
+      logAuditEvent({
+        action: 'UNALLOCATED_RECEIPT_MATCHED',
+        actor: { id: actorId, type: 'user' },
+        resource: { type: 'UnallocatedReceipt', id: receiptId },
+        outcome: 'success',
+        details: {
+          reference: result.receipt.reference,
+          orderId,
+          paymentIntentId: result.settlement.paymentIntentId,
+          paymentStatus: result.settlement.paymentStatus,
+          amount: result.receipt.amount.toString(),
+          currency: result.receipt.currency,
+        },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Surfaces ledger rejections (e.g. a currency without an FX rate) as
+   * 400s instead of unhandled errors.
+   */
+  private async mapLedgerErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        throw new BadRequestException({
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -25,9 +25,15 @@ export class FlutterwaveWebhookController {
                      payload.tx_ref || 
                      payload.data?.reference;
 
+    // What the provider actually collected; settlement checks it against the intent
+    const amount = payload.data?.amount?.toString();
+    const currency = payload.data?.currency?.toString().toUpperCase();
+
     logger.info('Received Flutterwave webhook', {
       providerEventId,
       reference,
+      amount,
+      currency,
       event: payload.event,
     });
 
@@ -35,6 +41,8 @@ export class FlutterwaveWebhookController {
       provider: PaymentProvider.flutterwave,
       providerEventId,
       reference,
+      amount,
+      currency,
       payload,
       headers,
       rawBody: JSON.stringify(payload), // In production, use raw body middleware
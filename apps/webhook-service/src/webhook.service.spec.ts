@@ -1,7 +1,8 @@
 /**
  * Webhook Service Tests
  * 
- * Tests for deduplication
+ * Tests for deduplication, the settlement trigger, unmatched funds and
+ * events that confirm no payment
  */
 
 import { WebhookService } from './webhook.service';
@@ -74,4 +75,141 @@ describe('WebhookService', () => {
       expect(mockPrisma.webhookInbox.create).toHaveBeenCalled();
     });
   });
+
+  describe('settlement trigger', () => {
+    const nodeEnv = process.env.NODE_ENV;
+    const fetchMock = jest.fn();
+
+    beforeEach(() => {
+      // Development skips signature verification so the webhook reaches settlement
+      process.env.NODE_ENV = 'development';
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      global.fetch = fetchMock as any;
+      mockPrisma.webhookInbox.findUnique.mockResolvedValue(null);
+      mockPrisma.webhookInbox.create.mockResolvedValue({ id: 'wh_settle' });
+    });
+
+    afterEach(() => {
+      process.env.NODE_ENV = nodeEnv;
+      jest.restoreAllMocks();
+    });
+
+    const successfulCharge = { event: 'charge.completed', data: { status: 'successful' } };
+
+    const receive = (
+      confirmed: { amount?: string; currency?: string } = {},
+      payload: Record<string, unknown> = successfulCharge,
+    ) =>
+      service.processWebhook({
+        provider: PaymentProvider.flutterwave,
+        providerEventId: 'flw_789',
+        reference: 'PAYMENT_order_settle',
+        ...confirmed,
+        payload,
+        headers: {},
+        rawBody: '{}',
+      });
+
+    it('should settle by reference through settlement-service', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200, json: async () => ({ success: true }) });
+
+      const result = await receive();
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringMatching(/\/settlements\/payments\/by-reference$/),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ reference: 'PAYMENT_order_settle' }) })
+      );
+      expect(result.status).toBe(WebhookStatus.PROCESSED);
+    });
+
+    it('should pass on the amount the provider confirmed', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200, json: async () => ({ success: true }) });
+
+      await receive({ amount: '9500', currency: 'NGN' });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          body: JSON.stringify({ reference: 'PAYMENT_order_settle', amount: '9500', currency: 'NGN' }),
+        })
+      );
+    });
+
+    it('should record confirmed funds for an unknown reference as an unallocated receipt', async () => {
+      fetchMock
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 404,
+          statusText: 'Not Found',
+          json: async () => ({ code: 'INTENT_NOT_FOUND', message: 'Payment intent not found' }),
+        })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 'ur_1' }) });
+
+      const result = await receive({ amount: '9500', currency: 'NGN' });
+
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        expect.stringMatching(/\/unallocated-receipts$/),
+        expect.objectContaining({
+          body: JSON.stringify({
+            provider: PaymentProvider.flutterwave,
+            providerEventId: 'flw_789',
+            reference: 'PAYMENT_order_settle',
+            webhookId: 'wh_settle',
+            amount: '9500',
+            currency: 'NGN',
+          }),
+        })
+      );
+      expect(result.status).toBe(WebhookStatus.PROCESSED);
+    });
+
+    it('should ignore a failed charge', async () => {
+      const result = await receive(
+        { amount: '9500', currency: 'NGN' },
+        { event: 'charge.completed', data: { status: 'failed' } },
+      );
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(result.status).toBe(WebhookStatus.PROCESSED);
+      expect(result.message).toContain('ignored');
+      expect(mockPrisma.webhookInbox.update).toHaveBeenLastCalledWith({
+        where: { id: 'wh_settle' },
+        data: expect.objectContaining({ status: WebhookStatus.PROCESSED }),
+      });
+    });
+
+    it('should ignore events other than charges, even with confirmed funds and no reference', async () => {
+      const result = await service.processWebhook({
+        provider: PaymentProvider.flutterwave,
+        providerEventId: 'flw_transfer',
+        amount: '50000',
+        currency: 'NGN',
+        payload: { event: 'transfer.completed', data: { status: 'SUCCESSFUL' } },
+        headers: {},
+        rawBody: '{}',
+      });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(result.status).toBe(WebhookStatus.PROCESSED);
+      expect(result.message).toContain('ignored');
+    });
+
+    it('should leave the webhook FAILED when settlement is rejected', async () => {
+      fetchMock.mockResolvedValue({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        json: async () => ({ code: 'INVALID_STATUS_FOR_SETTLEMENT', message: 'Cannot settle payment in status: PENDING' }),
+      });
+
+      const result = await receive();
+
+      expect(result.status).toBe(WebhookStatus.FAILED);
+      expect(result.message).toContain('INVALID_STATUS_FOR_SETTLEMENT');
+      expect(mockPrisma.webhookInbox.update).toHaveBeenLastCalledWith({
+        where: { id: 'wh_settle' },
+        data: expect.objectContaining({ status: WebhookStatus.FAILED }),
+      });
+    });
+  });
 });
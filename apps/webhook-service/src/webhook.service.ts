@@ -6,7 +6,11 @@
  * 1. Stores webhooks in WebhookInbox
  * 2. Deduplicates by provider + providerEventId
  * 3. Verifies signatures
- * 4. Triggers settlement (calls settlement-service)
+ * 4. Triggers settlement (calls settlement-service), or has confirmed
+ *    funds that match no payment intent recorded as unallocated receipts.
+ *    Only successful charge events get this far; any other event (a
+ *    failed charge, a transfer or refund callback) is marked PROCESSED
+ *    and ignored
  */
 
 import { Injectable } from '@nestjs/common';
@@ -17,15 +21,34 @@ import { createLogger } from '@syntherium/observability';
 
 const logger = createLogger('webhook-service');
 
+/** Flutterwave's event for a completed charge, and its success status */
+const FLUTTERWAVE_CHARGE_EVENT = 'charge.completed';
+const FLUTTERWAVE_CHARGE_SUCCESSFUL = 'successful';
+
 export interface WebhookPayload {
   provider: PaymentProvider;
   providerEventId: string;
   reference?: string;
+  /** Amount and currency the provider reports it collected */
+  amount?: string;
+  currency?: string;
   payload: Record<string, unknown>;
   headers: Record<string, string>;
   rawBody: string;
 }
 
+/** What settlement needs from a webhook */
+interface SettlementTarget {
+  provider: PaymentProvider;
+  providerEventId: string;
+  reference?: string;
+  /** Amount and currency the provider confirmed */
+  amount?: string;
+  currency?: string;
+}
+
+type SettlementResponseBody = { code?: string; message?: string } | null;
+
 export interface WebhookResult {
   id: string;
   status: WebhookStatus;
@@ -41,7 +64,7 @@ export class WebhookService {
    * Processes an incoming webhook.
    */
   async processWebhook(payload: WebhookPayload): Promise<WebhookResult> {
-    const { provider, providerEventId, reference, headers, rawBody } = payload;
+    const { provider, providerEventId, reference, amount, currency, headers, rawBody } = payload;
 
     // Step 1: Check for existing (dedupe)
     const existing = await this.prisma.webhookInbox.findUnique({
@@ -81,6 +104,8 @@ export class WebhookService {
         provider,
         providerEventId,
         reference,
+        amount,
+        currency,
         payload: payload.payload as Prisma.JsonObject,
         headers: headers as Prisma.JsonObject,
         status: WebhookStatus.RECEIVED,
@@ -116,8 +141,19 @@ export class WebhookService {
       data: { status: WebhookStatus.VERIFIED, processedAt: new Date() },
     });
 
-    // Step 5: Trigger settlement
-    await this.triggerSettlement(reference, webhook.id);
+    // Step 5: Only a successful charge confirms money to settle
+    if (!isSuccessfulCharge(provider, payload.payload)) {
+      return this.ignore(webhook.id, payload.payload);
+    }
+
+    // Step 6: Trigger settlement
+    const settlementFailure = await this.settleOrFail(
+      { provider, providerEventId, reference, amount, currency },
+      webhook.id,
+    );
+    if (settlementFailure) {
+      return settlementFailure;
+    }
 
     await this.prisma.webhookInbox.update({
       where: { id: webhook.id },
@@ -132,6 +168,30 @@ export class WebhookService {
     };
   }
 
+  /**
+   * Marks a webhook that confirms no payment PROCESSED without settling.
+   */
+  private async ignore(webhookId: string, payload: Record<string, unknown>): Promise<WebhookResult> {
+    const data = payload.data as Record<string, unknown> | undefined;
+    logger.info('Webhook is not a successful charge, ignored', {
+      webhookId,
+      event: payload.event as string | undefined,
+      chargeStatus: data?.status as string | undefined,
+    });
+
+    await this.prisma.webhookInbox.update({
+      where: { id: webhookId },
+      data: { status: WebhookStatus.PROCESSED, errorMessage: null, processedAt: new Date() },
+    });
+
+    return {
+      id: webhookId,
+      status: WebhookStatus.PROCESSED,
+      isDuplicate: false,
+      message: 'Webhook ignored: not a successful charge',
+    };
+  }
+
   private async verifySignature(
     provider: PaymentProvider,
     rawBody: string,
@@ -148,13 +208,116 @@ export class WebhookService {
     }
   }
 
-  private async triggerSettlement(reference: string | undefined, webhookId: string): Promise<void> {
+  /**
+   * Calls settlement-service for the webhook's reference, with the amount
+   * the provider confirmed so a mismatch is held for review rather than
+   * settled. Money that matches no payment intent - no reference, or one
+   * settlement does not know - is recorded as an unallocated receipt.
+   * Both are idempotent there, so replaying a webhook never double-posts.
+   *
+   * @throws Error when settlement-service rejects the request or is unreachable
+   */
+  private async triggerSettlement(target: SettlementTarget, webhookId: string): Promise<void> {
+    const { reference, amount, currency } = target;
+    const confirmed = amount !== undefined && currency !== undefined ? { amount, currency } : undefined;
+
     if (!reference) {
-      logger.warn('No reference found, cannot trigger settlement', { webhookId });
+      if (!confirmed) {
+        logger.warn('No reference or amount found, cannot trigger settlement', { webhookId });
+        return;
+      }
+      await this.recordUnallocatedReceipt(target, webhookId);
       return;
     }
-    // TODO: Call settlement-service
-    logger.info('Settlement trigger stub', { reference, webhookId });
+
+    const { response, body } = await this.postToSettlement('/settlements/payments/by-reference', {
+      reference,
+      ...confirmed,
+    });
+
+    if (response.status === 404 && body?.code === 'INTENT_NOT_FOUND' && confirmed) {
+      await this.recordUnallocatedReceipt(target, webhookId);
+      return;
+    }
+
+    if (!response.ok) {
+      throw settlementError(response, body);
+    }
+
+    logger.info('Settlement triggered', { reference, webhookId, message: body?.message });
+  }
+
+  /**
+   * Books confirmed funds that match no payment intent to suspense.
+   */
+  private async recordUnallocatedReceipt(target: SettlementTarget, webhookId: string): Promise<void> {
+    const { response, body } = await this.postToSettlement('/unallocated-receipts', {
+      provider: target.provider,
+      providerEventId: target.providerEventId,
+      reference: target.reference,
+      webhookId,
+      amount: target.amount,
+      currency: target.currency,
+    });
+
+    if (!response.ok) {
+      throw settlementError(response, body);
+    }
+
+    logger.warn('Unmatched payment recorded as unallocated receipt', {
+      reference: target.reference,
+      webhookId,
+      amount: target.amount,
+      currency: target.currency,
+    });
+  }
+
+  private async postToSettlement(
+    path: string,
+    payload: Record<string, unknown>,
+  ): Promise<{ response: Response; body: SettlementResponseBody }> {
+    const baseUrl = process.env.SETTLEMENT_SERVICE_URL || 'http://localhost:3003/v1';
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': process.env.SETTLEMENT_SERVICE_API_KEY || '',
+      },
+      body: JSON.stringify(payload),
+    });
+    const body = (await response.json().catch(() => null)) as SettlementResponseBody;
+    return { response, body };
+  }
+
+  /**
+   * Triggers settlement, leaving the webhook FAILED with the reason when
+   * it does not go through so it can be replayed.
+   *
+   * @returns The failed result, or null when settlement succeeded
+   */
+  private async settleOrFail(target: SettlementTarget, webhookId: string): Promise<WebhookResult | null> {
+    try {
+      await this.triggerSettlement(target, webhookId);
+      return null;
+    } catch (error) {
+      const message = `Settlement failed: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error('Settlement trigger failed', error instanceof Error ? error : undefined, {
+        reference: target.reference,
+        webhookId,
+      });
+
+      await this.prisma.webhookInbox.update({
+        where: { id: webhookId },
+        data: { status: WebhookStatus.FAILED, errorMessage: message, processedAt: new Date() },
+      });
+
+      return {
+        id: webhookId,
+        status: WebhookStatus.FAILED,
+        isDuplicate: false,
+        message,
+      };
+    }
   }
 
   async replayWebhook(webhookId: string): Promise<WebhookResult> {
@@ -180,10 +343,24 @@ export class WebhookService {
       };
     }
 
-    await this.triggerSettlement(webhook.reference ?? undefined, webhookId);
+    if (!isSuccessfulCharge(webhook.provider, webhook.payload as Record<string, unknown>)) {
+      return this.ignore(webhookId, webhook.payload as Record<string, unknown>);
+    }
+
+    const settlementFailure = await this.settleOrFail({
+      provider: webhook.provider,
+      providerEventId: webhook.providerEventId,
+      reference: webhook.reference ?? undefined,
+      amount: webhook.amount?.toString(),
+      currency: webhook.currency ?? undefined,
+    }, webhookId);
+    if (settlementFailure) {
+      return settlementFailure;
+    }
+
     await this.prisma.webhookInbox.update({
       where: { id: webhookId },
-      data: { status: WebhookStatus.PROCESSED, processedAt: new Date() },
+      data: { status: WebhookStatus.PROCESSED, errorMessage: null, processedAt: new Date() },
     });
 
     return {
@@ -194,3 +371,24 @@ export class WebhookService {
     };
   }
 }
+
+/**
+ * Whether the provider's payload reports a charge that succeeded, the
+ * only event that confirms money collected. Providers without a mapping
+ * confirm nothing.
+ */
+function isSuccessfulCharge(provider: PaymentProvider, payload: Record<string, unknown>): boolean {
+  switch (provider) {
+    case PaymentProvider.flutterwave: {
+      const data = payload.data as Record<string, unknown> | undefined;
+      return payload.event === FLUTTERWAVE_CHARGE_EVENT && data?.status === FLUTTERWAVE_CHARGE_SUCCESSFUL;
+    }
+    default:
+      return false;
+  }
+}
+
+function settlementError(response: Response, body: SettlementResponseBody): Error {
+  const code = body?.code ?? `HTTP_${response.status}`;
+  return new Error(`${code}: ${body?.message ?? response.statusText}`);
+}
@@ -1,35 +1,24 @@
 /**
  * Syntherium Database Seed Script
  * 
- * Creates system accounts/wallets required for platform operation:
+ * Registers the system accounts defined in src/accounts.ts, creates
+ * their wallets and posts opening balances as balanced journals:
  * - MARKETING_WALLET: Source for discount subsidies
  * - PLATFORM_ESCROW: Receives payments, holds funds
  * - LEGACY_MIGRATION_WALLET: For data migration entries
+ * - PAYMENT_CLEARING: Contra account for provider collections
  */
 
-import { PrismaClient, LedgerEntryType } from './generated/prisma';
+import { PrismaClient, LedgerEntryType, AccountType } from './generated/prisma';
+import { SYSTEM_ACCOUNTS, SystemAccounts } from '../src/accounts';
 import * as crypto from 'crypto';
 
 const prisma = new PrismaClient();
 
-// System account identifiers
-const SYSTEM_ACCOUNTS = [
-  {
-    accountId: 'MARKETING_WALLET',
-    initialBalance: '1000000.0000', // 1M NGN initial marketing budget
-    description: 'Marketing subsidy wallet for discount campaigns',
-  },
-  {
-    accountId: 'PLATFORM_ESCROW',
-    initialBalance: '0.0000',
-    description: 'Platform escrow for payment collection',
-  },
-  {
-    accountId: 'LEGACY_MIGRATION_WALLET',
-    initialBalance: '0.0000',
-    description: 'Wallet for legacy data migration entries',
-  },
-];
+// Opening balances, funded from LEGACY_MIGRATION_WALLET; other accounts start at zero
+const INITIAL_BALANCES: Record<string, string> = {
+  [SystemAccounts.MARKETING_WALLET]: '1000000.0000', // 1M NGN initial marketing budget
+};
 
 function computeEntryHash(
   prevHash: string | null,
@@ -58,6 +47,25 @@ async function main() {
   for (const account of SYSTEM_ACCOUNTS) {
     console.log(`Creating system account: ${account.accountId}`);
 
+    // Register the account; the registry is the source of truth for
+    // which accounts exist, so this runs even when the wallet does
+    await prisma.ledgerAccount.upsert({
+      where: { accountId: account.accountId },
+      update: {},
+      create: {
+        accountId: account.accountId,
+        description: account.description,
+        type: account.type,
+        normalBalance:
+          account.type === AccountType.ASSET || account.type === AccountType.EXPENSE
+            ? LedgerEntryType.DEBIT
+            : LedgerEntryType.CREDIT,
+        ownerType: account.ownerType,
+        currency: account.currency,
+        overdraftPolicy: account.overdraftPolicy,
+      },
+    });
+
     // Check if wallet already exists
     const existingWallet = await prisma.walletBalanceCache.findUnique({
       where: { accountId: account.accountId },
@@ -68,51 +76,86 @@ async function main() {
       continue;
     }
 
-    // Create initial balance cache entry
     await prisma.walletBalanceCache.create({
       data: {
         accountId: account.accountId,
-        balance: account.initialBalance,
-        currency: 'NGN',
-        lastEntrySeq: account.initialBalance !== '0.0000' ? 1 : 0,
+        balance: '0.0000',
+        currency: account.currency,
+        lastEntrySeq: 0,
       },
     });
+    console.log(`  ✅ Created with zero balance\n`);
+  }
+
+  for (const [accountId, amount] of Object.entries(INITIAL_BALANCES)) {
+    await fundAccount(accountId, amount);
+  }
+
+  console.log('✨ Seed completed successfully!');
+}
+
+/**
+ * Posts an opening balance as a balanced genesis journal: credit the
+ * account, debit LEGACY_MIGRATION_WALLET. Entries, journal and caches
+ * are written in one transaction, so an interrupted seed can be rerun.
+ */
+async function fundAccount(accountId: string, amount: string) {
+  const reference = `GENESIS_${accountId}`;
+  const offsetId = SystemAccounts.LEGACY_MIGRATION_WALLET;
+  const description = `${SYSTEM_ACCOUNTS.find((a) => a.accountId === accountId)?.description} - Initial funding`;
 
-    // If there's an initial balance, create genesis ledger entry
-    if (account.initialBalance !== '0.0000') {
-      const reference = `GENESIS_${account.accountId}`;
-      const description = `${account.description} - Initial funding`;
-      const entryHash = computeEntryHash(
-        null,
-        account.accountId,
-        1,
-        reference,
-        'CREDIT',
-        account.initialBalance,
-        description
-      );
-
-      await prisma.ledgerEntry.create({
+  const existing = await prisma.ledgerJournal.findUnique({ where: { reference } });
+  const legacyGenesis = await prisma.ledgerEntry.findFirst({ where: { accountId, reference } });
+  if (existing || legacyGenesis) {
+    console.log(`  ⏭️  ${accountId} already funded, skipping.\n`);
+    return;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const journal = await tx.ledgerJournal.create({
+      data: { reference, description: `Opening balance for ${accountId}` },
+    });
+
+    const legs: [string, LedgerEntryType][] = [
+      [offsetId, LedgerEntryType.DEBIT],
+      [accountId, LedgerEntryType.CREDIT],
+    ];
+
+    for (const [legAccountId, entryType] of legs) {
+      const wallet = await tx.walletBalanceCache.findUniqueOrThrow({ where: { accountId: legAccountId } });
+      const last = await tx.ledgerEntry.findFirst({
+        where: { accountId: legAccountId },
+        orderBy: { walletSeq: 'desc' },
+      });
+      const walletSeq = (last?.walletSeq ?? 0) + 1;
+      const prevHash = last?.entryHash ?? null;
+      const entryHash = computeEntryHash(prevHash, legAccountId, walletSeq, reference, entryType, amount, description);
+
+      await tx.ledgerEntry.create({
         data: {
-          accountId: account.accountId,
-          walletSeq: 1,
+          accountId: legAccountId,
+          walletSeq,
           reference,
-          entryType: LedgerEntryType.CREDIT,
-          amount: account.initialBalance,
+          journalId: journal.id,
+          entryType,
+          amount,
           description,
-          prevHash: null,
+          prevHash,
           entryHash,
         },
       });
 
-      console.log(`  ✅ Created with initial balance: ${account.initialBalance} NGN`);
-      console.log(`  📝 Genesis entry hash: ${entryHash.substring(0, 16)}...\n`);
-    } else {
-      console.log(`  ✅ Created with zero balance\n`);
+      await tx.walletBalanceCache.update({
+        where: { accountId: legAccountId },
+        data: {
+          balance: entryType === LedgerEntryType.CREDIT ? wallet.balance.add(amount) : wallet.balance.sub(amount),
+          lastEntrySeq: walletSeq,
+        },
+      });
     }
-  }
+  });
 
-  console.log('✨ Seed completed successfully!');
+  console.log(`  ✅ Funded ${accountId} with ${amount} from ${offsetId}\n`);
 }
 
 main()
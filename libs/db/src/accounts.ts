@@ -0,0 +1,136 @@
+/**
+ * Chart of accounts
+ *
+ * Platform-owned ledger accounts and their registry attributes. The seed
+ * script registers these, and services refer to them through
+ * SystemAccounts instead of string literals, so a typo fails to post
+ * rather than opening a new wallet.
+ */
+
+import { AccountType, AccountOwnerType, OverdraftPolicy } from './generated/prisma';
+
+export const SystemAccounts = {
+  /** Receives payments and holds funds until release */
+  PLATFORM_ESCROW: 'PLATFORM_ESCROW',
+  /** Source for discount subsidies */
+  MARKETING_WALLET: 'MARKETING_WALLET',
+  /** Contra account for provider collections; its balance is what providers owe */
+  PAYMENT_CLEARING: 'PAYMENT_CLEARING',
+  /** Offset for data migration entries */
+  LEGACY_MIGRATION_WALLET: 'LEGACY_MIGRATION_WALLET',
+  /** Platform commission earned when escrow is released to vendors */
+  PLATFORM_REVENUE: 'PLATFORM_REVENUE',
+  /** Payment provider processing fees, expensed at settlement */
+  PROCESSING_FEE_EXPENSE: 'PROCESSING_FEE_EXPENSE',
+  /** Vendor payouts in a batch, until the bank pays or rejects them */
+  PAYOUTS_IN_TRANSIT: 'PAYOUTS_IN_TRANSIT',
+  /** Platform bank account vendor payouts are paid from */
+  SETTLEMENT_BANK: 'SETTLEMENT_BANK',
+  /** Chargeback fees, and chargebacks the vendor could not cover */
+  CHARGEBACK_EXPENSE: 'CHARGEBACK_EXPENSE',
+  /** Payments received for the wrong amount or matching no intent, pending review */
+  PAYMENT_SUSPENSE: 'PAYMENT_SUSPENSE',
+} as const;
+
+export type SystemAccountId = (typeof SystemAccounts)[keyof typeof SystemAccounts];
+
+export interface LedgerAccountDefinition {
+  accountId: string;
+  description?: string;
+  type: AccountType;
+  ownerType: AccountOwnerType;
+  /** Vendor or customer ID; omitted for platform accounts */
+  ownerId?: string;
+  currency: string;
+  overdraftPolicy: OverdraftPolicy;
+  /** Decimal amount as string; LIMITED only */
+  overdraftLimit?: string;
+}
+
+export const SYSTEM_ACCOUNTS: LedgerAccountDefinition[] = [
+  {
+    accountId: SystemAccounts.MARKETING_WALLET,
+    description: 'Marketing subsidy wallet for discount campaigns',
+    type: AccountType.EQUITY,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    overdraftPolicy: OverdraftPolicy.NONE,
+  },
+  {
+    accountId: SystemAccounts.PLATFORM_ESCROW,
+    description: 'Platform escrow for payment collection',
+    type: AccountType.LIABILITY,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    overdraftPolicy: OverdraftPolicy.NONE,
+  },
+  {
+    accountId: SystemAccounts.LEGACY_MIGRATION_WALLET,
+    description: 'Wallet for legacy data migration entries',
+    type: AccountType.EQUITY,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    overdraftPolicy: OverdraftPolicy.UNLIMITED,
+  },
+  {
+    accountId: SystemAccounts.PAYMENT_CLEARING,
+    description: 'Clearing account for funds collected by payment providers',
+    type: AccountType.ASSET,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    // Chargebacks are credited here and may exceed what providers owe
+    overdraftPolicy: OverdraftPolicy.UNLIMITED,
+  },
+  {
+    accountId: SystemAccounts.PLATFORM_REVENUE,
+    description: 'Platform commission revenue',
+    type: AccountType.REVENUE,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    overdraftPolicy: OverdraftPolicy.NONE,
+  },
+  {
+    accountId: SystemAccounts.PROCESSING_FEE_EXPENSE,
+    description: 'Payment provider processing fees',
+    type: AccountType.EXPENSE,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    // Only ever debited; a credit may only reverse fees already expensed
+    overdraftPolicy: OverdraftPolicy.NONE,
+  },
+  {
+    accountId: SystemAccounts.PAYOUTS_IN_TRANSIT,
+    description: 'Vendor payouts sent to the bank and awaiting outcome',
+    type: AccountType.LIABILITY,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    overdraftPolicy: OverdraftPolicy.NONE,
+  },
+  {
+    accountId: SystemAccounts.SETTLEMENT_BANK,
+    description: 'Platform settlement bank account',
+    type: AccountType.ASSET,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    // Payouts are credited here; provider settlements into the bank are
+    // not posted yet, so its natural balance runs negative for now
+    overdraftPolicy: OverdraftPolicy.UNLIMITED,
+  },
+  {
+    accountId: SystemAccounts.CHARGEBACK_EXPENSE,
+    description: 'Lost chargebacks and chargeback fees',
+    type: AccountType.EXPENSE,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    // Only ever debited, like PROCESSING_FEE_EXPENSE
+    overdraftPolicy: OverdraftPolicy.NONE,
+  },
+  {
+    accountId: SystemAccounts.PAYMENT_SUSPENSE,
+    description: 'Mismatched and unallocated payments awaiting review',
+    type: AccountType.LIABILITY,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: 'NGN',
+    overdraftPolicy: OverdraftPolicy.NONE,
+  },
+];
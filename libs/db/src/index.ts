@@ -15,7 +15,16 @@ export type {
   RefundIntent,
   WebhookInbox,
   LedgerEntry,
+  LedgerJournal,
+  LedgerAccount,
+  FxRate,
+  LedgerCheckpoint,
+  LedgerCheckpointHead,
+  ChainVerificationJob,
   WalletBalanceCache,
+  BalanceDriftRun,
+  WalletHold,
+  WalletBalanceSnapshot,
 } from './generated/prisma';
 
 export {
@@ -27,4 +36,12 @@ export {
   RefundReason,
   WebhookStatus,
   LedgerEntryType,
+  AccountType,
+  AccountOwnerType,
+  OverdraftPolicy,
+  AccountStatus,
+  WalletHoldStatus,
+  VerificationJobStatus,
 } from './generated/prisma';
+
+export * from './accounts';
@@ -0,0 +1,111 @@
+/**
+ * Account Registry Unit Tests
+ *
+ * Tests for:
+ * - Opening accounts and their normal balance side
+ * - Idempotent and conflicting reopens, including concurrent opens
+ * - Definition validation
+ * - Accounts a currency needs
+ */
+
+import { AccountType, AccountOwnerType, OverdraftPolicy, LedgerEntryType } from '@syntherium/db';
+import { openAccount, currencyAccountDefinitions, paymentClearingAccount } from './accounts';
+
+describe('openAccount', () => {
+  let accounts: Map<string, any>;
+  let prisma: any;
+
+  const vendorWallet = {
+    accountId: 'VENDOR_V1',
+    type: AccountType.LIABILITY,
+    ownerType: AccountOwnerType.VENDOR,
+    ownerId: 'v1',
+    currency: 'NGN',
+    overdraftPolicy: OverdraftPolicy.NONE,
+  };
+
+  beforeEach(() => {
+    accounts = new Map();
+    prisma = {
+      ledgerAccount: {
+        findUnique: jest.fn(async ({ where }: any) => accounts.get(where.accountId) ?? null),
+        findUniqueOrThrow: jest.fn(async ({ where }: any) => accounts.get(where.accountId)),
+        // Postgres INSERT ... ON CONFLICT DO NOTHING
+        createMany: jest.fn(async ({ data }: any) => {
+          const inserted = data.filter((row: any) => !accounts.has(row.accountId));
+          inserted.forEach((row: any) => accounts.set(row.accountId, row));
+          return { count: inserted.length };
+        }),
+      },
+    };
+  });
+
+  it('should register an account with the normal side of its type', async () => {
+    const account = await openAccount(prisma, vendorWallet);
+    const clearing = await openAccount(prisma, {
+      accountId: 'PAYMENT_CLEARING',
+      type: AccountType.ASSET,
+      ownerType: AccountOwnerType.PLATFORM,
+      currency: 'NGN',
+      overdraftPolicy: OverdraftPolicy.UNLIMITED,
+    });
+
+    expect(account.normalBalance).toBe(LedgerEntryType.CREDIT);
+    expect(clearing.normalBalance).toBe(LedgerEntryType.DEBIT);
+  });
+
+  it('should return an existing account and refuse to redefine it', async () => {
+    const first = await openAccount(prisma, vendorWallet);
+    const again = await openAccount(prisma, vendorWallet);
+
+    expect(again).toBe(first);
+    expect(prisma.ledgerAccount.createMany).toHaveBeenCalledTimes(1);
+    await expect(openAccount(prisma, { ...vendorWallet, currency: 'USD' })).rejects.toMatchObject({
+      code: 'ACCOUNT_CONFLICT',
+      details: expect.objectContaining({ conflicts: ['currency'] }),
+    });
+  });
+
+  it('should read back an account opened concurrently instead of failing the insert', async () => {
+    // Not visible to the first read, already there for the insert
+    prisma.ledgerAccount.findUnique.mockImplementationOnce(async () => {
+      accounts.set(vendorWallet.accountId, { ...vendorWallet, normalBalance: LedgerEntryType.CREDIT });
+      return null;
+    });
+
+    const account = await openAccount(prisma, vendorWallet);
+
+    expect(account.accountId).toBe('VENDOR_V1');
+    expect(prisma.ledgerAccount.createMany).toHaveBeenCalledWith(expect.objectContaining({ skipDuplicates: true }));
+
+    prisma.ledgerAccount.findUnique.mockResolvedValueOnce(null);
+    await expect(openAccount(prisma, { ...vendorWallet, ownerId: 'v2' })).rejects.toMatchObject({
+      code: 'ACCOUNT_CONFLICT',
+      details: expect.objectContaining({ conflicts: ['ownerId'] }),
+    });
+  });
+
+  it('should reject malformed definitions', async () => {
+    await expect(openAccount(prisma, { ...vendorWallet, accountId: 'vendor v1' })).rejects.toMatchObject({
+      code: 'INVALID_ACCOUNT',
+    });
+    await expect(openAccount(prisma, { ...vendorWallet, ownerId: undefined })).rejects.toMatchObject({
+      code: 'INVALID_ACCOUNT',
+    });
+    await expect(
+      openAccount(prisma, { ...vendorWallet, overdraftPolicy: OverdraftPolicy.LIMITED })
+    ).rejects.toMatchObject({ code: 'INVALID_ACCOUNT' });
+    expect(prisma.ledgerAccount.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('currencyAccountDefinitions', () => {
+  it('should add a clearing account for foreign currencies only', () => {
+    expect(currencyAccountDefinitions('NGN').map((d) => d.accountId)).toEqual(['FX_POSITION_NGN']);
+    expect(currencyAccountDefinitions('USD').map((d) => d.accountId)).toEqual([
+      'FX_POSITION_USD',
+      'PAYMENT_CLEARING_USD',
+    ]);
+    expect(paymentClearingAccount('NGN')).toBe('PAYMENT_CLEARING');
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Account registry.
+ *
+ * Every ledger account is registered in LedgerAccount with its type,
+ * owner, currency and overdraft policy before anything can be posted to
+ * it. appendEntry looks the account up on each posting: unknown accounts
+ * and accounts whose lifecycle status forbids the posting are rejected,
+ * and the policy decides how far below zero a posting against the
+ * account's normal side may take its natural balance.
+ *
+ * Lifecycle: ACTIVE accounts take everything; DEBIT_FROZEN accounts take
+ * credits only; FROZEN and CLOSED accounts take nothing. Freezes are
+ * reversible, closing is not.
+ */
+
+import {
+  PrismaClient,
+  Prisma,
+  LedgerAccount,
+  LedgerEntryType,
+  AccountType,
+  AccountStatus,
+  OverdraftPolicy,
+  SystemAccounts,
+  LedgerAccountDefinition,
+  AccountOwnerType,
+} from '@syntherium/db';
+import { LedgerError } from './errors';
+import { BASE_CURRENCY, fxPositionAccount } from './fx';
+
+export type OpenAccountParams = LedgerAccountDefinition;
+
+export interface AccountRestriction {
+  code: 'ACCOUNT_FROZEN' | 'ACCOUNT_CLOSED';
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Side that increases an account of the given type.
+ */
+export function normalBalanceFor(type: AccountType): LedgerEntryType {
+  return type === AccountType.ASSET || type === AccountType.EXPENSE
+    ? LedgerEntryType.DEBIT
+    : LedgerEntryType.CREDIT;
+}
+
+/**
+ * Clearing account for provider collections in a currency. Wallets hold
+ * one currency, so foreign collections clear through PAYMENT_CLEARING_<currency>.
+ */
+export function paymentClearingAccount(currency: string): string {
+  return currency === BASE_CURRENCY
+    ? SystemAccounts.PAYMENT_CLEARING
+    : `${SystemAccounts.PAYMENT_CLEARING}_${currency}`;
+}
+
+/**
+ * Earnings wallet for a vendor, e.g. VENDOR_CLX123 for vendor clx123.
+ * Escrow releases credit it; vendors read their earned balance from it.
+ */
+export function vendorWalletAccount(vendorId: string): string {
+  return `VENDOR_${vendorId.toUpperCase().replace(/[^A-Z0-9_]/g, '_')}`;
+}
+
+/**
+ * Registry definition of a vendor's earnings wallet. Escrow is held in
+ * NGN, so vendor wallets are too.
+ */
+export function vendorWalletDefinition(vendorId: string): LedgerAccountDefinition {
+  return {
+    accountId: vendorWalletAccount(vendorId),
+    description: `Earnings wallet for vendor ${vendorId}`,
+    type: AccountType.LIABILITY,
+    ownerType: AccountOwnerType.VENDOR,
+    ownerId: vendorId,
+    currency: BASE_CURRENCY,
+    overdraftPolicy: OverdraftPolicy.NONE,
+  };
+}
+
+/**
+ * Budget wallet for a discount campaign, e.g. CAMPAIGN_PROMO2024 for code
+ * PROMO2024. Settlement debits it for the campaign's subsidies.
+ */
+export function campaignWalletAccount(code: string): string {
+  return `CAMPAIGN_${code.toUpperCase().replace(/[^A-Z0-9_]/g, '_')}`;
+}
+
+/**
+ * Registry definition of a campaign's budget wallet. Like
+ * MARKETING_WALLET it is platform equity in NGN and cannot overdraw, so
+ * an exhausted budget refuses further subsidies.
+ */
+export function campaignWalletDefinition(code: string): LedgerAccountDefinition {
+  return {
+    accountId: campaignWalletAccount(code),
+    description: `Subsidy budget for discount campaign ${code}`,
+    type: AccountType.EQUITY,
+    ownerType: AccountOwnerType.PLATFORM,
+    currency: BASE_CURRENCY,
+    overdraftPolicy: OverdraftPolicy.NONE,
+  };
+}
+
+/**
+ * Accounts a currency needs before payments in it can settle: its FX
+ * position and, for foreign currencies, its payment clearing account.
+ */
+export function currencyAccountDefinitions(currency: string): LedgerAccountDefinition[] {
+  const definitions: LedgerAccountDefinition[] = [
+    {
+      accountId: fxPositionAccount(currency),
+      description: `FX position in ${currency}`,
+      type: AccountType.ASSET,
+      ownerType: AccountOwnerType.PLATFORM,
+      currency,
+      // The target currency is paid out before it is bought in
+      overdraftPolicy: OverdraftPolicy.UNLIMITED,
+    },
+  ];
+
+  if (currency !== BASE_CURRENCY) {
+    definitions.push({
+      accountId: paymentClearingAccount(currency),
+      description: `Clearing account for ${currency} provider collections`,
+      type: AccountType.ASSET,
+      ownerType: AccountOwnerType.PLATFORM,
+      currency,
+      // Chargebacks are credited here and may exceed what providers owe
+      overdraftPolicy: OverdraftPolicy.UNLIMITED,
+    });
+  }
+
+  return definitions;
+}
+
+/**
+ * Registers a ledger account. Opening an account that already exists
+ * with the same type, owner and currency returns it unchanged.
+ *
+ * @throws LedgerError INVALID_ACCOUNT for a malformed definition,
+ *   ACCOUNT_CONFLICT if the account exists with other attributes
+ */
+export async function openAccount(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  params: OpenAccountParams
+): Promise<LedgerAccount> {
+  const { accountId, description, type, ownerType, ownerId, currency, overdraftPolicy } = params;
+
+  if (!/^[A-Z0-9_]+$/.test(accountId)) {
+    throw new LedgerError('INVALID_ACCOUNT', 'accountId must be upper-case letters, digits and underscores', { accountId });
+  }
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new LedgerError('INVALID_ACCOUNT', 'currency must be an ISO 4217 code', { accountId, currency });
+  }
+  if ((ownerType === AccountOwnerType.PLATFORM) !== !ownerId) {
+    throw new LedgerError('INVALID_ACCOUNT', 'ownerId is required for vendor and customer accounts only', {
+      accountId,
+      ownerType,
+      ownerId,
+    });
+  }
+
+  const overdraftLimit = params.overdraftLimit !== undefined ? new Prisma.Decimal(params.overdraftLimit) : null;
+  if ((overdraftPolicy === OverdraftPolicy.LIMITED) !== (overdraftLimit !== null && overdraftLimit.greaterThan(0))) {
+    throw new LedgerError('INVALID_ACCOUNT', 'A positive overdraftLimit is required for LIMITED accounts only', {
+      accountId,
+      overdraftPolicy,
+      overdraftLimit: params.overdraftLimit,
+    });
+  }
+
+  const existing = await prisma.ledgerAccount.findUnique({ where: { accountId } });
+  if (existing) {
+    return assertSameAccount(existing, params);
+  }
+
+  // ON CONFLICT DO NOTHING rather than catching a unique violation: callers
+  // open accounts inside ledger transactions, and in Postgres a failed
+  // insert aborts the whole transaction. An account opened concurrently
+  // is read back and held to the same rules as if it had existed.
+  await prisma.ledgerAccount.createMany({
+    data: [
+      {
+        accountId,
+        description,
+        type,
+        normalBalance: normalBalanceFor(type),
+        ownerType,
+        ownerId,
+        currency,
+        overdraftPolicy,
+        overdraftLimit,
+      },
+    ],
+    skipDuplicates: true,
+  });
+
+  const account = await prisma.ledgerAccount.findUniqueOrThrow({ where: { accountId } });
+  return assertSameAccount(account, params);
+}
+
+/**
+ * Why the account's status refuses a posting of the given side, or null
+ * if it accepts it.
+ */
+export function accountRestriction(
+  account: Pick<LedgerAccount, 'accountId' | 'status' | 'statusReason' | 'statusChangedAt'>,
+  entryType: LedgerEntryType
+): AccountRestriction | null {
+  const { accountId, status } = account;
+  const details = {
+    accountId,
+    status,
+    reason: account.statusReason,
+    since: account.statusChangedAt?.toISOString() ?? null,
+  };
+
+  switch (status) {
+    case AccountStatus.CLOSED:
+      return { code: 'ACCOUNT_CLOSED', message: `Ledger account is closed: ${accountId}`, details };
+    case AccountStatus.FROZEN:
+      return { code: 'ACCOUNT_FROZEN', message: `Ledger account is frozen: ${accountId}`, details };
+    case AccountStatus.DEBIT_FROZEN:
+      return entryType === LedgerEntryType.DEBIT
+        ? { code: 'ACCOUNT_FROZEN', message: `Ledger account is frozen for debits: ${accountId}`, details }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Loads an account that a posting of the given side and currency may go
+ * to. Holds count as debits.
+ *
+ * @throws LedgerError ACCOUNT_NOT_FOUND, ACCOUNT_FROZEN, ACCOUNT_CLOSED,
+ *   CURRENCY_MISMATCH
+ */
+export async function getPostableAccount(
+  tx: Prisma.TransactionClient,
+  accountId: string,
+  currency: string,
+  entryType: LedgerEntryType
+): Promise<LedgerAccount> {
+  const account = await tx.ledgerAccount.findUnique({ where: { accountId } });
+
+  if (!account) {
+    throw new LedgerError('ACCOUNT_NOT_FOUND', `Unknown ledger account: ${accountId}`, { accountId });
+  }
+
+  const restriction = accountRestriction(account, entryType);
+  if (restriction) {
+    throw new LedgerError(restriction.code, restriction.message, restriction.details);
+  }
+
+  // A wallet holds one currency; mixing would make its balance meaningless
+  if (account.currency !== currency) {
+    throw new LedgerError(
+      'CURRENCY_MISMATCH',
+      `Cannot post ${currency} to ${account.currency} wallet ${accountId}`,
+      { accountId, walletCurrency: account.currency, entryCurrency: currency }
+    );
+  }
+
+  return account;
+}
+
+/**
+ * Balance on the account's normal side. Balances are stored
+ * credit-positive, so debit-normal (asset and expense) accounts are
+ * negated: a clearing account owed 100 by providers stores -100 and has
+ * a natural balance of 100.
+ */
+export function naturalBalance(account: LedgerAccount, balance: Prisma.Decimal): Prisma.Decimal {
+  return account.normalBalance === LedgerEntryType.DEBIT ? balance.negated() : balance;
+}
+
+/**
+ * Lowest natural balance, net of active holds, a posting against the
+ * account's normal side may leave; null when the policy allows any
+ * overdraft.
+ */
+export function overdraftFloor(account: LedgerAccount): Prisma.Decimal | null {
+  switch (account.overdraftPolicy) {
+    case OverdraftPolicy.UNLIMITED:
+      return null;
+    case OverdraftPolicy.LIMITED:
+      return (account.overdraftLimit ?? new Prisma.Decimal(0)).negated();
+    default:
+      return new Prisma.Decimal(0);
+  }
+}
+
+function assertSameAccount(existing: LedgerAccount, params: OpenAccountParams): LedgerAccount {
+  const conflicts: string[] = [];
+  for (const field of ['type', 'ownerType', 'currency'] as const) {
+    if (existing[field] !== params[field]) {
+      conflicts.push(field);
+    }
+  }
+  if ((existing.ownerId ?? undefined) !== params.ownerId) {
+    conflicts.push('ownerId');
+  }
+
+  if (conflicts.length > 0) {
+    throw new LedgerError('ACCOUNT_CONFLICT', `Ledger account ${existing.accountId} already exists with different attributes`, {
+      accountId: existing.accountId,
+      conflicts,
+    });
+  }
+
+  return existing;
+}
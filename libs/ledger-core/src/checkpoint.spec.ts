@@ -0,0 +1,321 @@
+/**
+ * Checkpoint Unit Tests
+ *
+ * Tests for:
+ * - Merkle tree layout (RFC 6962)
+ * - Checkpoint root ordering
+ * - Checkpoint signing and offline verification
+ * - Chain verification from a checkpoint anchor
+ * - Creating checkpoints: verifying from the previous one and extending
+ *   entry trees incrementally
+ */
+
+import * as crypto from 'crypto';
+import {
+  EMPTY_MERKLE_ROOT,
+  hashMerkleLeaf,
+  hashMerkleNode,
+  computeMerkleRoot,
+} from './merkle';
+import {
+  CheckpointHead,
+  SignedCheckpoint,
+  computeCheckpointRoot,
+  createCheckpoint,
+  hashEntryLeaf,
+  signCheckpointPayload,
+  verifyCheckpoint,
+} from './checkpoint';
+import { computeEntryHash, verifyChain } from './index';
+import { LedgerError } from './errors';
+
+describe('Merkle tree', () => {
+  it('should match the RFC 6962 empty tree and empty leaf hashes', () => {
+    expect(EMPTY_MERKLE_ROOT).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(hashMerkleLeaf('')).toBe('6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d');
+  });
+
+  it('should return the leaf itself for a single-leaf tree', () => {
+    const leaf = hashMerkleLeaf('a');
+    expect(computeMerkleRoot([leaf])).toBe(leaf);
+  });
+
+  it('should split an odd tree at the largest power of two', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map(hashMerkleLeaf);
+    expect(computeMerkleRoot([a, b, c])).toBe(hashMerkleNode(hashMerkleNode(a, b), c));
+  });
+
+  it('should not let a leaf stand in for an interior node', () => {
+    const [a, b] = ['a', 'b'].map(hashMerkleLeaf);
+    expect(hashMerkleLeaf(a + b)).not.toBe(hashMerkleNode(a, b));
+  });
+});
+
+describe('Checkpoints', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519', {
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  const heads: CheckpointHead[] = [
+    { accountId: 'PLATFORM_ESCROW', walletSeq: 42, entryHash: 'a'.repeat(64) },
+    { accountId: 'MARKETING_WALLET', walletSeq: 7, entryHash: 'b'.repeat(64) },
+  ];
+
+  function buildCheckpoint(): SignedCheckpoint {
+    const payload = {
+      merkleRoot: computeCheckpointRoot(heads),
+      accountCount: heads.length,
+      previousCheckpointId: null,
+      keyId: 'test-key',
+      createdAt: '2024-01-15T00:00:00.000Z',
+    };
+    return { ...payload, id: 'chk_1', signature: signCheckpointPayload(payload, privateKey), heads };
+  }
+
+  it('should compute the same root regardless of head order', () => {
+    expect(computeCheckpointRoot([...heads].reverse())).toBe(computeCheckpointRoot(heads));
+  });
+
+  it('should verify a correctly signed checkpoint', () => {
+    const result = verifyCheckpoint(buildCheckpoint(), publicKey);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject a checkpoint whose heads were altered', () => {
+    const checkpoint = buildCheckpoint();
+    checkpoint.heads = [{ ...heads[0], walletSeq: 41 }, heads[1]];
+
+    const result = verifyCheckpoint(checkpoint, publicKey);
+    expect(result.valid).toBe(false);
+    expect(result.message).toContain('Merkle root');
+  });
+
+  it('should reject a checkpoint signed with another key', () => {
+    const other = crypto.generateKeyPairSync('ed25519', {
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+
+    const result = verifyCheckpoint(buildCheckpoint(), other.publicKey);
+    expect(result.valid).toBe(false);
+    expect(result.message).toBe('Invalid checkpoint signature');
+  });
+});
+
+describe('verifyChain from a checkpoint anchor', () => {
+  // Builds a valid three-entry chain for one account
+  const entries: any[] = [];
+  let prevHash: string | null = null;
+  for (let seq = 1; seq <= 3; seq++) {
+    const entryHash = computeEntryHash(prevHash, 'ACC', seq, `REF_${seq}`, 'CREDIT', '10.0000', null);
+    entries.push({
+      accountId: 'ACC',
+      walletSeq: seq,
+      reference: `REF_${seq}`,
+      entryType: 'CREDIT',
+      amount: { toString: () => '10.0000' },
+      description: null,
+      prevHash,
+      entryHash,
+    });
+    prevHash = entryHash;
+  }
+
+  const prisma = {
+    ledgerEntry: {
+      findFirst: jest.fn(async ({ where }: any) =>
+        entries.find((e) => e.walletSeq === where.walletSeq) ?? null
+      ),
+      findMany: jest.fn(async ({ where, take }: any) =>
+        entries.filter((e) => e.walletSeq > where.walletSeq.gt).slice(0, take)
+      ),
+    },
+  } as any;
+
+  it('should verify only the entries from the anchor onwards', async () => {
+    const result = await verifyChain(prisma, 'ACC', undefined, undefined, {
+      walletSeq: 2,
+      entryHash: entries[1].entryHash,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.entriesVerified).toBe(2);
+  });
+
+  it('should fail when the anchored entry no longer matches the checkpoint', async () => {
+    const result = await verifyChain(prisma, 'ACC', undefined, undefined, {
+      walletSeq: 2,
+      entryHash: 'f'.repeat(64),
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenAtSeq).toBe(2);
+  });
+});
+
+describe('createCheckpoint', () => {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519', {
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  const signer = { keyId: 'test-key', privateKey };
+
+  let entries: any[];
+  let nodes: any[];
+  let checkpoints: any[];
+  let prisma: any;
+
+  function append(accountId: string, count: number) {
+    for (let i = 0; i < count; i++) {
+      const chain = entries.filter((e) => e.accountId === accountId);
+      const walletSeq = chain.length + 1;
+      const prevHash = chain.length > 0 ? chain[chain.length - 1].entryHash : null;
+      entries.push({
+        accountId,
+        walletSeq,
+        reference: `REF_${walletSeq}`,
+        entryType: 'CREDIT',
+        amount: { toString: () => '10.0000' },
+        description: null,
+        prevHash,
+        entryHash: computeEntryHash(prevHash, accountId, walletSeq, `REF_${walletSeq}`, 'CREDIT', '10.0000', null),
+      });
+    }
+  }
+
+  function fullRoot(accountId: string): string {
+    return computeMerkleRoot(
+      entries.filter((e) => e.accountId === accountId).map((e) => hashEntryLeaf(e.entryHash))
+    );
+  }
+
+  beforeEach(() => {
+    entries = [];
+    nodes = [];
+    checkpoints = [];
+    prisma = {
+      $transaction: jest.fn(async (fn: any) => fn(prisma)),
+      ledgerEntry: {
+        groupBy: jest.fn(async () => {
+          const tips = new Map<string, number>();
+          for (const e of entries) {
+            tips.set(e.accountId, Math.max(tips.get(e.accountId) ?? 0, e.walletSeq));
+          }
+          return [...tips].map(([accountId, walletSeq]) => ({ accountId, _max: { walletSeq } }));
+        }),
+        findFirst: jest.fn(async ({ where }: any) =>
+          entries.find((e) => e.accountId === where.accountId && e.walletSeq === where.walletSeq) ?? null
+        ),
+        findMany: jest.fn(async ({ where, take }: any) => {
+          if (where.OR) {
+            return entries.filter((e) =>
+              where.OR.some((h: any) => h.accountId === e.accountId && h.walletSeq === e.walletSeq)
+            );
+          }
+          return entries
+            .filter((e) => e.accountId === where.accountId && e.walletSeq > where.walletSeq.gt)
+            .filter((e) => where.walletSeq.lte === undefined || e.walletSeq <= where.walletSeq.lte)
+            .slice(0, take);
+        }),
+      },
+      ledgerMerkleNode: {
+        findMany: jest.fn(async ({ where }: any) =>
+          nodes.filter((n) =>
+            n.accountId === where.accountId &&
+            where.OR.some((ref: any) => ref.level === n.level && ref.index === n.index)
+          )
+        ),
+        createMany: jest.fn(async ({ data }: any) => {
+          nodes.push(...data);
+          return { count: data.length };
+        }),
+      },
+      ledgerCheckpoint: {
+        findFirst: jest.fn(async () => checkpoints[checkpoints.length - 1] ?? null),
+        create: jest.fn(async ({ data }: any) => {
+          const { heads, ...rest } = data;
+          const checkpoint = { ...rest, id: `chk_${checkpoints.length + 1}`, heads: heads.create };
+          checkpoints.push(checkpoint);
+          return checkpoint;
+        }),
+      },
+    };
+  });
+
+  it('should sign each account\'s entries root', async () => {
+    append('ACC_A', 5);
+    append('ACC_B', 2);
+
+    const checkpoint = await createCheckpoint(prisma, signer);
+
+    const heads = new Map(checkpoint.heads.map((h) => [h.accountId, h]));
+    expect(heads.get('ACC_A')).toMatchObject({ walletSeq: 5, entriesRoot: fullRoot('ACC_A') });
+    expect(heads.get('ACC_B')).toMatchObject({ walletSeq: 2, entriesRoot: fullRoot('ACC_B') });
+    // Nodes of complete subtrees are stored: 5 leaves, 2 pairs, 1 quad for ACC_A
+    expect(nodes.filter((n) => n.accountId === 'ACC_A')).toHaveLength(8);
+  });
+
+  it('should read only entries posted since the previous checkpoint', async () => {
+    append('ACC_A', 5);
+    await createCheckpoint(prisma, signer);
+    append('ACC_A', 6);
+    prisma.ledgerEntry.findMany.mockClear();
+
+    const checkpoint = await createCheckpoint(prisma, signer);
+
+    expect(checkpoint.previousCheckpointId).toBe('chk_1');
+    expect(checkpoint.heads[0]).toMatchObject({ walletSeq: 11, entriesRoot: fullRoot('ACC_A') });
+    const scans = prisma.ledgerEntry.findMany.mock.calls.filter(([args]: any) => !args.where.OR);
+    // From the previous head (verified again) onwards
+    expect(scans.every(([args]: any) => args.where.walletSeq.gt === 4)).toBe(true);
+  });
+
+  it('should refuse to sign when history the previous checkpoint signed was rewritten', async () => {
+    append('ACC_A', 5);
+    await createCheckpoint(prisma, signer);
+    append('ACC_A', 1);
+    entries[4] = { ...entries[4], entryHash: 'f'.repeat(64) };
+
+    const error = await createCheckpoint(prisma, signer).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LedgerError);
+    expect(error.code).toBe('CHECKPOINT_PREFIX_MISMATCH');
+    expect(checkpoints).toHaveLength(1);
+  });
+
+  it('should refuse to sign when an account fell behind the previous checkpoint', async () => {
+    append('ACC_A', 5);
+    await createCheckpoint(prisma, signer);
+    entries = entries.slice(0, 3);
+
+    const error = await createCheckpoint(prisma, signer).catch((e) => e);
+
+    expect(error.code).toBe('CHECKPOINT_PREFIX_MISMATCH');
+    expect(error.details).toMatchObject({ accountId: 'ACC_A', signedSeq: 5, walletSeq: 3 });
+  });
+
+  it('should refuse to sign a chain segment that does not verify', async () => {
+    append('ACC_A', 5);
+    await createCheckpoint(prisma, signer);
+    append('ACC_A', 3);
+    entries[6] = { ...entries[6], amount: { toString: () => '99.0000' } };
+
+    const error = await createCheckpoint(prisma, signer).catch((e) => e);
+
+    expect(error.code).toBe('CHECKPOINT_CHAIN_BROKEN');
+    expect(error.details).toMatchObject({ accountId: 'ACC_A', brokenAtSeq: 7 });
+    expect(checkpoints).toHaveLength(1);
+  });
+
+  it('should rebuild the tree from genesis when the previous checkpoint has no stored nodes', async () => {
+    append('ACC_A', 5);
+    await createCheckpoint(prisma, signer);
+    nodes = [];
+    append('ACC_A', 2);
+
+    const checkpoint = await createCheckpoint(prisma, signer);
+
+    expect(checkpoint.heads[0].entriesRoot).toBe(fullRoot('ACC_A'));
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * Signed ledger checkpoints.
+ *
+ * A checkpoint records every account's chain head (walletSeq, entryHash)
+ * at one moment, a Merkle root over those heads, and a platform signature
+ * over the root. Because each entryHash commits to the whole chain before
+ * it, a signed checkpoint proves that no history up to those heads has
+ * been rewritten since it was taken. Chain verification can then start
+ * from the last trusted head instead of genesis.
+ *
+ * Each head also carries entriesRoot, a Merkle root over the account's
+ * entry hashes 1..walletSeq, so a single entry can be proven against the
+ * checkpoint with two short audit paths (see proof.ts).
+ *
+ * A checkpoint only signs history it has checked: each account's chain is
+ * verified from the previous checkpoint's head, which must still be in
+ * the chain unchanged. Its entries tree is continued from the same point
+ * (see entry-tree.ts), so a checkpoint reads only the entries posted
+ * since the last one.
+ *
+ * verifyCheckpoint and the hashing helpers need no database access.
+ */
+
+import type { PrismaClient } from '@syntherium/db';
+import * as crypto from 'crypto';
+import { computeMerkleRoot, hashMerkleLeaf } from './merkle';
+import { EntryTreeWriter } from './entry-tree';
+import { streamVerifyChain } from './verify';
+import { LedgerError } from './errors';
+
+// Keeps the OR filter for head lookups to a reasonable size
+const HEAD_BATCH_SIZE = 500;
+
+export interface CheckpointHead {
+  accountId: string;
+  walletSeq: number;
+  entryHash: string;
+  /** Merkle root over the account's entry hashes; absent on older checkpoints */
+  entriesRoot?: string | null;
+}
+
+export interface CheckpointSigner {
+  /** Identifies the key so verifiers can pick the matching public key */
+  keyId: string;
+  /** Ed25519 private key (PKCS#8 PEM) */
+  privateKey: string;
+}
+
+export interface CheckpointPayload {
+  merkleRoot: string;
+  accountCount: number;
+  previousCheckpointId: string | null;
+  keyId: string;
+  createdAt: string;
+}
+
+export interface SignedCheckpoint extends CheckpointPayload {
+  id: string;
+  signature: string;
+  heads: CheckpointHead[];
+}
+
+export interface VerifyCheckpointResult {
+  checkpointId: string;
+  valid: boolean;
+  message: string;
+}
+
+/**
+ * Hashes one account head into a Merkle leaf.
+ * entriesRoot is only included when present so that checkpoints taken
+ * before it existed still verify.
+ */
+export function hashCheckpointLeaf(head: CheckpointHead): string {
+  return hashMerkleLeaf(
+    JSON.stringify({
+      accountId: head.accountId,
+      walletSeq: head.walletSeq,
+      entryHash: head.entryHash,
+      ...(head.entriesRoot && { entriesRoot: head.entriesRoot }),
+    })
+  );
+}
+
+/**
+ * Hashes one ledger entry hash into a leaf of its account's entries tree.
+ */
+export function hashEntryLeaf(entryHash: string): string {
+  return hashMerkleLeaf(entryHash);
+}
+
+/**
+ * Orders heads by accountId, the leaf order of the checkpoint tree.
+ */
+export function sortCheckpointHeads<T extends CheckpointHead>(heads: T[]): T[] {
+  return [...heads].sort((a, b) => (a.accountId < b.accountId ? -1 : a.accountId > b.accountId ? 1 : 0));
+}
+
+/**
+ * Computes the Merkle root over account heads.
+ * Heads are ordered by accountId so the root is independent of input order.
+ */
+export function computeCheckpointRoot(heads: CheckpointHead[]): string {
+  return computeMerkleRoot(sortCheckpointHeads(heads).map(hashCheckpointLeaf));
+}
+
+/**
+ * Canonical bytes covered by the checkpoint signature.
+ */
+export function canonicalCheckpointPayload(payload: CheckpointPayload): string {
+  return JSON.stringify({
+    merkleRoot: payload.merkleRoot,
+    accountCount: payload.accountCount,
+    previousCheckpointId: payload.previousCheckpointId,
+    keyId: payload.keyId,
+    createdAt: payload.createdAt,
+  });
+}
+
+/**
+ * Signs a checkpoint payload. Returns a base64 Ed25519 signature.
+ */
+export function signCheckpointPayload(payload: CheckpointPayload, privateKey: string): string {
+  return crypto
+    .sign(null, Buffer.from(canonicalCheckpointPayload(payload)), privateKey)
+    .toString('base64');
+}
+
+/**
+ * Checks the signature over a checkpoint payload.
+ */
+export function verifyCheckpointSignature(
+  checkpoint: CheckpointPayload & { signature: string },
+  publicKey: string
+): boolean {
+  try {
+    return crypto.verify(
+      null,
+      Buffer.from(canonicalCheckpointPayload(checkpoint)),
+      publicKey,
+      Buffer.from(checkpoint.signature, 'base64')
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies a checkpoint without database access: recomputes the Merkle
+ * root from its heads and checks the signature with the public key.
+ *
+ * @param checkpoint - Checkpoint with heads, as published
+ * @param publicKey - Ed25519 public key (SPKI PEM) for checkpoint.keyId
+ */
+export function verifyCheckpoint(checkpoint: SignedCheckpoint, publicKey: string): VerifyCheckpointResult {
+  if (checkpoint.heads.length !== checkpoint.accountCount) {
+    return {
+      checkpointId: checkpoint.id,
+      valid: false,
+      message: `Expected ${checkpoint.accountCount} heads, got ${checkpoint.heads.length}`,
+    };
+  }
+
+  const merkleRoot = computeCheckpointRoot(checkpoint.heads);
+  if (merkleRoot !== checkpoint.merkleRoot) {
+    return {
+      checkpointId: checkpoint.id,
+      valid: false,
+      message: 'Merkle root does not match account heads',
+    };
+  }
+
+  const signatureValid = verifyCheckpointSignature(checkpoint, publicKey);
+
+  return {
+    checkpointId: checkpoint.id,
+    valid: signatureValid,
+    message: signatureValid ? 'Checkpoint signature verified' : 'Invalid checkpoint signature',
+  };
+}
+
+/**
+ * Creates and stores a signed checkpoint of every account's chain head.
+ *
+ * Heads are read from the ledger itself (not the balance cache) in one
+ * repeatable-read snapshot, so all heads belong to the same moment;
+ * entries up to them never change, so the rest runs outside it. Before
+ * signing, every account is checked against the previous checkpoint:
+ * its old head must be unchanged and its chain must verify from there to
+ * the new head. Accounts are checked from genesis when there is no
+ * previous checkpoint, or it was signed with another key.
+ *
+ * @param prisma - Prisma client
+ * @param signer - Platform signing key
+ * @returns The stored checkpoint
+ * @throws LedgerError CHECKPOINT_INVALID if the previous checkpoint does
+ *   not verify, CHECKPOINT_PREFIX_MISMATCH if history it signed was
+ *   rewritten or removed, CHECKPOINT_CHAIN_BROKEN if a chain does not
+ *   verify up to its new head, ENTRY_TREE_MISMATCH if stored tree nodes
+ *   no longer produce a signed entriesRoot
+ */
+export async function createCheckpoint(
+  prisma: PrismaClient,
+  signer: CheckpointSigner
+): Promise<SignedCheckpoint> {
+  const previous = await getCheckpoint(prisma);
+  const anchors = trustedHeads(previous, signer);
+
+  const heads = await prisma.$transaction(async (tx) => {
+    const tips = await tx.ledgerEntry.groupBy({
+      by: ['accountId'],
+      _max: { walletSeq: true },
+    });
+
+    const collected: CheckpointHead[] = [];
+    for (let i = 0; i < tips.length; i += HEAD_BATCH_SIZE) {
+      const batch = tips.slice(i, i + HEAD_BATCH_SIZE);
+      const entries = await tx.ledgerEntry.findMany({
+        where: {
+          OR: batch.map((t) => ({ accountId: t.accountId, walletSeq: t._max.walletSeq ?? 0 })),
+        },
+        select: { accountId: true, walletSeq: true, entryHash: true },
+      });
+      collected.push(...entries);
+    }
+    return collected;
+  }, {
+    isolationLevel: 'RepeatableRead',
+  });
+
+  // Every account the previous checkpoint signed must still reach its head
+  const seqByAccount = new Map(heads.map((head) => [head.accountId, head.walletSeq]));
+  for (const anchor of anchors.values()) {
+    const walletSeq = seqByAccount.get(anchor.accountId) ?? 0;
+    if (walletSeq < anchor.walletSeq) {
+      throw new LedgerError(
+        'CHECKPOINT_PREFIX_MISMATCH',
+        `Entries of ${anchor.accountId} signed by checkpoint ${previous!.id} are missing`,
+        { accountId: anchor.accountId, checkpointId: previous!.id, signedSeq: anchor.walletSeq, walletSeq }
+      );
+    }
+  }
+
+  for (const head of heads) {
+    head.entriesRoot = await extendAccount(prisma, head, anchors.get(head.accountId), previous?.id);
+  }
+
+  const payload: CheckpointPayload = {
+    merkleRoot: computeCheckpointRoot(heads),
+    accountCount: heads.length,
+    previousCheckpointId: previous?.id ?? null,
+    keyId: signer.keyId,
+    createdAt: new Date().toISOString(),
+  };
+  const signature = signCheckpointPayload(payload, signer.privateKey);
+
+  const checkpoint = await prisma.ledgerCheckpoint.create({
+    data: {
+      merkleRoot: payload.merkleRoot,
+      accountCount: payload.accountCount,
+      previousCheckpointId: payload.previousCheckpointId,
+      keyId: payload.keyId,
+      signature,
+      createdAt: new Date(payload.createdAt),
+      heads: { create: heads },
+    },
+  });
+
+  return { ...payload, id: checkpoint.id, signature, heads };
+}
+
+/**
+ * Loads a checkpoint with its heads (latest when no ID is given).
+ */
+export async function getCheckpoint(
+  prisma: PrismaClient,
+  checkpointId?: string
+): Promise<SignedCheckpoint | null> {
+  const checkpoint = checkpointId
+    ? await prisma.ledgerCheckpoint.findUnique({
+        where: { id: checkpointId },
+        include: { heads: true },
+      })
+    : await prisma.ledgerCheckpoint.findFirst({
+        orderBy: { createdAt: 'desc' },
+        include: { heads: true },
+      });
+
+  if (!checkpoint) {
+    return null;
+  }
+
+  return {
+    id: checkpoint.id,
+    merkleRoot: checkpoint.merkleRoot,
+    accountCount: checkpoint.accountCount,
+    previousCheckpointId: checkpoint.previousCheckpointId,
+    keyId: checkpoint.keyId,
+    createdAt: checkpoint.createdAt.toISOString(),
+    signature: checkpoint.signature,
+    heads: checkpoint.heads.map((h) => ({
+      accountId: h.accountId,
+      walletSeq: h.walletSeq,
+      entryHash: h.entryHash,
+      entriesRoot: h.entriesRoot,
+    })),
+  };
+}
+
+/**
+ * Heads of the previous checkpoint to verify from, by account. Empty when
+ * there is none, or it was signed with another key and so cannot be
+ * checked here.
+ */
+function trustedHeads(
+  previous: SignedCheckpoint | null,
+  signer: CheckpointSigner
+): Map<string, CheckpointHead> {
+  if (!previous || previous.keyId !== signer.keyId) {
+    return new Map();
+  }
+
+  const publicKey = crypto.createPublicKey(signer.privateKey).export({ type: 'spki', format: 'pem' }).toString();
+  const result = verifyCheckpoint(previous, publicKey);
+  if (!result.valid) {
+    throw new LedgerError(
+      'CHECKPOINT_INVALID',
+      `Previous checkpoint ${previous.id} does not verify: ${result.message}`,
+      { checkpointId: previous.id }
+    );
+  }
+
+  return new Map(previous.heads.map((head) => [head.accountId, head]));
+}
+
+/**
+ * Verifies an account's chain from its previous head (or genesis) up to
+ * the new head, appending the entries on the way to its entries tree.
+ *
+ * @returns The entriesRoot at the new head
+ */
+async function extendAccount(
+  prisma: PrismaClient,
+  head: CheckpointHead,
+  anchor: CheckpointHead | undefined,
+  previousCheckpointId: string | undefined
+): Promise<string> {
+  const { accountId } = head;
+
+  // The tree continues from the previous head when its frontier is stored
+  // and still produces the signed root; older checkpoints predate stored
+  // nodes, so those trees are rebuilt from genesis once
+  const opened = anchor?.entriesRoot ? await EntryTreeWriter.open(prisma, accountId, anchor.walletSeq) : null;
+  if (opened && opened.root() !== anchor?.entriesRoot) {
+    throw entryTreeMismatch(accountId, anchor!.walletSeq, previousCheckpointId);
+  }
+  const tree = opened ?? EntryTreeWriter.empty(prisma, accountId);
+
+  // History the previous checkpoint signed must still be in the chain
+  if (anchor) {
+    const signed = await prisma.ledgerEntry.findFirst({
+      where: { accountId, walletSeq: anchor.walletSeq },
+      select: { entryHash: true },
+    });
+    if (signed?.entryHash !== anchor.entryHash) {
+      throw new LedgerError(
+        'CHECKPOINT_PREFIX_MISMATCH',
+        `Entry ${accountId}#${anchor.walletSeq} no longer matches checkpoint ${previousCheckpointId}`,
+        {
+          accountId,
+          checkpointId: previousCheckpointId,
+          walletSeq: anchor.walletSeq,
+          signedHash: anchor.entryHash,
+          entryHash: signed?.entryHash ?? null,
+        }
+      );
+    }
+  }
+
+  // A rebuilt tree has to replay the chain from genesis anyway
+  const fromAnchor = anchor && tree.size > 0;
+
+  const result = await streamVerifyChain(prisma, accountId, {
+    anchor: fromAnchor ? { walletSeq: anchor.walletSeq, entryHash: anchor.entryHash } : undefined,
+    toSeq: head.walletSeq,
+    onEntries: async (entries) => {
+      for (const entry of entries) {
+        // The anchor entry is verified again but is already in the tree
+        if (entry.walletSeq <= tree.size) {
+          continue;
+        }
+        if (entry.walletSeq !== tree.size + 1) {
+          throw new LedgerError(
+            'CHECKPOINT_CHAIN_BROKEN',
+            `Sequence gap in ${accountId} before ${entry.walletSeq}`,
+            { accountId, walletSeq: entry.walletSeq }
+          );
+        }
+        await tree.append(hashEntryLeaf(entry.entryHash));
+
+        // A rebuilt tree must reproduce the root already signed
+        if (!fromAnchor && anchor?.entriesRoot && tree.size === anchor.walletSeq && tree.root() !== anchor.entriesRoot) {
+          throw entryTreeMismatch(accountId, anchor.walletSeq, previousCheckpointId);
+        }
+      }
+    },
+  });
+
+  if (!result.valid) {
+    throw new LedgerError('CHECKPOINT_CHAIN_BROKEN', `${result.message} in ${accountId}`, {
+      accountId,
+      brokenAtSeq: result.brokenAtSeq,
+      expectedHash: result.expectedHash,
+      actualHash: result.actualHash,
+    });
+  }
+
+  if (result.lastVerified?.walletSeq !== head.walletSeq || result.lastVerified.entryHash !== head.entryHash) {
+    throw new LedgerError(
+      'CHECKPOINT_CHAIN_BROKEN',
+      `Chain of ${accountId} does not end at its head ${head.walletSeq}`,
+      { accountId, walletSeq: head.walletSeq, lastVerifiedSeq: result.lastVerified?.walletSeq ?? null }
+    );
+  }
+
+  await tree.flush();
+  return tree.root();
+}
+
+function entryTreeMismatch(accountId: string, walletSeq: number, checkpointId: string | undefined): LedgerError {
+  return new LedgerError(
+    'ENTRY_TREE_MISMATCH',
+    `Entry tree of ${accountId} does not match checkpoint ${checkpointId}`,
+    { accountId, checkpointId, walletSeq }
+  );
+}
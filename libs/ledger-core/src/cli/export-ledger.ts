@@ -0,0 +1,70 @@
+/**
+ * Ledger export command.
+ *
+ * Writes an account's entries, or the entire ledger, as NDJSON with a
+ * manifest of chain heads on the last line. Check the file with
+ * verify-ledger-export.
+ *
+ * Usage:
+ *   pnpm ledger:export --out ledger.ndjson [--account PLATFORM_ESCROW]
+ *     [--from 2024-01-01T00:00:00Z] [--to 2024-02-01T00:00:00Z]
+ */
+
+import * as fs from 'fs';
+import { once } from 'events';
+import { PrismaClient } from '@syntherium/db';
+import { exportLedger } from '../export';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+function parseDate(name: string, value: string | undefined): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`--${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.out) {
+    throw new Error('--out is required');
+  }
+
+  const from = parseDate('from', args.from);
+  const to = parseDate('to', args.to);
+  const prisma = new PrismaClient();
+  const out = fs.createWriteStream(args.out);
+
+  try {
+    const manifest = await exportLedger(prisma, { accountId: args.account, from, to }, async (line) => {
+      if (!out.write(line + '\n')) {
+        await once(out, 'drain');
+      }
+    });
+
+    out.end();
+    await once(out, 'finish');
+
+    console.log(`Exported ${manifest.entryCount} entries across ${manifest.accounts.length} accounts to ${args.out}`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
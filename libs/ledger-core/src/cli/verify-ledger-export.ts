@@ -0,0 +1,44 @@
+/**
+ * Offline ledger export verifier.
+ *
+ * Recomputes every entry hash in an export and checks each account's
+ * chain and the manifest, with no database access. Exits 0 when the file
+ * is complete and untampered, 1 otherwise.
+ *
+ * Usage:
+ *   pnpm ledger:verify-export ledger.ndjson
+ */
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { verifyLedgerExport } from '../export';
+
+async function main() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error('Usage: verify-ledger-export <file.ndjson>');
+    process.exit(2);
+  }
+
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  const result = await verifyLedgerExport(lines);
+
+  if (result.valid) {
+    const { manifest } = result;
+    console.log(result.message);
+    console.log(`Period: ${manifest!.from ?? 'genesis'} to ${manifest!.to}`);
+    for (const head of manifest!.accounts) {
+      console.log(`  ${head.accountId} seq ${head.firstSeq}-${head.lastSeq} head ${head.headHash}`);
+    }
+    return;
+  }
+
+  const where = [result.line && `line ${result.line}`, result.accountId].filter(Boolean).join(', ');
+  console.error(`INVALID${where ? ` (${where})` : ''}: ${result.message}`);
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+/**
+ * Ledger Core Concurrency Harness
+ *
+ * Fires hundreds of parallel postings at one hot wallet and checks
+ * that the chain stays gap-free:
+ * - every posting commits (after retries)
+ * - walletSeq runs 1..N with no gaps or duplicates
+ * - the hash chain verifies end to end
+ * - the balance cache matches the entries
+ *
+ * Requires a migrated Postgres database:
+ *   LEDGER_TEST_DATABASE_URL=postgresql://... pnpm --filter @syntherium/ledger-core test
+ *
+ * Tune with LEDGER_CONCURRENCY_POSTINGS (default 300).
+ */
+
+import { PrismaClient, LedgerEntryType, AccountType, AccountOwnerType, OverdraftPolicy } from '@syntherium/db';
+import { postJournal, runLedgerTransaction, verifyChain, recomputeBalance, openAccount } from './index';
+
+const databaseUrl = process.env.LEDGER_TEST_DATABASE_URL;
+const describeWithDatabase = databaseUrl ? describe : describe.skip;
+
+const POSTINGS = parseInt(process.env.LEDGER_CONCURRENCY_POSTINGS || '300', 10);
+const AMOUNT = '10.0000';
+
+describeWithDatabase('appendEntry under concurrent access (requires database)', () => {
+  let prisma: PrismaClient;
+  const runId = Date.now().toString(36).toUpperCase();
+  const hotWallet = `HOT_WALLET_${runId}`;
+  const sourceWallet = `HOT_SOURCE_${runId}`;
+
+  beforeAll(async () => {
+    prisma = new PrismaClient({ datasources: { db: { url: databaseUrl } } });
+    await prisma.$connect();
+
+    for (const [accountId, overdraftPolicy] of [
+      [hotWallet, OverdraftPolicy.NONE],
+      [sourceWallet, OverdraftPolicy.UNLIMITED],
+    ] as const) {
+      await openAccount(prisma, {
+        accountId,
+        type: AccountType.LIABILITY,
+        ownerType: AccountOwnerType.PLATFORM,
+        currency: 'NGN',
+        overdraftPolicy,
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it(`should keep the chain gap-free across ${POSTINGS} parallel postings`, async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: POSTINGS }, (_, i) =>
+        runLedgerTransaction(
+          prisma,
+          (tx) =>
+            postJournal(tx, {
+              reference: `CONCURRENCY_${runId}_${i}`,
+              description: `Concurrency posting ${i}`,
+              legs: [
+                { accountId: sourceWallet, entryType: LedgerEntryType.DEBIT, amount: AMOUNT },
+                { accountId: hotWallet, entryType: LedgerEntryType.CREDIT, amount: AMOUNT },
+              ],
+            }),
+          // Hundreds of transactions queue on one lock and a small pool
+          { timeout: 120000, maxWait: 120000, maxRetries: 10 }
+        )
+      )
+    );
+
+    const failures = results.filter((r) => r.status === 'rejected') as PromiseRejectedResult[];
+    expect(failures.map((f) => String(f.reason))).toEqual([]);
+
+    for (const accountId of [hotWallet, sourceWallet]) {
+      const entries = await prisma.ledgerEntry.findMany({
+        where: { accountId },
+        orderBy: { walletSeq: 'asc' },
+        select: { walletSeq: true },
+      });
+
+      // Gap-free and duplicate-free: exactly 1..N
+      expect(entries.map((e) => e.walletSeq)).toEqual(
+        Array.from({ length: POSTINGS }, (_, i) => i + 1)
+      );
+
+      const chain = await verifyChain(prisma, accountId);
+      expect(chain.valid).toBe(true);
+      expect(chain.entriesVerified).toBe(POSTINGS);
+
+      const cache = await prisma.walletBalanceCache.findUnique({ where: { accountId } });
+      expect(cache?.lastEntrySeq).toBe(POSTINGS);
+      expect(cache?.balance.toString()).toBe((await recomputeBalance(prisma, accountId)).toString());
+    }
+
+    const hot = await prisma.walletBalanceCache.findUnique({ where: { accountId: hotWallet } });
+    expect(hot?.balance.toFixed(4)).toBe((POSTINGS * parseFloat(AMOUNT)).toFixed(4));
+  }, 300000);
+
+  it('should post a repeated reference only once when raced', async () => {
+    const reference = `CONCURRENCY_${runId}_DUPLICATE`;
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 20 }, () =>
+        runLedgerTransaction(
+          prisma,
+          (tx) =>
+            postJournal(tx, {
+              reference,
+              legs: [
+                { accountId: sourceWallet, entryType: LedgerEntryType.DEBIT, amount: AMOUNT },
+                { accountId: hotWallet, entryType: LedgerEntryType.CREDIT, amount: AMOUNT },
+              ],
+            }),
+          { timeout: 60000, maxWait: 60000, maxRetries: 10 }
+        )
+      )
+    );
+
+    const journalIds = new Set(
+      results
+        .filter((r) => r.status === 'fulfilled')
+        .map((r) => (r as PromiseFulfilledResult<{ journalId: string }>).value.journalId)
+    );
+    expect(journalIds.size).toBe(1);
+
+    const posted = await prisma.ledgerEntry.count({ where: { reference } });
+    expect(posted).toBe(2);
+  }, 120000);
+});
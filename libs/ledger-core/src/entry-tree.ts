@@ -0,0 +1,113 @@
+/**
+ * Persisted entry trees.
+ *
+ * Each account's entriesRoot is the Merkle root over its entry hashes.
+ * Instead of rebuilding that tree from every entry, checkpoints store
+ * each perfect subtree as it completes (LedgerMerkleNode) and continue
+ * the tree from the previous checkpoint's frontier, so a checkpoint reads
+ * only the entries posted since. Inclusion proofs are assembled from the
+ * same stored nodes.
+ *
+ * Leaves are passed in already hashed (see hashEntryLeaf in checkpoint.ts).
+ */
+
+import type { PrismaClient } from '@syntherium/db';
+import { MerkleAccumulator, MerkleNode, MerkleNodeRef, perfectSubtrees } from './merkle';
+
+/** Nodes written per insert */
+const NODE_BATCH_SIZE = 1000;
+
+/**
+ * Loads stored nodes of an account's entries tree.
+ *
+ * @returns Hashes in the order of refs, or null if any node is not stored
+ */
+export async function loadMerkleNodes(
+  prisma: PrismaClient,
+  accountId: string,
+  refs: MerkleNodeRef[]
+): Promise<string[] | null> {
+  if (refs.length === 0) {
+    return [];
+  }
+
+  const nodes = await prisma.ledgerMerkleNode.findMany({
+    where: { accountId, OR: refs.map(({ level, index }) => ({ level, index })) },
+    select: { level: true, index: true, hash: true },
+  });
+  const byPosition = new Map(nodes.map((node) => [`${node.level}/${node.index}`, node.hash]));
+
+  const hashes: string[] = [];
+  for (const { level, index } of refs) {
+    const hash = byPosition.get(`${level}/${index}`);
+    if (hash === undefined) {
+      return null;
+    }
+    hashes.push(hash);
+  }
+  return hashes;
+}
+
+/**
+ * Appends leaves to an account's entries tree, storing every subtree
+ * they complete. Nodes are buffered; call flush() before relying on them.
+ */
+export class EntryTreeWriter {
+  private pending: MerkleNode[] = [];
+
+  private constructor(
+    private prisma: PrismaClient,
+    private accountId: string,
+    private accumulator: MerkleAccumulator
+  ) {}
+
+  /**
+   * Opens the account's tree at the given size from its stored frontier.
+   *
+   * @returns null when the frontier is not stored (e.g. the tree was
+   *   never built that far); start from empty() and replay the entries
+   */
+  static async open(prisma: PrismaClient, accountId: string, size: number): Promise<EntryTreeWriter | null> {
+    const refs = perfectSubtrees(0, size);
+    const hashes = await loadMerkleNodes(prisma, accountId, refs);
+    if (!hashes) {
+      return null;
+    }
+
+    const frontier = refs.map((ref, i) => ({ ...ref, hash: hashes[i] }));
+    return new EntryTreeWriter(prisma, accountId, new MerkleAccumulator(frontier));
+  }
+
+  static empty(prisma: PrismaClient, accountId: string): EntryTreeWriter {
+    return new EntryTreeWriter(prisma, accountId, new MerkleAccumulator());
+  }
+
+  get size(): number {
+    return this.accumulator.size;
+  }
+
+  root(): string {
+    return this.accumulator.root();
+  }
+
+  async append(leafHash: string): Promise<void> {
+    this.pending.push(...this.accumulator.push(leafHash));
+    if (this.pending.length >= NODE_BATCH_SIZE) {
+      await this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) {
+      return;
+    }
+
+    // Nodes are a pure function of immutable entries; a node stored by an
+    // earlier, interrupted run is the same node
+    await this.prisma.ledgerMerkleNode.createMany({
+      data: this.pending.map((node) => ({ accountId: this.accountId, ...node })),
+      skipDuplicates: true,
+    });
+    this.pending = [];
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Error raised when a ledger operation violates a ledger invariant.
+ * Carries a machine-readable code in the same shape as API errors.
+ */
+export class LedgerError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
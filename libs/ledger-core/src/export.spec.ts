@@ -0,0 +1,144 @@
+/**
+ * Ledger Export Unit Tests
+ *
+ * Tests for:
+ * - NDJSON export grouped by account with a manifest of chain heads
+ * - Period exports anchored on the previous period's head
+ * - Offline verification of complete files
+ * - Detection of tampered and missing lines
+ */
+
+import { computeEntryHash } from './hash';
+import { exportLedger, verifyLedgerExport } from './export';
+
+describe('Ledger export', () => {
+  let entries: any[];
+  let prisma: any;
+
+  const chain = (accountId: string, count: number, createdAt: (seq: number) => Date) => {
+    let prevHash: string | null = null;
+    for (let seq = 1; seq <= count; seq++) {
+      const entryHash = computeEntryHash(prevHash, accountId, seq, `REF_${seq}`, 'CREDIT', '10.0000', null);
+      entries.push({
+        id: `${accountId}_${seq}`,
+        accountId,
+        walletSeq: seq,
+        reference: `REF_${seq}`,
+        entryType: 'CREDIT',
+        amount: { toString: () => '10.0000' },
+        currency: 'NGN',
+        description: null,
+        reversesEntryId: null,
+        prevHash,
+        entryHash,
+        orderId: null,
+        journalId: null,
+        createdAt: createdAt(seq),
+      });
+      prevHash = entryHash;
+    }
+  };
+
+  const inPeriod = (entry: any, where: any) =>
+    (!where.accountId || entry.accountId === where.accountId) &&
+    (!where.createdAt.gte || entry.createdAt >= where.createdAt.gte) &&
+    entry.createdAt < where.createdAt.lt;
+
+  const exportLines = async (options = {}) => {
+    const lines: string[] = [];
+    await exportLedger(prisma, { pageSize: 2, ...options }, (line) => {
+      lines.push(line);
+    });
+    return lines;
+  };
+
+  beforeEach(() => {
+    entries = [];
+    chain('VENDOR_B', 3, (seq) => new Date(`2024-01-0${seq}T12:00:00Z`));
+    chain('VENDOR_A', 5, (seq) => new Date(`2024-01-0${seq}T12:00:00Z`));
+
+    prisma = {
+      ledgerEntry: {
+        groupBy: jest.fn(async ({ where }: any) => {
+          const ranges = new Map<string, any>();
+          for (const e of entries.filter((e) => inPeriod(e, where))) {
+            const range = ranges.get(e.accountId) ?? { accountId: e.accountId, _min: { walletSeq: e.walletSeq }, _max: { walletSeq: 0 } };
+            range._max.walletSeq = Math.max(range._max.walletSeq, e.walletSeq);
+            ranges.set(e.accountId, range);
+          }
+          return [...ranges.values()];
+        }),
+        findMany: jest.fn(async ({ where, take }: any) =>
+          entries
+            .filter((e) => e.accountId === where.accountId && e.walletSeq > where.walletSeq.gt && e.walletSeq <= where.walletSeq.lte)
+            .sort((a, b) => a.walletSeq - b.walletSeq)
+            .slice(0, take)
+        ),
+      },
+    };
+  });
+
+  it('should export every account in walletSeq order followed by a manifest', async () => {
+    const lines = await exportLines();
+    const manifest = JSON.parse(lines[lines.length - 1]);
+
+    expect(lines).toHaveLength(9);
+    expect(lines.slice(0, 8).map((l) => JSON.parse(l).id)).toEqual([
+      'VENDOR_A_1', 'VENDOR_A_2', 'VENDOR_A_3', 'VENDOR_A_4', 'VENDOR_A_5',
+      'VENDOR_B_1', 'VENDOR_B_2', 'VENDOR_B_3',
+    ]);
+    expect(manifest).toMatchObject({ type: 'manifest', accountId: null, from: null, entryCount: 8 });
+    expect(manifest.accounts[0]).toMatchObject({
+      accountId: 'VENDOR_A',
+      firstSeq: 1,
+      lastSeq: 5,
+      prevHash: null,
+      headHash: entries.find((e) => e.id === 'VENDOR_A_5').entryHash,
+    });
+
+    await expect(verifyLedgerExport(lines)).resolves.toMatchObject({ valid: true, entriesVerified: 8, accountsVerified: 2 });
+  });
+
+  it('should anchor a period export on the hash before it', async () => {
+    const lines = await exportLines({
+      accountId: 'VENDOR_A',
+      from: new Date('2024-01-03T00:00:00Z'),
+      to: new Date('2024-01-05T00:00:00Z'),
+    });
+    const manifest = JSON.parse(lines[lines.length - 1]);
+
+    expect(manifest.accounts).toEqual([
+      expect.objectContaining({
+        firstSeq: 3,
+        lastSeq: 4,
+        prevHash: entries.find((e) => e.id === 'VENDOR_A_2').entryHash,
+      }),
+    ]);
+    await expect(verifyLedgerExport(lines)).resolves.toMatchObject({ valid: true, entriesVerified: 2 });
+  });
+
+  it('should reject a tampered entry', async () => {
+    const lines = await exportLines();
+    lines[1] = lines[1].replace('"amount":"10.0000"', '"amount":"1000.0000"');
+
+    await expect(verifyLedgerExport(lines)).resolves.toMatchObject({ valid: false, line: 2, accountId: 'VENDOR_A' });
+  });
+
+  it('should reject files with missing entries or no manifest', async () => {
+    const lines = await exportLines();
+
+    const withoutFirst = lines.slice(1);
+    await expect(verifyLedgerExport(withoutFirst)).resolves.toMatchObject({ valid: false });
+
+    const withoutMiddle = [...lines.slice(0, 2), ...lines.slice(3)];
+    await expect(verifyLedgerExport(withoutMiddle)).resolves.toMatchObject({ valid: false, line: 3 });
+
+    const withoutLast = [...lines.slice(0, 7), lines[8]];
+    await expect(verifyLedgerExport(withoutLast)).resolves.toMatchObject({ valid: false });
+
+    await expect(verifyLedgerExport(lines.slice(0, -1))).resolves.toMatchObject({
+      valid: false,
+      message: 'Manifest missing; the export is truncated',
+    });
+  });
+});
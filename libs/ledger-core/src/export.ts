@@ -0,0 +1,340 @@
+/**
+ * Ledger export and offline verification.
+ *
+ * An export is NDJSON: one line per entry, grouped by account in
+ * walletSeq order, then a manifest line with each account's chain head.
+ * Entries carry every field their hash covers, so the file can be
+ * checked with computeEntryHash alone; verifyLedgerExport needs no
+ * database and only depends on ./hash at runtime.
+ *
+ * A period export starts each account at its first entry in the period;
+ * that entry's prevHash must equal the headHash of the previous period's
+ * export, so consecutive exports chain into the full history.
+ */
+
+import type { PrismaClient, Prisma } from '@syntherium/db';
+import { computeEntryHash } from './hash';
+
+/** Format version written to the manifest */
+export const LEDGER_EXPORT_VERSION = 1;
+
+/** Entries read per page while exporting */
+const EXPORT_PAGE_SIZE = 1000;
+
+export interface ExportedEntry {
+  type: 'entry';
+  id: string;
+  accountId: string;
+  walletSeq: number;
+  reference: string;
+  entryType: string;
+  amount: string;
+  currency: string;
+  description: string | null;
+  reversesEntryId: string | null;
+  prevHash: string | null;
+  entryHash: string;
+  /** Not covered by the entry hash */
+  orderId: string | null;
+  /** Not covered by the entry hash */
+  journalId: string | null;
+  /** Not covered by the entry hash */
+  createdAt: string;
+}
+
+export interface ExportedAccountHead {
+  accountId: string;
+  currency: string;
+  firstSeq: number;
+  lastSeq: number;
+  entryCount: number;
+  /** Hash the first exported entry chains from; null when it is genesis */
+  prevHash: string | null;
+  /** entryHash of the last exported entry */
+  headHash: string;
+}
+
+export interface LedgerExportManifest {
+  type: 'manifest';
+  version: number;
+  exportedAt: string;
+  /** Account exported, or null for the entire ledger */
+  accountId: string | null;
+  /** Start of the period, or null for everything since genesis */
+  from: string | null;
+  /** End of the period (exclusive) */
+  to: string;
+  entryCount: number;
+  accounts: ExportedAccountHead[];
+}
+
+export interface ExportLedgerOptions {
+  /** Export one account instead of the entire ledger */
+  accountId?: string;
+  /** Entries created at or after this time (default: genesis) */
+  from?: Date;
+  /** Entries created before this time (default: now) */
+  to?: Date;
+  pageSize?: number;
+}
+
+export interface VerifyExportResult {
+  valid: boolean;
+  entriesVerified: number;
+  accountsVerified: number;
+  manifest: LedgerExportManifest | null;
+  /** 1-based line of the first problem found */
+  line?: number;
+  accountId?: string;
+  message: string;
+}
+
+/**
+ * Writes entries and then the manifest, one NDJSON line per call.
+ *
+ * The period is resolved to a walletSeq range per account, and every
+ * entry in that range is exported, so each account's chain in the file
+ * has no gaps even where createdAt is not strictly ordered.
+ *
+ * @param write - Receives each line without a trailing newline
+ * @returns The manifest written last
+ */
+export async function exportLedger(
+  prisma: PrismaClient,
+  options: ExportLedgerOptions,
+  write: (line: string) => Promise<void> | void
+): Promise<LedgerExportManifest> {
+  const { accountId, from } = options;
+  const pageSize = options.pageSize ?? EXPORT_PAGE_SIZE;
+  const exportedAt = new Date();
+  const to = options.to ?? exportedAt;
+
+  const where: Prisma.LedgerEntryWhereInput = {
+    ...(accountId && { accountId }),
+    createdAt: { ...(from && { gte: from }), lt: to },
+  };
+
+  const ranges = await prisma.ledgerEntry.groupBy({
+    by: ['accountId'],
+    where,
+    _min: { walletSeq: true },
+    _max: { walletSeq: true },
+  });
+  ranges.sort((a, b) => (a.accountId < b.accountId ? -1 : a.accountId > b.accountId ? 1 : 0));
+
+  const accounts: ExportedAccountHead[] = [];
+  let entryCount = 0;
+
+  for (const range of ranges) {
+    const lastSeq = range._max.walletSeq!;
+    let afterSeq = range._min.walletSeq! - 1;
+    let head: ExportedAccountHead | null = null;
+
+    while (afterSeq < lastSeq) {
+      const entries = await prisma.ledgerEntry.findMany({
+        where: { accountId: range.accountId, walletSeq: { gt: afterSeq, lte: lastSeq } },
+        orderBy: { walletSeq: 'asc' },
+        take: pageSize,
+      });
+
+      if (entries.length === 0) {
+        break;
+      }
+
+      for (const entry of entries) {
+        const exported: ExportedEntry = {
+          type: 'entry',
+          id: entry.id,
+          accountId: entry.accountId,
+          walletSeq: entry.walletSeq,
+          reference: entry.reference,
+          entryType: entry.entryType,
+          amount: entry.amount.toString(),
+          currency: entry.currency,
+          description: entry.description,
+          reversesEntryId: entry.reversesEntryId,
+          prevHash: entry.prevHash,
+          entryHash: entry.entryHash,
+          orderId: entry.orderId,
+          journalId: entry.journalId,
+          createdAt: entry.createdAt.toISOString(),
+        };
+        await write(JSON.stringify(exported));
+
+        head ??= {
+          accountId: entry.accountId,
+          currency: entry.currency,
+          firstSeq: entry.walletSeq,
+          lastSeq: entry.walletSeq,
+          entryCount: 0,
+          prevHash: entry.prevHash,
+          headHash: entry.entryHash,
+        };
+        head.lastSeq = entry.walletSeq;
+        head.headHash = entry.entryHash;
+        head.entryCount++;
+      }
+
+      afterSeq = entries[entries.length - 1].walletSeq;
+    }
+
+    if (head) {
+      accounts.push(head);
+      entryCount += head.entryCount;
+    }
+  }
+
+  const manifest: LedgerExportManifest = {
+    type: 'manifest',
+    version: LEDGER_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    accountId: accountId ?? null,
+    from: from?.toISOString() ?? null,
+    to: to.toISOString(),
+    entryCount,
+    accounts,
+  };
+  await write(JSON.stringify(manifest));
+
+  return manifest;
+}
+
+/**
+ * Checks an export end to end without a database: every entry hash is
+ * recomputed, each account's entries must chain with no gaps, and the
+ * manifest on the last line must match what the file contains. An
+ * export from genesis must start every account at walletSeq 1.
+ *
+ * @param lines - The file's lines, e.g. from readline
+ */
+export async function verifyLedgerExport(
+  lines: AsyncIterable<string> | Iterable<string>
+): Promise<VerifyExportResult> {
+  const heads = new Map<string, ExportedAccountHead>();
+  let manifest: LedgerExportManifest | null = null;
+  let entriesVerified = 0;
+  let lineNo = 0;
+
+  const fail = (message: string, accountId?: string): VerifyExportResult => ({
+    valid: false,
+    entriesVerified,
+    accountsVerified: 0,
+    manifest,
+    line: lineNo,
+    ...(accountId && { accountId }),
+    message,
+  });
+
+  for await (const line of lines) {
+    lineNo++;
+    if (line.trim() === '') {
+      continue;
+    }
+    if (manifest) {
+      return fail('Content after the manifest');
+    }
+
+    let record: ExportedEntry | LedgerExportManifest;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return fail('Line is not valid JSON');
+    }
+
+    if (record.type === 'manifest') {
+      manifest = record;
+      continue;
+    }
+    if (record.type !== 'entry') {
+      return fail('Unknown record type');
+    }
+
+    const entry = record;
+    const head = heads.get(entry.accountId);
+
+    if (head) {
+      if (entry.walletSeq !== head.lastSeq + 1) {
+        return fail(`Expected walletSeq ${head.lastSeq + 1}, found ${entry.walletSeq}`, entry.accountId);
+      }
+      if (entry.prevHash !== head.headHash) {
+        return fail(`Chain broken at sequence ${entry.walletSeq}`, entry.accountId);
+      }
+    }
+
+    const expectedHash = computeEntryHash(
+      entry.prevHash,
+      entry.accountId,
+      entry.walletSeq,
+      entry.reference,
+      entry.entryType,
+      entry.amount,
+      entry.description,
+      entry.currency,
+      entry.reversesEntryId ?? null
+    );
+    if (expectedHash !== entry.entryHash) {
+      return fail(`Entry fields do not match entry hash at sequence ${entry.walletSeq}`, entry.accountId);
+    }
+
+    if (head) {
+      head.lastSeq = entry.walletSeq;
+      head.headHash = entry.entryHash;
+      head.entryCount++;
+    } else {
+      heads.set(entry.accountId, {
+        accountId: entry.accountId,
+        currency: entry.currency,
+        firstSeq: entry.walletSeq,
+        lastSeq: entry.walletSeq,
+        entryCount: 1,
+        prevHash: entry.prevHash,
+        headHash: entry.entryHash,
+      });
+    }
+    entriesVerified++;
+  }
+
+  if (!manifest) {
+    return fail('Manifest missing; the export is truncated');
+  }
+
+  if (manifest.version !== LEDGER_EXPORT_VERSION) {
+    return fail(`Unsupported export version ${manifest.version}`);
+  }
+
+  if (manifest.accounts.length !== heads.size || manifest.entryCount !== entriesVerified) {
+    return fail(
+      `Manifest lists ${manifest.accounts.length} accounts and ${manifest.entryCount} entries; ` +
+      `file has ${heads.size} and ${entriesVerified}`
+    );
+  }
+
+  for (const expected of manifest.accounts) {
+    const actual = heads.get(expected.accountId);
+    if (!actual) {
+      return fail('Manifest lists an account with no entries in the file', expected.accountId);
+    }
+    if (manifest.accountId && expected.accountId !== manifest.accountId) {
+      return fail(`Export of ${manifest.accountId} contains another account`, expected.accountId);
+    }
+
+    const mismatch = (['firstSeq', 'lastSeq', 'entryCount', 'prevHash', 'headHash'] as const).find(
+      (field) => actual[field] !== expected[field]
+    );
+    if (mismatch) {
+      return fail(`Manifest ${mismatch} does not match the entries`, expected.accountId);
+    }
+
+    if (manifest.from === null && (actual.firstSeq !== 1 || actual.prevHash !== null)) {
+      return fail('Export from genesis does not start at walletSeq 1', expected.accountId);
+    }
+  }
+
+  return {
+    valid: true,
+    entriesVerified,
+    accountsVerified: heads.size,
+    manifest,
+    message: `Verified ${entriesVerified} entries across ${heads.size} accounts`,
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Foreign exchange for the ledger.
+ *
+ * Wallets hold exactly one currency, so value only moves between
+ * currencies through an explicit conversion: the source currency is
+ * paid into the platform's FX position for that currency, and the
+ * target currency is paid out of the FX position for the target
+ * currency. Each currency balances on its own within the journal, and
+ * the FX_POSITION_* balances show the platform's open exposure.
+ */
+
+import { PrismaClient, Prisma, LedgerEntryType } from '@syntherium/db';
+import type { JournalLeg } from './index';
+import { LedgerError } from './errors';
+
+/** Currency of every wallet and entry unless stated otherwise */
+export const BASE_CURRENCY = 'NGN';
+
+/** Rates are stored with 8 decimals; converted amounts use ledger precision */
+const AMOUNT_DECIMALS = 4;
+
+export interface FxQuote {
+  baseCurrency: string;
+  quoteCurrency: string;
+  /** Units of quoteCurrency per one unit of baseCurrency */
+  rate: Prisma.Decimal;
+  source: string;
+  effectiveAt: Date;
+  /** FxRate row the quote came from, if any */
+  rateId?: string;
+}
+
+/**
+ * Supplies exchange rates for conversion journals.
+ */
+export interface FxRateSource {
+  getRate(baseCurrency: string, quoteCurrency: string, asOf?: Date): Promise<FxQuote>;
+}
+
+/**
+ * Rate source backed by the local fx_rates table.
+ *
+ * Uses the latest rate effective at or before asOf. When only the
+ * reverse pair is stored, its inverse is used.
+ */
+export class PrismaFxRateSource implements FxRateSource {
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  async getRate(baseCurrency: string, quoteCurrency: string, asOf: Date = new Date()): Promise<FxQuote> {
+    if (baseCurrency === quoteCurrency) {
+      return {
+        baseCurrency,
+        quoteCurrency,
+        rate: new Prisma.Decimal(1),
+        source: 'identity',
+        effectiveAt: asOf,
+      };
+    }
+
+    const direct = await this.findLatest(baseCurrency, quoteCurrency, asOf);
+    if (direct) {
+      return {
+        baseCurrency,
+        quoteCurrency,
+        rate: direct.rate,
+        source: direct.source,
+        effectiveAt: direct.effectiveAt,
+        rateId: direct.id,
+      };
+    }
+
+    const inverse = await this.findLatest(quoteCurrency, baseCurrency, asOf);
+    if (inverse) {
+      return {
+        baseCurrency,
+        quoteCurrency,
+        rate: new Prisma.Decimal(1).div(inverse.rate),
+        source: `${inverse.source} (inverse)`,
+        effectiveAt: inverse.effectiveAt,
+        rateId: inverse.id,
+      };
+    }
+
+    throw new LedgerError(
+      'FX_RATE_NOT_FOUND',
+      `No ${baseCurrency}/${quoteCurrency} rate effective at ${asOf.toISOString()}`,
+      { baseCurrency, quoteCurrency, asOf: asOf.toISOString() }
+    );
+  }
+
+  private findLatest(baseCurrency: string, quoteCurrency: string, asOf: Date) {
+    return this.prisma.fxRate.findFirst({
+      where: { baseCurrency, quoteCurrency, effectiveAt: { lte: asOf } },
+      orderBy: { effectiveAt: 'desc' },
+    });
+  }
+}
+
+/**
+ * FX position account for a currency, e.g. FX_POSITION_USD.
+ */
+export function fxPositionAccount(currency: string): string {
+  return `FX_POSITION_${currency}`;
+}
+
+/**
+ * Converts an amount at a quoted rate, rounded half-even to ledger precision.
+ */
+export function convertAmount(amount: string | Prisma.Decimal, quote: FxQuote): Prisma.Decimal {
+  return new Prisma.Decimal(amount.toString())
+    .mul(quote.rate)
+    .toDecimalPlaces(AMOUNT_DECIMALS, Prisma.Decimal.ROUND_HALF_EVEN);
+}
+
+export interface FxConversionLegsParams {
+  /** Account paying the source currency */
+  fromAccountId: string;
+  /** Account receiving the target currency */
+  toAccountId: string;
+  /** Amount in quote.baseCurrency */
+  amount: string | Prisma.Decimal;
+  quote: FxQuote;
+  description?: string;
+}
+
+/**
+ * Builds the four legs of a currency conversion:
+ * - DEBIT  fromAccountId          amount     (base currency)
+ * - CREDIT FX_POSITION_<base>     amount     (base currency)
+ * - DEBIT  FX_POSITION_<quote>    converted  (quote currency)
+ * - CREDIT toAccountId            converted  (quote currency)
+ *
+ * @returns The legs and the converted amount
+ */
+export function buildFxConversionLegs(params: FxConversionLegsParams): {
+  legs: JournalLeg[];
+  convertedAmount: Prisma.Decimal;
+} {
+  const { fromAccountId, toAccountId, amount, quote, description } = params;
+
+  if (quote.baseCurrency === quote.quoteCurrency) {
+    throw new LedgerError(
+      'FX_SAME_CURRENCY',
+      `Conversion from ${quote.baseCurrency} to itself`,
+      { currency: quote.baseCurrency }
+    );
+  }
+
+  const sourceAmount = new Prisma.Decimal(amount.toString());
+  const convertedAmount = convertAmount(sourceAmount, quote);
+
+  return {
+    convertedAmount,
+    legs: [
+      {
+        accountId: fromAccountId,
+        entryType: LedgerEntryType.DEBIT,
+        amount: sourceAmount,
+        currency: quote.baseCurrency,
+        description,
+      },
+      {
+        accountId: fxPositionAccount(quote.baseCurrency),
+        entryType: LedgerEntryType.CREDIT,
+        amount: sourceAmount,
+        currency: quote.baseCurrency,
+        description,
+      },
+      {
+        accountId: fxPositionAccount(quote.quoteCurrency),
+        entryType: LedgerEntryType.DEBIT,
+        amount: convertedAmount,
+        currency: quote.quoteCurrency,
+        description,
+      },
+      {
+        accountId: toAccountId,
+        entryType: LedgerEntryType.CREDIT,
+        amount: convertedAmount,
+        currency: quote.quoteCurrency,
+        description,
+      },
+    ],
+  };
+}
+
+/**
+ * Journal metadata recording the rate a conversion used.
+ */
+export function fxJournalMetadata(
+  quote: FxQuote,
+  sourceAmount: string | Prisma.Decimal,
+  convertedAmount: Prisma.Decimal
+): Prisma.JsonObject {
+  return {
+    fx: {
+      baseCurrency: quote.baseCurrency,
+      quoteCurrency: quote.quoteCurrency,
+      rate: quote.rate.toString(),
+      source: quote.source,
+      effectiveAt: quote.effectiveAt.toISOString(),
+      rateId: quote.rateId ?? null,
+      sourceAmount: sourceAmount.toString(),
+      convertedAmount: convertedAmount.toString(),
+    },
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Ledger entry hashing.
+ *
+ * Kept free of database dependencies so external verifiers can
+ * recompute entry hashes from exported or proven entries.
+ */
+
+import * as crypto from 'crypto';
+
+/** Currency assumed by entries hashed before currency was recorded */
+const HASH_DEFAULT_CURRENCY = 'NGN';
+
+/**
+ * Computes SHA256 hash for a ledger entry.
+ * Uses canonical JSON stringification for deterministic hashing.
+ * 
+ * Currency is only part of the canonical form when it is not NGN, so
+ * hashes of entries written before currencies existed are unchanged
+ * while a foreign-currency entry cannot be relabelled without breaking
+ * the chain. The reversal link is likewise only hashed when set.
+ */
+export function computeEntryHash(
+  prevHash: string | null,
+  accountId: string,
+  walletSeq: number,
+  reference: string,
+  entryType: string,
+  amount: string,
+  description: string | null,
+  currency: string = HASH_DEFAULT_CURRENCY,
+  reversesEntryId: string | null = null
+): string {
+  const canonical = JSON.stringify({
+    prevHash,
+    accountId,
+    walletSeq,
+    reference,
+    entryType,
+    amount,
+    description,
+    ...(currency !== HASH_DEFAULT_CURRENCY && { currency }),
+    ...(reversesEntryId && { reversesEntryId }),
+  });
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
@@ -6,9 +6,53 @@
  * - Hash chain integrity
  * - Balance cache updates
  * - Idempotency
+ * - Balanced journals
+ * - Currencies and FX conversion
+ * - Reversals
+ * - Wallet holds and available balance
+ * - Account registry and overdraft policy
+ * - Balance cache rebuild
+ * - Transaction retry policy
  */
 
-import { computeEntryHash } from './index';
+import {
+  computeEntryHash,
+  validateJournalLegs,
+  postJournal,
+  runLedgerTransaction,
+  isRetryableTransactionError,
+  LedgerError,
+  LedgerEntryType,
+  buildFxConversionLegs,
+  PrismaFxRateSource,
+  appendEntry,
+  placeHold,
+  releaseHold,
+  captureHold,
+  rebuildBalanceCache,
+  closeAccount,
+  setAccountStatus,
+  reverseJournal,
+  reverseEntry,
+} from './index';
+import { Prisma, WalletHoldStatus, AccountStatus, OverdraftPolicy } from '@syntherium/db';
+
+// Registry rows for the accounts the tests post to: clearing and FX
+// position accounts are debit-normal and may overdraw, and an _XXX
+// suffix sets the currency
+const registeredAccount = (accountId: string, overrides: Record<string, unknown> = {}) => ({
+  accountId,
+  currency: /_([A-Z]{3})$/.exec(accountId)?.[1] ?? 'NGN',
+  normalBalance: /CLEARING|FX_POSITION/.test(accountId) ? LedgerEntryType.DEBIT : LedgerEntryType.CREDIT,
+  status: AccountStatus.ACTIVE,
+  overdraftPolicy: /CLEARING|FX_POSITION/.test(accountId) ? OverdraftPolicy.UNLIMITED : OverdraftPolicy.NONE,
+  overdraftLimit: null,
+  ...overrides,
+});
+
+const mockLedgerAccounts = () => ({
+  findUnique: jest.fn(({ where }) => Promise.resolve(registeredAccount(where.accountId))),
+});
 
 describe('computeEntryHash', () => {
   it('should produce consistent hashes for same input', () => {
@@ -97,6 +141,13 @@ describe('computeEntryHash', () => {
     expect(hash).toHaveLength(64);
     expect(hash).toMatch(/^[a-f0-9]+$/);
   });
+
+  it('should commit to the reversal link only when one is set', () => {
+    const plain = computeEntryHash(null, 'TEST_ACCOUNT', 1, 'REF_001', 'DEBIT', '1000.0000', null);
+
+    expect(computeEntryHash(null, 'TEST_ACCOUNT', 1, 'REF_001', 'DEBIT', '1000.0000', null, 'NGN', null)).toBe(plain);
+    expect(computeEntryHash(null, 'TEST_ACCOUNT', 1, 'REF_001', 'DEBIT', '1000.0000', null, 'NGN', 'le_1')).not.toBe(plain);
+  });
 });
 
 describe('Hash Chain Integrity', () => {
@@ -187,6 +238,824 @@ describe('walletSeq Monotonicity', () => {
   });
 });
 
+describe('validateJournalLegs', () => {
+  it('should accept balanced legs and return totals', () => {
+    const totals = validateJournalLegs('PAYMENT_order_abc', [
+      { accountId: 'PAYMENT_CLEARING', entryType: LedgerEntryType.DEBIT, amount: '8000.0000' },
+      { accountId: 'PLATFORM_ESCROW', entryType: LedgerEntryType.CREDIT, amount: '8000.0000' },
+      { accountId: 'MARKETING_WALLET', entryType: LedgerEntryType.DEBIT, amount: '2000.0000', reference: 'PAYMENT_order_abc_DISC' },
+      { accountId: 'PLATFORM_ESCROW', entryType: LedgerEntryType.CREDIT, amount: '2000.0000', reference: 'PAYMENT_order_abc_DISC_ESCROW' },
+    ]);
+
+    expect(totals.NGN.totalDebits.toString()).toBe('10000');
+    expect(totals.NGN.totalCredits.toString()).toBe('10000');
+  });
+
+  it('should balance each currency separately', () => {
+    expect(() =>
+      validateJournalLegs('REF_FX', [
+        { accountId: 'CLEARING_USD', entryType: LedgerEntryType.DEBIT, amount: '10.0000', currency: 'USD' },
+        { accountId: 'PLATFORM_ESCROW', entryType: LedgerEntryType.CREDIT, amount: '10.0000' },
+      ])
+    ).toThrow(expect.objectContaining({ code: 'UNBALANCED_JOURNAL' }));
+
+    const totals = validateJournalLegs('REF_FX', [
+      { accountId: 'CLEARING_USD', entryType: LedgerEntryType.DEBIT, amount: '10.0000', currency: 'USD' },
+      { accountId: 'FX_POSITION_USD', entryType: LedgerEntryType.CREDIT, amount: '10.0000', currency: 'USD' },
+      { accountId: 'FX_POSITION_NGN', entryType: LedgerEntryType.DEBIT, amount: '15000.0000' },
+      { accountId: 'PLATFORM_ESCROW', entryType: LedgerEntryType.CREDIT, amount: '15000.0000' },
+    ]);
+    expect(Object.keys(totals).sort()).toEqual(['NGN', 'USD']);
+  });
+
+  it('should reject unbalanced legs', () => {
+    expect(() =>
+      validateJournalLegs('REF_001', [
+        { accountId: 'A', entryType: LedgerEntryType.DEBIT, amount: '100.0000' },
+        { accountId: 'B', entryType: LedgerEntryType.CREDIT, amount: '99.9999' },
+      ])
+    ).toThrow(expect.objectContaining({ code: 'UNBALANCED_JOURNAL' }));
+  });
+
+  it('should reject a single-leg journal', () => {
+    expect(() =>
+      validateJournalLegs('REF_001', [
+        { accountId: 'A', entryType: LedgerEntryType.CREDIT, amount: '100.0000' },
+      ])
+    ).toThrow(LedgerError);
+  });
+
+  it('should reject non-positive amounts', () => {
+    expect(() =>
+      validateJournalLegs('REF_001', [
+        { accountId: 'A', entryType: LedgerEntryType.DEBIT, amount: '0.0000' },
+        { accountId: 'B', entryType: LedgerEntryType.CREDIT, amount: '0.0000' },
+      ])
+    ).toThrow(expect.objectContaining({ code: 'INVALID_AMOUNT' }));
+  });
+
+  it('should reject two legs with the same account and reference', () => {
+    expect(() =>
+      validateJournalLegs('REF_001', [
+        { accountId: 'A', entryType: LedgerEntryType.DEBIT, amount: '100.0000' },
+        { accountId: 'B', entryType: LedgerEntryType.CREDIT, amount: '50.0000' },
+        { accountId: 'B', entryType: LedgerEntryType.CREDIT, amount: '50.0000' },
+      ])
+    ).toThrow(expect.objectContaining({ code: 'DUPLICATE_JOURNAL_LEG' }));
+  });
+});
+
+describe('postJournal', () => {
+  let mockTx: any;
+
+  beforeEach(() => {
+    mockTx = {
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      ledgerJournal: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({ id: 'jr_1', reference: 'REF_001' }),
+      },
+      ledgerEntry: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) => Promise.resolve({ id: `le_${data.accountId}`, ...data })),
+      },
+      walletBalanceCache: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+      ledgerAccount: mockLedgerAccounts(),
+    };
+  });
+
+  it('should post every leg under one journalId', async () => {
+    const result = await postJournal(mockTx, {
+      reference: 'REF_001',
+      legs: [
+        { accountId: 'CLEARING', entryType: LedgerEntryType.DEBIT, amount: '100.0000' },
+        { accountId: 'ESCROW', entryType: LedgerEntryType.CREDIT, amount: '100.0000' },
+      ],
+    });
+
+    expect(result.journalId).toBe('jr_1');
+    expect(result.entries).toHaveLength(2);
+    expect(result.entries.every((e) => e.journalId === 'jr_1')).toBe(true);
+    expect(result.entries[0].walletSeq).toBe(1);
+    expect(result.entries[1].walletSeq).toBe(1);
+  });
+
+  it('should lock all leg accounts in sorted order before writing', async () => {
+    await postJournal(mockTx, {
+      reference: 'REF_001',
+      legs: [
+        { accountId: 'Z_CLEARING', entryType: LedgerEntryType.DEBIT, amount: '100.0000' },
+        { accountId: 'A_ACCOUNT', entryType: LedgerEntryType.CREDIT, amount: '100.0000' },
+      ],
+    });
+
+    const lockedAccounts = mockTx.$executeRaw.mock.calls.map((call: any[]) => call[1]);
+    expect(lockedAccounts.slice(0, 2)).toEqual(['A_ACCOUNT', 'Z_CLEARING']);
+    expect(mockTx.$executeRaw.mock.invocationCallOrder[1])
+      .toBeLessThan(mockTx.ledgerJournal.create.mock.invocationCallOrder[0]);
+  });
+
+  it('should not write anything for unbalanced legs', async () => {
+    await expect(
+      postJournal(mockTx, {
+        reference: 'REF_001',
+        legs: [
+          { accountId: 'CLEARING', entryType: LedgerEntryType.DEBIT, amount: '100.0000' },
+          { accountId: 'ESCROW', entryType: LedgerEntryType.CREDIT, amount: '90.0000' },
+        ],
+      })
+    ).rejects.toThrow(LedgerError);
+
+    expect(mockTx.ledgerJournal.create).not.toHaveBeenCalled();
+    expect(mockTx.ledgerEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to post a currency into a wallet of another currency', async () => {
+    await expect(
+      postJournal(mockTx, {
+        reference: 'REF_USD',
+        currency: 'USD',
+        legs: [
+          { accountId: 'CLEARING_USD', entryType: LedgerEntryType.DEBIT, amount: '100.0000' },
+          { accountId: 'ESCROW', entryType: LedgerEntryType.CREDIT, amount: '100.0000' },
+        ],
+      })
+    ).rejects.toMatchObject({ code: 'CURRENCY_MISMATCH' });
+  });
+
+  it('should record the leg currency on entries and new wallets', async () => {
+    const result = await postJournal(mockTx, {
+      reference: 'REF_USD',
+      currency: 'USD',
+      legs: [
+        { accountId: 'CLEARING_USD', entryType: LedgerEntryType.DEBIT, amount: '100.0000' },
+        { accountId: 'FX_POSITION_USD', entryType: LedgerEntryType.CREDIT, amount: '100.0000' },
+      ],
+    });
+
+    expect(result.entries.map((e) => e.currency)).toEqual(['USD', 'USD']);
+    expect(mockTx.walletBalanceCache.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ accountId: 'FX_POSITION_USD', currency: 'USD' }),
+    });
+  });
+
+  it('should return the existing journal for a repeated reference', async () => {
+    mockTx.ledgerJournal.findUnique.mockResolvedValue({
+      id: 'jr_existing',
+      reference: 'REF_001',
+      entries: [
+        { id: 'le_1', accountId: 'CLEARING', walletSeq: 3, reference: 'REF_001', journalId: 'jr_existing' },
+        { id: 'le_2', accountId: 'ESCROW', walletSeq: 7, reference: 'REF_001', journalId: 'jr_existing' },
+      ],
+    });
+
+    const result = await postJournal(mockTx, {
+      reference: 'REF_001',
+      legs: [
+        { accountId: 'CLEARING', entryType: LedgerEntryType.DEBIT, amount: '100.0000' },
+        { accountId: 'ESCROW', entryType: LedgerEntryType.CREDIT, amount: '100.0000' },
+      ],
+    });
+
+    expect(result.journalId).toBe('jr_existing');
+    expect(result.entries.map((e) => e.id)).toEqual(['le_1', 'le_2']);
+    expect(mockTx.ledgerEntry.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('FX conversion', () => {
+  const quote = {
+    baseCurrency: 'USD',
+    quoteCurrency: 'NGN',
+    rate: new Prisma.Decimal('1523.456789'),
+    source: 'manual',
+    effectiveAt: new Date('2024-01-15T00:00:00Z'),
+  };
+
+  it('should build legs that balance in both currencies', () => {
+    const { legs, convertedAmount } = buildFxConversionLegs({
+      fromAccountId: 'PAYMENT_CLEARING_USD',
+      toAccountId: 'PLATFORM_ESCROW',
+      amount: '10.0000',
+      quote,
+    });
+
+    // 10 * 1523.456789 = 15234.56789 -> rounded half-even to 4dp
+    expect(convertedAmount.toString()).toBe('15234.5679');
+    expect(legs.map((l) => [l.accountId, l.entryType, l.currency])).toEqual([
+      ['PAYMENT_CLEARING_USD', 'DEBIT', 'USD'],
+      ['FX_POSITION_USD', 'CREDIT', 'USD'],
+      ['FX_POSITION_NGN', 'DEBIT', 'NGN'],
+      ['PLATFORM_ESCROW', 'CREDIT', 'NGN'],
+    ]);
+    expect(() => validateJournalLegs('FX_REF', legs)).not.toThrow();
+  });
+
+  it('should use the inverse of a stored reverse rate', async () => {
+    const findFirst = jest.fn(({ where }: any) =>
+      Promise.resolve(
+        where.baseCurrency === 'NGN' && where.quoteCurrency === 'USD'
+          ? { id: 'fx_1', rate: new Prisma.Decimal('0.0005'), source: 'manual', effectiveAt: new Date() }
+          : null
+      )
+    );
+    const source = new PrismaFxRateSource({ fxRate: { findFirst } } as any);
+
+    const result = await source.getRate('USD', 'NGN');
+    expect(result.rate.toString()).toBe('2000');
+    expect(result.rateId).toBe('fx_1');
+  });
+
+  it('should fail when no rate is available', async () => {
+    const source = new PrismaFxRateSource({ fxRate: { findFirst: jest.fn().mockResolvedValue(null) } } as any);
+
+    await expect(source.getRate('USD', 'NGN')).rejects.toMatchObject({ code: 'FX_RATE_NOT_FOUND' });
+  });
+});
+
+describe('Reversals', () => {
+  let mockTx: any;
+  let journals: Record<string, any>;
+
+  const paymentEntries = [
+    { id: 'le_clearing', accountId: 'CLEARING', entryType: LedgerEntryType.DEBIT, amount: new Prisma.Decimal(100), currency: 'NGN', reference: 'PAY_1', journalId: 'jr_pay', reversesEntryId: null },
+    { id: 'le_escrow', accountId: 'ESCROW', entryType: LedgerEntryType.CREDIT, amount: new Prisma.Decimal(100), currency: 'NGN', reference: 'PAY_1', journalId: 'jr_pay', reversesEntryId: null },
+  ];
+
+  beforeEach(() => {
+    journals = {
+      jr_pay: { id: 'jr_pay', reference: 'PAY_1', orderId: 'order_1', reversesJournalId: null, entries: paymentEntries },
+    };
+    const findJournal = ({ where }: any) =>
+      Object.values(journals).find((j) =>
+        where.id ? j.id === where.id
+          : where.reference ? j.reference === where.reference
+          : j.reversesJournalId === where.reversesJournalId
+      ) ?? null;
+
+    mockTx = {
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      ledgerJournal: {
+        findUnique: jest.fn((args) => Promise.resolve(findJournal(args))),
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'jr_rev', ...data })),
+      },
+      ledgerEntry: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) => Promise.resolve({ id: `le_rev_${data.accountId}`, ...data })),
+      },
+      walletBalanceCache: {
+        findUnique: jest.fn().mockResolvedValue({ balance: new Prisma.Decimal(100), heldAmount: new Prisma.Decimal(0) }),
+        update: jest.fn(),
+      },
+      ledgerAccount: mockLedgerAccounts(),
+    };
+  });
+
+  it('should post the mirror image of a journal, linked leg by leg', async () => {
+    const result = await reverseJournal(mockTx, { journalId: 'jr_pay', reference: 'REV_PAY_1', reason: 'Duplicate charge' });
+
+    expect(mockTx.ledgerJournal.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ reference: 'REV_PAY_1', orderId: 'order_1', reversesJournalId: 'jr_pay' }),
+    });
+    expect(result.entries.map((e) => [e.accountId, e.entryType, e.reversesEntryId])).toEqual([
+      ['CLEARING', LedgerEntryType.CREDIT, 'le_clearing'],
+      ['ESCROW', LedgerEntryType.DEBIT, 'le_escrow'],
+    ]);
+  });
+
+  it('should refuse to reverse a journal twice or to reverse a reversal', async () => {
+    journals.jr_rev = { id: 'jr_rev', reference: 'REV_PAY_1', reversesJournalId: 'jr_pay', entries: [] };
+
+    await expect(
+      reverseJournal(mockTx, { journalId: 'jr_pay', reference: 'REV_PAY_1_AGAIN', reason: 'Retry' })
+    ).rejects.toMatchObject({ code: 'ALREADY_REVERSED', details: expect.objectContaining({ reversalJournalId: 'jr_rev' }) });
+    await expect(
+      reverseJournal(mockTx, { journalId: 'jr_rev', reference: 'REV_REV', reason: 'Undo' })
+    ).rejects.toMatchObject({ code: 'REVERSAL_NOT_REVERSIBLE' });
+    expect(mockTx.ledgerJournal.create).not.toHaveBeenCalled();
+  });
+
+  it('should return the existing reversal for a repeated reference', async () => {
+    journals.jr_rev = { id: 'jr_rev', reference: 'REV_PAY_1', reversesJournalId: 'jr_pay', entries: [] };
+
+    const result = await reverseJournal(mockTx, { journalId: 'jr_pay', reference: 'REV_PAY_1', reason: 'Duplicate charge' });
+
+    expect(result.journalId).toBe('jr_rev');
+    expect(mockTx.ledgerEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should only reverse entries posted outside a journal on their own', async () => {
+    mockTx.ledgerEntry.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === 'le_escrow' ? paymentEntries[1] : null)
+    );
+
+    await expect(
+      reverseEntry(mockTx, { entryId: 'le_escrow', reference: 'REV_LEG', reason: 'Wrong account' })
+    ).rejects.toMatchObject({ code: 'JOURNAL_LEG_REVERSAL' });
+
+    const migrated = { ...paymentEntries[1], id: 'le_migrated', journalId: null, reference: 'MIGRATION_1' };
+    mockTx.ledgerEntry.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === 'le_migrated' ? migrated : null)
+    );
+
+    const reversal = await reverseEntry(mockTx, { entryId: 'le_migrated', reference: 'REV_MIGRATION_1', reason: 'Imported twice' });
+
+    expect(reversal).toMatchObject({ entryType: LedgerEntryType.DEBIT, reversesEntryId: 'le_migrated' });
+  });
+});
+
+describe('Wallet holds', () => {
+  let wallets: Map<string, any>;
+  let holds: Map<string, any>;
+  let mockTx: any;
+
+  const decimal = (value: string | number) => new Prisma.Decimal(value);
+
+  // Applies Prisma-style { increment } / { decrement } updates
+  const applyUpdate = (row: any, data: any) => {
+    for (const [key, value] of Object.entries<any>(data)) {
+      if (value && typeof value === 'object' && 'increment' in value) {
+        row[key] = row[key].add(value.increment);
+      } else if (value && typeof value === 'object' && 'decrement' in value) {
+        row[key] = row[key].sub(value.decrement);
+      } else {
+        row[key] = value;
+      }
+    }
+    return { ...row };
+  };
+
+  const findHold = (where: any) =>
+    where.id
+      ? holds.get(where.id)
+      : [...holds.values()].find(
+          (h) => h.accountId === where.accountId_reference.accountId &&
+            h.reference === where.accountId_reference.reference
+        );
+
+  beforeEach(() => {
+    wallets = new Map([
+      ['VENDOR_1', { accountId: 'VENDOR_1', balance: decimal('1000.0000'), heldAmount: decimal(0), currency: 'NGN', lastEntrySeq: 4 }],
+    ]);
+    holds = new Map();
+
+    mockTx = {
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      ledgerJournal: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'jr_1', ...data })),
+      },
+      ledgerEntry: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) => Promise.resolve({ id: `le_${data.accountId}`, ...data })),
+      },
+      walletBalanceCache: {
+        findUnique: jest.fn(({ where }) => Promise.resolve(wallets.has(where.accountId) ? { ...wallets.get(where.accountId) } : null)),
+        create: jest.fn(({ data }) => {
+          wallets.set(data.accountId, { heldAmount: decimal(0), ...data });
+          return Promise.resolve(data);
+        }),
+        update: jest.fn(({ where, data }) => Promise.resolve(applyUpdate(wallets.get(where.accountId), data))),
+      },
+      walletHold: {
+        findUnique: jest.fn(({ where }) => Promise.resolve(findHold(where) ? { ...findHold(where) } : null)),
+        findUniqueOrThrow: jest.fn(({ where }) => Promise.resolve({ ...findHold(where) })),
+        findMany: jest.fn(({ where }) =>
+          Promise.resolve(
+            [...holds.values()].filter(
+              (h) => h.accountId === where.accountId && h.status === where.status &&
+                h.expiresAt && h.expiresAt <= where.expiresAt.lte
+            )
+          )
+        ),
+        create: jest.fn(({ data }) => {
+          const hold = { id: `hold_${holds.size + 1}`, status: WalletHoldStatus.ACTIVE, expiresAt: null, ...data };
+          holds.set(hold.id, hold);
+          return Promise.resolve({ ...hold });
+        }),
+        update: jest.fn(({ where, data }) => Promise.resolve(applyUpdate(holds.get(where.id), data))),
+        updateMany: jest.fn(({ where, data }) => {
+          where.id.in.forEach((id: string) => applyUpdate(holds.get(id), data));
+          return Promise.resolve({ count: where.id.in.length });
+        }),
+      },
+      ledgerAccount: mockLedgerAccounts(),
+    };
+  });
+
+  it('should reserve funds without posting ledger entries', async () => {
+    const hold = await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '600.0000' });
+
+    expect(hold.status).toBe(WalletHoldStatus.ACTIVE);
+    expect(wallets.get('VENDOR_1').balance.toString()).toBe('1000');
+    expect(wallets.get('VENDOR_1').heldAmount.toString()).toBe('600');
+    expect(mockTx.ledgerEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should return the existing hold for a repeated reference', async () => {
+    const first = await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '600.0000' });
+    const second = await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '600.0000' });
+
+    expect(second.id).toBe(first.id);
+    expect(wallets.get('VENDOR_1').heldAmount.toString()).toBe('600');
+  });
+
+  it('should not hold more than the available balance', async () => {
+    await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '600.0000' });
+
+    await expect(
+      placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_2', amount: '500.0000' })
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE', details: expect.objectContaining({ availableBalance: '400' }) });
+  });
+
+  it('should reject debits that would spend held funds', async () => {
+    await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '600.0000' });
+
+    await expect(
+      appendEntry(mockTx, {
+        accountId: 'VENDOR_1',
+        reference: 'FEE_1',
+        entryType: LedgerEntryType.DEBIT,
+        amount: '500.0000',
+      })
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+    await appendEntry(mockTx, {
+      accountId: 'VENDOR_1',
+      reference: 'FEE_2',
+      entryType: LedgerEntryType.DEBIT,
+      amount: '400.0000',
+    });
+    expect(wallets.get('VENDOR_1').balance.toString()).toBe('600');
+  });
+
+  it('should let debits spend holds that have expired', async () => {
+    await placeHold(mockTx, {
+      accountId: 'VENDOR_1',
+      reference: 'PAYOUT_1',
+      amount: '600.0000',
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await appendEntry(mockTx, {
+      accountId: 'VENDOR_1',
+      reference: 'FEE_1',
+      entryType: LedgerEntryType.DEBIT,
+      amount: '900.0000',
+    });
+
+    expect(holds.get('hold_1').status).toBe(WalletHoldStatus.EXPIRED);
+    expect(wallets.get('VENDOR_1').heldAmount.toString()).toBe('0');
+  });
+
+  it('should release a hold once', async () => {
+    const hold = await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '600.0000' });
+
+    await releaseHold(mockTx, hold.id);
+    const again = await releaseHold(mockTx, hold.id);
+
+    expect(again.status).toBe(WalletHoldStatus.RELEASED);
+    expect(wallets.get('VENDOR_1').heldAmount.toString()).toBe('0');
+  });
+
+  it('should capture part of a hold as a journal and free the rest', async () => {
+    const hold = await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '600.0000' });
+
+    const result = await captureHold(mockTx, { holdId: hold.id, toAccountId: 'PAYOUT_CLEARING', amount: '450.0000' });
+
+    expect(result.hold.status).toBe(WalletHoldStatus.CAPTURED);
+    expect(result.hold.capturedJournalId).toBe('jr_1');
+    expect(result.journal.entries.map((e) => [e.accountId, e.entryType])).toEqual([
+      ['VENDOR_1', LedgerEntryType.DEBIT],
+      ['PAYOUT_CLEARING', LedgerEntryType.CREDIT],
+    ]);
+    expect(wallets.get('VENDOR_1').balance.toString()).toBe('550');
+    expect(wallets.get('VENDOR_1').heldAmount.toString()).toBe('0');
+  });
+
+  it('should not capture more than was held or a released hold', async () => {
+    const hold = await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '600.0000' });
+
+    await expect(
+      captureHold(mockTx, { holdId: hold.id, toAccountId: 'PAYOUT_CLEARING', amount: '600.0001' })
+    ).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+
+    await releaseHold(mockTx, hold.id);
+    await expect(
+      captureHold(mockTx, { holdId: hold.id, toAccountId: 'PAYOUT_CLEARING' })
+    ).rejects.toMatchObject({ code: 'HOLD_NOT_ACTIVE' });
+  });
+
+  it('should capture a hold through a journal leg and spend the balance beyond it', async () => {
+    const hold = await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'ORDER_1', amount: '300.0000' });
+    await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'ORDER_2', amount: '600.0000' });
+
+    await postJournal(mockTx, {
+      reference: 'SETTLE_1',
+      legs: [
+        { accountId: 'VENDOR_1', entryType: LedgerEntryType.DEBIT, amount: '350.0000', capturesHoldId: hold.id },
+        { accountId: 'ESCROW', entryType: LedgerEntryType.CREDIT, amount: '350.0000' },
+      ],
+    });
+
+    expect(holds.get(hold.id)).toMatchObject({ status: WalletHoldStatus.CAPTURED, capturedJournalId: 'jr_1' });
+    expect(holds.get(hold.id).capturedAmount.toString()).toBe('300');
+    expect(wallets.get('VENDOR_1').balance.toString()).toBe('650');
+    expect(wallets.get('VENDOR_1').heldAmount.toString()).toBe('600');
+  });
+
+  it('should not capture a hold with a leg on another account or a released hold', async () => {
+    const hold = await placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'ORDER_1', amount: '300.0000' });
+    const legs = (accountId: string) => [
+      { accountId, entryType: LedgerEntryType.DEBIT, amount: '300.0000', capturesHoldId: hold.id },
+      { accountId: 'ESCROW', entryType: LedgerEntryType.CREDIT, amount: '300.0000' },
+    ];
+
+    await expect(
+      postJournal(mockTx, { reference: 'SETTLE_1', legs: legs('VENDOR_2') })
+    ).rejects.toMatchObject({ code: 'HOLD_LEG_MISMATCH' });
+
+    await releaseHold(mockTx, hold.id);
+    await expect(
+      postJournal(mockTx, { reference: 'SETTLE_1', legs: legs('VENDOR_1') })
+    ).rejects.toMatchObject({ code: 'HOLD_NOT_ACTIVE' });
+    expect(mockTx.ledgerJournal.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Account registry and overdraft policy', () => {
+  let account: any;
+  let wallet: any;
+  let mockTx: any;
+
+  const debit = (amount: string) =>
+    appendEntry(mockTx, { accountId: 'VENDOR_1', reference: `FEE_${amount}`, entryType: LedgerEntryType.DEBIT, amount });
+
+  beforeEach(() => {
+    account = registeredAccount('VENDOR_1');
+    wallet = { accountId: 'VENDOR_1', balance: new Prisma.Decimal('100.0000'), heldAmount: new Prisma.Decimal(0), currency: 'NGN' };
+
+    mockTx = {
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      ledgerEntry: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) => Promise.resolve({ id: 'le_1', ...data })),
+      },
+      walletBalanceCache: {
+        findUnique: jest.fn(() => Promise.resolve(wallet)),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+      walletHold: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      ledgerAccount: {
+        findUnique: jest.fn(() => Promise.resolve(account)),
+        update: jest.fn(({ data }) => Promise.resolve({ ...account, ...data })),
+      },
+    };
+  });
+
+  it('should reject postings to unknown or closed accounts', async () => {
+    account = null;
+    await expect(debit('10.0000')).rejects.toMatchObject({ code: 'ACCOUNT_NOT_FOUND' });
+
+    account = registeredAccount('VENDOR_1', { status: AccountStatus.CLOSED });
+    await expect(debit('10.0000')).rejects.toMatchObject({ code: 'ACCOUNT_CLOSED' });
+
+    expect(mockTx.ledgerEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should not let a NONE account go negative, even on its first entry', async () => {
+    await expect(debit('100.0001')).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+    wallet = null;
+    await expect(debit('1.0000')).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+    expect(mockTx.ledgerEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should let a LIMITED account overdraw down to its limit', async () => {
+    account = registeredAccount('VENDOR_1', {
+      overdraftPolicy: OverdraftPolicy.LIMITED,
+      overdraftLimit: new Prisma.Decimal('50.0000'),
+    });
+
+    await expect(debit('150.0001')).rejects.toMatchObject({
+      code: 'INSUFFICIENT_BALANCE',
+      details: expect.objectContaining({ overdraftLimit: '50' }),
+    });
+
+    await debit('150.0000');
+    expect(mockTx.walletBalanceCache.update).toHaveBeenCalledWith({
+      where: { accountId: 'VENDOR_1' },
+      data: expect.objectContaining({ balance: new Prisma.Decimal('-50') }),
+    });
+  });
+
+  it('should apply the policy on the normal side of a debit-normal account', async () => {
+    // Stored credit-positive: an asset worth 100 holds -100
+    account = registeredAccount('VENDOR_1', { normalBalance: LedgerEntryType.DEBIT });
+    wallet.balance = new Prisma.Decimal('-100.0000');
+    const credit = (amount: string) =>
+      appendEntry(mockTx, { accountId: 'VENDOR_1', reference: `SETTLE_${amount}`, entryType: LedgerEntryType.CREDIT, amount });
+
+    await expect(credit('100.0001')).rejects.toMatchObject({
+      code: 'INSUFFICIENT_BALANCE',
+      details: expect.objectContaining({ balance: '100', availableBalance: '100' }),
+    });
+
+    await debit('500.0000');
+    await credit('100.0000');
+    expect(mockTx.walletBalanceCache.update).toHaveBeenLastCalledWith({
+      where: { accountId: 'VENDOR_1' },
+      data: expect.objectContaining({ balance: new Prisma.Decimal('0') }),
+    });
+  });
+
+  it('should take credits but refuse debits and holds while frozen for debits', async () => {
+    account = registeredAccount('VENDOR_1', { status: AccountStatus.DEBIT_FROZEN, statusReason: 'Chargeback review' });
+
+    await appendEntry(mockTx, { accountId: 'VENDOR_1', reference: 'SALE_1', entryType: LedgerEntryType.CREDIT, amount: '10.0000' });
+    await expect(debit('10.0000')).rejects.toMatchObject({
+      code: 'ACCOUNT_FROZEN',
+      details: expect.objectContaining({ reason: 'Chargeback review' }),
+    });
+    await expect(
+      placeHold(mockTx, { accountId: 'VENDOR_1', reference: 'PAYOUT_1', amount: '10.0000' })
+    ).rejects.toMatchObject({ code: 'ACCOUNT_FROZEN' });
+  });
+
+  it('should refuse every posting while fully frozen', async () => {
+    account = registeredAccount('VENDOR_1', { status: AccountStatus.FROZEN });
+
+    await expect(
+      appendEntry(mockTx, { accountId: 'VENDOR_1', reference: 'SALE_1', entryType: LedgerEntryType.CREDIT, amount: '10.0000' })
+    ).rejects.toMatchObject({ code: 'ACCOUNT_FROZEN' });
+  });
+
+  it('should record who froze an account and why, and clear the reason on unfreeze', async () => {
+    const frozen = await setAccountStatus(mockTx, {
+      accountId: 'VENDOR_1',
+      status: AccountStatus.FROZEN,
+      reason: 'Fraud investigation',
+      changedBy: 'admin_1',
+    });
+
+    expect(frozen).toMatchObject({ status: AccountStatus.FROZEN, statusReason: 'Fraud investigation', statusChangedBy: 'admin_1' });
+
+    account = frozen;
+    const active = await setAccountStatus(mockTx, { accountId: 'VENDOR_1', status: AccountStatus.ACTIVE, reason: 'Cleared' });
+    expect(active).toMatchObject({ status: AccountStatus.ACTIVE, statusReason: null });
+  });
+
+  it('should only close accounts with nothing left in them, for good', async () => {
+    await expect(closeAccount(mockTx, 'VENDOR_1')).rejects.toMatchObject({ code: 'ACCOUNT_NOT_EMPTY' });
+
+    wallet.balance = new Prisma.Decimal(0);
+    const closed = await closeAccount(mockTx, 'VENDOR_1', 'Vendor offboarded');
+
+    expect(closed.status).toBe(AccountStatus.CLOSED);
+    expect(closed.closedAt).toBeInstanceOf(Date);
+
+    account = closed;
+    await expect(
+      setAccountStatus(mockTx, { accountId: 'VENDOR_1', status: AccountStatus.ACTIVE })
+    ).rejects.toMatchObject({ code: 'ACCOUNT_CLOSED' });
+  });
+});
+
+describe('Balance cache rebuild', () => {
+  let cache: any;
+  let mockTx: any;
+
+  beforeEach(() => {
+    cache = {
+      accountId: 'VENDOR_1',
+      balance: new Prisma.Decimal('900.0000'),
+      lastEntrySeq: 2,
+      heldAmount: new Prisma.Decimal('0'),
+    };
+
+    mockTx = {
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      walletBalanceCache: {
+        findMany: jest.fn(async () => (cache ? [cache] : [])),
+        update: jest.fn(),
+        create: jest.fn(),
+      },
+      ledgerEntry: {
+        groupBy: jest.fn(async () => [
+          { accountId: 'VENDOR_1', entryType: 'CREDIT', _sum: { amount: new Prisma.Decimal('1000.0000') }, _max: { walletSeq: 2 } },
+          { accountId: 'VENDOR_1', entryType: 'DEBIT', _sum: { amount: new Prisma.Decimal('300.0000') }, _max: { walletSeq: 3 } },
+        ]),
+        findFirstOrThrow: jest.fn().mockResolvedValue({ currency: 'NGN' }),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+      walletHold: {
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+    };
+  });
+
+  it('should rewrite only the cache row from ledger totals', async () => {
+    const { before, rebuilt } = await rebuildBalanceCache(mockTx, 'VENDOR_1');
+
+    expect(rebuilt).toBe(true);
+    expect(before.mismatches).toEqual(['balance', 'lastEntrySeq']);
+    expect(mockTx.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(mockTx.walletBalanceCache.update).toHaveBeenCalledWith({
+      where: { accountId: 'VENDOR_1' },
+      data: { balance: '700', lastEntrySeq: 3, heldAmount: '0' },
+    });
+    expect(mockTx.ledgerEntry.create).not.toHaveBeenCalled();
+    expect(mockTx.ledgerEntry.update).not.toHaveBeenCalled();
+  });
+
+  it('should create a missing cache row in the wallet currency', async () => {
+    cache = null;
+
+    await rebuildBalanceCache(mockTx, 'VENDOR_1');
+
+    expect(mockTx.walletBalanceCache.create).toHaveBeenCalledWith({
+      data: { accountId: 'VENDOR_1', balance: '700', lastEntrySeq: 3, heldAmount: '0', currency: 'NGN' },
+    });
+  });
+
+  it('should leave a matching cache row alone', async () => {
+    cache.balance = new Prisma.Decimal('700.0000');
+    cache.lastEntrySeq = 3;
+
+    const { rebuilt } = await rebuildBalanceCache(mockTx, 'VENDOR_1');
+
+    expect(rebuilt).toBe(false);
+    expect(mockTx.walletBalanceCache.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('runLedgerTransaction', () => {
+  const conflict = () =>
+    new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict or a deadlock', {
+      code: 'P2034',
+      clientVersion: 'test',
+    });
+
+  it('should retry serialization failures until the transaction commits', async () => {
+    const prisma: any = {
+      $transaction: jest.fn()
+        .mockRejectedValueOnce(conflict())
+        .mockRejectedValueOnce(conflict())
+        .mockImplementation((fn: any) => fn({})),
+    };
+
+    const result = await runLedgerTransaction(prisma, async () => 'committed', { baseDelayMs: 1 });
+
+    expect(result).toBe('committed');
+    expect(prisma.$transaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const prisma: any = { $transaction: jest.fn().mockRejectedValue(conflict()) };
+
+    await expect(
+      runLedgerTransaction(prisma, async () => 'never', { maxRetries: 2, baseDelayMs: 1 })
+    ).rejects.toThrow('write conflict');
+    expect(prisma.$transaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry business errors', async () => {
+    const prisma: any = {
+      $transaction: jest.fn().mockRejectedValue(new LedgerError('INSUFFICIENT_BALANCE', 'Insufficient balance')),
+    };
+
+    await expect(runLedgerTransaction(prisma, async () => 'never')).rejects.toThrow(LedgerError);
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should classify raw Postgres serialization and deadlock errors as retryable', () => {
+    const raw = (sqlState: string) =>
+      new Prisma.PrismaClientKnownRequestError('Raw query failed', {
+        code: 'P2010',
+        clientVersion: 'test',
+        meta: { code: sqlState },
+      });
+
+    expect(isRetryableTransactionError(raw('40001'))).toBe(true);
+    expect(isRetryableTransactionError(raw('40P01'))).toBe(true);
+    expect(isRetryableTransactionError(raw('23505'))).toBe(false);
+    expect(isRetryableTransactionError(new Error('boom'))).toBe(false);
+  });
+});
+
 // Integration tests would require a test database
 // These are documented here for implementation
 describe('Integration Tests (require database)', () => {
@@ -194,5 +1063,5 @@ describe('Integration Tests (require database)', () => {
   it.todo('should be idempotent - same reference returns same entry');
   it.todo('should fail debit if insufficient balance');
   it.todo('should verify chain detects tampering');
-  it.todo('should maintain walletSeq monotonicity under concurrent access');
+  // Concurrent access: see concurrency.spec.ts (runs with LEDGER_TEST_DATABASE_URL)
 });
@@ -4,15 +4,35 @@
  * Core ledger operations for append-only financial truth layer.
  * 
  * CRITICAL INVARIANTS:
- * 1. Only SettlementService should call appendEntry
+ * 1. Only SettlementService should call appendEntry/postJournal
  * 2. Ledger entries are NEVER updated or deleted
  * 3. Each entry links to previous via SHA256 hash
  * 4. walletSeq increments monotonically per account
  * 5. Balance cache is updated in same transaction as entry
+ * 6. Every business event is posted as one balanced journal
+ * 7. Writers to an account are serialized by a per-account lock
+ * 8. A wallet holds one currency; FX moves only via conversion journals
+ * 9. Debits may only spend the available balance (balance - active holds),
+ *    plus whatever overdraft the account's policy allows
+ * 10. Only registered accounts can be posted to, as their lifecycle status allows
+ * 11. Corrections post mirror-image reversals; an entry is reversed at most once
  */
 
-import { PrismaClient, LedgerEntryType, Prisma } from '@syntherium/db';
-import * as crypto from 'crypto';
+import {
+  PrismaClient,
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerAccount,
+  AccountStatus,
+  WalletHold,
+  WalletHoldStatus,
+  Prisma,
+} from '@syntherium/db';
+import { computeEntryHash } from './hash';
+import { LedgerError } from './errors';
+import { BASE_CURRENCY, FxRateSource, buildFxConversionLegs, fxJournalMetadata } from './fx';
+import { BalanceCacheCheck, checkBalanceCaches } from './verify';
+import { getPostableAccount, overdraftFloor, naturalBalance, accountRestriction, AccountRestriction } from './accounts';
 
 export interface AppendEntryParams {
   reference: string;
@@ -21,6 +41,11 @@ export interface AppendEntryParams {
   entryType: LedgerEntryType;
   amount: string | Prisma.Decimal;
   description?: string;
+  journalId?: string;
+  /** ISO 4217 code; must match the account's currency (default NGN) */
+  currency?: string;
+  /** Entry this one mirrors; set by reverseEntry and reverseJournal */
+  reversesEntryId?: string;
 }
 
 export interface AppendEntryResult {
@@ -28,73 +53,180 @@ export interface AppendEntryResult {
   accountId: string;
   walletSeq: number;
   reference: string;
+  journalId: string | null;
   entryType: LedgerEntryType;
   amount: Prisma.Decimal;
+  currency: string;
+  reversesEntryId: string | null;
   entryHash: string;
   prevHash: string | null;
 }
 
-export interface VerifyChainResult {
+export interface JournalLeg {
   accountId: string;
-  valid: boolean;
-  entriesVerified: number;
-  brokenAtSeq?: number;
-  expectedHash?: string;
-  actualHash?: string;
-  message: string;
+  entryType: LedgerEntryType;
+  amount: string | Prisma.Decimal;
+  /** Entry reference; defaults to the journal reference */
+  reference?: string;
+  /** Entry description; defaults to the journal description */
+  description?: string;
+  /** Leg currency; defaults to the journal currency */
+  currency?: string;
+  /** Entry this leg mirrors; set by reverseJournal */
+  reversesEntryId?: string;
+  /**
+   * Active hold on this leg's account that the debit captures. The hold
+   * is freed before the leg posts, so the leg spends the reserved funds
+   * (and any available balance beyond them); what the leg does not use
+   * is released.
+   */
+  capturesHoldId?: string;
 }
 
-/**
- * Computes SHA256 hash for a ledger entry.
- * Uses canonical JSON stringification for deterministic hashing.
- */
-export function computeEntryHash(
-  prevHash: string | null,
-  accountId: string,
-  walletSeq: number,
-  reference: string,
-  entryType: string,
-  amount: string,
-  description: string | null
-): string {
-  const canonical = JSON.stringify({
-    prevHash,
-    accountId,
-    walletSeq,
-    reference,
-    entryType,
-    amount,
-    description,
-  });
-  return crypto.createHash('sha256').update(canonical).digest('hex');
+export interface PostJournalParams {
+  reference: string;
+  orderId?: string;
+  description?: string;
+  /** Currency of legs that do not set one (default NGN) */
+  currency?: string;
+  /** Context stored on the journal, e.g. the FX rate used */
+  metadata?: Prisma.JsonObject;
+  /** Journal this one mirrors; set by reverseJournal */
+  reversesJournalId?: string;
+  legs: JournalLeg[];
+}
+
+export interface ReversalParams {
+  /** Idempotency key for the reversal */
+  reference: string;
+  /** Why the original is being undone; recorded on the reversal */
+  reason: string;
+  /** Defaults to the original's order */
+  orderId?: string;
+}
+
+export interface ReverseEntryParams extends ReversalParams {
+  entryId: string;
+}
+
+export interface ReverseJournalParams extends ReversalParams {
+  journalId: string;
+}
+
+export interface PostFxConversionParams {
+  reference: string;
+  orderId?: string;
+  description?: string;
+  /** Account paying the source currency */
+  fromAccountId: string;
+  /** Account receiving the target currency */
+  toAccountId: string;
+  fromCurrency: string;
+  toCurrency: string;
+  /** Amount in fromCurrency */
+  amount: string | Prisma.Decimal;
+  rateSource: FxRateSource;
+  /** Rate date (default now) */
+  asOf?: Date;
+}
+
+export interface PostJournalResult {
+  journalId: string;
+  reference: string;
+  entries: AppendEntryResult[];
+}
+
+export interface PlaceHoldParams {
+  accountId: string;
+  /** Idempotency key, unique per account */
+  reference: string;
+  amount: string | Prisma.Decimal;
+  reason?: string;
+  /** When the hold lapses on its own; never when omitted */
+  expiresAt?: Date;
+}
+
+export interface CaptureHoldParams {
+  holdId: string;
+  /** Account receiving the captured funds */
+  toAccountId: string;
+  /** Amount to capture (default: full hold); the remainder is released */
+  amount?: string | Prisma.Decimal;
+  /** Journal reference (default: HOLD_CAPTURE_{holdId}) */
+  reference?: string;
+  orderId?: string;
+  description?: string;
+}
+
+export interface CaptureHoldResult {
+  hold: WalletHold;
+  journal: PostJournalResult;
+}
+
+export interface SetAccountStatusParams {
+  accountId: string;
+  status: AccountStatus;
+  /** Recorded on the account while it is frozen or closed */
+  reason?: string;
+  /** User or service making the change */
+  changedBy?: string;
+}
+
+export interface LedgerTransactionOptions {
+  /**
+   * Defaults to ReadCommitted: account locks serialize writers, and each
+   * statement must see rows committed by the writer that held the lock
+   * before us. Under a snapshot level the chain head read after waiting
+   * on the lock would be stale and every contended posting would fail.
+   */
+  isolationLevel?: Prisma.TransactionIsolationLevel;
+  /** Max time the transaction may run (ms) */
+  timeout?: number;
+  /** Max time to wait for a connection to start the transaction (ms) */
+  maxWait?: number;
+  /** Retries after the first attempt for serialization/deadlock failures */
+  maxRetries?: number;
+  /** Base delay for exponential backoff between retries (ms) */
+  baseDelayMs?: number;
 }
 
 /**
  * Appends a new entry to the ledger within a transaction.
  * 
+ * Business events should go through postJournal so that their
+ * legs balance; this is the single-leg primitive it builds on.
+ * 
  * This function MUST be called within a Prisma transaction.
  * It handles:
- * 1. Locking the last entry for the account
- * 2. Incrementing walletSeq
- * 3. Computing hash chain
- * 4. Creating the ledger entry
- * 5. Updating wallet balance cache
+ * 1. Locking the account (transaction-scoped advisory lock)
+ * 2. Checking the account is registered, not frozen or closed for this
+ *    side, and in the entry currency
+ * 3. Enforcing the account's overdraft policy on debits
+ * 4. Incrementing walletSeq and computing the hash chain
+ * 5. Creating the ledger entry
+ * 6. Updating wallet balance cache
  * 
  * @param tx - Prisma transaction client
  * @param params - Entry parameters
  * @returns The created ledger entry
- * @throws Error if idempotency check fails or balance insufficient for debits
+ * @throws LedgerError ACCOUNT_NOT_FOUND, ACCOUNT_FROZEN, ACCOUNT_CLOSED, CURRENCY_MISMATCH,
+ *   or INSUFFICIENT_BALANCE if a posting against the account's normal side
+ *   exceeds its available natural balance plus the overdraft allowance
  */
 export async function appendEntry(
   tx: Prisma.TransactionClient,
   params: AppendEntryParams
 ): Promise<AppendEntryResult> {
-  const { reference, orderId, accountId, entryType, amount, description } = params;
+  const { reference, orderId, accountId, entryType, amount, description, journalId, reversesEntryId } = params;
+  const currency = params.currency ?? BASE_CURRENCY;
   
   // Convert amount to string for consistent handling
   const amountStr = typeof amount === 'string' ? amount : amount.toString();
   const amountDecimal = new Prisma.Decimal(amountStr);
 
+  // Serialize writers to this account until the transaction ends
+  await lockAccounts(tx, [accountId]);
+
   // Check for existing entry with same reference (idempotency)
   const existingEntry = await tx.ledgerEntry.findUnique({
     where: {
@@ -107,19 +239,54 @@ export async function appendEntry(
 
   if (existingEntry) {
     // Idempotent: return existing entry
-    return {
-      id: existingEntry.id,
-      accountId: existingEntry.accountId,
-      walletSeq: existingEntry.walletSeq,
-      reference: existingEntry.reference,
-      entryType: existingEntry.entryType,
-      amount: existingEntry.amount,
-      entryHash: existingEntry.entryHash,
-      prevHash: existingEntry.prevHash,
-    };
+    return toEntryResult(existingEntry);
+  }
+
+  const account = await getPostableAccount(tx, accountId, currency, entryType);
+
+  const existingBalance = await tx.walletBalanceCache.findUnique({
+    where: { accountId },
+  });
+
+  const balanceChange = entryType === LedgerEntryType.CREDIT 
+    ? amountDecimal 
+    : amountDecimal.negated();
+  const balance = existingBalance?.balance ?? new Prisma.Decimal(0);
+  const newBalance = balance.add(balanceChange);
+
+  // Postings against the account's normal side (debits to liabilities,
+  // credits to assets) may spend the available natural balance (held
+  // funds are not spendable) plus the overdraft the policy allows
+  const floor = overdraftFloor(account);
+  if (entryType !== account.normalBalance && floor) {
+    // Expired holds are released first
+    let heldAmount = existingBalance?.heldAmount ?? new Prisma.Decimal(0);
+    if (heldAmount.greaterThan(0)) {
+      const swept = await sweepExpiredHolds(tx, accountId);
+      heldAmount = heldAmount.sub(swept.amount);
+    }
+
+    if (naturalBalance(account, newBalance).sub(heldAmount).lessThan(floor)) {
+      const natural = naturalBalance(account, balance);
+      const available = natural.sub(heldAmount);
+      throw new LedgerError(
+        'INSUFFICIENT_BALANCE',
+        `Insufficient balance for ${accountId}. ` +
+        `Available: ${available.toString()}, ` +
+        `Required: ${amountStr}`,
+        {
+          accountId,
+          balance: natural.toString(),
+          heldAmount: heldAmount.toString(),
+          availableBalance: available.toString(),
+          overdraftLimit: floor.negated().toString(),
+          required: amountStr,
+        }
+      );
+    }
   }
 
-  // Lock and get the last entry for this account
+  // Get the last entry for this account (safe: we hold the account lock)
   const lastEntry = await tx.ledgerEntry.findFirst({
     where: { accountId },
     orderBy: { walletSeq: 'desc' },
@@ -136,7 +303,9 @@ export async function appendEntry(
     reference,
     entryType,
     amountStr,
-    description ?? null
+    description ?? null,
+    currency,
+    reversesEntryId ?? null
   );
 
   // Create ledger entry
@@ -146,35 +315,19 @@ export async function appendEntry(
       walletSeq,
       reference,
       orderId,
+      journalId,
       entryType,
       amount: amountDecimal,
+      currency,
       description,
+      reversesEntryId,
       prevHash,
       entryHash,
     },
   });
 
   // Update or create wallet balance cache
-  const balanceChange = entryType === LedgerEntryType.CREDIT 
-    ? amountDecimal 
-    : amountDecimal.negated();
-
-  const existingBalance = await tx.walletBalanceCache.findUnique({
-    where: { accountId },
-  });
-
   if (existingBalance) {
-    const newBalance = existingBalance.balance.add(balanceChange);
-    
-    // Prevent negative balances for debit operations
-    if (newBalance.lessThan(0)) {
-      throw new Error(
-        `Insufficient balance for ${accountId}. ` +
-        `Current: ${existingBalance.balance.toString()}, ` +
-        `Required: ${amountStr}`
-      );
-    }
-
     await tx.walletBalanceCache.update({
       where: { accountId },
       data: {
@@ -184,174 +337,1019 @@ export async function appendEntry(
     });
   } else {
     // First entry for this account
-    if (entryType === LedgerEntryType.DEBIT) {
-      throw new Error(`Cannot debit non-existent wallet: ${accountId}`);
-    }
-
     await tx.walletBalanceCache.create({
       data: {
         accountId,
-        balance: amountDecimal,
-        currency: 'NGN',
+        balance: newBalance,
+        currency: account.currency,
         lastEntrySeq: walletSeq,
       },
     });
   }
 
+  return toEntryResult(entry);
+}
+
+/**
+ * Checks that a set of journal legs is postable and balanced.
+ * 
+ * Rules:
+ * - At least two legs
+ * - Every amount is strictly positive
+ * - No two legs resolve to the same (accountId, reference)
+ * - Total debits equal total credits in every currency
+ * 
+ * @param defaultCurrency - Currency of legs that do not set one
+ * @returns Total posted on each side, per currency
+ * @throws LedgerError if any rule is violated
+ */
+export function validateJournalLegs(
+  reference: string,
+  legs: JournalLeg[],
+  defaultCurrency: string = BASE_CURRENCY
+): Record<string, { totalDebits: Prisma.Decimal; totalCredits: Prisma.Decimal }> {
+  if (legs.length < 2) {
+    throw new LedgerError(
+      'JOURNAL_TOO_FEW_LEGS',
+      `Journal ${reference} must have at least one debit and one credit leg`,
+      { reference, legs: legs.length }
+    );
+  }
+
+  const totals: Record<string, { totalDebits: Prisma.Decimal; totalCredits: Prisma.Decimal }> = {};
+  const seen = new Set<string>();
+
+  for (const leg of legs) {
+    const amount = new Prisma.Decimal(leg.amount.toString());
+    const legReference = leg.reference ?? reference;
+    const currency = leg.currency ?? defaultCurrency;
+
+    if (amount.lessThanOrEqualTo(0)) {
+      throw new LedgerError(
+        'INVALID_AMOUNT',
+        `Journal ${reference} has a non-positive leg for ${leg.accountId}`,
+        { reference, accountId: leg.accountId, amount: amount.toString() }
+      );
+    }
+
+    const key = `${leg.accountId}|${legReference}`;
+    if (seen.has(key)) {
+      throw new LedgerError(
+        'DUPLICATE_JOURNAL_LEG',
+        `Journal ${reference} posts reference ${legReference} to ${leg.accountId} twice`,
+        { reference, accountId: leg.accountId, legReference }
+      );
+    }
+    seen.add(key);
+
+    const side = totals[currency] ?? (totals[currency] = {
+      totalDebits: new Prisma.Decimal(0),
+      totalCredits: new Prisma.Decimal(0),
+    });
+
+    if (leg.entryType === LedgerEntryType.CREDIT) {
+      side.totalCredits = side.totalCredits.add(amount);
+    } else {
+      side.totalDebits = side.totalDebits.add(amount);
+    }
+  }
+
+  for (const [currency, { totalDebits, totalCredits }] of Object.entries(totals)) {
+    if (!totalDebits.equals(totalCredits)) {
+      throw new LedgerError(
+        'UNBALANCED_JOURNAL',
+        `Journal ${reference} is unbalanced in ${currency}. ` +
+        `Debits: ${totalDebits.toString()}, Credits: ${totalCredits.toString()}`,
+        { reference, currency, totalDebits: totalDebits.toString(), totalCredits: totalCredits.toString() }
+      );
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Posts a balanced set of debit and credit legs as one journal.
+ * 
+ * This function MUST be called within a Prisma transaction.
+ * Each leg is written through appendEntry, so it gets its own
+ * walletSeq and hash-chain link, and all legs share one journalId.
+ * 
+ * Idempotent on the journal reference: posting the same reference
+ * again returns the entries of the original journal.
+ * 
+ * @param tx - Prisma transaction client
+ * @param params - Journal reference and legs
+ * @returns The journal ID and its ledger entries
+ * @throws LedgerError if the legs are unbalanced, a leg reference is already
+ *   used, or a hold a leg captures is not active on that leg's account
+ */
+export async function postJournal(
+  tx: Prisma.TransactionClient,
+  params: PostJournalParams
+): Promise<PostJournalResult> {
+  const { reference, orderId, description, metadata, reversesJournalId, legs } = params;
+  const currency = params.currency ?? BASE_CURRENCY;
+
+  validateJournalLegs(reference, legs, currency);
+
+  // Take every account lock up front, in a stable order, so two journals
+  // touching the same accounts cannot deadlock each other.
+  await lockAccounts(tx, legs.map((leg) => leg.accountId));
+
+  // Idempotent: return the journal already posted under this reference
+  const existingJournal = await tx.ledgerJournal.findUnique({
+    where: { reference },
+    include: { entries: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  if (existingJournal) {
+    return {
+      journalId: existingJournal.id,
+      reference: existingJournal.reference,
+      entries: existingJournal.entries.map(toEntryResult),
+    };
+  }
+
+  const captures = await takeCapturedHolds(tx, reference, legs);
+
+  const journal = await tx.ledgerJournal.create({
+    data: { reference, orderId, description, metadata, reversesJournalId },
+  });
+
+  const entries: AppendEntryResult[] = [];
+
+  for (const leg of legs) {
+    const entry = await appendEntry(tx, {
+      reference: leg.reference ?? reference,
+      orderId,
+      accountId: leg.accountId,
+      entryType: leg.entryType,
+      amount: leg.amount,
+      description: leg.description ?? description,
+      journalId: journal.id,
+      currency: leg.currency ?? currency,
+      reversesEntryId: leg.reversesEntryId,
+    });
+
+    // appendEntry returns an existing entry on reference reuse; a leg
+    // silently resolving to another posting would unbalance this journal.
+    if (entry.journalId !== journal.id) {
+      throw new LedgerError(
+        'REFERENCE_CONFLICT',
+        `Reference ${entry.reference} is already posted to ${entry.accountId} outside journal ${reference}`,
+        { reference, accountId: entry.accountId, entryId: entry.id }
+      );
+    }
+
+    entries.push(entry);
+  }
+
+  const now = new Date();
+  for (const { hold, amount } of captures) {
+    await tx.walletHold.update({
+      where: { id: hold.id },
+      data: {
+        status: WalletHoldStatus.CAPTURED,
+        capturedAmount: amount,
+        capturedJournalId: journal.id,
+        resolvedAt: now,
+      },
+    });
+  }
+
   return {
-    id: entry.id,
-    accountId: entry.accountId,
-    walletSeq: entry.walletSeq,
-    reference: entry.reference,
-    entryType: entry.entryType,
-    amount: entry.amount,
-    entryHash: entry.entryHash,
-    prevHash: entry.prevHash,
+    journalId: journal.id,
+    reference: journal.reference,
+    entries,
   };
 }
 
 /**
- * Verifies the hash chain integrity for an account.
+ * Frees the holds a journal's legs capture, so the legs can spend them.
+ * The caller MUST hold the leg accounts' locks.
  * 
- * Recomputes all hashes from the beginning and compares
- * against stored hashes to detect tampering.
+ * @returns Each captured hold and the amount its leg takes from it
+ * @throws LedgerError HOLD_NOT_FOUND, HOLD_NOT_ACTIVE, HOLD_EXPIRED, or
+ *   HOLD_LEG_MISMATCH if the leg is not a debit of the held account
+ */
+async function takeCapturedHolds(
+  tx: Prisma.TransactionClient,
+  reference: string,
+  legs: JournalLeg[]
+): Promise<Array<{ hold: WalletHold; amount: Prisma.Decimal }>> {
+  const captures: Array<{ hold: WalletHold; amount: Prisma.Decimal }> = [];
+  const now = new Date();
+
+  for (const leg of legs) {
+    if (!leg.capturesHoldId) {
+      continue;
+    }
+
+    const hold = await lockHold(tx, leg.capturesHoldId);
+
+    if (hold.accountId !== leg.accountId || leg.entryType !== LedgerEntryType.DEBIT) {
+      throw new LedgerError(
+        'HOLD_LEG_MISMATCH',
+        `Journal ${reference} captures hold ${hold.id} with a leg that is not a debit of ${hold.accountId}`,
+        { reference, holdId: hold.id, holdAccountId: hold.accountId, accountId: leg.accountId, entryType: leg.entryType }
+      );
+    }
+
+    if (hold.status !== WalletHoldStatus.ACTIVE) {
+      throw new LedgerError('HOLD_NOT_ACTIVE', `Hold ${hold.id} is ${hold.status}`, { holdId: hold.id, status: hold.status });
+    }
+
+    if (hold.expiresAt && hold.expiresAt <= now) {
+      throw new LedgerError('HOLD_EXPIRED', `Hold ${hold.id} expired at ${hold.expiresAt.toISOString()}`, { holdId: hold.id });
+    }
+
+    await tx.walletBalanceCache.update({
+      where: { accountId: hold.accountId },
+      data: { heldAmount: { decrement: hold.amount } },
+    });
+
+    captures.push({ hold, amount: Prisma.Decimal.min(leg.amount.toString(), hold.amount) });
+  }
+
+  return captures;
+}
+
+/**
+ * Converts an amount between currencies as one journal.
  * 
- * @param prisma - Prisma client
- * @param accountId - Account to verify
- * @param fromSeq - Start sequence (default: 1)
- * @param toSeq - End sequence (default: latest)
- * @returns Verification result
+ * The source currency moves into FX_POSITION_<from> and the converted
+ * amount moves out of FX_POSITION_<to>, so each currency balances on
+ * its own. The rate used is stored in the journal metadata.
+ * 
+ * This function MUST be called within a Prisma transaction.
+ * 
+ * @param tx - Prisma transaction client
+ * @param params - Accounts, currencies, amount and rate source
+ * @returns The journal and its four entries
+ * @throws LedgerError FX_RATE_NOT_FOUND if the rate source has no rate
  */
-export async function verifyChain(
-  prisma: PrismaClient,
-  accountId: string,
-  fromSeq?: number,
-  toSeq?: number
-): Promise<VerifyChainResult> {
-  // Get all entries for the account, ordered by sequence
-  const entries = await prisma.ledgerEntry.findMany({
-    where: {
-      accountId,
-      ...(fromSeq !== undefined && { walletSeq: { gte: fromSeq } }),
-      ...(toSeq !== undefined && { walletSeq: { lte: toSeq } }),
-    },
-    orderBy: { walletSeq: 'asc' },
+export async function postFxConversion(
+  tx: Prisma.TransactionClient,
+  params: PostFxConversionParams
+): Promise<PostJournalResult> {
+  const { reference, orderId, description, fromAccountId, toAccountId, fromCurrency, toCurrency, amount, rateSource, asOf } = params;
+
+  const quote = await rateSource.getRate(fromCurrency, toCurrency, asOf);
+  const { legs, convertedAmount } = buildFxConversionLegs({
+    fromAccountId,
+    toAccountId,
+    amount,
+    quote,
+    description,
+  });
+
+  return postJournal(tx, {
+    reference,
+    orderId,
+    description: description ?? `FX conversion ${fromCurrency}->${toCurrency} at ${quote.rate.toString()}`,
+    metadata: fxJournalMetadata(quote, amount, convertedAmount),
+    legs,
+  });
+}
+
+/**
+ * Undoes a journal by posting its mirror image: every leg is posted
+ * again on the opposite side, linked to the leg it reverses, as one new
+ * journal linked to the original. Nothing already posted changes.
+ * 
+ * This function MUST be called within a Prisma transaction.
+ * Idempotent on the reversal reference. Mirrored debits are subject to
+ * the same available balance, overdraft and freeze checks as any other.
+ * 
+ * @throws LedgerError JOURNAL_NOT_FOUND, ALREADY_REVERSED,
+ *   REVERSAL_NOT_REVERSIBLE for a journal that is itself a reversal,
+ *   REFERENCE_CONFLICT if the reference is used by another journal
+ */
+export async function reverseJournal(
+  tx: Prisma.TransactionClient,
+  params: ReverseJournalParams
+): Promise<PostJournalResult> {
+  const { journalId, reference, reason } = params;
+
+  const original = await tx.ledgerJournal.findUnique({
+    where: { id: journalId },
+    include: { entries: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  if (!original) {
+    throw new LedgerError('JOURNAL_NOT_FOUND', `Journal not found: ${journalId}`, { journalId });
+  }
+
+  // Checks below must not race another reversal of the same journal
+  await lockAccounts(tx, original.entries.map((entry) => entry.accountId));
+
+  const existing = await tx.ledgerJournal.findUnique({
+    where: { reference },
+    include: { entries: { orderBy: { createdAt: 'asc' } } },
   });
 
-  if (entries.length === 0) {
+  if (existing) {
+    if (existing.reversesJournalId !== original.id) {
+      throw new LedgerError(
+        'REFERENCE_CONFLICT',
+        `Reference ${reference} is already used by journal ${existing.id}`,
+        { reference, journalId: existing.id }
+      );
+    }
     return {
-      accountId,
-      valid: true,
-      entriesVerified: 0,
-      message: 'No entries found for account',
+      journalId: existing.id,
+      reference: existing.reference,
+      entries: existing.entries.map(toEntryResult),
     };
   }
 
-  let prevHash: string | null = null;
+  assertReversible(original.reversesJournalId, 'Journal', journalId);
 
-  // If starting from a sequence > 1, get the previous entry's hash
-  if (fromSeq && fromSeq > 1) {
-    const prevEntry = await prisma.ledgerEntry.findFirst({
-      where: {
-        accountId,
-        walletSeq: fromSeq - 1,
-      },
+  const reversal = await tx.ledgerJournal.findUnique({ where: { reversesJournalId: original.id } });
+  if (reversal) {
+    throw new LedgerError('ALREADY_REVERSED', `Journal ${original.reference} is already reversed`, {
+      journalId,
+      reversalJournalId: reversal.id,
     });
-    prevHash = prevEntry?.entryHash ?? null;
   }
 
-  for (const entry of entries) {
-    const expectedHash = computeEntryHash(
-      prevHash,
-      entry.accountId,
-      entry.walletSeq,
-      entry.reference,
-      entry.entryType,
-      entry.amount.toString(),
-      entry.description
+  return postJournal(tx, {
+    reference,
+    orderId: params.orderId ?? original.orderId ?? undefined,
+    description: `Reversal of ${original.reference}: ${reason}`,
+    metadata: { reason },
+    reversesJournalId: original.id,
+    legs: original.entries.map((entry) => ({
+      accountId: entry.accountId,
+      entryType: oppositeSide(entry.entryType),
+      amount: entry.amount,
+      currency: entry.currency,
+      // Legs that had their own reference keep one derived from it
+      reference: entry.reference === original.reference ? reference : `${reference}_${entry.reference}`,
+      reversesEntryId: entry.id,
+    })),
+  });
+}
+
+/**
+ * Undoes a single entry that was posted outside a journal by appending
+ * its mirror image. Legs of a journal cannot be reversed on their own,
+ * as that would unbalance it; use reverseJournal.
+ * 
+ * This function MUST be called within a Prisma transaction.
+ * Idempotent on (accountId, reference).
+ * 
+ * @throws LedgerError ENTRY_NOT_FOUND, JOURNAL_LEG_REVERSAL, ALREADY_REVERSED,
+ *   REVERSAL_NOT_REVERSIBLE, REFERENCE_CONFLICT
+ */
+export async function reverseEntry(
+  tx: Prisma.TransactionClient,
+  params: ReverseEntryParams
+): Promise<AppendEntryResult> {
+  const { entryId, reference, reason } = params;
+
+  const original = await tx.ledgerEntry.findUnique({ where: { id: entryId } });
+
+  if (!original) {
+    throw new LedgerError('ENTRY_NOT_FOUND', `Ledger entry not found: ${entryId}`, { entryId });
+  }
+
+  if (original.journalId) {
+    throw new LedgerError(
+      'JOURNAL_LEG_REVERSAL',
+      `Entry ${entryId} is a leg of journal ${original.journalId}; reverse the journal instead`,
+      { entryId, journalId: original.journalId }
     );
+  }
 
-    if (expectedHash !== entry.entryHash) {
-      return {
-        accountId,
-        valid: false,
-        entriesVerified: entry.walletSeq - (fromSeq ?? 1),
-        brokenAtSeq: entry.walletSeq,
-        expectedHash,
-        actualHash: entry.entryHash,
-        message: `Chain broken at sequence ${entry.walletSeq}`,
-      };
+  const { accountId } = original;
+  await lockAccounts(tx, [accountId]);
+
+  const existing = await tx.ledgerEntry.findUnique({
+    where: { accountId_reference: { accountId, reference } },
+  });
+
+  if (existing) {
+    if (existing.reversesEntryId !== original.id) {
+      throw new LedgerError(
+        'REFERENCE_CONFLICT',
+        `Reference ${reference} is already posted to ${accountId}`,
+        { reference, accountId, entryId: existing.id }
+      );
     }
+    return toEntryResult(existing);
+  }
+
+  assertReversible(original.reversesEntryId, 'Entry', entryId);
+
+  const reversal = await tx.ledgerEntry.findUnique({ where: { reversesEntryId: original.id } });
+  if (reversal) {
+    throw new LedgerError('ALREADY_REVERSED', `Entry ${entryId} is already reversed`, {
+      entryId,
+      reversalEntryId: reversal.id,
+    });
+  }
+
+  return appendEntry(tx, {
+    reference,
+    orderId: params.orderId ?? original.orderId ?? undefined,
+    accountId,
+    entryType: oppositeSide(original.entryType),
+    amount: original.amount,
+    currency: original.currency,
+    description: `Reversal of ${original.reference}: ${reason}`,
+    reversesEntryId: original.id,
+  });
+}
+
+function oppositeSide(entryType: LedgerEntryType): LedgerEntryType {
+  return entryType === LedgerEntryType.CREDIT ? LedgerEntryType.DEBIT : LedgerEntryType.CREDIT;
+}
+
+// Undoing a reversal would be a re-posting; post the event again instead
+function assertReversible(reversesId: string | null, kind: 'Entry' | 'Journal', id: string): void {
+  if (reversesId) {
+    throw new LedgerError('REVERSAL_NOT_REVERSIBLE', `${kind} ${id} is itself a reversal`, {
+      id,
+      reverses: reversesId,
+    });
+  }
+}
+
+/**
+ * Places a hold on a wallet, reserving funds without moving them.
+ * 
+ * The hold reduces the available balance immediately; the ledger
+ * balance only changes if the hold is later captured.
+ * This function MUST be called within a Prisma transaction.
+ * Idempotent on (accountId, reference). A hold reserves funds for a
+ * debit, so accounts frozen for debits cannot take new holds.
+ * 
+ * @throws LedgerError WALLET_NOT_FOUND, INVALID_AMOUNT, INSUFFICIENT_BALANCE,
+ *   ACCOUNT_NOT_FOUND, ACCOUNT_FROZEN, ACCOUNT_CLOSED
+ */
+export async function placeHold(
+  tx: Prisma.TransactionClient,
+  params: PlaceHoldParams
+): Promise<WalletHold> {
+  const { accountId, reference, reason, expiresAt } = params;
+  const amount = new Prisma.Decimal(params.amount.toString());
+
+  if (amount.lessThanOrEqualTo(0)) {
+    throw new LedgerError('INVALID_AMOUNT', 'Hold amount must be positive', { accountId, amount: amount.toString() });
+  }
+
+  await lockAccounts(tx, [accountId]);
 
-    // Verify prevHash linkage
-    if (entry.prevHash !== prevHash) {
-      return {
+  const existingHold = await tx.walletHold.findUnique({
+    where: { accountId_reference: { accountId, reference } },
+  });
+
+  if (existingHold) {
+    return existingHold;
+  }
+
+  const wallet = await tx.walletBalanceCache.findUnique({ where: { accountId } });
+  if (!wallet) {
+    throw new LedgerError('WALLET_NOT_FOUND', `Cannot place hold on non-existent wallet: ${accountId}`, { accountId });
+  }
+
+  const account = await getPostableAccount(tx, accountId, wallet.currency, LedgerEntryType.DEBIT);
+
+  const swept = await sweepExpiredHolds(tx, accountId);
+  const heldAmount = wallet.heldAmount.sub(swept.amount);
+  const balance = naturalBalance(account, wallet.balance);
+  const available = balance.sub(heldAmount);
+
+  if (available.lessThan(amount)) {
+    throw new LedgerError(
+      'INSUFFICIENT_BALANCE',
+      `Insufficient available balance for hold on ${accountId}. ` +
+      `Available: ${available.toString()}, Required: ${amount.toString()}`,
+      {
         accountId,
-        valid: false,
-        entriesVerified: entry.walletSeq - (fromSeq ?? 1),
-        brokenAtSeq: entry.walletSeq,
-        expectedHash: prevHash ?? 'null',
-        actualHash: entry.prevHash ?? 'null',
-        message: `Previous hash mismatch at sequence ${entry.walletSeq}`,
-      };
-    }
+        balance: balance.toString(),
+        heldAmount: heldAmount.toString(),
+        availableBalance: available.toString(),
+        required: amount.toString(),
+      }
+    );
+  }
+
+  const hold = await tx.walletHold.create({
+    data: {
+      accountId,
+      reference,
+      amount,
+      currency: wallet.currency,
+      reason,
+      expiresAt,
+    },
+  });
+
+  await tx.walletBalanceCache.update({
+    where: { accountId },
+    data: { heldAmount: { increment: amount } },
+  });
+
+  return hold;
+}
+
+/**
+ * Releases an active hold, making its funds available again.
+ * 
+ * This function MUST be called within a Prisma transaction.
+ * Releasing a hold that is already released or expired is a no-op.
+ * 
+ * @throws LedgerError HOLD_NOT_FOUND, HOLD_NOT_ACTIVE (already captured)
+ */
+export async function releaseHold(
+  tx: Prisma.TransactionClient,
+  holdId: string
+): Promise<WalletHold> {
+  const hold = await lockHold(tx, holdId);
+
+  if (hold.status === WalletHoldStatus.RELEASED || hold.status === WalletHoldStatus.EXPIRED) {
+    return hold;
+  }
+
+  if (hold.status !== WalletHoldStatus.ACTIVE) {
+    throw new LedgerError('HOLD_NOT_ACTIVE', `Hold ${holdId} is ${hold.status}`, { holdId, status: hold.status });
+  }
+
+  const released = await tx.walletHold.update({
+    where: { id: holdId },
+    data: { status: WalletHoldStatus.RELEASED, resolvedAt: new Date() },
+  });
+
+  await tx.walletBalanceCache.update({
+    where: { accountId: hold.accountId },
+    data: { heldAmount: { decrement: hold.amount } },
+  });
+
+  return released;
+}
+
+/**
+ * Captures an active hold into a real ledger posting: the held wallet
+ * is debited and toAccountId credited, as one balanced journal.
+ * 
+ * A partial capture releases the remainder of the hold.
+ * This function MUST be called within a Prisma transaction.
+ * Capturing an already captured hold returns the original journal.
+ * 
+ * @throws LedgerError HOLD_NOT_FOUND, HOLD_NOT_ACTIVE, HOLD_EXPIRED,
+ *   INVALID_AMOUNT (zero, negative or above the held amount)
+ */
+export async function captureHold(
+  tx: Prisma.TransactionClient,
+  params: CaptureHoldParams
+): Promise<CaptureHoldResult> {
+  const { holdId, toAccountId, orderId, description } = params;
+
+  const hold = await lockHold(tx, holdId, [toAccountId]);
+
+  if (hold.status === WalletHoldStatus.CAPTURED && hold.capturedJournalId) {
+    const journal = await tx.ledgerJournal.findUniqueOrThrow({
+      where: { id: hold.capturedJournalId },
+      include: { entries: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    return {
+      hold,
+      journal: {
+        journalId: journal.id,
+        reference: journal.reference,
+        entries: journal.entries.map(toEntryResult),
+      },
+    };
+  }
+
+  if (hold.status !== WalletHoldStatus.ACTIVE) {
+    throw new LedgerError('HOLD_NOT_ACTIVE', `Hold ${holdId} is ${hold.status}`, { holdId, status: hold.status });
+  }
+
+  const now = new Date();
+  if (hold.expiresAt && hold.expiresAt <= now) {
+    throw new LedgerError('HOLD_EXPIRED', `Hold ${holdId} expired at ${hold.expiresAt.toISOString()}`, { holdId });
+  }
+
+  const amount = params.amount !== undefined ? new Prisma.Decimal(params.amount.toString()) : hold.amount;
+  if (amount.lessThanOrEqualTo(0) || amount.greaterThan(hold.amount)) {
+    throw new LedgerError(
+      'INVALID_AMOUNT',
+      `Capture amount must be positive and at most the held ${hold.amount.toString()}`,
+      { holdId, amount: amount.toString(), heldAmount: hold.amount.toString() }
+    );
+  }
+
+  // Free the whole hold first so the debit below can spend it
+  await tx.walletBalanceCache.update({
+    where: { accountId: hold.accountId },
+    data: { heldAmount: { decrement: hold.amount } },
+  });
+
+  const journal = await postJournal(tx, {
+    reference: params.reference ?? `HOLD_CAPTURE_${hold.id}`,
+    orderId,
+    description: description ?? `Capture of hold ${hold.reference}`,
+    currency: hold.currency,
+    legs: [
+      { accountId: hold.accountId, entryType: LedgerEntryType.DEBIT, amount },
+      { accountId: toAccountId, entryType: LedgerEntryType.CREDIT, amount },
+    ],
+  });
+
+  const captured = await tx.walletHold.update({
+    where: { id: holdId },
+    data: {
+      status: WalletHoldStatus.CAPTURED,
+      capturedAmount: amount,
+      capturedJournalId: journal.journalId,
+      resolvedAt: now,
+    },
+  });
+
+  return { hold: captured, journal };
+}
+
+/**
+ * Marks an account's lapsed holds EXPIRED and returns their funds to
+ * the available balance. The caller MUST hold the account lock.
+ * 
+ * @returns Number of holds expired and the amount released
+ */
+export async function sweepExpiredHolds(
+  tx: Prisma.TransactionClient,
+  accountId: string,
+  now: Date = new Date()
+): Promise<{ count: number; amount: Prisma.Decimal }> {
+  const expired = await tx.walletHold.findMany({
+    where: { accountId, status: WalletHoldStatus.ACTIVE, expiresAt: { lte: now } },
+    select: { id: true, amount: true },
+  });
+
+  let amount = new Prisma.Decimal(0);
+  if (expired.length === 0) {
+    return { count: 0, amount };
+  }
+
+  for (const hold of expired) {
+    amount = amount.add(hold.amount);
+  }
+
+  await tx.walletHold.updateMany({
+    where: { id: { in: expired.map((h) => h.id) } },
+    data: { status: WalletHoldStatus.EXPIRED, resolvedAt: now },
+  });
+
+  await tx.walletBalanceCache.update({
+    where: { accountId },
+    data: { heldAmount: { decrement: amount } },
+  });
 
-    prevHash = entry.entryHash;
+  return { count: expired.length, amount };
+}
+
+/**
+ * Expires lapsed holds across all wallets, one short transaction per
+ * account. Intended for a periodic job.
+ * 
+ * @param prisma - Prisma client
+ * @param limit - Max accounts to process in one run
+ * @returns Holds expired and accounts touched
+ */
+export async function expireHolds(
+  prisma: PrismaClient,
+  limit = 500
+): Promise<{ holdsExpired: number; accountsProcessed: number }> {
+  const now = new Date();
+  const accounts = await prisma.walletHold.findMany({
+    where: { status: WalletHoldStatus.ACTIVE, expiresAt: { lte: now } },
+    distinct: ['accountId'],
+    select: { accountId: true },
+    take: limit,
+  });
+
+  let holdsExpired = 0;
+  for (const { accountId } of accounts) {
+    const swept = await runLedgerTransaction(prisma, async (tx) => {
+      await lockAccounts(tx, [accountId]);
+      return sweepExpiredHolds(tx, accountId, now);
+    });
+    holdsExpired += swept.count;
+  }
+
+  return { holdsExpired, accountsProcessed: accounts.length };
+}
+
+/**
+ * Loads a hold under its account lock (plus any extra accounts), so its
+ * status cannot change underneath the caller.
+ */
+async function lockHold(
+  tx: Prisma.TransactionClient,
+  holdId: string,
+  extraAccountIds: string[] = []
+): Promise<WalletHold> {
+  const hold = await tx.walletHold.findUnique({ where: { id: holdId } });
+  if (!hold) {
+    throw new LedgerError('HOLD_NOT_FOUND', `Hold not found: ${holdId}`, { holdId });
   }
 
+  await lockAccounts(tx, [hold.accountId, ...extraAccountIds]);
+
+  // Re-read: the hold may have been resolved while we waited for the lock
+  return tx.walletHold.findUniqueOrThrow({ where: { id: holdId } });
+}
+
+/**
+ * Acquires transaction-scoped advisory locks for the given accounts.
+ * 
+ * Locks are taken in sorted order to avoid deadlocks and are released
+ * automatically on commit or rollback. Re-acquiring a lock already held
+ * by the same transaction is a no-op, so callers may nest freely.
+ * An advisory lock is used rather than a row lock on WalletBalanceCache
+ * because the cache row does not exist before an account's first entry.
+ */
+export async function lockAccounts(
+  tx: Prisma.TransactionClient,
+  accountIds: string[]
+): Promise<void> {
+  const ordered = Array.from(new Set(accountIds)).sort();
+
+  for (const accountId of ordered) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtextextended(${accountId}, 0))`;
+  }
+}
+
+/**
+ * Whether a failed transaction can safely be retried from scratch:
+ * serialization failures, deadlocks and write conflicts.
+ */
+export function isRetryableTransactionError(error: unknown): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) {
+    return false;
+  }
+
+  // P2034: Transaction failed due to a write conflict or a deadlock
+  if (error.code === 'P2034') {
+    return true;
+  }
+
+  // P2010: Raw query failed - inspect the underlying Postgres SQLSTATE
+  const sqlState = (error.meta as { code?: string } | undefined)?.code;
+  return error.code === 'P2010' && (sqlState === '40001' || sqlState === '40P01');
+}
+
+/**
+ * Runs a ledger-writing transaction, retrying serialization failures
+ * and deadlocks with exponential backoff and jitter.
+ * 
+ * The callback may run more than once, so it must not have side
+ * effects outside the transaction.
+ * 
+ * @param prisma - Prisma client
+ * @param fn - Transaction body
+ * @param options - Isolation, timeouts and retry policy
+ * @returns The callback result from the attempt that committed
+ */
+export async function runLedgerTransaction<T>(
+  prisma: PrismaClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options: LedgerTransactionOptions = {}
+): Promise<T> {
+  const {
+    isolationLevel = Prisma.TransactionIsolationLevel.ReadCommitted,
+    timeout = 10000,
+    maxWait,
+    maxRetries = 5,
+    baseDelayMs = 25,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, { isolationLevel, timeout, maxWait });
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableTransactionError(error)) {
+        throw error;
+      }
+
+      const delay = baseDelayMs * 2 ** attempt;
+      await new Promise((resolve) => setTimeout(resolve, delay + Math.random() * delay));
+    }
+  }
+}
+
+function toEntryResult(entry: LedgerEntry): AppendEntryResult {
   return {
-    accountId,
-    valid: true,
-    entriesVerified: entries.length,
-    message: 'Chain integrity verified',
+    id: entry.id,
+    accountId: entry.accountId,
+    walletSeq: entry.walletSeq,
+    reference: entry.reference,
+    journalId: entry.journalId,
+    entryType: entry.entryType,
+    amount: entry.amount,
+    currency: entry.currency,
+    reversesEntryId: entry.reversesEntryId,
+    entryHash: entry.entryHash,
+    prevHash: entry.prevHash,
   };
 }
 
 /**
- * Gets the current balance for an account from cache.
+ * Gets the balance of an account from cache.
+ * 
+ * balance is the ledger balance (sum of entries). availableBalance
+ * excludes active holds; holds past their expiry are not counted even
+ * if the sweeper has not marked them yet. It is zero while the account's
+ * status refuses debits, and unavailable says why.
  */
 export async function getBalance(
   prisma: PrismaClient,
   accountId: string
-): Promise<{ balance: Prisma.Decimal; lastEntrySeq: number } | null> {
-  const cache = await prisma.walletBalanceCache.findUnique({
-    where: { accountId },
-  });
+): Promise<{
+  balance: Prisma.Decimal;
+  heldAmount: Prisma.Decimal;
+  availableBalance: Prisma.Decimal;
+  currency: string;
+  lastEntrySeq: number;
+  lastUpdatedAt: Date;
+  status: AccountStatus | null;
+  unavailable: AccountRestriction | null;
+} | null> {
+  const [cache, account] = await Promise.all([
+    prisma.walletBalanceCache.findUnique({ where: { accountId } }),
+    prisma.ledgerAccount.findUnique({ where: { accountId } }),
+  ]);
 
   if (!cache) {
     return null;
   }
 
+  let heldAmount = cache.heldAmount;
+  if (heldAmount.greaterThan(0)) {
+    const lapsed = await prisma.walletHold.aggregate({
+      where: { accountId, status: WalletHoldStatus.ACTIVE, expiresAt: { lte: new Date() } },
+      _sum: { amount: true },
+    });
+    heldAmount = heldAmount.sub(lapsed._sum.amount ?? 0);
+  }
+
+  const unavailable = account ? accountRestriction(account, LedgerEntryType.DEBIT) : null;
+
   return {
     balance: cache.balance,
+    heldAmount,
+    availableBalance: unavailable ? new Prisma.Decimal(0) : cache.balance.sub(heldAmount),
+    currency: cache.currency,
     lastEntrySeq: cache.lastEntrySeq,
+    lastUpdatedAt: cache.lastUpdatedAt,
+    status: account?.status ?? null,
+    unavailable,
   };
 }
 
 /**
- * Recomputes balance from ledger entries (for verification).
- * Should match cached balance.
+ * Rebuilds a wallet's balance cache row from its ledger entries and
+ * active holds. Only the cache row is written; ledger entries are read.
+ * 
+ * This function MUST be called within a Prisma transaction. The account
+ * lock keeps postings out while the figures are recomputed.
+ * 
+ * @returns The check taken before the rebuild and whether anything changed
+ * @throws LedgerError WALLET_NOT_FOUND if the account has no cache row and no entries
  */
-export async function recomputeBalance(
-  prisma: PrismaClient,
+export async function rebuildBalanceCache(
+  tx: Prisma.TransactionClient,
   accountId: string
-): Promise<Prisma.Decimal> {
-  const entries = await prisma.ledgerEntry.findMany({
-    where: { accountId },
-  });
+): Promise<{ before: BalanceCacheCheck; rebuilt: boolean }> {
+  await lockAccounts(tx, [accountId]);
 
-  let balance = new Prisma.Decimal(0);
+  const [before] = await checkBalanceCaches(tx, [accountId]);
+  if (!before) {
+    throw new LedgerError('WALLET_NOT_FOUND', `Wallet not found: ${accountId}`, { accountId });
+  }
 
-  for (const entry of entries) {
-    if (entry.entryType === LedgerEntryType.CREDIT) {
-      balance = balance.add(entry.amount);
-    } else {
-      balance = balance.sub(entry.amount);
+  if (before.valid) {
+    return { before, rebuilt: false };
+  }
+
+  const { balance, lastEntrySeq, heldAmount } = before.expected;
+
+  if (before.cached) {
+    await tx.walletBalanceCache.update({
+      where: { accountId },
+      data: { balance, lastEntrySeq, heldAmount },
+    });
+  } else {
+    const latest = await tx.ledgerEntry.findFirstOrThrow({
+      where: { accountId },
+      orderBy: { walletSeq: 'desc' },
+      select: { currency: true },
+    });
+
+    await tx.walletBalanceCache.create({
+      data: { accountId, balance, lastEntrySeq, heldAmount, currency: latest.currency },
+    });
+  }
+
+  return { before, rebuilt: true };
+}
+
+/**
+ * Moves an account through its lifecycle: freezing it for debits or for
+ * everything, unfreezing it, or closing it. Closing needs a zero balance
+ * and no active holds and cannot be undone. Setting the current status
+ * again is a no-op.
+ * 
+ * This function MUST be called within a Prisma transaction. The account
+ * lock makes the change take effect between postings, never during one.
+ * 
+ * @throws LedgerError ACCOUNT_NOT_FOUND, ACCOUNT_CLOSED (already closed),
+ *   ACCOUNT_NOT_EMPTY
+ */
+export async function setAccountStatus(
+  tx: Prisma.TransactionClient,
+  params: SetAccountStatusParams
+): Promise<LedgerAccount> {
+  const { accountId, status, reason, changedBy } = params;
+
+  await lockAccounts(tx, [accountId]);
+
+  const account = await tx.ledgerAccount.findUnique({ where: { accountId } });
+  if (!account) {
+    throw new LedgerError('ACCOUNT_NOT_FOUND', `Unknown ledger account: ${accountId}`, { accountId });
+  }
+
+  if (account.status === status) {
+    return account;
+  }
+
+  if (account.status === AccountStatus.CLOSED) {
+    throw new LedgerError('ACCOUNT_CLOSED', `Ledger account is closed: ${accountId}`, {
+      accountId,
+      requestedStatus: status,
+    });
+  }
+
+  if (status === AccountStatus.CLOSED) {
+    const wallet = await tx.walletBalanceCache.findUnique({ where: { accountId } });
+    if (wallet) {
+      const swept = await sweepExpiredHolds(tx, accountId);
+      const heldAmount = wallet.heldAmount.sub(swept.amount);
+
+      if (!wallet.balance.isZero() || heldAmount.greaterThan(0)) {
+        throw new LedgerError('ACCOUNT_NOT_EMPTY', `Cannot close ${accountId} while it has a balance or active holds`, {
+          accountId,
+          balance: wallet.balance.toString(),
+          heldAmount: heldAmount.toString(),
+        });
+      }
     }
   }
 
-  return balance;
+  const now = new Date();
+
+  return tx.ledgerAccount.update({
+    where: { accountId },
+    data: {
+      status,
+      statusReason: status === AccountStatus.ACTIVE ? null : reason,
+      statusChangedAt: now,
+      statusChangedBy: changedBy,
+      ...(status === AccountStatus.CLOSED && { closedAt: now }),
+    },
+  });
+}
+
+/**
+ * Closes a ledger account so nothing more can be posted to it.
+ * 
+ * @see setAccountStatus
+ */
+export async function closeAccount(
+  tx: Prisma.TransactionClient,
+  accountId: string,
+  reason?: string,
+  changedBy?: string
+): Promise<LedgerAccount> {
+  return setAccountStatus(tx, { accountId, status: AccountStatus.CLOSED, reason, changedBy });
 }
 
 // Export types
 export { LedgerEntryType } from '@syntherium/db';
+
+export * from './errors';
+export * from './hash';
+export * from './merkle';
+export * from './entry-tree';
+export * from './checkpoint';
+export * from './proof';
+export * from './fx';
+export * from './snapshot';
+export * from './verify';
+export * from './accounts';
+export * from './export';
+export * from './reports';
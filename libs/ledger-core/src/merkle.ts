@@ -0,0 +1,287 @@
+/**
+ * Merkle tree primitives (RFC 6962 / Certificate Transparency layout).
+ *
+ * Leaves and interior nodes are hashed with distinct prefixes so a leaf
+ * can never be passed off as an interior node. The tree over n leaves
+ * splits at the largest power of two below n, so no leaf is duplicated.
+ *
+ * Hashes are exchanged as lowercase hex strings.
+ * This module has no database dependency.
+ */
+
+import * as crypto from 'crypto';
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+/**
+ * Root of an empty tree: SHA256 of the empty string.
+ */
+export const EMPTY_MERKLE_ROOT = crypto.createHash('sha256').digest('hex');
+
+/**
+ * Hashes leaf data: SHA256(0x00 || data).
+ */
+export function hashMerkleLeaf(data: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(LEAF_PREFIX)
+    .update(data, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Hashes two child nodes: SHA256(0x01 || left || right).
+ */
+export function hashMerkleNode(left: string, right: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, 'hex'))
+    .update(Buffer.from(right, 'hex'))
+    .digest('hex');
+}
+
+/**
+ * Computes the Merkle root over already-hashed leaves, in order.
+ */
+export function computeMerkleRoot(leafHashes: string[]): string {
+  if (leafHashes.length === 0) {
+    return EMPTY_MERKLE_ROOT;
+  }
+
+  return subtreeRoot(leafHashes, 0, leafHashes.length);
+}
+
+/**
+ * Position of a perfect subtree: the root over leaves
+ * index*2^level .. (index+1)*2^level - 1. Level 0 is a single leaf.
+ */
+export interface MerkleNodeRef {
+  level: number;
+  index: number;
+}
+
+export interface MerkleNode extends MerkleNodeRef {
+  hash: string;
+}
+
+/**
+ * Builds a Merkle root one leaf at a time, keeping only the roots of
+ * the perfect subtrees seen so far (O(log n) memory). Produces the same
+ * root as computeMerkleRoot over the same leaves.
+ *
+ * Seeded with the frontier of an existing tree (its perfect subtrees,
+ * see perfectSubtrees(0, size)), it continues that tree without
+ * re-reading its leaves.
+ */
+export class MerkleAccumulator {
+  private stack: { hash: string; size: number }[] = [];
+  private count = 0;
+
+  constructor(frontier: MerkleNode[] = []) {
+    for (const node of frontier) {
+      const size = 2 ** node.level;
+      if (node.index * size !== this.count) {
+        throw new RangeError(`Node ${node.level}/${node.index} does not continue a tree of size ${this.count}`);
+      }
+      this.stack.push({ hash: node.hash, size });
+      this.count += size;
+    }
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Appends a leaf.
+   *
+   * @returns The subtrees this leaf completed, the leaf itself first
+   */
+  push(leafHash: string): MerkleNode[] {
+    const end = this.count + 1;
+    let node = { hash: leafHash, size: 1 };
+    const completed: MerkleNode[] = [{ level: 0, index: this.count, hash: leafHash }];
+
+    while (this.stack.length > 0 && this.stack[this.stack.length - 1].size === node.size) {
+      const left = this.stack.pop()!;
+      node = { hash: hashMerkleNode(left.hash, node.hash), size: left.size * 2 };
+      completed.push({ level: Math.log2(node.size), index: end / node.size - 1, hash: node.hash });
+    }
+    this.stack.push(node);
+    this.count = end;
+    return completed;
+  }
+
+  root(): string {
+    if (this.stack.length === 0) {
+      return EMPTY_MERKLE_ROOT;
+    }
+
+    return foldSubtreeRoots(this.stack.map((node) => node.hash));
+  }
+}
+
+/**
+ * Splits leaves start..end-1 into perfect subtrees, largest first. For
+ * 0..size-1 these are the frontier of the tree; for any subtree of the
+ * RFC 6962 layout, folding their roots with foldSubtreeRoots gives its root.
+ */
+export function perfectSubtrees(start: number, end: number): MerkleNodeRef[] {
+  const refs: MerkleNodeRef[] = [];
+  let position = start;
+
+  while (position < end) {
+    let level = 0;
+    while (position % 2 ** (level + 1) === 0 && position + 2 ** (level + 1) <= end) {
+      level++;
+    }
+    refs.push({ level, index: position / 2 ** level });
+    position += 2 ** level;
+  }
+
+  return refs;
+}
+
+/**
+ * Combines the roots of consecutive perfect subtrees, largest first, into
+ * the root over all their leaves.
+ */
+export function foldSubtreeRoots(hashes: string[]): string {
+  if (hashes.length === 0) {
+    return EMPTY_MERKLE_ROOT;
+  }
+
+  let root = hashes[hashes.length - 1];
+  for (let i = hashes.length - 2; i >= 0; i--) {
+    root = hashMerkleNode(hashes[i], root);
+  }
+  return root;
+}
+
+/**
+ * Computes the audit path for the leaf at leafIndex (RFC 9162 2.1.3.1),
+ * ordered from the leaf upwards.
+ */
+export function computeAuditPath(leafHashes: string[], leafIndex: number): string[] {
+  if (leafIndex < 0 || leafIndex >= leafHashes.length) {
+    throw new RangeError(`Leaf index ${leafIndex} out of range for tree of size ${leafHashes.length}`);
+  }
+
+  return auditPath(leafHashes, leafIndex, 0, leafHashes.length);
+}
+
+/**
+ * Stored-node form of computeAuditPath: for each hash of the leaf's audit
+ * path, the perfect subtrees whose folded roots (foldSubtreeRoots) give
+ * it. Only O(log n) nodes in total, so a path can be read from stored
+ * nodes without the leaves.
+ */
+export function auditPathNodes(leafIndex: number, treeSize: number): MerkleNodeRef[][] {
+  if (leafIndex < 0 || leafIndex >= treeSize) {
+    throw new RangeError(`Leaf index ${leafIndex} out of range for tree of size ${treeSize}`);
+  }
+
+  return auditPathRanges(leafIndex, 0, treeSize).map(([start, end]) => perfectSubtrees(start, end));
+}
+
+/**
+ * Recomputes the root from a leaf and its audit path (RFC 9162 2.1.3.2).
+ * Returns null when the path does not fit the given index and tree size.
+ */
+export function rootFromAuditPath(
+  leafHash: string,
+  leafIndex: number,
+  treeSize: number,
+  path: string[]
+): string | null {
+  if (leafIndex < 0 || leafIndex >= treeSize) {
+    return null;
+  }
+
+  let fn = leafIndex;
+  let sn = treeSize - 1;
+  let r = leafHash;
+
+  for (const p of path) {
+    if (sn === 0) {
+      return null;
+    }
+
+    if (fn % 2 === 1 || fn === sn) {
+      r = hashMerkleNode(p, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = hashMerkleNode(r, p);
+    }
+
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 ? r : null;
+}
+
+/**
+ * Checks that a leaf is included in the tree with the given root.
+ */
+export function verifyAuditPath(
+  leafHash: string,
+  leafIndex: number,
+  treeSize: number,
+  path: string[],
+  root: string
+): boolean {
+  return rootFromAuditPath(leafHash, leafIndex, treeSize, path) === root;
+}
+
+function auditPath(leaves: string[], index: number, start: number, end: number): string[] {
+  const size = end - start;
+  if (size === 1) {
+    return [];
+  }
+
+  const split = largestPowerOfTwoBelow(size);
+  if (index < split) {
+    return [...auditPath(leaves, index, start, start + split), subtreeRoot(leaves, start + split, end)];
+  }
+  return [...auditPath(leaves, index - split, start + split, end), subtreeRoot(leaves, start, start + split)];
+}
+
+function auditPathRanges(index: number, start: number, end: number): [number, number][] {
+  const size = end - start;
+  if (size === 1) {
+    return [];
+  }
+
+  const split = largestPowerOfTwoBelow(size);
+  if (index < split) {
+    return [...auditPathRanges(index, start, start + split), [start + split, end]];
+  }
+  return [...auditPathRanges(index - split, start + split, end), [start, start + split]];
+}
+
+function subtreeRoot(leaves: string[], start: number, end: number): string {
+  const size = end - start;
+  if (size === 1) {
+    return leaves[start];
+  }
+
+  const split = largestPowerOfTwoBelow(size);
+  return hashMerkleNode(
+    subtreeRoot(leaves, start, start + split),
+    subtreeRoot(leaves, start + split, end)
+  );
+}
+
+function largestPowerOfTwoBelow(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
+  }
+  return k;
+}
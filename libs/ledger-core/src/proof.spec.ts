@@ -0,0 +1,288 @@
+/**
+ * Inclusion Proof Unit Tests
+ *
+ * Tests for:
+ * - Audit paths and the incremental root builder (RFC 9162)
+ * - Building entry proofs against a checkpoint from stored tree nodes
+ * - Offline proof verification and tamper detection
+ */
+
+import * as crypto from 'crypto';
+import {
+  MerkleAccumulator,
+  MerkleNode,
+  auditPathNodes,
+  foldSubtreeRoots,
+  perfectSubtrees,
+  computeAuditPath,
+  computeMerkleRoot,
+  hashMerkleLeaf,
+  verifyAuditPath,
+} from './merkle';
+import {
+  CheckpointHead,
+  computeCheckpointRoot,
+  hashEntryLeaf,
+  signCheckpointPayload,
+} from './checkpoint';
+import { computeEntryHash } from './hash';
+import { buildInclusionProof, verifyInclusionProof, InclusionProof } from './proof';
+import { LedgerError } from './errors';
+
+describe('Merkle audit paths', () => {
+  it('should prove every leaf for trees of size 1 to 17', () => {
+    for (let size = 1; size <= 17; size++) {
+      const leaves = Array.from({ length: size }, (_, i) => hashMerkleLeaf(`leaf-${i}`));
+      const root = computeMerkleRoot(leaves);
+
+      for (let index = 0; index < size; index++) {
+        const path = computeAuditPath(leaves, index);
+        expect(verifyAuditPath(leaves[index], index, size, path, root)).toBe(true);
+      }
+    }
+  });
+
+  it('should reject a path used with the wrong index', () => {
+    const leaves = Array.from({ length: 5 }, (_, i) => hashMerkleLeaf(`leaf-${i}`));
+    const root = computeMerkleRoot(leaves);
+    const path = computeAuditPath(leaves, 1);
+
+    expect(verifyAuditPath(leaves[1], 2, 5, path, root)).toBe(false);
+    expect(verifyAuditPath(leaves[1], 1, 9, path, root)).toBe(false);
+  });
+
+  it('should build the same root incrementally', () => {
+    const accumulator = new MerkleAccumulator();
+    const leaves: string[] = [];
+
+    for (let i = 0; i < 13; i++) {
+      leaves.push(hashMerkleLeaf(`leaf-${i}`));
+      accumulator.push(leaves[i]);
+      expect(accumulator.root()).toBe(computeMerkleRoot(leaves));
+    }
+  });
+
+  it('should read audit paths from stored subtree nodes', () => {
+    for (let size = 1; size <= 17; size++) {
+      const leaves = Array.from({ length: size }, (_, i) => hashMerkleLeaf(`leaf-${i}`));
+      const accumulator = new MerkleAccumulator();
+      const stored = new Map<string, string>();
+      for (const leaf of leaves) {
+        for (const node of accumulator.push(leaf)) {
+          stored.set(`${node.level}/${node.index}`, node.hash);
+        }
+      }
+
+      for (let index = 0; index < size; index++) {
+        const path = auditPathNodes(index, size).map((refs) =>
+          foldSubtreeRoots(refs.map((ref) => stored.get(`${ref.level}/${ref.index}`)!))
+        );
+        expect(path).toEqual(computeAuditPath(leaves, index));
+      }
+    }
+  });
+
+  it('should continue a tree from its stored frontier', () => {
+    const leaves = Array.from({ length: 11 }, (_, i) => hashMerkleLeaf(`leaf-${i}`));
+    const stored = new Map<string, string>();
+    const accumulator = new MerkleAccumulator();
+    for (const leaf of leaves.slice(0, 7)) {
+      for (const node of accumulator.push(leaf)) {
+        stored.set(`${node.level}/${node.index}`, node.hash);
+      }
+    }
+
+    // 7 leaves: subtrees over leaves 1-4, 5-6 and 7
+    const frontier = perfectSubtrees(0, 7).map((ref) => ({ ...ref, hash: stored.get(`${ref.level}/${ref.index}`)! }));
+    expect(frontier.map(({ level, index }) => [level, index])).toEqual([[2, 0], [1, 2], [0, 6]]);
+
+    const resumed = new MerkleAccumulator(frontier);
+    expect(resumed.root()).toBe(computeMerkleRoot(leaves.slice(0, 7)));
+    for (const leaf of leaves.slice(7)) {
+      resumed.push(leaf);
+    }
+    expect(resumed.root()).toBe(computeMerkleRoot(leaves));
+  });
+});
+
+describe('Entry inclusion proofs', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519', {
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  // Five-entry chain for one vendor wallet
+  const entries: any[] = [];
+  let prevHash: string | null = null;
+  for (let seq = 1; seq <= 5; seq++) {
+    const entryHash = computeEntryHash(prevHash, 'VENDOR_1', seq, `PAYOUT_${seq}`, 'CREDIT', '2500.0000', 'Payout');
+    entries.push({
+      id: `entry_${seq}`,
+      accountId: 'VENDOR_1',
+      walletSeq: seq,
+      reference: `PAYOUT_${seq}`,
+      entryType: 'CREDIT',
+      amount: { toString: () => '2500.0000' },
+      description: 'Payout',
+      prevHash,
+      entryHash,
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+    });
+    prevHash = entryHash;
+  }
+
+  const heads: CheckpointHead[] = [
+    {
+      accountId: 'VENDOR_1',
+      walletSeq: 5,
+      entryHash: entries[4].entryHash,
+      entriesRoot: computeMerkleRoot(entries.map((e) => hashEntryLeaf(e.entryHash))),
+    },
+    { accountId: 'PLATFORM_ESCROW', walletSeq: 9, entryHash: 'a'.repeat(64), entriesRoot: 'b'.repeat(64) },
+    { accountId: 'MARKETING_WALLET', walletSeq: 3, entryHash: 'c'.repeat(64), entriesRoot: 'd'.repeat(64) },
+  ];
+
+  const payload = {
+    merkleRoot: computeCheckpointRoot(heads),
+    accountCount: heads.length,
+    previousCheckpointId: null,
+    keyId: 'test-key',
+    createdAt: '2024-01-16T00:00:00.000Z',
+  };
+
+  const checkpointRow = {
+    id: 'chk_1',
+    ...payload,
+    createdAt: new Date(payload.createdAt),
+    signature: signCheckpointPayload(payload, privateKey),
+    heads,
+  };
+
+  // Tree nodes as checkpoints store them
+  let nodes: MerkleNode[] = [];
+  const accumulator = new MerkleAccumulator();
+  for (const entry of entries) {
+    nodes.push(...accumulator.push(hashEntryLeaf(entry.entryHash)));
+  }
+
+  const prisma = {
+    ledgerEntry: {
+      findUnique: jest.fn(async ({ where }: any) => entries.find((e) => e.id === where.id) ?? null),
+      findMany: jest.fn(),
+    },
+    ledgerMerkleNode: {
+      findMany: jest.fn(async ({ where }: any) =>
+        nodes.filter((n) => where.OR.some((ref: any) => ref.level === n.level && ref.index === n.index))
+      ),
+    },
+    ledgerCheckpoint: {
+      findFirst: jest.fn(async () => checkpointRow),
+      findUnique: jest.fn(async () => null),
+    },
+  } as any;
+
+  async function proofFor(entryId: string): Promise<InclusionProof> {
+    return buildInclusionProof(prisma, entryId);
+  }
+
+  it('should verify a proof for each entry in the account', async () => {
+    for (const entry of entries) {
+      const proof = await proofFor(entry.id);
+      const result = verifyInclusionProof(proof, { publicKey, trustedRoot: payload.merkleRoot });
+      expect(result).toEqual(expect.objectContaining({ valid: true }));
+    }
+  });
+
+  it('should read only the leaf and its path from stored nodes', async () => {
+    prisma.ledgerMerkleNode.findMany.mockClear();
+
+    await proofFor('entry_2');
+
+    expect(prisma.ledgerEntry.findMany).not.toHaveBeenCalled();
+    // Leaf 1, sibling leaf 0, the subtree over leaves 2-3 and leaf 4
+    expect(prisma.ledgerMerkleNode.findMany.mock.calls[0][0].where.OR).toHaveLength(4);
+  });
+
+  it('should not verify a proof without a trust anchor', async () => {
+    const proof = await proofFor('entry_2');
+
+    const result = verifyInclusionProof(proof, {});
+    expect(result.valid).toBe(false);
+    expect(result.message).toBe('No trust anchor: pass publicKey or trustedRoot');
+  });
+
+  it('should survive a JSON round trip', async () => {
+    const proof = JSON.parse(JSON.stringify(await proofFor('entry_2')));
+    expect(verifyInclusionProof(proof, { publicKey }).valid).toBe(true);
+  });
+
+  it('should reject a proof whose entry amount was altered', async () => {
+    const proof = await proofFor('entry_3');
+    proof.entry.amount = '25000.0000';
+
+    const result = verifyInclusionProof(proof, { publicKey });
+    expect(result.valid).toBe(false);
+    expect(result.message).toBe('Entry fields do not match entry hash');
+  });
+
+  it('should reject a proof for an entry that is not in the tree', async () => {
+    const proof = await proofFor('entry_3');
+    const forged = computeEntryHash(entries[1].entryHash, 'VENDOR_1', 3, 'FORGED', 'CREDIT', '1.0000', null);
+    proof.entry = { ...proof.entry, reference: 'FORGED', amount: '1.0000', description: null, entryHash: forged };
+
+    const result = verifyInclusionProof(proof, { publicKey });
+    expect(result.valid).toBe(false);
+    expect(result.message).toBe('Entry is not included in account entries root');
+  });
+
+  it('should reject a proof against an untrusted root or key', async () => {
+    const proof = await proofFor('entry_1');
+    const other = crypto.generateKeyPairSync('ed25519', {
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+
+    expect(verifyInclusionProof(proof, { trustedRoot: 'e'.repeat(64) }).valid).toBe(false);
+    expect(verifyInclusionProof(proof, { publicKey: other.publicKey }).valid).toBe(false);
+  });
+
+  it('should refuse to prove an entry posted after the checkpoint', async () => {
+    entries.push({ ...entries[4], id: 'entry_6', walletSeq: 6 });
+    try {
+      await expect(proofFor('entry_6')).rejects.toThrow(LedgerError);
+      await expect(proofFor('entry_6')).rejects.toMatchObject({ code: 'ENTRY_NOT_CHECKPOINTED' });
+    } finally {
+      entries.pop();
+    }
+  });
+
+  it('should refuse to prove an entry that no longer matches the checkpoint', async () => {
+    const original = entries[1].entryHash;
+    entries[1].entryHash = 'f'.repeat(64);
+    try {
+      await expect(proofFor('entry_2')).rejects.toMatchObject({ code: 'ENTRIES_ROOT_MISMATCH' });
+    } finally {
+      entries[1].entryHash = original;
+    }
+  });
+
+  it('should refuse to prove from stored nodes that no longer produce the signed root', async () => {
+    const original = nodes;
+    nodes = nodes.map((n) => (n.level === 0 && n.index === 0 ? { ...n, hash: 'f'.repeat(64) } : n));
+    try {
+      await expect(proofFor('entry_2')).rejects.toMatchObject({ code: 'ENTRIES_ROOT_MISMATCH' });
+    } finally {
+      nodes = original;
+    }
+  });
+
+  it('should ask for a new checkpoint when the entry tree is not stored', async () => {
+    const original = nodes;
+    nodes = [];
+    try {
+      await expect(proofFor('entry_2')).rejects.toMatchObject({ code: 'ENTRY_TREE_NOT_BUILT' });
+    } finally {
+      nodes = original;
+    }
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Inclusion proofs for individual ledger entries.
+ *
+ * An entry is proven against a signed checkpoint in two steps:
+ * 1. entry hash -> its account's entriesRoot (audit path over the
+ *    account's entry hashes 1..head.walletSeq)
+ * 2. account head (including entriesRoot) -> checkpoint merkleRoot
+ *    (audit path over all account heads)
+ *
+ * The verifier recomputes the entry hash from the entry's fields, so
+ * the proof also shows the disclosed fields are the ones that were
+ * committed. verifyInclusionProof needs no database access, but does need
+ * a trust anchor obtained independently of the proof: the platform's
+ * checkpoint public key or a published checkpoint root.
+ *
+ * Proofs are built from the entry tree nodes stored by checkpoints (see
+ * entry-tree.ts), so building one reads O(log n) nodes, not the account.
+ */
+
+import type { PrismaClient } from '@syntherium/db';
+import { computeEntryHash } from './hash';
+import { auditPathNodes, computeAuditPath, foldSubtreeRoots, rootFromAuditPath } from './merkle';
+import { loadMerkleNodes } from './entry-tree';
+import {
+  CheckpointHead,
+  CheckpointPayload,
+  getCheckpoint,
+  hashCheckpointLeaf,
+  hashEntryLeaf,
+  sortCheckpointHeads,
+  verifyCheckpointSignature,
+} from './checkpoint';
+import { LedgerError } from './errors';
+
+export interface AuditPath {
+  leafIndex: number;
+  treeSize: number;
+  path: string[];
+}
+
+export interface ProvenEntry {
+  id: string;
+  accountId: string;
+  walletSeq: number;
+  reference: string;
+  entryType: string;
+  amount: string;
+  /** Absent on proofs issued before currencies were recorded (NGN) */
+  currency?: string;
+  description: string | null;
+  /** Set on reversal entries; absent on proofs issued before reversals */
+  reversesEntryId?: string | null;
+  prevHash: string | null;
+  entryHash: string;
+  createdAt: string;
+}
+
+export interface InclusionProof {
+  entry: ProvenEntry;
+  /** Entry hash leaf -> head.entriesRoot */
+  entryPath: AuditPath;
+  head: CheckpointHead;
+  /** Head leaf -> checkpoint.merkleRoot */
+  headPath: AuditPath;
+  checkpoint: CheckpointPayload & { id: string; signature: string };
+}
+
+/**
+ * Trust anchor for a proof; at least one is required. Both must come from
+ * the verifier's own configuration, never from the proof or the service
+ * that issued it.
+ */
+export interface VerifyInclusionOptions {
+  /** Ed25519 public key (SPKI PEM); the checkpoint signature is checked against it */
+  publicKey?: string;
+  /** Root obtained out of band (e.g. a published checkpoint); must match the proof */
+  trustedRoot?: string;
+}
+
+export interface VerifyInclusionResult {
+  valid: boolean;
+  message: string;
+}
+
+/**
+ * Verifies an inclusion proof without database access.
+ *
+ * @param proof - Proof as returned by buildInclusionProof
+ * @param options - Public key and/or trusted root to anchor the proof
+ */
+export function verifyInclusionProof(
+  proof: InclusionProof,
+  options: VerifyInclusionOptions
+): VerifyInclusionResult {
+  const { entry, entryPath, head, headPath, checkpoint } = proof;
+
+  // Without an anchor a proof only shows it is self-consistent
+  if (!options.publicKey && !options.trustedRoot) {
+    return { valid: false, message: 'No trust anchor: pass publicKey or trustedRoot' };
+  }
+
+  const entryHash = computeEntryHash(
+    entry.prevHash,
+    entry.accountId,
+    entry.walletSeq,
+    entry.reference,
+    entry.entryType,
+    entry.amount,
+    entry.description,
+    entry.currency,
+    entry.reversesEntryId ?? null
+  );
+  if (entryHash !== entry.entryHash) {
+    return { valid: false, message: 'Entry fields do not match entry hash' };
+  }
+
+  if (head.accountId !== entry.accountId) {
+    return { valid: false, message: 'Checkpoint head belongs to a different account' };
+  }
+
+  if (!head.entriesRoot) {
+    return { valid: false, message: 'Checkpoint head has no entries root' };
+  }
+
+  if (entryPath.leafIndex !== entry.walletSeq - 1 || entryPath.treeSize !== head.walletSeq) {
+    return { valid: false, message: 'Entry path does not match entry sequence' };
+  }
+
+  if (entry.walletSeq === head.walletSeq && entry.entryHash !== head.entryHash) {
+    return { valid: false, message: 'Entry at head sequence does not match head hash' };
+  }
+
+  const entriesRoot = rootFromAuditPath(
+    hashEntryLeaf(entry.entryHash),
+    entryPath.leafIndex,
+    entryPath.treeSize,
+    entryPath.path
+  );
+  if (entriesRoot !== head.entriesRoot) {
+    return { valid: false, message: 'Entry is not included in account entries root' };
+  }
+
+  if (headPath.treeSize !== checkpoint.accountCount) {
+    return { valid: false, message: 'Head path does not match checkpoint account count' };
+  }
+
+  const merkleRoot = rootFromAuditPath(
+    hashCheckpointLeaf(head),
+    headPath.leafIndex,
+    headPath.treeSize,
+    headPath.path
+  );
+  if (merkleRoot !== checkpoint.merkleRoot) {
+    return { valid: false, message: 'Account head is not included in checkpoint root' };
+  }
+
+  if (options.trustedRoot && options.trustedRoot !== checkpoint.merkleRoot) {
+    return { valid: false, message: 'Checkpoint root does not match trusted root' };
+  }
+
+  if (options.publicKey && !verifyCheckpointSignature(checkpoint, options.publicKey)) {
+    return { valid: false, message: 'Invalid checkpoint signature' };
+  }
+
+  return {
+    valid: true,
+    message: `Entry ${entry.accountId}#${entry.walletSeq} is included in checkpoint ${checkpoint.id}`,
+  };
+}
+
+/**
+ * Builds an inclusion proof for one entry against a checkpoint
+ * (the latest when no ID is given).
+ *
+ * @throws LedgerError ENTRY_NOT_FOUND, CHECKPOINT_NOT_FOUND,
+ *   ENTRY_NOT_CHECKPOINTED, CHECKPOINT_WITHOUT_ENTRY_ROOTS,
+ *   ENTRY_TREE_NOT_BUILT, ENTRIES_ROOT_MISMATCH
+ */
+export async function buildInclusionProof(
+  prisma: PrismaClient,
+  entryId: string,
+  checkpointId?: string
+): Promise<InclusionProof> {
+  const entry = await prisma.ledgerEntry.findUnique({ where: { id: entryId } });
+  if (!entry) {
+    throw new LedgerError('ENTRY_NOT_FOUND', `Ledger entry not found: ${entryId}`);
+  }
+
+  const checkpoint = await getCheckpoint(prisma, checkpointId);
+  if (!checkpoint) {
+    throw new LedgerError(
+      'CHECKPOINT_NOT_FOUND',
+      checkpointId ? `Checkpoint not found: ${checkpointId}` : 'No checkpoints have been taken yet'
+    );
+  }
+
+  const head = checkpoint.heads.find((h) => h.accountId === entry.accountId);
+  if (!head || head.walletSeq < entry.walletSeq) {
+    throw new LedgerError(
+      'ENTRY_NOT_CHECKPOINTED',
+      `Entry was posted after checkpoint ${checkpoint.id}`,
+      { entryId, checkpointId: checkpoint.id, walletSeq: entry.walletSeq }
+    );
+  }
+
+  if (!head.entriesRoot) {
+    throw new LedgerError(
+      'CHECKPOINT_WITHOUT_ENTRY_ROOTS',
+      `Checkpoint ${checkpoint.id} predates entry proofs; use a newer checkpoint`,
+      { checkpointId: checkpoint.id }
+    );
+  }
+
+  const leafIndex = entry.walletSeq - 1;
+  const pathRefs = auditPathNodes(leafIndex, head.walletSeq);
+  const hashes = await loadMerkleNodes(prisma, entry.accountId, [{ level: 0, index: leafIndex }, ...pathRefs.flat()]);
+  if (!hashes) {
+    throw new LedgerError(
+      'ENTRY_TREE_NOT_BUILT',
+      `Entry tree for ${entry.accountId} is not stored up to checkpoint ${checkpoint.id}; take a new checkpoint`,
+      { accountId: entry.accountId, checkpointId: checkpoint.id }
+    );
+  }
+
+  const [leaf, ...siblings] = hashes;
+  let offset = 0;
+  const path = pathRefs.map((refs) => {
+    offset += refs.length;
+    return foldSubtreeRoots(siblings.slice(offset - refs.length, offset));
+  });
+
+  // The stored tree must still hold this entry and produce the signed root
+  if (leaf !== hashEntryLeaf(entry.entryHash) || rootFromAuditPath(leaf, leafIndex, head.walletSeq, path) !== head.entriesRoot) {
+    throw new LedgerError(
+      'ENTRIES_ROOT_MISMATCH',
+      `Entries for ${entry.accountId} no longer match checkpoint ${checkpoint.id}`,
+      { accountId: entry.accountId, checkpointId: checkpoint.id }
+    );
+  }
+
+  const heads = sortCheckpointHeads(checkpoint.heads);
+  const headIndex = heads.findIndex((h) => h.accountId === entry.accountId);
+
+  return {
+    entry: {
+      id: entry.id,
+      accountId: entry.accountId,
+      walletSeq: entry.walletSeq,
+      reference: entry.reference,
+      entryType: entry.entryType,
+      amount: entry.amount.toString(),
+      currency: entry.currency,
+      description: entry.description,
+      reversesEntryId: entry.reversesEntryId,
+      prevHash: entry.prevHash,
+      entryHash: entry.entryHash,
+      createdAt: entry.createdAt.toISOString(),
+    },
+    entryPath: {
+      leafIndex,
+      treeSize: head.walletSeq,
+      path,
+    },
+    head,
+    headPath: {
+      leafIndex: headIndex,
+      treeSize: heads.length,
+      path: computeAuditPath(heads.map(hashCheckpointLeaf), headIndex),
+    },
+    checkpoint: {
+      id: checkpoint.id,
+      merkleRoot: checkpoint.merkleRoot,
+      accountCount: checkpoint.accountCount,
+      previousCheckpointId: checkpoint.previousCheckpointId,
+      keyId: checkpoint.keyId,
+      createdAt: checkpoint.createdAt,
+      signature: checkpoint.signature,
+    },
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Financial Report Unit Tests
+ *
+ * Tests for:
+ * - Trial balance grouping, opening/closing balances and the debits = credits proof
+ * - General ledger running balances
+ * - Escrow roll-forward classification and reconciliation
+ */
+
+import { Prisma, AccountType, LedgerEntryType } from '@syntherium/db';
+import { getTrialBalance, getGeneralLedger, getEscrowRollForward } from './reports';
+
+const from = new Date('2024-02-01T00:00:00Z');
+const to = new Date('2024-03-01T00:00:00Z');
+
+describe('Financial reports', () => {
+  let entries: any[];
+  let prisma: any;
+
+  const post = (
+    day: string,
+    reference: string,
+    legs: [string, LedgerEntryType, string][],
+    reversesEntryId: string | null = null
+  ) => {
+    for (const [accountId, entryType, amount] of legs) {
+      const walletSeq = entries.filter((e) => e.accountId === accountId).length + 1;
+      entries.push({
+        id: `${accountId}_${walletSeq}`,
+        accountId,
+        walletSeq,
+        reference,
+        journalId: `jr_${reference}`,
+        entryType,
+        amount: new Prisma.Decimal(amount),
+        currency: 'NGN',
+        description: null,
+        reversesEntryId,
+        createdAt: new Date(`${day}T12:00:00Z`),
+      });
+    }
+  };
+
+  // Enough of Prisma's where semantics for the queries under test
+  const matches = (entry: any, where: any): boolean =>
+    Object.entries(where ?? {}).every(([key, condition]: [string, any]) => {
+      if (key === 'AND') return condition.every((c: any) => matches(entry, c));
+      if (key === 'NOT') return !matches(entry, condition);
+      const value = entry[key];
+      if (condition === null) return value === null;
+      if (typeof condition !== 'object' || condition instanceof Date) return value === condition;
+      return (
+        (condition.lt === undefined || value < condition.lt) &&
+        (condition.gte === undefined || value >= condition.gte) &&
+        (condition.gt === undefined || value > condition.gt) &&
+        (condition.not === undefined || value !== condition.not) &&
+        (condition.startsWith === undefined || value.startsWith(condition.startsWith))
+      );
+    });
+
+  const sum = (rows: any[]) => rows.reduce((total, e) => total.add(e.amount), new Prisma.Decimal(0));
+
+  beforeEach(() => {
+    entries = [];
+    post('2024-01-10', 'PAYMENT_1', [
+      ['PAYMENT_CLEARING', LedgerEntryType.DEBIT, '1000'],
+      ['PLATFORM_ESCROW', LedgerEntryType.CREDIT, '1000'],
+    ]);
+    post('2024-02-05', 'PAYMENT_2', [
+      ['PAYMENT_CLEARING', LedgerEntryType.DEBIT, '500'],
+      ['PLATFORM_ESCROW', LedgerEntryType.CREDIT, '500'],
+    ]);
+    post('2024-02-10', 'RELEASE_1', [
+      ['PLATFORM_ESCROW', LedgerEntryType.DEBIT, '900'],
+      ['VENDOR_1', LedgerEntryType.CREDIT, '900'],
+    ]);
+    post('2024-02-12', 'REFUND_PI_2_1', [
+      ['PLATFORM_ESCROW', LedgerEntryType.DEBIT, '100'],
+      ['PAYMENT_CLEARING', LedgerEntryType.CREDIT, '100'],
+    ]);
+    post('2024-02-20', 'REV_RELEASE_1', [
+      ['PLATFORM_ESCROW', LedgerEntryType.CREDIT, '900'],
+      ['VENDOR_1', LedgerEntryType.DEBIT, '900'],
+    ], 'PLATFORM_ESCROW_2');
+    post('2024-03-02', 'PAYMENT_3', [
+      ['PAYMENT_CLEARING', LedgerEntryType.DEBIT, '50'],
+      ['PLATFORM_ESCROW', LedgerEntryType.CREDIT, '50'],
+    ]);
+
+    const accounts: Record<string, any> = {
+      PAYMENT_CLEARING: { accountId: 'PAYMENT_CLEARING', description: 'Clearing', type: AccountType.ASSET, currency: 'NGN' },
+      PLATFORM_ESCROW: { accountId: 'PLATFORM_ESCROW', description: 'Escrow', type: AccountType.LIABILITY, currency: 'NGN' },
+    };
+
+    prisma = {
+      ledgerAccount: {
+        findMany: jest.fn(async () => Object.values(accounts)),
+        findUnique: jest.fn(async ({ where }: any) => accounts[where.accountId] ?? null),
+      },
+      walletBalanceSnapshot: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      ledgerEntry: {
+        groupBy: jest.fn(async ({ by, where }: any) => {
+          const groups = new Map<string, any[]>();
+          for (const e of entries.filter((e) => matches(e, where))) {
+            const key = by.map((field: string) => e[field]).join('|');
+            groups.set(key, [...(groups.get(key) ?? []), e]);
+          }
+          return [...groups.values()].map((rows) => ({
+            ...Object.fromEntries(by.map((field: string) => [field, rows[0][field]])),
+            _sum: { amount: sum(rows) },
+            _max: { walletSeq: Math.max(...rows.map((e) => e.walletSeq)) },
+          }));
+        }),
+        aggregate: jest.fn(async ({ where }: any) => ({ _sum: { amount: sum(entries.filter((e) => matches(e, where))) } })),
+        count: jest.fn(async ({ where }: any) => entries.filter((e) => matches(e, where)).length),
+        findMany: jest.fn(async ({ where, take }: any) =>
+          entries.filter((e) => matches(e, where)).sort((a, b) => a.walletSeq - b.walletSeq).slice(0, take)
+        ),
+      },
+    };
+  });
+
+  it('should list accounts by group with totals that prove debits equal credits', async () => {
+    const report = await getTrialBalance(prisma, { from, to });
+
+    expect(report.rows.map((r) => [r.group, r.accountId])).toEqual([
+      [AccountType.ASSET, 'PAYMENT_CLEARING'],
+      [AccountType.LIABILITY, 'PLATFORM_ESCROW'],
+      ['UNCLASSIFIED', 'VENDOR_1'],
+    ]);
+
+    const escrow = report.rows[1];
+    expect(escrow.openingBalance.toString()).toBe('1000');
+    expect(escrow.credits.toString()).toBe('1400');
+    expect(escrow.debits.toString()).toBe('1000');
+    expect(escrow.closingBalance.toString()).toBe('1400');
+
+    expect(report.totals).toHaveLength(1);
+    expect(report.totals[0].debits.toString()).toBe(report.totals[0].credits.toString());
+    expect(report.totals[0].debitBalances.toString()).toBe('1400');
+    expect(report.totals[0].creditBalances.toString()).toBe('1400');
+    expect(report.balanced).toBe(true);
+  });
+
+  it('should flag a period that does not balance', async () => {
+    post('2024-02-25', 'ONE_SIDED', [['PLATFORM_ESCROW', LedgerEntryType.CREDIT, '10']]);
+
+    const report = await getTrialBalance(prisma, { from, to });
+
+    expect(report.balanced).toBe(false);
+    expect(report.totals[0].credits.sub(report.totals[0].debits).toString()).toBe('10');
+  });
+
+  it('should list an account\'s entries with running balances', async () => {
+    const report = await getGeneralLedger(prisma, 'PLATFORM_ESCROW', { from, to });
+
+    expect(report.openingBalance.toString()).toBe('1000');
+    expect(report.lines.map((l) => [l.reference, l.balance.toString()])).toEqual([
+      ['PAYMENT_2', '1500'],
+      ['RELEASE_1', '600'],
+      ['REFUND_PI_2_1', '500'],
+      ['REV_RELEASE_1', '1400'],
+    ]);
+    expect(report.closingBalance.toString()).toBe('1400');
+  });
+
+  it('should roll escrow forward from receipts, releases, refunds and reversals', async () => {
+    const report = await getEscrowRollForward(prisma, { from, to });
+
+    expect({
+      opening: report.openingBalance.toString(),
+      receipts: report.receipts.toString(),
+      releases: report.releases.toString(),
+      refunds: report.refunds.toString(),
+      adjustments: report.adjustments.toString(),
+      closing: report.closingBalance.toString(),
+    }).toEqual({ opening: '1000', receipts: '500', releases: '900', refunds: '100', adjustments: '900', closing: '1400' });
+    expect(report.reconciles).toBe(true);
+  });
+
+  it('should reject an empty or inverted period', async () => {
+    await expect(getTrialBalance(prisma, { from: to, to: from })).rejects.toMatchObject({ code: 'INVALID_RANGE' });
+  });
+});
@@ -0,0 +1,408 @@
+/**
+ * Financial reports.
+ *
+ * Accounts are grouped by their type in the chart of accounts
+ * (LedgerAccount), so reclassifying an account there changes every
+ * report. Periods are half-open: entries created at or after `from` and
+ * before `to`. Balances are credit-positive as everywhere in the ledger;
+ * reports also split them into debit and credit columns.
+ */
+
+import { PrismaClient, Prisma, LedgerEntryType, AccountType, SystemAccounts } from '@syntherium/db';
+import { LedgerError } from './errors';
+import { getBalanceBefore } from './snapshot';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+/** Order groups appear in on a trial balance */
+export const REPORT_GROUPS = [
+  AccountType.ASSET,
+  AccountType.LIABILITY,
+  AccountType.EQUITY,
+  AccountType.REVENUE,
+  AccountType.EXPENSE,
+  'UNCLASSIFIED',
+] as const;
+
+/** Accounts with entries but no registry row fall under UNCLASSIFIED */
+export type ReportGroup = (typeof REPORT_GROUPS)[number];
+
+/** Escrow debits with this reference prefix are refunds; other debits are releases */
+export const REFUND_REFERENCE_PREFIX = 'REFUND_';
+
+/** Entries a general ledger report may list; narrow the period beyond this */
+export const MAX_GENERAL_LEDGER_LINES = 10000;
+
+const GL_PAGE_SIZE = 1000;
+
+export interface ReportPeriod {
+  from: Date;
+  to: Date;
+}
+
+export interface TrialBalanceRow {
+  accountId: string;
+  description: string | null;
+  group: ReportGroup;
+  currency: string;
+  openingBalance: Prisma.Decimal;
+  debits: Prisma.Decimal;
+  credits: Prisma.Decimal;
+  closingBalance: Prisma.Decimal;
+}
+
+export interface TrialBalanceGroupTotal {
+  group: ReportGroup;
+  currency: string;
+  openingBalance: Prisma.Decimal;
+  debits: Prisma.Decimal;
+  credits: Prisma.Decimal;
+  closingBalance: Prisma.Decimal;
+}
+
+export interface TrialBalanceTotal {
+  currency: string;
+  /** Debits posted in the period */
+  debits: Prisma.Decimal;
+  /** Credits posted in the period */
+  credits: Prisma.Decimal;
+  /** Closing balances on the debit side */
+  debitBalances: Prisma.Decimal;
+  /** Closing balances on the credit side */
+  creditBalances: Prisma.Decimal;
+  /** Both pairs above are equal */
+  balanced: boolean;
+}
+
+export interface TrialBalance extends ReportPeriod {
+  rows: TrialBalanceRow[];
+  groups: TrialBalanceGroupTotal[];
+  /** One per currency; currencies are never added together */
+  totals: TrialBalanceTotal[];
+  balanced: boolean;
+}
+
+export interface GeneralLedgerLine {
+  entryId: string;
+  walletSeq: number;
+  createdAt: Date;
+  reference: string;
+  journalId: string | null;
+  description: string | null;
+  entryType: LedgerEntryType;
+  amount: Prisma.Decimal;
+  reversesEntryId: string | null;
+  /** Running balance after this entry */
+  balance: Prisma.Decimal;
+}
+
+export interface GeneralLedger extends ReportPeriod {
+  accountId: string;
+  description: string | null;
+  group: ReportGroup;
+  currency: string;
+  openingBalance: Prisma.Decimal;
+  debits: Prisma.Decimal;
+  credits: Prisma.Decimal;
+  closingBalance: Prisma.Decimal;
+  lines: GeneralLedgerLine[];
+}
+
+export interface EscrowRollForward extends ReportPeriod {
+  accountId: string;
+  currency: string;
+  openingBalance: Prisma.Decimal;
+  /** Credits received into escrow */
+  receipts: Prisma.Decimal;
+  /** Debits paid out of escrow other than refunds */
+  releases: Prisma.Decimal;
+  /** Debits refunded to customers */
+  refunds: Prisma.Decimal;
+  /** Net of reversal entries, which undo one of the above */
+  adjustments: Prisma.Decimal;
+  closingBalance: Prisma.Decimal;
+  /** opening + receipts - releases - refunds + adjustments = closing */
+  reconciles: boolean;
+}
+
+/**
+ * Opening balance, period debits and credits, and closing balance of
+ * every account with entries before the end of the period, with totals
+ * per currency that prove debits equal credits.
+ *
+ * @throws LedgerError INVALID_RANGE
+ */
+export async function getTrialBalance(
+  prisma: Client,
+  params: ReportPeriod & { currency?: string }
+): Promise<TrialBalance> {
+  const { from, to, currency } = params;
+  assertPeriod(from, to);
+
+  const where: Prisma.LedgerEntryWhereInput = currency ? { currency } : {};
+  const [before, during, accounts] = await Promise.all([
+    prisma.ledgerEntry.groupBy({
+      by: ['accountId', 'currency', 'entryType'],
+      where: { ...where, createdAt: { lt: from } },
+      _sum: { amount: true },
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ['accountId', 'currency', 'entryType'],
+      where: { ...where, createdAt: { gte: from, lt: to } },
+      _sum: { amount: true },
+    }),
+    prisma.ledgerAccount.findMany({ select: { accountId: true, description: true, type: true } }),
+  ]);
+
+  const registry = new Map(accounts.map((a) => [a.accountId, a]));
+  const rows = new Map<string, TrialBalanceRow>();
+  const zero = new Prisma.Decimal(0);
+
+  const rowFor = (accountId: string, rowCurrency: string): TrialBalanceRow => {
+    const key = `${accountId}|${rowCurrency}`;
+    let row = rows.get(key);
+    if (!row) {
+      const account = registry.get(accountId);
+      row = {
+        accountId,
+        description: account?.description ?? null,
+        group: account?.type ?? 'UNCLASSIFIED',
+        currency: rowCurrency,
+        openingBalance: zero,
+        debits: zero,
+        credits: zero,
+        closingBalance: zero,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const total of before) {
+    const row = rowFor(total.accountId, total.currency);
+    row.openingBalance = row.openingBalance.add(signed(total.entryType, total._sum.amount));
+  }
+  for (const total of during) {
+    const row = rowFor(total.accountId, total.currency);
+    const amount = total._sum.amount ?? zero;
+    if (total.entryType === LedgerEntryType.CREDIT) {
+      row.credits = row.credits.add(amount);
+    } else {
+      row.debits = row.debits.add(amount);
+    }
+  }
+
+  const sorted = [...rows.values()].sort(
+    (a, b) =>
+      REPORT_GROUPS.indexOf(a.group) - REPORT_GROUPS.indexOf(b.group) ||
+      a.accountId.localeCompare(b.accountId) ||
+      a.currency.localeCompare(b.currency)
+  );
+
+  const groups = new Map<string, TrialBalanceGroupTotal>();
+  const totals = new Map<string, TrialBalanceTotal>();
+
+  for (const row of sorted) {
+    row.closingBalance = row.openingBalance.add(row.credits).sub(row.debits);
+
+    const groupKey = `${row.group}|${row.currency}`;
+    const group = groups.get(groupKey) ?? {
+      group: row.group,
+      currency: row.currency,
+      openingBalance: zero,
+      debits: zero,
+      credits: zero,
+      closingBalance: zero,
+    };
+    group.openingBalance = group.openingBalance.add(row.openingBalance);
+    group.debits = group.debits.add(row.debits);
+    group.credits = group.credits.add(row.credits);
+    group.closingBalance = group.closingBalance.add(row.closingBalance);
+    groups.set(groupKey, group);
+
+    const total = totals.get(row.currency) ?? {
+      currency: row.currency,
+      debits: zero,
+      credits: zero,
+      debitBalances: zero,
+      creditBalances: zero,
+      balanced: false,
+    };
+    total.debits = total.debits.add(row.debits);
+    total.credits = total.credits.add(row.credits);
+    if (row.closingBalance.isNegative()) {
+      total.debitBalances = total.debitBalances.sub(row.closingBalance);
+    } else {
+      total.creditBalances = total.creditBalances.add(row.closingBalance);
+    }
+    totals.set(row.currency, total);
+  }
+
+  const currencyTotals = [...totals.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+  for (const total of currencyTotals) {
+    total.balanced = total.debits.equals(total.credits) && total.debitBalances.equals(total.creditBalances);
+  }
+
+  return {
+    from,
+    to,
+    rows: sorted,
+    groups: [...groups.values()],
+    totals: currencyTotals,
+    balanced: currencyTotals.every((t) => t.balanced),
+  };
+}
+
+/**
+ * Every entry posted to one account in a period, with its running
+ * balance between the opening and closing balances.
+ *
+ * @throws LedgerError ACCOUNT_NOT_FOUND, INVALID_RANGE, REPORT_TOO_LARGE
+ */
+export async function getGeneralLedger(
+  prisma: Client,
+  accountId: string,
+  params: ReportPeriod
+): Promise<GeneralLedger> {
+  const { from, to } = params;
+  assertPeriod(from, to);
+
+  const account = await prisma.ledgerAccount.findUnique({ where: { accountId } });
+  if (!account) {
+    throw new LedgerError('ACCOUNT_NOT_FOUND', `Unknown ledger account: ${accountId}`, { accountId });
+  }
+
+  const where: Prisma.LedgerEntryWhereInput = { accountId, createdAt: { gte: from, lt: to } };
+  const count = await prisma.ledgerEntry.count({ where });
+  if (count > MAX_GENERAL_LEDGER_LINES) {
+    throw new LedgerError(
+      'REPORT_TOO_LARGE',
+      `${accountId} has ${count} entries in the period; at most ${MAX_GENERAL_LEDGER_LINES} can be listed`,
+      { accountId, entries: count, maxEntries: MAX_GENERAL_LEDGER_LINES }
+    );
+  }
+
+  const opening = await getBalanceBefore(prisma, accountId, account.currency, from);
+  const lines: GeneralLedgerLine[] = [];
+  let balance = opening.balance;
+  let debits = new Prisma.Decimal(0);
+  let credits = new Prisma.Decimal(0);
+  let afterSeq = 0;
+
+  for (;;) {
+    const entries = await prisma.ledgerEntry.findMany({
+      where: { ...where, walletSeq: { gt: afterSeq } },
+      orderBy: { walletSeq: 'asc' },
+      take: GL_PAGE_SIZE,
+    });
+
+    for (const entry of entries) {
+      balance = balance.add(signed(entry.entryType, entry.amount));
+      if (entry.entryType === LedgerEntryType.CREDIT) {
+        credits = credits.add(entry.amount);
+      } else {
+        debits = debits.add(entry.amount);
+      }
+
+      lines.push({
+        entryId: entry.id,
+        walletSeq: entry.walletSeq,
+        createdAt: entry.createdAt,
+        reference: entry.reference,
+        journalId: entry.journalId,
+        description: entry.description,
+        entryType: entry.entryType,
+        amount: entry.amount,
+        reversesEntryId: entry.reversesEntryId,
+        balance,
+      });
+    }
+
+    if (entries.length < GL_PAGE_SIZE) {
+      break;
+    }
+    afterSeq = entries[entries.length - 1].walletSeq;
+  }
+
+  return {
+    accountId,
+    description: account.description,
+    group: account.type,
+    currency: account.currency,
+    from,
+    to,
+    openingBalance: opening.balance,
+    debits,
+    credits,
+    closingBalance: balance,
+    lines,
+  };
+}
+
+/**
+ * Escrow balance movement over a period: receipts in, releases and
+ * refunds out, and reversals of any of them as adjustments.
+ *
+ * @param accountId - Escrow account (default PLATFORM_ESCROW)
+ * @throws LedgerError ACCOUNT_NOT_FOUND, INVALID_RANGE
+ */
+export async function getEscrowRollForward(
+  prisma: Client,
+  params: ReportPeriod & { accountId?: string }
+): Promise<EscrowRollForward> {
+  const { from, to } = params;
+  const accountId = params.accountId ?? SystemAccounts.PLATFORM_ESCROW;
+  assertPeriod(from, to);
+
+  const account = await prisma.ledgerAccount.findUnique({ where: { accountId } });
+  if (!account) {
+    throw new LedgerError('ACCOUNT_NOT_FOUND', `Unknown ledger account: ${accountId}`, { accountId });
+  }
+
+  const period: Prisma.LedgerEntryWhereInput = { accountId, createdAt: { gte: from, lt: to } };
+  const sum = async (where: Prisma.LedgerEntryWhereInput) => {
+    const result = await prisma.ledgerEntry.aggregate({ where: { ...period, ...where }, _sum: { amount: true } });
+    return result._sum.amount ?? new Prisma.Decimal(0);
+  };
+
+  const [opening, closing, receipts, refunds, releases, reversalCredits, reversalDebits] = await Promise.all([
+    getBalanceBefore(prisma, accountId, account.currency, from),
+    getBalanceBefore(prisma, accountId, account.currency, to),
+    sum({ entryType: LedgerEntryType.CREDIT, reversesEntryId: null }),
+    sum({ entryType: LedgerEntryType.DEBIT, reversesEntryId: null, reference: { startsWith: REFUND_REFERENCE_PREFIX } }),
+    sum({ entryType: LedgerEntryType.DEBIT, reversesEntryId: null, NOT: { reference: { startsWith: REFUND_REFERENCE_PREFIX } } }),
+    sum({ entryType: LedgerEntryType.CREDIT, reversesEntryId: { not: null } }),
+    sum({ entryType: LedgerEntryType.DEBIT, reversesEntryId: { not: null } }),
+  ]);
+
+  const adjustments = reversalCredits.sub(reversalDebits);
+  const expected = opening.balance.add(receipts).sub(releases).sub(refunds).add(adjustments);
+
+  return {
+    accountId,
+    currency: account.currency,
+    from,
+    to,
+    openingBalance: opening.balance,
+    receipts,
+    releases,
+    refunds,
+    adjustments,
+    closingBalance: closing.balance,
+    reconciles: expected.equals(closing.balance),
+  };
+}
+
+function signed(entryType: LedgerEntryType, amount: Prisma.Decimal | null): Prisma.Decimal {
+  const value = amount ?? new Prisma.Decimal(0);
+  return entryType === LedgerEntryType.CREDIT ? value : value.negated();
+}
+
+function assertPeriod(from: Date, to: Date): void {
+  if (from >= to) {
+    throw new LedgerError('INVALID_RANGE', 'from must be before to', {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+  }
+}
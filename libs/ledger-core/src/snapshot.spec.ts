@@ -0,0 +1,191 @@
+/**
+ * Historical Balance Unit Tests
+ *
+ * Tests for:
+ * - UTC day and week alignment
+ * - Balance as of a timestamp or walletSeq, with and without snapshots
+ * - Taking daily snapshots
+ * - Bucketed balance series
+ */
+
+import { Prisma } from '@syntherium/db';
+import {
+  startOfUtcDay,
+  startOfUtcWeek,
+  getBalanceAsOf,
+  getBalanceAtSeq,
+  getBalanceSeries,
+  takeBalanceSnapshots,
+} from './snapshot';
+
+// Minimal evaluator for the filters the snapshot queries use
+function matches(row: any, where: any): boolean {
+  return Object.entries<any>(where).every(([key, condition]) => {
+    if (key === 'AND') {
+      return condition.every((c: any) => matches(row, c));
+    }
+    if (condition === undefined) {
+      return true;
+    }
+    if (condition instanceof Date || typeof condition !== 'object') {
+      return row[key] instanceof Date ? row[key].getTime() === condition.getTime() : row[key] === condition;
+    }
+    const value = row[key] instanceof Date ? row[key].getTime() : row[key];
+    const num = (v: any) => (v instanceof Date ? v.getTime() : v);
+    return (
+      (condition.gt === undefined || value > num(condition.gt)) &&
+      (condition.gte === undefined || value >= num(condition.gte)) &&
+      (condition.lt === undefined || value < num(condition.lt)) &&
+      (condition.lte === undefined || value <= num(condition.lte)) &&
+      (condition.in === undefined || condition.in.map(num).includes(value))
+    );
+  });
+}
+
+describe('UTC alignment', () => {
+  it('should align to midnight and to Monday', () => {
+    const wednesday = new Date('2024-03-27T15:30:00Z');
+
+    expect(startOfUtcDay(wednesday).toISOString()).toBe('2024-03-27T00:00:00.000Z');
+    expect(startOfUtcWeek(wednesday).toISOString()).toBe('2024-03-25T00:00:00.000Z');
+    expect(startOfUtcWeek(new Date('2024-03-31T23:59:00Z')).toISOString()).toBe('2024-03-25T00:00:00.000Z');
+  });
+});
+
+describe('Historical balances', () => {
+  let entries: any[];
+  let snapshots: any[];
+  let prisma: any;
+
+  const entry = (walletSeq: number, entryType: string, amount: string, createdAt: string) => ({
+    accountId: 'PLATFORM_ESCROW',
+    walletSeq,
+    entryType,
+    amount: new Prisma.Decimal(amount),
+    createdAt: new Date(createdAt),
+  });
+
+  beforeEach(() => {
+    entries = [
+      entry(1, 'CREDIT', '1000.0000', '2024-03-30T09:00:00Z'),
+      entry(2, 'CREDIT', '500.0000', '2024-03-31T12:00:00Z'),
+      entry(3, 'DEBIT', '200.0000', '2024-03-31T23:59:00Z'),
+      entry(4, 'CREDIT', '50.0000', '2024-04-01T08:00:00Z'),
+      entry(5, 'DEBIT', '300.0000', '2024-04-03T10:00:00Z'),
+    ];
+    snapshots = [];
+
+    prisma = {
+      walletBalanceCache: {
+        findUnique: jest.fn(async ({ where }: any) =>
+          where.accountId === 'PLATFORM_ESCROW' ? { currency: 'NGN', lastEntrySeq: entries.length } : null
+        ),
+        findMany: jest.fn(async ({ cursor }: any) =>
+          cursor ? [] : [{ accountId: 'PLATFORM_ESCROW', currency: 'NGN' }]
+        ),
+      },
+      ledgerEntry: {
+        groupBy: jest.fn(async ({ where }: any) => {
+          const rows = entries.filter((e) => matches(e, where));
+          return ['CREDIT', 'DEBIT']
+            .map((entryType) => rows.filter((e) => e.entryType === entryType))
+            .filter((group) => group.length > 0)
+            .map((group) => ({
+              entryType: group[0].entryType,
+              _sum: { amount: group.reduce((sum, e) => sum.add(e.amount), new Prisma.Decimal(0)) },
+              _max: { walletSeq: Math.max(...group.map((e) => e.walletSeq)) },
+            }));
+        }),
+      },
+      walletBalanceSnapshot: {
+        findFirst: jest.fn(async ({ where, orderBy }: any) => {
+          const key = Object.keys(orderBy)[0];
+          const sorted = snapshots
+            .filter((s) => matches(s, where))
+            .sort((a, b) => (b[key] > a[key] ? 1 : -1));
+          return sorted[0] ?? null;
+        }),
+        findMany: jest.fn(async ({ where }: any) => snapshots.filter((s) => matches(s, where))),
+        createMany: jest.fn(async ({ data }: any) => {
+          snapshots.push(...data);
+          return { count: data.length };
+        }),
+      },
+    };
+  });
+
+  it('should sum entries up to a timestamp when there are no snapshots', async () => {
+    const result = await getBalanceAsOf(prisma, 'PLATFORM_ESCROW', new Date('2024-03-31T23:59:00Z'));
+
+    expect(result.balance.toString()).toBe('1300');
+    expect(result.lastEntrySeq).toBe(3);
+    expect(result.snapshotAt).toBeNull();
+  });
+
+  it('should give the same answer starting from a snapshot', async () => {
+    await takeBalanceSnapshots(prisma, new Date('2024-04-01T00:00:00Z'));
+
+    const result = await getBalanceAsOf(prisma, 'PLATFORM_ESCROW', new Date('2024-04-02T00:00:00Z'));
+
+    expect(result.balance.toString()).toBe('1350');
+    expect(result.lastEntrySeq).toBe(4);
+    expect(result.snapshotAt?.toISOString()).toBe('2024-04-01T00:00:00.000Z');
+    expect(prisma.ledgerEntry.groupBy).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ AND: expect.arrayContaining([{ walletSeq: { gt: 3 } }]) }),
+      })
+    );
+  });
+
+  it('should report the balance after a walletSeq', async () => {
+    await takeBalanceSnapshots(prisma, new Date('2024-04-01T00:00:00Z'));
+
+    expect((await getBalanceAtSeq(prisma, 'PLATFORM_ESCROW', 2)).balance.toString()).toBe('1500');
+    expect((await getBalanceAtSeq(prisma, 'PLATFORM_ESCROW', 5)).balance.toString()).toBe('1050');
+    expect((await getBalanceAtSeq(prisma, 'PLATFORM_ESCROW', 0)).balance.toString()).toBe('0');
+    await expect(getBalanceAtSeq(prisma, 'PLATFORM_ESCROW', 6)).rejects.toMatchObject({
+      code: 'WALLET_SEQ_OUT_OF_RANGE',
+    });
+  });
+
+  it('should take each snapshot once and only at a past midnight', async () => {
+    const first = await takeBalanceSnapshots(prisma, new Date('2024-04-01T00:00:00Z'));
+    prisma.walletBalanceSnapshot.findMany.mockResolvedValueOnce([{ accountId: 'PLATFORM_ESCROW' }]);
+    const second = await takeBalanceSnapshots(prisma, new Date('2024-04-01T00:00:00Z'));
+
+    expect(first.accountsSnapshotted).toBe(1);
+    expect(second.accountsSnapshotted).toBe(0);
+    expect(snapshots).toEqual([
+      expect.objectContaining({ lastEntrySeq: 3, balance: new Prisma.Decimal('1300') }),
+    ]);
+
+    await expect(takeBalanceSnapshots(prisma, new Date('2024-04-01T12:00:00Z'))).rejects.toMatchObject({
+      code: 'INVALID_SNAPSHOT_TIME',
+    });
+  });
+
+  it('should bucket closing balances by day', async () => {
+    const series = await getBalanceSeries(prisma, 'PLATFORM_ESCROW', {
+      from: new Date('2024-03-31T10:00:00Z'),
+      to: new Date('2024-04-03T00:00:00Z'),
+      interval: 'day',
+    });
+
+    expect(series.points.map((p) => [p.periodStart.toISOString().slice(0, 10), p.openingBalance.toString(), p.closingBalance.toString()]))
+      .toEqual([
+        ['2024-03-31', '1000', '1300'],
+        ['2024-04-01', '1300', '1350'],
+        ['2024-04-02', '1350', '1350'],
+      ]);
+  });
+
+  it('should refuse series that are too long', async () => {
+    await expect(
+      getBalanceSeries(prisma, 'PLATFORM_ESCROW', {
+        from: new Date('2020-01-01T00:00:00Z'),
+        to: new Date('2024-01-01T00:00:00Z'),
+        interval: 'day',
+      })
+    ).rejects.toMatchObject({ code: 'SERIES_TOO_LONG' });
+  });
+});
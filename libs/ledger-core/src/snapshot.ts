@@ -0,0 +1,358 @@
+/**
+ * Historical balances.
+ *
+ * A wallet's balance at any past moment is its closing balance at the
+ * nearest earlier daily snapshot plus the entries posted since. Snapshots
+ * are taken at UTC midnight and cover every entry created before that
+ * instant, so a query touches at most one day of entries instead of the
+ * account's whole history. Snapshots are derived data: they can be
+ * deleted and rebuilt from the ledger at any time.
+ */
+
+import { PrismaClient, Prisma, LedgerEntryType } from '@syntherium/db';
+import { LedgerError } from './errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Wallets processed per page when taking snapshots */
+const SNAPSHOT_BATCH_SIZE = 500;
+
+/**
+ * How long after midnight a day is considered closed. Entries are
+ * timestamped when written, so a transaction still in flight at midnight
+ * can commit an entry dated the previous day shortly afterwards.
+ */
+const SNAPSHOT_GRACE_MS = 5 * 60 * 1000;
+
+/** Upper bound on points in one balance series */
+export const MAX_SERIES_BUCKETS = 366;
+
+export type BalanceInterval = 'day' | 'week';
+
+export interface HistoricalBalance {
+  accountId: string;
+  balance: Prisma.Decimal;
+  currency: string;
+  /** Last entry included; 0 when the wallet had no entries yet */
+  lastEntrySeq: number;
+  /** Snapshot the figure was built from; null when summed from the first entry */
+  snapshotAt: Date | null;
+}
+
+export interface BalanceSeriesPoint {
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: Prisma.Decimal;
+  closingBalance: Prisma.Decimal;
+}
+
+export interface BalanceSeries {
+  accountId: string;
+  currency: string;
+  interval: BalanceInterval;
+  points: BalanceSeriesPoint[];
+}
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Midnight UTC at the start of the given instant's day.
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Midnight UTC on the Monday of the given instant's week.
+ */
+export function startOfUtcWeek(date: Date): Date {
+  const day = startOfUtcDay(date);
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * DAY_MS);
+}
+
+/**
+ * Latest midnight that is safe to snapshot.
+ */
+export function latestSnapshotTime(now: Date = new Date()): Date {
+  return startOfUtcDay(new Date(now.getTime() - SNAPSHOT_GRACE_MS));
+}
+
+/**
+ * Balance of a wallet as of a timestamp, including entries created at
+ * exactly that instant.
+ *
+ * @throws LedgerError WALLET_NOT_FOUND
+ */
+export async function getBalanceAsOf(
+  prisma: Client,
+  accountId: string,
+  asOf: Date
+): Promise<HistoricalBalance> {
+  const currency = await getWalletCurrency(prisma, accountId);
+
+  const snapshot = await prisma.walletBalanceSnapshot.findFirst({
+    where: { accountId, snapshotAt: { lte: asOf } },
+    orderBy: { snapshotAt: 'desc' },
+  });
+
+  return applyEntries(prisma, accountId, currency, snapshot, { createdAt: { lte: asOf } });
+}
+
+/**
+ * Balance of a wallet immediately after the entry with the given walletSeq.
+ * walletSeq 0 is the empty wallet.
+ *
+ * @throws LedgerError WALLET_NOT_FOUND, WALLET_SEQ_OUT_OF_RANGE
+ */
+export async function getBalanceAtSeq(
+  prisma: Client,
+  accountId: string,
+  walletSeq: number
+): Promise<HistoricalBalance> {
+  const wallet = await prisma.walletBalanceCache.findUnique({
+    where: { accountId },
+    select: { currency: true, lastEntrySeq: true },
+  });
+  if (!wallet) {
+    throw new LedgerError('WALLET_NOT_FOUND', `Wallet not found: ${accountId}`, { accountId });
+  }
+
+  if (!Number.isInteger(walletSeq) || walletSeq < 0 || walletSeq > wallet.lastEntrySeq) {
+    throw new LedgerError(
+      'WALLET_SEQ_OUT_OF_RANGE',
+      `walletSeq must be between 0 and ${wallet.lastEntrySeq}`,
+      { accountId, walletSeq, lastEntrySeq: wallet.lastEntrySeq }
+    );
+  }
+
+  const snapshot = await prisma.walletBalanceSnapshot.findFirst({
+    where: { accountId, lastEntrySeq: { lte: walletSeq } },
+    orderBy: { lastEntrySeq: 'desc' },
+  });
+
+  return applyEntries(prisma, accountId, wallet.currency, snapshot, { walletSeq: { lte: walletSeq } });
+}
+
+/**
+ * Closing balances of a wallet per day or week (weeks start on Monday),
+ * for charts. Periods are aligned to UTC midnight; the last period may
+ * end in the future, in which case its closing balance is the current one.
+ *
+ * @throws LedgerError WALLET_NOT_FOUND, INVALID_RANGE, SERIES_TOO_LONG
+ */
+export async function getBalanceSeries(
+  prisma: Client,
+  accountId: string,
+  params: { from: Date; to: Date; interval: BalanceInterval }
+): Promise<BalanceSeries> {
+  const { from, to, interval } = params;
+
+  if (from >= to) {
+    throw new LedgerError('INVALID_RANGE', 'from must be before to', {
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+  }
+
+  const step = interval === 'week' ? 7 * DAY_MS : DAY_MS;
+  const start = interval === 'week' ? startOfUtcWeek(from) : startOfUtcDay(from);
+
+  const boundaries: Date[] = [start];
+  while (boundaries[boundaries.length - 1] < to) {
+    if (boundaries.length > MAX_SERIES_BUCKETS) {
+      throw new LedgerError(
+        'SERIES_TOO_LONG',
+        `A series may have at most ${MAX_SERIES_BUCKETS} points`,
+        { interval, maxPoints: MAX_SERIES_BUCKETS }
+      );
+    }
+    boundaries.push(new Date(boundaries[boundaries.length - 1].getTime() + step));
+  }
+
+  const currency = await getWalletCurrency(prisma, accountId);
+
+  const snapshots = await prisma.walletBalanceSnapshot.findMany({
+    where: { accountId, snapshotAt: { in: boundaries } },
+  });
+  const snapshotByTime = new Map(snapshots.map((s) => [s.snapshotAt.getTime(), s]));
+
+  // Balance at each boundary: the snapshot when there is one, otherwise
+  // the previous boundary plus the entries created in between
+  const opening = await getBalanceBefore(prisma, accountId, currency, start);
+  const closings: Prisma.Decimal[] = [opening.balance];
+
+  for (let i = 1; i < boundaries.length; i++) {
+    const snapshot = snapshotByTime.get(boundaries[i].getTime());
+    if (snapshot) {
+      closings.push(snapshot.balance);
+      continue;
+    }
+
+    const movement = await sumEntries(prisma, accountId, {
+      createdAt: { gte: boundaries[i - 1], lt: boundaries[i] },
+    });
+    closings.push(closings[i - 1].add(movement.net));
+  }
+
+  return {
+    accountId,
+    currency,
+    interval,
+    points: boundaries.slice(1).map((periodEnd, i) => ({
+      periodStart: boundaries[i],
+      periodEnd,
+      openingBalance: closings[i],
+      closingBalance: closings[i + 1],
+    })),
+  };
+}
+
+/**
+ * Stores every wallet's closing balance at a UTC midnight. Wallets that
+ * already have a snapshot at that time, or had no entries yet, are
+ * skipped, so the call is safe to repeat. Taking snapshots in date order
+ * lets each one build on the previous day's.
+ *
+ * @param snapshotAt - UTC midnight; defaults to the latest closed day
+ * @throws LedgerError INVALID_SNAPSHOT_TIME
+ */
+export async function takeBalanceSnapshots(
+  prisma: PrismaClient,
+  snapshotAt: Date = latestSnapshotTime()
+): Promise<{ snapshotAt: Date; accountsSnapshotted: number }> {
+  if (snapshotAt.getTime() !== startOfUtcDay(snapshotAt).getTime() || snapshotAt > latestSnapshotTime()) {
+    throw new LedgerError(
+      'INVALID_SNAPSHOT_TIME',
+      'Snapshots must be taken at a UTC midnight that has already passed',
+      { snapshotAt: snapshotAt.toISOString() }
+    );
+  }
+
+  let accountsSnapshotted = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const wallets = await prisma.walletBalanceCache.findMany({
+      orderBy: { accountId: 'asc' },
+      select: { accountId: true, currency: true },
+      take: SNAPSHOT_BATCH_SIZE,
+      ...(cursor && { cursor: { accountId: cursor }, skip: 1 }),
+    });
+    if (wallets.length === 0) {
+      break;
+    }
+    cursor = wallets[wallets.length - 1].accountId;
+
+    const existing = await prisma.walletBalanceSnapshot.findMany({
+      where: { snapshotAt, accountId: { in: wallets.map((w) => w.accountId) } },
+      select: { accountId: true },
+    });
+    const done = new Set(existing.map((s) => s.accountId));
+
+    const rows: Prisma.WalletBalanceSnapshotCreateManyInput[] = [];
+    for (const wallet of wallets) {
+      if (done.has(wallet.accountId)) {
+        continue;
+      }
+
+      const closing = await getBalanceBefore(prisma, wallet.accountId, wallet.currency, snapshotAt);
+      if (closing.lastEntrySeq === 0) {
+        continue;
+      }
+
+      rows.push({
+        accountId: wallet.accountId,
+        snapshotAt,
+        balance: closing.balance,
+        currency: wallet.currency,
+        lastEntrySeq: closing.lastEntrySeq,
+      });
+    }
+
+    if (rows.length > 0) {
+      const created = await prisma.walletBalanceSnapshot.createMany({ data: rows, skipDuplicates: true });
+      accountsSnapshotted += created.count;
+    }
+  }
+
+  return { snapshotAt, accountsSnapshotted };
+}
+
+async function getWalletCurrency(prisma: Client, accountId: string): Promise<string> {
+  const wallet = await prisma.walletBalanceCache.findUnique({
+    where: { accountId },
+    select: { currency: true },
+  });
+  if (!wallet) {
+    throw new LedgerError('WALLET_NOT_FOUND', `Wallet not found: ${accountId}`, { accountId });
+  }
+  return wallet.currency;
+}
+
+/**
+ * Balance from entries created strictly before an instant, i.e. the
+ * opening balance of a period starting then.
+ */
+export async function getBalanceBefore(
+  prisma: Client,
+  accountId: string,
+  currency: string,
+  before: Date
+): Promise<HistoricalBalance> {
+  const snapshot = await prisma.walletBalanceSnapshot.findFirst({
+    where: { accountId, snapshotAt: { lte: before } },
+    orderBy: { snapshotAt: 'desc' },
+  });
+
+  return applyEntries(prisma, accountId, currency, snapshot, { createdAt: { lt: before } });
+}
+
+/**
+ * Adds the entries matching `where` that come after the snapshot (or
+ * all of them when there is none) to the snapshot balance.
+ */
+async function applyEntries(
+  prisma: Client,
+  accountId: string,
+  currency: string,
+  snapshot: { balance: Prisma.Decimal; lastEntrySeq: number; snapshotAt: Date } | null,
+  where: Prisma.LedgerEntryWhereInput
+): Promise<HistoricalBalance> {
+  const fromSeq = snapshot?.lastEntrySeq ?? 0;
+  const movement = await sumEntries(prisma, accountId, {
+    AND: [where, { walletSeq: { gt: fromSeq } }],
+  });
+
+  return {
+    accountId,
+    balance: (snapshot?.balance ?? new Prisma.Decimal(0)).add(movement.net),
+    currency,
+    lastEntrySeq: Math.max(fromSeq, movement.lastEntrySeq),
+    snapshotAt: snapshot?.snapshotAt ?? null,
+  };
+}
+
+async function sumEntries(
+  prisma: Client,
+  accountId: string,
+  where: Prisma.LedgerEntryWhereInput
+): Promise<{ net: Prisma.Decimal; lastEntrySeq: number }> {
+  const totals = await prisma.ledgerEntry.groupBy({
+    by: ['entryType'],
+    where: { accountId, ...where },
+    _sum: { amount: true },
+    _max: { walletSeq: true },
+  });
+
+  let net = new Prisma.Decimal(0);
+  let lastEntrySeq = 0;
+
+  for (const total of totals) {
+    const amount = total._sum.amount ?? new Prisma.Decimal(0);
+    net = total.entryType === LedgerEntryType.CREDIT ? net.add(amount) : net.sub(amount);
+    lastEntrySeq = Math.max(lastEntrySeq, total._max.walletSeq ?? 0);
+  }
+
+  return { net, lastEntrySeq };
+}
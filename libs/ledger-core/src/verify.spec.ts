@@ -0,0 +1,189 @@
+/**
+ * Streaming Chain Verification Unit Tests
+ *
+ * Tests for:
+ * - Paged verification with constant page size
+ * - Progress reporting and resuming from a saved position
+ * - Tamper detection across page boundaries
+ * - Balance recomputation in the database
+ * - Balance cache drift detection
+ */
+
+import { Prisma } from '@syntherium/db';
+import { computeEntryHash } from './hash';
+import {
+  streamVerifyChain,
+  verifyChain,
+  recomputeBalance,
+  checkBalanceCaches,
+  ChainVerifyPosition,
+} from './verify';
+
+describe('streamVerifyChain', () => {
+  let entries: any[];
+  let prisma: any;
+
+  beforeEach(() => {
+    entries = [];
+    let prevHash: string | null = null;
+    for (let seq = 1; seq <= 25; seq++) {
+      const entryHash = computeEntryHash(prevHash, 'PLATFORM_ESCROW', seq, `ORDER_${seq}`, 'CREDIT', '100.0000', null);
+      entries.push({
+        accountId: 'PLATFORM_ESCROW',
+        walletSeq: seq,
+        reference: `ORDER_${seq}`,
+        entryType: 'CREDIT',
+        amount: { toString: () => '100.0000' },
+        currency: 'NGN',
+        description: null,
+        prevHash,
+        entryHash,
+      });
+      prevHash = entryHash;
+    }
+
+    prisma = {
+      ledgerEntry: {
+        findFirst: jest.fn(async ({ where }: any) => entries.find((e) => e.walletSeq === where.walletSeq) ?? null),
+        findMany: jest.fn(async ({ where, take }: any) =>
+          entries
+            .filter((e) => e.walletSeq > where.walletSeq.gt && (where.walletSeq.lte === undefined || e.walletSeq <= where.walletSeq.lte))
+            .slice(0, take)
+        ),
+        groupBy: jest.fn(async () => [
+          { entryType: 'CREDIT', _sum: { amount: new Prisma.Decimal('2500.0000') } },
+          { entryType: 'DEBIT', _sum: { amount: new Prisma.Decimal('400.0000') } },
+        ]),
+      },
+    };
+  });
+
+  it('should read entries in pages of the requested size', async () => {
+    const progress: number[] = [];
+
+    const result = await streamVerifyChain(prisma, 'PLATFORM_ESCROW', {
+      pageSize: 10,
+      onProgress: (position) => {
+        progress.push(position.walletSeq);
+      },
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.entriesVerified).toBe(25);
+    expect(progress).toEqual([10, 20, 25]);
+    expect(prisma.ledgerEntry.findMany.mock.calls.every(([args]: any[]) => args.take === 10)).toBe(true);
+  });
+
+  it('should resume from a saved position without rereading earlier entries', async () => {
+    const saved: ChainVerifyPosition = { walletSeq: 20, entryHash: entries[19].entryHash, entriesVerified: 20 };
+
+    const result = await streamVerifyChain(prisma, 'PLATFORM_ESCROW', { pageSize: 10, resumeFrom: saved });
+
+    expect(result.valid).toBe(true);
+    expect(result.entriesVerified).toBe(25);
+    expect(prisma.ledgerEntry.findMany.mock.calls[0][0].where.walletSeq.gt).toBe(20);
+  });
+
+  it('should not trust a resume position that does not match the chain', async () => {
+    const saved: ChainVerifyPosition = { walletSeq: 20, entryHash: 'f'.repeat(64), entriesVerified: 20 };
+
+    const result = await streamVerifyChain(prisma, 'PLATFORM_ESCROW', { pageSize: 10, resumeFrom: saved });
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenAtSeq).toBe(21);
+  });
+
+  it('should detect tampering in a later page and report the last good entry', async () => {
+    entries[14].amount = { toString: () => '1000.0000' };
+
+    const result = await streamVerifyChain(prisma, 'PLATFORM_ESCROW', { pageSize: 10 });
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenAtSeq).toBe(15);
+    expect(result.entriesVerified).toBe(14);
+    expect(result.lastVerified?.walletSeq).toBe(14);
+  });
+
+  it('should keep the verifyChain result shape', async () => {
+    const result = await verifyChain(prisma, 'PLATFORM_ESCROW', 5, 12);
+
+    expect(result).toEqual({
+      accountId: 'PLATFORM_ESCROW',
+      valid: true,
+      entriesVerified: 8,
+      message: 'Chain integrity verified',
+    });
+  });
+
+  it('should recompute the balance from database totals', async () => {
+    const balance = await recomputeBalance(prisma, 'PLATFORM_ESCROW');
+
+    expect(balance.toString()).toBe('2100');
+    expect(prisma.ledgerEntry.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkBalanceCaches', () => {
+  let caches: any[];
+  let prisma: any;
+
+  beforeEach(() => {
+    caches = [
+      {
+        accountId: 'VENDOR_1',
+        balance: new Prisma.Decimal('700.0000'),
+        lastEntrySeq: 3,
+        heldAmount: new Prisma.Decimal('100.0000'),
+      },
+    ];
+
+    prisma = {
+      walletBalanceCache: {
+        findMany: jest.fn(async ({ where }: any) => caches.filter((c) => where.accountId.in.includes(c.accountId))),
+      },
+      ledgerEntry: {
+        groupBy: jest.fn(async () => [
+          { accountId: 'VENDOR_1', entryType: 'CREDIT', _sum: { amount: new Prisma.Decimal('1000.0000') }, _max: { walletSeq: 2 } },
+          { accountId: 'VENDOR_1', entryType: 'DEBIT', _sum: { amount: new Prisma.Decimal('300.0000') }, _max: { walletSeq: 3 } },
+          { accountId: 'VENDOR_2', entryType: 'CREDIT', _sum: { amount: new Prisma.Decimal('50.0000') }, _max: { walletSeq: 1 } },
+        ]),
+      },
+      walletHold: {
+        groupBy: jest.fn(async () => [{ accountId: 'VENDOR_1', _sum: { amount: new Prisma.Decimal('100.0000') } }]),
+      },
+    };
+  });
+
+  it('should pass a cache row that matches the ledger', async () => {
+    const [check] = await checkBalanceCaches(prisma, ['VENDOR_1']);
+
+    expect(check.valid).toBe(true);
+    expect(check.mismatches).toEqual([]);
+    expect(check.expected).toEqual({ balance: '700', lastEntrySeq: 3, heldAmount: '100' });
+  });
+
+  it('should report each drifted field', async () => {
+    caches[0].balance = new Prisma.Decimal('900.0000');
+    caches[0].lastEntrySeq = 2;
+
+    const [check] = await checkBalanceCaches(prisma, ['VENDOR_1']);
+
+    expect(check.valid).toBe(false);
+    expect(check.mismatches).toEqual(['balance', 'lastEntrySeq']);
+    expect(check.cached?.balance).toBe('900');
+  });
+
+  it('should report wallets with entries but no cache row and skip unknown wallets', async () => {
+    const checks = await checkBalanceCaches(prisma, ['VENDOR_2', 'UNKNOWN']);
+
+    expect(checks).toEqual([
+      {
+        accountId: 'VENDOR_2',
+        valid: false,
+        cached: null,
+        expected: { balance: '50', lastEntrySeq: 1, heldAmount: '0' },
+        mismatches: ['missing'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,465 @@
+/**
+ * Hash chain and balance cache verification.
+ *
+ * Entries are read in fixed-size pages keyed on walletSeq, so memory use
+ * does not grow with the account. The verifier reports its position
+ * after every page; a caller that persists that position can resume an
+ * interrupted run from it instead of starting over.
+ *
+ * Balance cache checks compare each WalletBalanceCache row with totals
+ * computed in the database from the entries and holds it summarizes.
+ */
+
+import { PrismaClient, Prisma, LedgerEntryType, WalletHoldStatus } from '@syntherium/db';
+import { computeEntryHash } from './hash';
+
+/** Entries read per page */
+export const VERIFY_PAGE_SIZE = 1000;
+
+/** Wallets checked per snapshot transaction when scanning the cache */
+const CACHE_SCAN_BATCH_SIZE = 500;
+
+/**
+ * A trusted chain head to verify from instead of genesis.
+ */
+export interface ChainAnchor {
+  walletSeq: number;
+  entryHash: string;
+}
+
+export interface VerifyChainResult {
+  accountId: string;
+  valid: boolean;
+  entriesVerified: number;
+  brokenAtSeq?: number;
+  expectedHash?: string;
+  actualHash?: string;
+  message: string;
+}
+
+export type BalanceCacheField = 'missing' | 'balance' | 'lastEntrySeq' | 'heldAmount';
+
+export interface BalanceCacheFigures {
+  balance: string;
+  lastEntrySeq: number;
+  heldAmount: string;
+}
+
+/**
+ * A wallet's cached figures compared with those derived from the ledger.
+ */
+export interface BalanceCacheCheck {
+  accountId: string;
+  valid: boolean;
+  /** null when the wallet has entries but no cache row */
+  cached: BalanceCacheFigures | null;
+  expected: BalanceCacheFigures;
+  mismatches: BalanceCacheField[];
+}
+
+/**
+ * Position of a verification run: the last entry verified so far.
+ */
+export interface ChainVerifyPosition {
+  walletSeq: number;
+  entryHash: string;
+  /** Entries verified since the run started, including earlier attempts */
+  entriesVerified: number;
+}
+
+export interface StreamVerifyChainOptions {
+  /** Start sequence (default: 1, ignored with an anchor or resumeFrom) */
+  fromSeq?: number;
+  /** End sequence (default: latest) */
+  toSeq?: number;
+  /** Trusted chain head to start from */
+  anchor?: ChainAnchor;
+  /** Position saved by an interrupted run; verification continues after it */
+  resumeFrom?: ChainVerifyPosition;
+  pageSize?: number;
+  /** Called after each page, e.g. to persist progress */
+  onProgress?: (position: ChainVerifyPosition) => Promise<void> | void;
+  /** Called with each page of entries once they have verified */
+  onEntries?: (entries: { walletSeq: number; entryHash: string }[]) => Promise<void> | void;
+}
+
+/**
+ * Verifies the hash chain integrity for an account.
+ *
+ * Recomputes all hashes from the beginning and compares
+ * against stored hashes to detect tampering.
+ *
+ * With an anchor (a trusted chain head, e.g. from a signed checkpoint)
+ * verification starts at the anchor entry instead of genesis: the entry
+ * at anchor.walletSeq must still hash to anchor.entryHash, and every
+ * later entry must chain from it.
+ *
+ * @param prisma - Prisma client
+ * @param accountId - Account to verify
+ * @param fromSeq - Start sequence (default: 1, ignored with an anchor)
+ * @param toSeq - End sequence (default: latest)
+ * @param anchor - Trusted chain head to start from
+ * @returns Verification result
+ */
+export async function verifyChain(
+  prisma: PrismaClient,
+  accountId: string,
+  fromSeq?: number,
+  toSeq?: number,
+  anchor?: ChainAnchor
+): Promise<VerifyChainResult> {
+  const { lastVerified, ...result } = await streamVerifyChain(prisma, accountId, { fromSeq, toSeq, anchor });
+  return result;
+}
+
+/**
+ * Verifies an account's hash chain page by page.
+ *
+ * @returns Verification result and the last entry verified
+ */
+export async function streamVerifyChain(
+  prisma: PrismaClient,
+  accountId: string,
+  options: StreamVerifyChainOptions = {}
+): Promise<VerifyChainResult & { lastVerified: ChainVerifyPosition | null }> {
+  const { fromSeq, toSeq, anchor, resumeFrom, onProgress, onEntries } = options;
+  const pageSize = options.pageSize ?? VERIFY_PAGE_SIZE;
+
+  let prevHash: string | null = null;
+  let afterSeq: number;
+  let entriesVerified = 0;
+  let lastVerified: ChainVerifyPosition | null = null;
+
+  if (resumeFrom) {
+    prevHash = resumeFrom.entryHash;
+    afterSeq = resumeFrom.walletSeq;
+    entriesVerified = resumeFrom.entriesVerified;
+    lastVerified = resumeFrom;
+  } else if (anchor) {
+    const anchorEntry = await prisma.ledgerEntry.findFirst({
+      where: { accountId, walletSeq: anchor.walletSeq },
+    });
+
+    if (!anchorEntry) {
+      return {
+        accountId,
+        valid: false,
+        entriesVerified: 0,
+        brokenAtSeq: anchor.walletSeq,
+        expectedHash: anchor.entryHash,
+        message: `Anchor entry missing at sequence ${anchor.walletSeq}`,
+        lastVerified: null,
+      };
+    }
+
+    if (anchorEntry.entryHash !== anchor.entryHash) {
+      return {
+        accountId,
+        valid: false,
+        entriesVerified: 0,
+        brokenAtSeq: anchor.walletSeq,
+        expectedHash: anchor.entryHash,
+        actualHash: anchorEntry.entryHash,
+        message: `Anchor hash mismatch at sequence ${anchor.walletSeq}`,
+        lastVerified: null,
+      };
+    }
+
+    // The anchor hash commits to the anchor entry's prevHash
+    prevHash = anchorEntry.prevHash;
+    afterSeq = anchor.walletSeq - 1;
+  } else {
+    afterSeq = (fromSeq ?? 1) - 1;
+
+    if (afterSeq > 0) {
+      // If starting from a sequence > 1, get the previous entry's hash
+      const prevEntry = await prisma.ledgerEntry.findFirst({
+        where: { accountId, walletSeq: afterSeq },
+      });
+      prevHash = prevEntry?.entryHash ?? null;
+    }
+  }
+
+  for (;;) {
+    const entries = await prisma.ledgerEntry.findMany({
+      where: {
+        accountId,
+        walletSeq: {
+          gt: afterSeq,
+          ...(toSeq !== undefined && { lte: toSeq }),
+        },
+      },
+      orderBy: { walletSeq: 'asc' },
+      take: pageSize,
+    });
+
+    for (const entry of entries) {
+      const expectedHash = computeEntryHash(
+        prevHash,
+        entry.accountId,
+        entry.walletSeq,
+        entry.reference,
+        entry.entryType,
+        entry.amount.toString(),
+        entry.description,
+        entry.currency,
+        entry.reversesEntryId
+      );
+
+      if (expectedHash !== entry.entryHash) {
+        return {
+          accountId,
+          valid: false,
+          entriesVerified,
+          brokenAtSeq: entry.walletSeq,
+          expectedHash,
+          actualHash: entry.entryHash,
+          message: `Chain broken at sequence ${entry.walletSeq}`,
+          lastVerified,
+        };
+      }
+
+      // Verify prevHash linkage
+      if (entry.prevHash !== prevHash) {
+        return {
+          accountId,
+          valid: false,
+          entriesVerified,
+          brokenAtSeq: entry.walletSeq,
+          expectedHash: prevHash ?? 'null',
+          actualHash: entry.prevHash ?? 'null',
+          message: `Previous hash mismatch at sequence ${entry.walletSeq}`,
+          lastVerified,
+        };
+      }
+
+      prevHash = entry.entryHash;
+      entriesVerified++;
+      lastVerified = { walletSeq: entry.walletSeq, entryHash: entry.entryHash, entriesVerified };
+    }
+
+    if (entries.length > 0 && onEntries) {
+      await onEntries(entries);
+    }
+
+    if (entries.length > 0 && onProgress && lastVerified) {
+      await onProgress(lastVerified);
+    }
+
+    if (entries.length < pageSize) {
+      break;
+    }
+    afterSeq = entries[entries.length - 1].walletSeq;
+  }
+
+  if (entriesVerified === 0) {
+    return {
+      accountId,
+      valid: true,
+      entriesVerified: 0,
+      message: 'No entries found for account',
+      lastVerified,
+    };
+  }
+
+  return {
+    accountId,
+    valid: true,
+    entriesVerified,
+    message: anchor && !resumeFrom
+      ? `Chain integrity verified from anchor at sequence ${anchor.walletSeq}`
+      : 'Chain integrity verified',
+    lastVerified,
+  };
+}
+
+/**
+ * Recomputes balance from ledger entries (for verification).
+ * Should match cached balance. Summed in the database, so memory use
+ * does not depend on the number of entries.
+ */
+export async function recomputeBalance(
+  prisma: PrismaClient,
+  accountId: string
+): Promise<Prisma.Decimal> {
+  const totals = await prisma.ledgerEntry.groupBy({
+    by: ['entryType'],
+    where: { accountId },
+    _sum: { amount: true },
+  });
+
+  let balance = new Prisma.Decimal(0);
+
+  for (const total of totals) {
+    const amount = total._sum.amount ?? 0;
+    if (total.entryType === LedgerEntryType.CREDIT) {
+      balance = balance.add(amount);
+    } else {
+      balance = balance.sub(amount);
+    }
+  }
+
+  return balance;
+}
+
+/**
+ * Compares cache rows with the ledger for a set of wallets. Accounts
+ * with neither a cache row nor entries are left out.
+ *
+ * Run inside a RepeatableRead transaction so the cache and the entries
+ * are read from the same snapshot; otherwise a concurrent posting can
+ * show up as a false mismatch.
+ */
+export async function checkBalanceCaches(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  accountIds: string[]
+): Promise<BalanceCacheCheck[]> {
+  if (accountIds.length === 0) {
+    return [];
+  }
+
+  const [caches, totals, holds] = await Promise.all([
+    prisma.walletBalanceCache.findMany({ where: { accountId: { in: accountIds } } }),
+    prisma.ledgerEntry.groupBy({
+      by: ['accountId', 'entryType'],
+      where: { accountId: { in: accountIds } },
+      _sum: { amount: true },
+      _max: { walletSeq: true },
+    }),
+    prisma.walletHold.groupBy({
+      by: ['accountId'],
+      where: { accountId: { in: accountIds }, status: WalletHoldStatus.ACTIVE },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const cacheById = new Map(caches.map((c) => [c.accountId, c]));
+  const heldById = new Map(holds.map((h) => [h.accountId, h._sum.amount ?? new Prisma.Decimal(0)]));
+  const ledgerById = new Map<string, { balance: Prisma.Decimal; lastEntrySeq: number }>();
+
+  for (const total of totals) {
+    const current = ledgerById.get(total.accountId) ?? { balance: new Prisma.Decimal(0), lastEntrySeq: 0 };
+    const amount = total._sum.amount ?? 0;
+    current.balance = total.entryType === LedgerEntryType.CREDIT
+      ? current.balance.add(amount)
+      : current.balance.sub(amount);
+    current.lastEntrySeq = Math.max(current.lastEntrySeq, total._max.walletSeq ?? 0);
+    ledgerById.set(total.accountId, current);
+  }
+
+  const checks: BalanceCacheCheck[] = [];
+
+  for (const accountId of accountIds) {
+    const cache = cacheById.get(accountId);
+    const ledger = ledgerById.get(accountId);
+    if (!cache && !ledger) {
+      continue;
+    }
+
+    const expectedBalance = ledger?.balance ?? new Prisma.Decimal(0);
+    const expectedHeld = heldById.get(accountId) ?? new Prisma.Decimal(0);
+    const expected: BalanceCacheFigures = {
+      balance: expectedBalance.toString(),
+      lastEntrySeq: ledger?.lastEntrySeq ?? 0,
+      heldAmount: expectedHeld.toString(),
+    };
+
+    const mismatches: BalanceCacheField[] = [];
+    if (!cache) {
+      mismatches.push('missing');
+    } else {
+      if (!cache.balance.equals(expectedBalance)) {
+        mismatches.push('balance');
+      }
+      if (cache.lastEntrySeq !== expected.lastEntrySeq) {
+        mismatches.push('lastEntrySeq');
+      }
+      if (!cache.heldAmount.equals(expectedHeld)) {
+        mismatches.push('heldAmount');
+      }
+    }
+
+    checks.push({
+      accountId,
+      valid: mismatches.length === 0,
+      cached: cache
+        ? {
+            balance: cache.balance.toString(),
+            lastEntrySeq: cache.lastEntrySeq,
+            heldAmount: cache.heldAmount.toString(),
+          }
+        : null,
+      expected,
+      mismatches,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Checks every wallet's cache row against the ledger, including wallets
+ * that have entries but no cache row. Reads only.
+ *
+ * @returns Number of wallets checked and those that drifted
+ */
+export async function scanBalanceCaches(
+  prisma: PrismaClient
+): Promise<{ accountsChecked: number; drifts: BalanceCacheCheck[] }> {
+  const drifts: BalanceCacheCheck[] = [];
+  let accountsChecked = 0;
+
+  const checkBatch = async (accountIds: string[]) => {
+    const checks = await prisma.$transaction(
+      (tx) => checkBalanceCaches(tx, accountIds),
+      { isolationLevel: 'RepeatableRead' }
+    );
+    accountsChecked += checks.length;
+    drifts.push(...checks.filter((c) => !c.valid));
+  };
+
+  // Every cached wallet
+  let after: string | undefined;
+  for (;;) {
+    const wallets = await prisma.walletBalanceCache.findMany({
+      where: after ? { accountId: { gt: after } } : {},
+      orderBy: { accountId: 'asc' },
+      select: { accountId: true },
+      take: CACHE_SCAN_BATCH_SIZE,
+    });
+    if (wallets.length === 0) {
+      break;
+    }
+    await checkBatch(wallets.map((w) => w.accountId));
+    after = wallets[wallets.length - 1].accountId;
+  }
+
+  // Wallets with entries but no cache row (every such wallet has an entry at seq 1)
+  let afterEntry: string | undefined;
+  for (;;) {
+    const firstEntries = await prisma.ledgerEntry.findMany({
+      where: afterEntry ? { walletSeq: 1, accountId: { gt: afterEntry } } : { walletSeq: 1 },
+      orderBy: { accountId: 'asc' },
+      select: { accountId: true },
+      take: CACHE_SCAN_BATCH_SIZE,
+    });
+    if (firstEntries.length === 0) {
+      break;
+    }
+
+    const accountIds = firstEntries.map((e) => e.accountId);
+    const cached = await prisma.walletBalanceCache.findMany({
+      where: { accountId: { in: accountIds } },
+      select: { accountId: true },
+    });
+    const cachedIds = new Set(cached.map((c) => c.accountId));
+    const uncached = accountIds.filter((id) => !cachedIds.has(id));
+
+    if (uncached.length > 0) {
+      await checkBatch(uncached);
+    }
+    afterEntry = accountIds[accountIds.length - 1];
+  }
+
+  return { accountsChecked, drifts };
+}